@@ -10,6 +10,8 @@ import { ScheduleDayPage } from './pages/ScheduleDayPage';
 import { ProfilePage } from './pages/ProfilePage';
 import { AdminUsersPage } from './pages/AdminUsersPage';
 import { AdminBookingSettingsPage } from './pages/AdminBookingSettingsPage';
+import { AdminWeeklyLimitsPage } from './pages/AdminWeeklyLimitsPage';
+import { AdminAppointmentTypesPage } from './pages/AdminAppointmentTypesPage';
 import { AdminEmailTemplatesPage } from './pages/AdminEmailTemplatesPage';
 import { AdminScheduleConfigPage } from './pages/AdminScheduleConfigPage';
 import { ViewSchedulesPage } from './pages/ViewSchedulesPage';
@@ -17,10 +19,23 @@ import { AuthCallbackPage } from './pages/AuthCallbackPage';
 import { StudentBookingPage } from './pages/StudentBookingPage';
 import { StudentProfilePage } from './pages/StudentProfilePage';
 import { PublicCalendarPage } from './pages/PublicCalendarPage';
+import { QueueBoardPage } from './pages/QueueBoardPage';
 import { ReschedulePage } from './pages/ReschedulePage';
 import { NurseAssignmentPage } from './pages/NurseAssignmentPage';
 import { AuditLogsPage } from './pages/AuditLogsPage';
 import { CampusManagementPage } from './pages/CampusManagementPage';
+import { GroupBookingPage } from './pages/GroupBookingPage';
+import { NoShowPolicyPage } from './pages/NoShowPolicyPage';
+import { RescheduleRequestsPage } from './pages/RescheduleRequestsPage';
+import { PatientRecordPage } from './pages/PatientRecordPage';
+import { MedicalCertificatesPage } from './pages/MedicalCertificatesPage';
+import { ReferralsPage } from './pages/ReferralsPage';
+import { InventoryPage } from './pages/InventoryPage';
+import { InventoryDashboardPage } from './pages/InventoryDashboardPage';
+import { PhysicalExamCompliancePage } from './pages/PhysicalExamCompliancePage';
+import { CertificatePrintPage } from './pages/CertificatePrintPage';
+import { ReferralPrintPage } from './pages/ReferralPrintPage';
+import { CertificateVerificationPage } from './pages/CertificateVerificationPage';
 import { PrivacyPolicyPage } from './pages/PrivacyPolicyPage';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { AdminRoute } from './components/AdminRoute';
@@ -131,6 +146,9 @@ function App() {
       <Route path="/calendar" element={<PublicCalendarPage />} />
       <Route path="/privacy-policy" element={<PrivacyPolicyEntryRoute />} />
       <Route path="/view-schedules" element={<ViewSchedulesPage />} />
+      <Route path="/queue/:campusId" element={<QueueBoardPage />} />
+      <Route path="/verify" element={<CertificateVerificationPage />} />
+      <Route path="/verify/:token" element={<CertificateVerificationPage />} />
       <Route path="/auth/callback" element={<AuthCallbackPage />} />
 
       {/* Role-based redirect for /dashboard */}
@@ -197,18 +215,35 @@ function App() {
         <Route path="/schedule" element={<ClinicStaffRoute><SchedulePage /></ClinicStaffRoute>} />
         <Route path="/schedule/day/:date" element={<ClinicStaffRoute><ScheduleDayPage /></ClinicStaffRoute>} />
         <Route path="/reschedule" element={<ClinicStaffRoute><ReschedulePage /></ClinicStaffRoute>} />
+        <Route path="/reschedule-requests" element={<ClinicStaffRoute><RescheduleRequestsPage /></ClinicStaffRoute>} />
+        <Route path="/patients/:patientId" element={<ClinicStaffRoute><PatientRecordPage /></ClinicStaffRoute>} />
+        <Route path="/certificates" element={<ClinicStaffRoute><MedicalCertificatesPage /></ClinicStaffRoute>} />
+        <Route path="/referrals" element={<ClinicStaffRoute><ReferralsPage /></ClinicStaffRoute>} />
+        <Route path="/inventory" element={<ClinicStaffRoute><InventoryPage /></ClinicStaffRoute>} />
         <Route path="/profile" element={<ClinicStaffRoute><ProfilePage /></ClinicStaffRoute>} />
         <Route path="/supervisor/nurses" element={<SupervisorRoute><NurseAssignmentPage /></SupervisorRoute>} />
         <Route path="/supervisor/audit-logs" element={<SupervisorRoute><AuditLogsPage /></SupervisorRoute>} />
         <Route path="/supervisor/campuses" element={<SupervisorRoute><CampusManagementPage /></SupervisorRoute>} />
+        <Route path="/supervisor/group-booking" element={<SupervisorRoute><GroupBookingPage /></SupervisorRoute>} />
+        <Route path="/supervisor/no-show-policy" element={<SupervisorRoute><NoShowPolicyPage /></SupervisorRoute>} />
+        <Route path="/supervisor/inventory" element={<SupervisorRoute><InventoryDashboardPage /></SupervisorRoute>} />
+        <Route path="/supervisor/physical-exams" element={<SupervisorRoute><PhysicalExamCompliancePage /></SupervisorRoute>} />
         <Route path="/admin" element={<AdminRoute><AdminUsersPage /></AdminRoute>} />
         <Route path="/admin/booking-settings" element={<AdminRoute><AdminBookingSettingsPage /></AdminRoute>} />
+        <Route path="/admin/weekly-limits" element={<AdminRoute><AdminWeeklyLimitsPage /></AdminRoute>} />
+        <Route path="/admin/appointment-types" element={<AdminRoute><AdminAppointmentTypesPage /></AdminRoute>} />
         <Route path="/admin/email-templates" element={<AdminRoute><AdminEmailTemplatesPage /></AdminRoute>} />
         <Route path="/admin/schedule-config" element={<AdminRoute><AdminScheduleConfigPage /></AdminRoute>} />
         <Route path="/admin/campuses" element={<AdminRoute><CampusManagementPage /></AdminRoute>} />
         <Route path="/app/privacy-policy" element={<ClinicStaffRoute><PrivacyPolicyPage embedded /></ClinicStaffRoute>} />
       </Route>
 
+      {/* Certificate print view — standalone page, no sidebar */}
+      <Route path="/certificates/:certificateId/print" element={<ClinicStaffRoute><CertificatePrintPage /></ClinicStaffRoute>} />
+
+      {/* Referral letter print view — standalone page, no sidebar */}
+      <Route path="/referrals/:referralId/print" element={<ClinicStaffRoute><ReferralPrintPage /></ClinicStaffRoute>} />
+
       {/* HR Dashboard — standalone page, no sidebar */}
       <Route path="/hr/dashboard" element={<HRRoute><HRDashboardPage /></HRRoute>} />
       <Route path="/hr/privacy-policy" element={<HRRoute><PrivacyPolicyPage /></HRRoute>} />
@@ -1,6 +1,6 @@
 import { NavLink, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { FaHome, FaCalendarAlt, FaUser, FaHistory, FaCog, FaSignOutAlt, FaUserNurse, FaClipboardList, FaUsers, FaEnvelope, FaCalendarCheck, FaBuilding } from 'react-icons/fa';
+import { FaHome, FaCalendarAlt, FaUser, FaHistory, FaCog, FaSignOutAlt, FaUserNurse, FaClipboardList, FaUsers, FaEnvelope, FaCalendarCheck, FaBuilding, FaCalendarWeek, FaUserFriends, FaUserTimes, FaExchangeAlt, FaFileMedical, FaTags, FaBoxes, FaExclamationTriangle, FaHospital, FaClipboardCheck } from 'react-icons/fa';
 import { useState } from 'react';
 import { useAuthStore } from '~/modules/auth';
 import { LogoutModal } from '~/components/modals/LogoutModal';
@@ -15,6 +15,10 @@ const menuItems = [
     { path: '/supervisor/dashboard', icon: FaHome, label: 'Dashboard' },
     { path: '/schedule', icon: FaCalendarAlt, label: 'Schedule' },
     { path: '/appointments', icon: FaHistory, label: 'Appointments' },
+    { path: '/reschedule-requests', icon: FaExchangeAlt, label: 'Reschedule Requests' },
+    { path: '/certificates', icon: FaFileMedical, label: 'Certificates' },
+    { path: '/referrals', icon: FaHospital, label: 'Referrals' },
+    { path: '/inventory', icon: FaBoxes, label: 'Inventory' },
     { path: '/profile', icon: FaUser, label: 'Profile' },
 ];
 
@@ -22,6 +26,10 @@ const menuItems = [
 const supervisorItems = [
     { path: '/supervisor/nurses', icon: FaUserNurse, label: 'Nurse Assignment' },
     { path: '/supervisor/campuses', icon: FaBuilding, label: 'Campus Management' },
+    { path: '/supervisor/group-booking', icon: FaUserFriends, label: 'Group Booking' },
+    { path: '/supervisor/no-show-policy', icon: FaUserTimes, label: 'No-Show Policy' },
+    { path: '/supervisor/inventory', icon: FaExclamationTriangle, label: 'Inventory Alerts' },
+    { path: '/supervisor/physical-exams', icon: FaClipboardCheck, label: 'PE Compliance' },
     { path: '/supervisor/audit-logs', icon: FaClipboardList, label: 'Audit Logs' },
 ];
 
@@ -35,6 +43,8 @@ const Sidebar = ({ isOpen, isMobile }: SidebarProps) => {
         ? [
             { path: '/admin', icon: FaUsers, label: 'User Management', exact: true },
             { path: '/admin/booking-settings', icon: FaCog, label: 'Booking Settings', exact: false },
+            { path: '/admin/weekly-limits', icon: FaCalendarWeek, label: 'Weekly Limits', exact: false },
+            { path: '/admin/appointment-types', icon: FaTags, label: 'Appointment Types', exact: false },
             { path: '/admin/email-templates', icon: FaEnvelope, label: 'Email Templates', exact: false },
             { path: '/admin/schedule-config', icon: FaCalendarCheck, label: 'Schedule Config', exact: false },
             { path: '/admin/campuses', icon: FaBuilding, label: 'Campus Management', exact: false },
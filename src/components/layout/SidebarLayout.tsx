@@ -18,8 +18,19 @@ const pageLabels: Record<string, string> = {
   '/dashboard': 'Dashboard',
   '/schedule': 'Schedule',
   '/appointments': 'Appointments',
+  '/reschedule-requests': 'Reschedule Requests',
+  '/patients': 'Patient Record',
+  '/certificates': 'Certificates',
+  '/referrals': 'Referrals',
+  '/inventory': 'Inventory',
   '/profile': 'Profile',
+  '/supervisor/group-booking': 'Group Booking',
+  '/supervisor/no-show-policy': 'No-Show Policy',
+  '/supervisor/inventory': 'Inventory Alerts',
+  '/supervisor/physical-exams': 'Physical Exam Compliance',
   '/admin/booking-settings': 'Booking Settings',
+  '/admin/weekly-limits': 'Weekly Limits',
+  '/admin/appointment-types': 'Appointment Types',
   '/admin/email-templates': 'Email Templates',
   '/admin/schedule-config': 'Schedule Config',
   '/admin': 'User Management',
@@ -9,9 +9,11 @@ interface SignInPromptModalProps {
     bookedSlots: string[];
     maxSlots?: number;
     isHolidayDate?: boolean;
+    /** Remaining room per appointment type, for types that have their own daily limit */
+    typeAvailability?: { label: string; remaining: number }[];
 }
 
-export function SignInPromptModal({ isOpen, onClose, selectedDate, bookedSlots, maxSlots = 20, isHolidayDate = false }: SignInPromptModalProps) {
+export function SignInPromptModal({ isOpen, onClose, selectedDate, bookedSlots, maxSlots = 20, isHolidayDate = false, typeAvailability = [] }: SignInPromptModalProps) {
     const { loginWithGoogle } = useAuthStore();
 
     const handleGoogleLogin = async () => {
@@ -102,6 +104,18 @@ export function SignInPromptModal({ isOpen, onClose, selectedDate, bookedSlots,
                                                 style={{ width: `${fillPercent}%` }}
                                             />
                                         </div>
+                                        {typeAvailability.length > 0 && (
+                                            <div className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                                                {typeAvailability.map((t) => (
+                                                    <div key={t.label} className="flex items-center justify-between text-xs">
+                                                        <span className="text-gray-600">{t.label}</span>
+                                                        <span className={`font-semibold ${t.remaining === 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                                            {t.remaining === 0 ? 'Full' : `${t.remaining} left`}
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
                                 )}
 
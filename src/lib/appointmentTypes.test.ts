@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+    defaultAppointmentTypes,
+    appointmentTypeLabel,
+    appointmentTypeShortLabel,
+    bookableAppointmentTypes,
+} from './appointmentTypes';
+import type { AppointmentTypeConfig } from '~/types';
+
+const catalog = (): AppointmentTypeConfig[] => {
+    const types = defaultAppointmentTypes('campus-1');
+    types[0] = { ...types[0], label: 'General Consultation', sort_order: 3 };
+    types[1] = { ...types[1], allowed_booker_roles: ['student'] };
+    types[2] = { ...types[2], enabled: false };
+    return types;
+};
+
+describe('Appointment type catalog', () => {
+    it('seeds every code for the campus', () => {
+        const types = defaultAppointmentTypes('campus-1');
+        expect(types.map((t) => t.code)).toEqual(['consultation', 'physical_exam', 'dental']);
+        expect(types.every((t) => t.campus_id === 'campus-1' && t.enabled)).toBe(true);
+    });
+
+    it('labels a code from the catalog, falling back to the default wording', () => {
+        expect(appointmentTypeLabel(catalog(), 'consultation')).toBe('General Consultation');
+        expect(appointmentTypeLabel([], 'physical_exam')).toBe('Physical Exam');
+    });
+
+    it('shortens labels for calendar cells', () => {
+        expect(appointmentTypeShortLabel('Physical Exam')).toBe('PE');
+        expect(appointmentTypeShortLabel('Dental')).toBe('Den');
+    });
+
+    it('lists enabled types in order, filtered by booker role', () => {
+        expect(bookableAppointmentTypes(catalog()).map((t) => t.code)).toEqual(['physical_exam', 'consultation']);
+        expect(bookableAppointmentTypes(catalog(), 'staff').map((t) => t.code)).toEqual(['consultation']);
+    });
+});
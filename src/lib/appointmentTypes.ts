@@ -0,0 +1,68 @@
+import type { AppointmentType, AppointmentTypeColor, AppointmentTypeConfig, BookerRole } from '~/types';
+
+/**
+ * Appointment types are configured per campus in appointment_type_catalog
+ * (see create_appointment_type_catalog.sql). These defaults mirror the
+ * seeded rows and stand in until a campus's catalog has loaded.
+ */
+
+/** Every code the appointment_type enum accepts, in the seeded order. */
+export const APPOINTMENT_TYPE_CODES = ['consultation', 'physical_exam', 'dental'] as const satisfies readonly AppointmentType[];
+
+export const BOOKER_ROLES = ['student', 'staff'] as const satisfies readonly BookerRole[];
+
+export const APPOINTMENT_TYPE_COLORS = ['blue', 'green', 'amber', 'purple', 'teal', 'rose', 'indigo', 'slate'] as const satisfies readonly AppointmentTypeColor[];
+
+const DEFAULTS: Record<AppointmentType, Pick<AppointmentTypeConfig, 'label' | 'color' | 'duration_minutes'>> = {
+  consultation: { label: 'Consultation', color: 'blue', duration_minutes: 30 },
+  physical_exam: { label: 'Physical Exam', color: 'green', duration_minutes: 45 },
+  dental: { label: 'Dental', color: 'teal', duration_minutes: 30 },
+};
+
+// Spelled out in full so Tailwind keeps the classes
+const COLOR_CLASSES: Record<AppointmentTypeColor, { badge: string; dot: string }> = {
+  blue: { badge: 'bg-blue-50 text-blue-700 border-blue-200', dot: 'bg-blue-500' },
+  green: { badge: 'bg-green-50 text-green-700 border-green-200', dot: 'bg-green-500' },
+  amber: { badge: 'bg-amber-50 text-amber-700 border-amber-200', dot: 'bg-amber-500' },
+  purple: { badge: 'bg-purple-50 text-purple-700 border-purple-200', dot: 'bg-purple-500' },
+  teal: { badge: 'bg-teal-50 text-teal-700 border-teal-200', dot: 'bg-teal-500' },
+  rose: { badge: 'bg-rose-50 text-rose-700 border-rose-200', dot: 'bg-rose-500' },
+  indigo: { badge: 'bg-indigo-50 text-indigo-700 border-indigo-200', dot: 'bg-indigo-500' },
+  slate: { badge: 'bg-slate-50 text-slate-700 border-slate-200', dot: 'bg-slate-500' },
+};
+
+/** The catalog a campus starts with, used until its real rows load. */
+export function defaultAppointmentTypes(campusId: string): AppointmentTypeConfig[] {
+  return APPOINTMENT_TYPE_CODES.map((code, i) => ({
+    id: `default-${code}`,
+    campus_id: campusId,
+    code,
+    ...DEFAULTS[code],
+    enabled: true,
+    allowed_booker_roles: [...BOOKER_ROLES],
+    sort_order: i + 1,
+  }));
+}
+
+/** Catalog label for a code, falling back to the default wording. */
+export function appointmentTypeLabel(catalog: AppointmentTypeConfig[], code: AppointmentType): string {
+  return catalog.find((t) => t.code === code)?.label ?? DEFAULTS[code]?.label ?? code.replace(/_/g, ' ');
+}
+
+/** Compact label for calendar cells: initials of a multi-word label, else its first three letters. */
+export function appointmentTypeShortLabel(label: string): string {
+  const words = label.trim().split(/\s+/).filter(Boolean);
+  if (words.length > 1) return words.map((w) => w[0].toUpperCase()).join('');
+  return (words[0] ?? '').slice(0, 3);
+}
+
+/** Enabled types in display order; pass a role to keep only those it may book online. */
+export function bookableAppointmentTypes(catalog: AppointmentTypeConfig[], role?: BookerRole): AppointmentTypeConfig[] {
+  return catalog
+    .filter((t) => t.enabled && (!role || t.allowed_booker_roles.includes(role)))
+    .sort((a, b) => a.sort_order - b.sort_order);
+}
+
+export function appointmentTypeColorClasses(color: AppointmentTypeColor | undefined): { badge: string; dot: string } {
+  return COLOR_CLASSES[color ?? 'slate'] ?? COLOR_CLASSES.slate;
+}
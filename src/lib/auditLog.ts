@@ -1,7 +1,7 @@
 import { supabase } from './supabase';
 
 interface AuditLogParams {
-  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'ASSIGN' | 'LOGIN' | 'LOGOUT';
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'ASSIGN' | 'CANCEL' | 'LOGIN' | 'LOGOUT';
   resourceType: string;
   resourceId?: string;
   campusId?: string;
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { extractCertificateQuery, certificateVerifyUrl } from './certificateVerification';
+
+const TOKEN = '0123456789abcdef0123456789abcdef';
+
+describe('Certificate verification', () => {
+    describe('extractCertificateQuery', () => {
+        it('accepts a certificate number in any case', () => {
+            expect(extractCertificateQuery('LDCU-MC-2026-000123')).toBe('LDCU-MC-2026-000123');
+            expect(extractCertificateQuery('  ldcu-mc-2026-000123 ')).toBe('LDCU-MC-2026-000123');
+        });
+
+        it('accepts a bare QR token and a scanned verification link', () => {
+            expect(extractCertificateQuery(TOKEN.toUpperCase())).toBe(TOKEN);
+            expect(extractCertificateQuery(`https://clinic.example.edu/verify/${TOKEN}`)).toBe(TOKEN);
+            expect(extractCertificateQuery(`https://clinic.example.edu/verify/${TOKEN}?utm=qr`)).toBe(TOKEN);
+        });
+
+        it('rejects text that is neither', () => {
+            expect(extractCertificateQuery('')).toBeNull();
+            expect(extractCertificateQuery('LDCU-MC-2026-123')).toBeNull();
+            expect(extractCertificateQuery(TOKEN.slice(1))).toBeNull();
+            expect(extractCertificateQuery(`https://clinic.example.edu/verify/${TOKEN}0`)).toBeNull();
+        });
+    });
+
+    it('builds the link encoded in the QR code', () => {
+        expect(certificateVerifyUrl(TOKEN, 'https://clinic.example.edu')).toBe(`https://clinic.example.edu/verify/${TOKEN}`);
+    });
+});
@@ -0,0 +1,33 @@
+import QRCode from 'qrcode';
+
+/**
+ * Certificates are verified at /verify by number or by the random token
+ * in their QR code (see add_certificate_verification.sql).
+ */
+const CERTIFICATE_NUMBER_PATTERN = /LDCU-MC-\d{4}-\d{6}/i;
+const VERIFY_TOKEN_PATTERN = /^[0-9a-f]{32}$/i;
+const VERIFY_URL_PATTERN = /\/verify\/([0-9a-f]{32})(?:[/?#]|$)/i;
+
+/**
+ * Pull a certificate number or QR token out of typed, pasted or scanned
+ * text (a full verification link works too). Returns null when the text
+ * holds neither, so malformed input never counts against the rate limit.
+ */
+export function extractCertificateQuery(raw: string): string | null {
+  const text = raw.trim();
+  const fromUrl = text.match(VERIFY_URL_PATTERN);
+  if (fromUrl) return fromUrl[1].toLowerCase();
+  if (VERIFY_TOKEN_PATTERN.test(text)) return text.toLowerCase();
+  const number = text.match(CERTIFICATE_NUMBER_PATTERN);
+  return number ? number[0].toUpperCase() : null;
+}
+
+/** Link encoded in the certificate's QR code. */
+export function certificateVerifyUrl(token: string, origin = window.location.origin): string {
+  return `${origin}/verify/${token}`;
+}
+
+/** QR image for the printed certificate. */
+export function certificateQrDataUrl(token: string): Promise<string> {
+  return QRCode.toDataURL(certificateVerifyUrl(token), { errorCorrectionLevel: 'M', margin: 1, width: 200 });
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { extractCheckInCode, checkInQrEmailHtml } from './checkInCode';
+
+const CODE = 'LDCU1.3f2b8c1e-9a4d-4c7e-8b1a-2d5e6f708192.2025-03-14.0123456789abcdef0123456789abcdef';
+
+describe('Check-in codes', () => {
+    describe('extractCheckInCode', () => {
+        it('accepts a bare code', () => {
+            expect(extractCheckInCode(CODE)).toBe(CODE);
+        });
+
+        it('finds the code inside surrounding text and normalizes case', () => {
+            expect(extractCheckInCode(`  code: ${CODE.toUpperCase()}\n`)).toBe(CODE);
+        });
+
+        it('rejects text without a well-formed code', () => {
+            expect(extractCheckInCode('')).toBeNull();
+            expect(extractCheckInCode('hello world')).toBeNull();
+            expect(extractCheckInCode(CODE.slice(0, -4))).toBeNull();
+        });
+    });
+
+    describe('checkInQrEmailHtml', () => {
+        it('renders one table per QR row', () => {
+            const html = checkInQrEmailHtml(CODE);
+            const rows = html.match(/<table /g)?.length ?? 0;
+            expect(rows).toBeGreaterThanOrEqual(21);
+            expect(html).toContain('bgcolor="#000000"');
+        });
+    });
+});
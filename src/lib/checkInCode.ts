@@ -0,0 +1,52 @@
+import QRCode from 'qrcode';
+
+/**
+ * Check-in codes are signed in the database (see add_checkin_codes.sql):
+ * LDCU1.<appointment id>.<appointment date>.<signature>
+ */
+const CHECK_IN_CODE_PATTERN =
+  /LDCU1\.[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.\d{4}-\d{2}-\d{2}\.[0-9a-f]{32}/i;
+
+/**
+ * Pull a check-in code out of scanned or pasted text.
+ * Returns null when the text does not contain one.
+ */
+export function extractCheckInCode(raw: string): string | null {
+  const match = raw.trim().match(CHECK_IN_CODE_PATTERN);
+  if (!match) return null;
+  // The server signs lowercase ids; scanners and manual entry may not preserve case
+  const [prefix, id, date, signature] = match[0].split('.');
+  return [prefix.toUpperCase(), id.toLowerCase(), date, signature.toLowerCase()].join('.');
+}
+
+/** QR image for showing a check-in code in the app. */
+export function checkInQrDataUrl(code: string): Promise<string> {
+  return QRCode.toDataURL(code, { errorCorrectionLevel: 'L', margin: 2, width: 240 });
+}
+
+/**
+ * QR code as plain HTML tables for emails. Email clients block data:
+ * images and scripts, but render table cell backgrounds everywhere.
+ * Runs of same-colored modules are merged to keep the markup small;
+ * each row is its own table so merged cells never fight over columns.
+ */
+export function checkInQrEmailHtml(code: string, moduleSize = 4): string {
+  const { size, data } = QRCode.create(code, { errorCorrectionLevel: 'L' }).modules;
+  const width = size * moduleSize;
+  const rows: string[] = [];
+
+  for (let row = 0; row < size; row++) {
+    const cells: string[] = [];
+    let col = 0;
+    while (col < size) {
+      const dark = data[row * size + col] === 1;
+      let run = 1;
+      while (col + run < size && (data[row * size + col + run] === 1) === dark) run++;
+      cells.push(`<td width="${run * moduleSize}" height="${moduleSize}"${dark ? ' bgcolor="#000000"' : ''}></td>`);
+      col += run;
+    }
+    rows.push(`<table width="${width}" cellpadding="0" cellspacing="0" border="0" style="border-collapse: collapse; table-layout: fixed;"><tr>${cells.join('')}</tr></table>`);
+  }
+
+  return `<div style="display: inline-block; background-color: #ffffff; padding: ${4 * moduleSize}px; line-height: 0; font-size: 0;">${rows.join('')}</div>`;
+}
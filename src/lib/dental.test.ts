@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { PERMANENT_TEETH, PRIMARY_TEETH, isValidFdiTooth, toothName, latestToothStates } from './dental';
+import type { DentalChartEntry } from '~/types';
+
+const entry = (tooth: number, condition: DentalChartEntry['condition'], date: string, recordedAt = `${date}T09:00:00Z`): DentalChartEntry => ({
+    id: `${tooth}-${date}-${recordedAt}`,
+    appointment_id: `apt-${date}`,
+    patient_id: 'p1',
+    tooth,
+    condition,
+    surfaces: [],
+    procedure: null,
+    notes: null,
+    recorded_by: null,
+    recorded_by_name: null,
+    recorded_at: recordedAt,
+    appointment: { appointment_date: date },
+});
+
+describe('Dental chart', () => {
+    it('lays out 32 permanent and 20 primary teeth in FDI order', () => {
+        expect(PERMANENT_TEETH.upper).toHaveLength(16);
+        expect(PERMANENT_TEETH.upper.slice(0, 3)).toEqual([18, 17, 16]);
+        expect(PERMANENT_TEETH.upper.slice(7, 9)).toEqual([11, 21]);
+        expect(PERMANENT_TEETH.lower.slice(-1)).toEqual([38]);
+        expect([...PRIMARY_TEETH.upper, ...PRIMARY_TEETH.lower]).toHaveLength(20);
+        expect(PRIMARY_TEETH.lower[0]).toBe(85);
+    });
+
+    it('validates FDI numbers', () => {
+        expect([11, 18, 28, 38, 48, 51, 65, 85].every(isValidFdiTooth)).toBe(true);
+        expect([10, 19, 56, 90, 9, 100].some(isValidFdiTooth)).toBe(false);
+    });
+
+    it('names teeth', () => {
+        expect(toothName(36)).toBe('Lower left first molar');
+        expect(toothName(11)).toBe('Upper right central incisor');
+        expect(toothName(55)).toBe('Upper right primary second molar');
+        expect(toothName(99)).toBe('Tooth 99');
+    });
+
+    it('rolls visits up to the latest state per tooth', () => {
+        const states = latestToothStates([
+            entry(36, 'filled', '2026-03-01'),
+            entry(36, 'caries', '2025-09-10'),
+            entry(11, 'sound', '2025-09-10'),
+            entry(46, 'caries', '2026-03-01', '2026-03-01T09:00:00Z'),
+            entry(46, 'for_extraction', '2026-03-01', '2026-03-01T10:00:00Z'),
+        ]);
+        expect(states.get(36)?.condition).toBe('filled');
+        expect(states.get(11)?.condition).toBe('sound');
+        expect(states.get(46)?.condition).toBe('for_extraction');
+        expect(states.size).toBe(3);
+    });
+});
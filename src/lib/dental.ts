@@ -0,0 +1,86 @@
+import type { DentalChartEntry, DentalCondition, DentalProcedure } from '~/types';
+
+// FDI two-digit notation: first digit is the quadrant (1–4 permanent, 5–8 primary,
+// clockwise from the patient's upper right), second is the tooth counted from the midline.
+
+const range = (quadrant: number, count: number) => Array.from({ length: count }, (_, i) => quadrant * 10 + i + 1);
+
+/** Rows as the dentist faces the patient: patient's right on the left of the chart. */
+export const PERMANENT_TEETH = {
+  upper: [...range(1, 8).reverse(), ...range(2, 8)],
+  lower: [...range(4, 8).reverse(), ...range(3, 8)],
+};
+
+export const PRIMARY_TEETH = {
+  upper: [...range(5, 5).reverse(), ...range(6, 5)],
+  lower: [...range(8, 5).reverse(), ...range(7, 5)],
+};
+
+export const DENTAL_CONDITIONS: { value: DentalCondition; label: string; color: string }[] = [
+  { value: 'sound', label: 'Sound', color: 'bg-white border-gray-300 text-gray-700' },
+  { value: 'caries', label: 'Caries', color: 'bg-red-100 border-red-400 text-red-800' },
+  { value: 'filled', label: 'Filled', color: 'bg-blue-100 border-blue-400 text-blue-800' },
+  { value: 'crown', label: 'Crown', color: 'bg-amber-100 border-amber-400 text-amber-800' },
+  { value: 'root_canal', label: 'Root canal treated', color: 'bg-purple-100 border-purple-400 text-purple-800' },
+  { value: 'fractured', label: 'Fractured', color: 'bg-orange-100 border-orange-400 text-orange-800' },
+  { value: 'impacted', label: 'Impacted', color: 'bg-teal-100 border-teal-400 text-teal-800' },
+  { value: 'for_extraction', label: 'For extraction', color: 'bg-rose-200 border-rose-500 text-rose-900' },
+  { value: 'missing', label: 'Missing', color: 'bg-gray-200 border-gray-400 text-gray-500 line-through' },
+];
+
+export const DENTAL_PROCEDURES: { value: DentalProcedure; label: string }[] = [
+  { value: 'filling', label: 'Filling' },
+  { value: 'extraction', label: 'Extraction' },
+  { value: 'scaling', label: 'Scaling' },
+  { value: 'sealant', label: 'Sealant' },
+  { value: 'fluoride', label: 'Fluoride' },
+  { value: 'root_canal', label: 'Root canal' },
+  { value: 'crown', label: 'Crown' },
+  { value: 'other', label: 'Other' },
+];
+
+/** Tooth surfaces: mesial, occlusal/incisal, distal, buccal/labial, lingual/palatal. */
+export const TOOTH_SURFACES = ['M', 'O', 'D', 'B', 'L'] as const;
+
+const QUADRANT_NAMES = ['upper right', 'upper left', 'lower left', 'lower right'];
+const PERMANENT_NAMES = ['central incisor', 'lateral incisor', 'canine', 'first premolar', 'second premolar', 'first molar', 'second molar', 'third molar'];
+const PRIMARY_NAMES = ['central incisor', 'lateral incisor', 'canine', 'first molar', 'second molar'];
+
+export function isValidFdiTooth(tooth: number): boolean {
+  const quadrant = Math.floor(tooth / 10);
+  const position = tooth % 10;
+  if (quadrant >= 1 && quadrant <= 4) return position >= 1 && position <= 8;
+  if (quadrant >= 5 && quadrant <= 8) return position >= 1 && position <= 5;
+  return false;
+}
+
+/** e.g. 36 → "Lower left first molar", 55 → "Upper right primary second molar". */
+export function toothName(tooth: number): string {
+  if (!isValidFdiTooth(tooth)) return `Tooth ${tooth}`;
+  const quadrant = Math.floor(tooth / 10);
+  const position = tooth % 10;
+  const primary = quadrant >= 5;
+  const side = QUADRANT_NAMES[(quadrant - 1) % 4];
+  const name = primary ? `primary ${PRIMARY_NAMES[position - 1]}` : PERMANENT_NAMES[position - 1];
+  const label = `${side} ${name}`;
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function conditionLabel(condition: DentalCondition): string {
+  return DENTAL_CONDITIONS.find((c) => c.value === condition)?.label ?? condition;
+}
+
+/**
+ * The patient's current chart: for each tooth, the entry from the most recent visit
+ * that charted it. Entries may come in any order; later appointment dates win, and
+ * entries from the same date are ordered by when they were recorded.
+ */
+export function latestToothStates(entries: DentalChartEntry[]): Map<number, DentalChartEntry> {
+  const sorted = [...entries].sort((a, b) => {
+    const byDate = (a.appointment?.appointment_date ?? '').localeCompare(b.appointment?.appointment_date ?? '');
+    return byDate !== 0 ? byDate : a.recorded_at.localeCompare(b.recorded_at);
+  });
+  const states = new Map<number, DentalChartEntry>();
+  for (const entry of sorted) states.set(entry.tooth, entry);
+  return states;
+}
@@ -1,22 +1,27 @@
 import { supabase } from './supabase';
+import { checkInQrEmailHtml } from './checkInCode';
 
 interface SendEmailParams {
   to: string;
   subject: string;
   body: string;
+  /** Lets the edge function attach the appointment as an .ics event */
+  appointmentId?: string;
+  /** Recorded in the appointment's history when set together with appointmentId */
+  emailKind?: 'confirmation' | 'reminder';
 }
 
 /**
  * Send an email using Supabase Edge Function.
  * Falls back to storing in a `pending_emails` table if the edge function is not available.
  */
-export async function sendEmail({ to, subject, body }: SendEmailParams): Promise<boolean> {
+export async function sendEmail({ to, subject, body, appointmentId, emailKind }: SendEmailParams): Promise<boolean> {
   try {
     console.log('Attempting to send email to:', to);
     
     // Try calling the Supabase Edge Function first
     const { data, error } = await supabase.functions.invoke('send-email', {
-      body: { to, subject, html: body },
+      body: { to, subject, html: body, appointmentId, emailKind },
     });
 
     if (error) {
@@ -64,16 +69,30 @@ async function queueEmail({ to, subject, body }: SendEmailParams) {
 }
 
 /**
- * Send booking confirmation email to a patient
+ * Send booking confirmation email to a patient.
+ * With an appointment id the email carries an .ics calendar attachment;
+ * with a check-in code it includes the QR code (custom templates can
+ * place it with {{qr}}).
  */
 export async function sendBookingConfirmation(
   patientEmail: string,
   patientName: string,
   appointmentDate: string,
   appointmentType: string,
-  customTemplate?: { subject: string; body: string }
+  customTemplate?: { subject: string; body: string },
+  appointment?: { id: string; checkInCode?: string }
 ) {
+  const checkInCode = appointment?.checkInCode;
   console.log('sendBookingConfirmation called with:', { patientEmail, patientName, appointmentDate, appointmentType });
+
+  const qrHtml = checkInCode
+    ? `
+          <div style="text-align: center; margin-bottom: 24px;">
+            <span style="display: block; color: #6b7280; font-size: 12px; text-transform: uppercase; font-weight: 600; letter-spacing: 0.5px; margin-bottom: 12px;">Check-in QR Code</span>
+            ${checkInQrEmailHtml(checkInCode)}
+            <p style="color: #6b7280; font-size: 13px; line-height: 1.5; margin: 12px 0 0;">Show this code at the clinic on the day of your appointment.</p>
+          </div>`
+    : '';
   
   const defaultSubject = 'Appointment Booking Confirmation - LDCU Clinic';
   const defaultBody = `
@@ -106,7 +125,7 @@ export async function sendBookingConfirmation(
               <span style="display: block; color: #111827; font-size: 16px; font-weight: 500;">First come, first served</span>
             </div>
           </div>
-          
+          ${qrHtml}
           <p style="color: #4b5563; font-size: 15px; line-height: 1.6;">
             Please arrive at least 10 minutes before your scheduled time. If you need to cancel or reschedule, please do so at least 24 hours in advance.
           </p>
@@ -141,9 +160,10 @@ export async function sendBookingConfirmation(
       .replace(/\{\{name\}\}/g, patientName)
       .replace(/\{\{date\}\}/g, appointmentDate)
       .replace(/\{\{type\}\}/g, appointmentType)
+      .replace(/\{\{qr\}\}/g, qrHtml)
     : defaultBody;
 
-  const result = await sendEmail({ to: patientEmail, subject, body });
+  const result = await sendEmail({ to: patientEmail, subject, body, appointmentId: appointment?.id, emailKind: 'confirmation' });
   console.log('sendBookingConfirmation result:', result);
   return result;
 }
@@ -177,14 +197,39 @@ export async function sendBulkReminders(
 }
 
 /**
- * Send appointment reminder email to a patient
+ * Email everyone in the compliance report who has no physical exam done or
+ * booked for the academic year. The edge function rebuilds the list as the
+ * caller and skips anyone reminded in the last week.
+ */
+export async function sendPhysicalExamReminders(filters: {
+  yearStart: string;
+  campusId?: string;
+  collegeId?: string;
+  departmentId?: string;
+}): Promise<{ success: boolean; sent: number; skipped: number; failed: number; message: string; errors?: string[] }> {
+  const { data, error } = await supabase.functions.invoke('send-email', {
+    body: { physicalExamReminders: filters },
+  });
+
+  if (error) {
+    console.error('Error sending physical exam reminders:', error);
+    throw new Error(error.message || 'Failed to invoke send-email function');
+  }
+
+  return data;
+}
+
+/**
+ * Send appointment reminder email to a patient.
+ * With an appointment id the email carries an .ics calendar attachment.
  */
 export async function sendAppointmentReminder(
   patientEmail: string,
   patientName: string,
   appointmentDate: string,
   appointmentType: string,
-  customTemplate?: { subject: string; body: string }
+  customTemplate?: { subject: string; body: string },
+  appointmentId?: string
 ) {
   const defaultSubject = 'Appointment Reminder - LDCU Clinic';
   const defaultBody = `
@@ -254,5 +299,181 @@ export async function sendAppointmentReminder(
       .replace(/\{\{type\}\}/g, appointmentType)
     : defaultBody;
 
+  return sendEmail({ to: patientEmail, subject, body, appointmentId, emailKind: 'reminder' });
+}
+
+/**
+ * Send cancellation confirmation email to a patient
+ */
+export async function sendCancellationConfirmation(
+  patientEmail: string,
+  patientName: string,
+  appointmentDate: string,
+  appointmentType: string,
+  reason: string,
+  customTemplate?: { subject: string; body: string }
+) {
+  const safeReason = reason.replace(/[<>]/g, '');
+  const defaultSubject = 'Appointment Cancelled - LDCU Clinic';
+  const defaultBody = `
+    <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f3f4f6; padding: 40px 20px; text-align: center;">
+      <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06);">
+        <!-- Header -->
+        <div style="background-color: #800000; padding: 30px 20px; text-align: center;">
+             <h1 style="margin: 0; color: white; font-size: 24px; font-weight: 600; letter-spacing: 0.5px;">LDCU University Clinic</h1>
+             <p style="margin: 5px 0 0; color: #fbbf24; font-size: 14px; font-weight: 500; text-transform: uppercase; letter-spacing: 1px;">Appointment Cancelled</p>
+        </div>
+        
+        <!-- Content -->
+        <div style="padding: 40px 30px; text-align: left;">
+          <h2 style="color: #111827; margin-top: 0; font-size: 20px; font-weight: 600;">Hello, ${patientName}</h2>
+          <p style="color: #4b5563; font-size: 16px; line-height: 1.6; margin-bottom: 24px;">
+            Your appointment with LDCU Service Clinic has been cancelled. Here are the details of the cancelled booking:
+          </p>
+          
+          <div style="background-color: #f9fafb; border-left: 4px solid #9ca3af; padding: 20px; border-radius: 4px; margin-bottom: 24px;">
+            <div style="margin-bottom: 12px;">
+              <span style="display: block; color: #6b7280; font-size: 12px; text-transform: uppercase; font-weight: 600; letter-spacing: 0.5px;">Date</span>
+              <span style="display: block; color: #111827; font-size: 16px; font-weight: 500;">${appointmentDate}</span>
+            </div>
+            <div style="margin-bottom: 12px;">
+              <span style="display: block; color: #6b7280; font-size: 12px; text-transform: uppercase; font-weight: 600; letter-spacing: 0.5px;">Type</span>
+              <span style="display: block; color: #111827; font-size: 16px; font-weight: 500;">${appointmentType}</span>
+            </div>
+            <div>
+              <span style="display: block; color: #6b7280; font-size: 12px; text-transform: uppercase; font-weight: 600; letter-spacing: 0.5px;">Reason</span>
+              <span style="display: block; color: #111827; font-size: 16px; font-weight: 500;">${safeReason}</span>
+            </div>
+          </div>
+          
+          <p style="color: #4b5563; font-size: 15px; line-height: 1.6;">
+            If this was a mistake, you can book a new appointment at any time.
+          </p>
+
+          <div style="margin-top: 30px; text-align: center;">
+            <a href="${typeof import.meta !== 'undefined' && import.meta.env?.VITE_APP_URL ? import.meta.env.VITE_APP_URL : 'https://ldcu-clinic.vercel.app'}" style="display: inline-block; background-color: #800000; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 600; font-size: 14px;">Book Again</a>
+          </div>
+        </div>
+        
+        <!-- Footer -->
+        <div style="background-color: #fbfbfc; padding: 20px; border-top: 1px solid #e5e7eb; text-align: center;">
+          <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} Liceo de Cagayan University Clinic. All rights reserved.
+          </p>
+          <p style="color: #9ca3af; font-size: 12px; margin: 5px 0 0;">
+            Rodolfo N. Pelaez Blvd, Cagayan de Oro, 9000 Misamis Oriental
+          </p>
+        </div>
+      </div>
+    </div>
+  `;
+
+  const subject = customTemplate?.subject
+    ? customTemplate.subject
+      .replace('{{name}}', patientName)
+      .replace('{{date}}', appointmentDate)
+      .replace('{{type}}', appointmentType)
+    : defaultSubject;
+
+  const body = customTemplate?.body
+    ? customTemplate.body
+      .replace(/\{\{name\}\}/g, patientName)
+      .replace(/\{\{date\}\}/g, appointmentDate)
+      .replace(/\{\{type\}\}/g, appointmentType)
+      .replace(/\{\{reason\}\}/g, safeReason)
+    : defaultBody;
+
   return sendEmail({ to: patientEmail, subject, body });
 }
+
+/**
+ * Tell a patient whether their reschedule request was approved or rejected.
+ * Approved requests carry the moved appointment as an .ics attachment.
+ */
+export async function sendRescheduleDecision(
+  patientEmail: string,
+  patientName: string,
+  decision: {
+    approved: boolean;
+    appointmentId: string;
+    appointmentType: string;
+    fromDate: string;
+    requestedDate: string;
+    requestedTime: string;
+    reason?: string | null;
+  }
+) {
+  const safeReason = (decision.reason || '').replace(/[<>]/g, '');
+  const heading = decision.approved ? 'Reschedule Approved' : 'Reschedule Not Approved';
+  const subject = decision.approved
+    ? 'Your Appointment Has Been Moved - LDCU Clinic'
+    : 'Reschedule Request Not Approved - LDCU Clinic';
+  const intro = decision.approved
+    ? 'Your request to move your appointment has been approved. Your new booking details are as follows:'
+    : 'We could not move your appointment to the date you asked for. Your original booking is unchanged:';
+
+  const row = (label: string, value: string, last = false) => `
+            <div${last ? '' : ' style="margin-bottom: 12px;"'}>
+              <span style="display: block; color: #6b7280; font-size: 12px; text-transform: uppercase; font-weight: 600; letter-spacing: 0.5px;">${label}</span>
+              <span style="display: block; color: #111827; font-size: 16px; font-weight: 500;">${value}</span>
+            </div>`;
+
+  const details = decision.approved
+    ? row('New Date', `${decision.requestedDate} · ${decision.requestedTime}`) +
+      row('Previous Date', decision.fromDate) +
+      row('Type', decision.appointmentType, true)
+    : row('Appointment Date', decision.fromDate) +
+      row('Requested Date', `${decision.requestedDate} · ${decision.requestedTime}`) +
+      row('Type', decision.appointmentType, !safeReason) +
+      (safeReason ? row('Reason', safeReason, true) : '');
+
+  const body = `
+    <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f3f4f6; padding: 40px 20px; text-align: center;">
+      <div style="max-width: 600px; margin: 0 auto; background-color: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06);">
+        <!-- Header -->
+        <div style="background-color: #800000; padding: 30px 20px; text-align: center;">
+             <h1 style="margin: 0; color: white; font-size: 24px; font-weight: 600; letter-spacing: 0.5px;">LDCU University Clinic</h1>
+             <p style="margin: 5px 0 0; color: #fbbf24; font-size: 14px; font-weight: 500; text-transform: uppercase; letter-spacing: 1px;">${heading}</p>
+        </div>
+
+        <!-- Content -->
+        <div style="padding: 40px 30px; text-align: left;">
+          <h2 style="color: #111827; margin-top: 0; font-size: 20px; font-weight: 600;">Hello, ${patientName}</h2>
+          <p style="color: #4b5563; font-size: 16px; line-height: 1.6; margin-bottom: 24px;">
+            ${intro}
+          </p>
+
+          <div style="background-color: #f9fafb; border-left: 4px solid ${decision.approved ? '#800000' : '#9ca3af'}; padding: 20px; border-radius: 4px; margin-bottom: 24px;">${details}
+          </div>
+
+          <p style="color: #4b5563; font-size: 15px; line-height: 1.6;">
+            ${decision.approved
+              ? 'Your check-in QR code is tied to the date, so open your appointment on the booking page for the new one before you come in.'
+              : 'You can send a request for another date from the booking page, or cancel the appointment if you can no longer attend.'}
+          </p>
+
+          <div style="margin-top: 30px; text-align: center;">
+            <a href="${typeof import.meta !== 'undefined' && import.meta.env?.VITE_APP_URL ? import.meta.env.VITE_APP_URL : 'https://ldcu-clinic.vercel.app'}" style="display: inline-block; background-color: #800000; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 600; font-size: 14px;">View My Appointments</a>
+          </div>
+        </div>
+
+        <!-- Footer -->
+        <div style="background-color: #fbfbfc; padding: 20px; border-top: 1px solid #e5e7eb; text-align: center;">
+          <p style="color: #9ca3af; font-size: 12px; margin: 0;">
+            © ${new Date().getFullYear()} Liceo de Cagayan University Clinic. All rights reserved.
+          </p>
+          <p style="color: #9ca3af; font-size: 12px; margin: 5px 0 0;">
+            Rodolfo N. Pelaez Blvd, Cagayan de Oro, 9000 Misamis Oriental
+          </p>
+        </div>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to: patientEmail,
+    subject,
+    body,
+    ...(decision.approved && { appointmentId: decision.appointmentId }),
+  });
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoster, listBookableDates } from './groupBooking';
+
+describe('Group booking', () => {
+    describe('parseRoster', () => {
+        it('reads headerless CSV in the default column order', () => {
+            const { rows, errors } = parseRoster('Juan Dela Cruz,Juan@Example.com,2021-0001,BSN\n\nMaria Santos,maria@example.com');
+            expect(errors).toEqual([]);
+            expect(rows).toEqual([
+                { line: 1, name: 'Juan Dela Cruz', email: 'juan@example.com', studentId: '2021-0001', department: 'BSN' },
+                { line: 3, name: 'Maria Santos', email: 'maria@example.com', studentId: '', department: '' },
+            ]);
+        });
+
+        it('maps header columns in any order and handles tabs and quotes', () => {
+            const text = 'Email\tStudent ID\tName\njuan@example.com\t2021-0001\t"Dela Cruz, Juan"';
+            expect(parseRoster(text).rows[0]).toMatchObject({ line: 2, name: 'Dela Cruz, Juan', email: 'juan@example.com', studentId: '2021-0001' });
+
+            const csv = 'name,email\n"Juan ""JD"" Cruz",juan@example.com';
+            expect(parseRoster(csv).rows[0].name).toBe('Juan "JD" Cruz');
+        });
+
+        it('reports missing names, bad emails and duplicates by line', () => {
+            const { rows, errors } = parseRoster(',a@example.com\nBen,not-an-email\nCara,c@example.com\nCara Again,C@example.com');
+            expect(rows.map((r) => r.name)).toEqual(['Cara']);
+            expect(errors).toEqual([
+                { line: 1, message: 'Missing name' },
+                { line: 2, message: 'Invalid email for Ben' },
+                { line: 4, message: 'c@example.com is already listed on line 3' },
+            ]);
+        });
+    });
+
+    describe('listBookableDates', () => {
+        it('skips disabled weekdays, holidays and closed days', () => {
+            // 2025-03-14 is a Friday
+            expect(listBookableDates('2025-03-14', '2025-03-19', {
+                disabledWeekdays: [0, 6],
+                holidayDates: ['2025-03-17'],
+                closedDates: ['2025-03-19'],
+            })).toEqual(['2025-03-14', '2025-03-18']);
+        });
+
+        it('returns nothing for a reversed range', () => {
+            expect(listBookableDates('2025-03-14', '2025-03-13')).toEqual([]);
+        });
+    });
+});
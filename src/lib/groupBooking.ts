@@ -0,0 +1,152 @@
+import { emailSchema } from './validation';
+
+/**
+ * Helpers for booking a whole class roster at once (GroupBookingPage).
+ */
+
+export interface RosterRow {
+  /** 1-based line number in the pasted/uploaded text, for error reports */
+  line: number;
+  name: string;
+  email: string;
+  studentId: string;
+  department: string;
+}
+
+export interface RosterError {
+  line: number;
+  message: string;
+}
+
+type RosterColumn = 'name' | 'email' | 'studentId' | 'department';
+
+const DEFAULT_COLUMNS: RosterColumn[] = ['name', 'email', 'studentId', 'department'];
+
+const HEADER_ALIASES: Record<string, RosterColumn> = {
+  name: 'name',
+  'full name': 'name',
+  'student name': 'name',
+  email: 'email',
+  'email address': 'email',
+  'student id': 'studentId',
+  'student no': 'studentId',
+  'student number': 'studentId',
+  'id number': 'studentId',
+  department: 'department',
+  dept: 'department',
+  course: 'department',
+};
+
+/** Split one delimited line, honouring double-quoted fields ("" escapes a quote). */
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Parse a roster from CSV or from cells pasted out of a spreadsheet
+ * (tab-separated). Columns default to name, email, student ID, department;
+ * a header row, if present, may list them in any order. Rows without a
+ * usable name or email, and repeated emails, are reported as errors.
+ */
+export function parseRoster(text: string): { rows: RosterRow[]; errors: RosterError[] } {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const delimiter = lines.some((l) => l.includes('\t')) ? '\t' : ',';
+  const rows: RosterRow[] = [];
+  const errors: RosterError[] = [];
+  const seenEmails = new Map<string, number>();
+  let columns = DEFAULT_COLUMNS;
+  let headerChecked = false;
+
+  lines.forEach((rawLine, index) => {
+    const line = index + 1;
+    if (!rawLine.trim()) return;
+    const fields = splitLine(rawLine, delimiter);
+
+    if (!headerChecked) {
+      headerChecked = true;
+      const mapped = fields.map((f) => HEADER_ALIASES[f.toLowerCase().replace(/[_.]/g, ' ').trim()]);
+      if (mapped.includes('email')) {
+        columns = mapped as RosterColumn[];
+        return;
+      }
+    }
+
+    const value = (column: RosterColumn) => {
+      const i = columns.indexOf(column);
+      return i >= 0 ? (fields[i] ?? '').trim() : '';
+    };
+
+    const name = value('name');
+    if (!name) {
+      errors.push({ line, message: 'Missing name' });
+      return;
+    }
+
+    const parsedEmail = emailSchema.safeParse(value('email'));
+    if (!parsedEmail.success) {
+      errors.push({ line, message: `Invalid email for ${name}` });
+      return;
+    }
+    const email = parsedEmail.data;
+
+    const firstLine = seenEmails.get(email);
+    if (firstLine !== undefined) {
+      errors.push({ line, message: `${email} is already listed on line ${firstLine}` });
+      return;
+    }
+    seenEmails.set(email, line);
+
+    rows.push({ line, name, email, studentId: value('studentId'), department: value('department') });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Dates from `start` to `end` (inclusive, "YYYY-MM-DD") on which the campus
+ * takes bookings: disabled weekdays, holidays and closed days are skipped.
+ */
+export function listBookableDates(
+  start: string,
+  end: string,
+  closures: { disabledWeekdays?: number[]; holidayDates?: string[]; closedDates?: string[] } = {}
+): string[] {
+  const skip = new Set([...(closures.holidayDates ?? []), ...(closures.closedDates ?? [])]);
+  const disabled = new Set(closures.disabledWeekdays ?? []);
+  const [sy, sm, sd] = start.split('-').map(Number);
+  const [ey, em, ed] = end.split('-').map(Number);
+  const last = Date.UTC(ey, em - 1, ed);
+  const dates: string[] = [];
+
+  for (let t = Date.UTC(sy, sm - 1, sd); t <= last; t += 24 * 60 * 60 * 1000) {
+    const day = new Date(t);
+    const date = day.toISOString().slice(0, 10);
+    if (!disabled.has(day.getUTCDay()) && !skip.has(date)) dates.push(date);
+  }
+  return dates;
+}
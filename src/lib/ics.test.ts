@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { buildAppointmentIcs, toIcsUtc } from './ics';
+
+const appointment = {
+    id: 'apt-1',
+    appointment_date: '2025-03-14',
+    start_time: '08:00:00',
+    end_time: '12:00:00',
+    appointment_type: 'physical_exam' as const,
+    status: 'scheduled' as const,
+    time_of_day: 'AM' as const,
+    updated_at: '2025-03-01T00:00:00Z',
+};
+
+describe('iCalendar export', () => {
+    describe('toIcsUtc', () => {
+        it('converts Manila wall-clock time to UTC', () => {
+            expect(toIcsUtc('2025-03-14', '08:00')).toBe('20250314T000000Z');
+            expect(toIcsUtc('2025-03-14', '05:30')).toBe('20250313T213000Z');
+        });
+    });
+
+    describe('buildAppointmentIcs', () => {
+        it('builds a CRLF-delimited event with escaped text', () => {
+            const ics = buildAppointmentIcs(appointment, { name: 'Main Campus', address: 'Rodolfo N. Pelaez Blvd, Cagayan de Oro' });
+            expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+            expect(ics).toContain('UID:apt-1@ldcu-clinic\r\n');
+            expect(ics).toContain('DTSTART:20250314T000000Z\r\n');
+            expect(ics).toContain('DTEND:20250314T040000Z\r\n');
+            expect(ics).toContain('LOCATION:Main Campus\\, Rodolfo N. Pelaez Blvd\\, Cagayan de Oro\r\n');
+            expect(ics).toContain('STATUS:CONFIRMED\r\n');
+        });
+
+        it('marks cancelled appointments and folds long lines', () => {
+            const ics = buildAppointmentIcs({ ...appointment, status: 'cancelled' }, { name: 'A'.repeat(120) });
+            expect(ics).toContain('STATUS:CANCELLED');
+            for (const line of ics.split('\r\n')) {
+                expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+            }
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import type { Appointment, Campus } from '~/types';
+import { formatTime } from './utils';
+
+/**
+ * RFC 5545 calendar events for appointments.
+ * supabase/functions/_shared/ics.ts builds the same event for email
+ * attachments and subscription feeds; keep the two in step.
+ */
+
+// The clinic runs on Philippine time (UTC+8, no daylight saving)
+const MANILA_OFFSET_HOURS = 8;
+
+const TYPE_LABELS: Record<string, string> = {
+  consultation: 'Consultation',
+  physical_exam: 'Physical Examination',
+  dental: 'Dental',
+};
+
+/** Escape TEXT values (RFC 5545 §3.3.11). */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold content lines longer than 75 octets (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** Manila wall-clock date + time to a UTC DATE-TIME, e.g. 20250314T000000Z. */
+export function toIcsUtc(date: string, time: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const utc = new Date(Date.UTC(year, month - 1, day, hour - MANILA_OFFSET_HOURS, minute));
+  return utc.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Build a single-event VCALENDAR for an appointment. */
+export function buildAppointmentIcs(
+  appointment: Pick<Appointment, 'id' | 'appointment_date' | 'start_time' | 'end_time' | 'appointment_type' | 'status' | 'time_of_day' | 'updated_at'>,
+  campus?: Pick<Campus, 'name' | 'address'> | null
+): string {
+  const typeLabel = TYPE_LABELS[appointment.appointment_type] ?? appointment.appointment_type;
+  const session = appointment.time_of_day === 'AM' ? 'Morning' : appointment.time_of_day === 'PM' ? 'Afternoon' : null;
+  const hours = `${formatTime(appointment.start_time)} – ${formatTime(appointment.end_time)}`;
+  const location = [campus?.name, campus?.address].filter(Boolean).join(', ');
+  const description = [
+    `${typeLabel} at the LDCU University Clinic.`,
+    session ? `${session} session, ${hours}. First come, first served.` : `Time: ${hours}.`,
+    'Please arrive at least 10 minutes early.',
+  ].join('\n');
+  // Bumped whenever the appointment changes so calendars replace the old copy
+  const sequence = appointment.updated_at ? Math.floor(new Date(appointment.updated_at).getTime() / 1000) : 0;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LDCU University Clinic//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@ldcu-clinic`,
+    `DTSTAMP:${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`,
+    `DTSTART:${toIcsUtc(appointment.appointment_date, appointment.start_time)}`,
+    `DTEND:${toIcsUtc(appointment.appointment_date, appointment.end_time)}`,
+    `SEQUENCE:${sequence}`,
+    `SUMMARY:${escapeText(`LDCU Clinic – ${typeLabel}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(location ? [`LOCATION:${escapeText(location)}`] : []),
+    `STATUS:${appointment.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(`LDCU Clinic – ${typeLabel}`)}`,
+    'TRIGGER:-PT1H',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** Download an appointment as an .ics file. */
+export function downloadAppointmentIcs(
+  appointment: Parameters<typeof buildAppointmentIcs>[0],
+  campus?: Parameters<typeof buildAppointmentIcs>[1]
+) {
+  const blob = new Blob([buildAppointmentIcs(appointment, campus)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `ldcu-clinic-${appointment.appointment_date}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { daysUntil, dispensableLots, lotExpiryStatus, sortLotsByExpiry, summarizeItemStock } from './inventory';
+import type { InventoryItem, InventoryLot } from '~/types';
+
+const TODAY = '2026-03-01';
+
+const item: InventoryItem = {
+    id: 'paracetamol',
+    campus_id: 'campus-1',
+    name: 'Paracetamol 500mg',
+    category: 'medicine',
+    unit: 'tablet',
+    reorder_level: 100,
+    notes: null,
+    is_active: true,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+};
+
+const lot = (id: string, quantity: number, expiry: string | null, itemId = item.id): InventoryLot => ({
+    id,
+    item_id: itemId,
+    campus_id: 'campus-1',
+    lot_number: id.toUpperCase(),
+    expiry_date: expiry,
+    quantity_on_hand: quantity,
+    received_at: '2026-01-15T00:00:00Z',
+});
+
+describe('Inventory', () => {
+    it('counts days to expiry across month ends', () => {
+        expect(daysUntil('2026-03-31', TODAY)).toBe(30);
+        expect(daysUntil('2026-02-28', TODAY)).toBe(-1);
+    });
+
+    it('treats a lot as usable through its expiry date', () => {
+        expect(lotExpiryStatus({ expiry_date: TODAY }, TODAY)).toBe('expiring');
+        expect(lotExpiryStatus({ expiry_date: '2026-02-28' }, TODAY)).toBe('expired');
+        expect(lotExpiryStatus({ expiry_date: '2026-12-31' }, TODAY)).toBe('ok');
+        expect(lotExpiryStatus({ expiry_date: null }, TODAY)).toBe('no_expiry');
+    });
+
+    it('orders lots earliest expiry first, undated last', () => {
+        const sorted = sortLotsByExpiry([lot('c', 1, null), lot('b', 1, '2026-09-01'), lot('a', 1, '2026-04-01')]);
+        expect(sorted.map((l) => l.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('leaves expired stock out of usable stock and flags low stock', () => {
+        const summary = summarizeItemStock(item, [
+            lot('old', 40, '2026-02-01'),
+            lot('soon', 30, '2026-04-01'),
+            lot('fresh', 50, '2027-01-01'),
+            lot('empty', 0, '2027-06-01'),
+            lot('other', 500, '2027-01-01', 'ibuprofen'),
+        ], TODAY);
+        expect(summary.usable).toBe(80);
+        expect(summary.expired).toBe(40);
+        expect(summary.lowStock).toBe(true);
+        expect(summary.lots.map((l) => l.id)).toEqual(['old', 'soon', 'fresh']);
+        expect(summary.expiringLots.map((l) => l.id)).toEqual(['soon']);
+        expect(summary.expiredLots.map((l) => l.id)).toEqual(['old']);
+    });
+
+    it('dispenses from the soonest-expiring lot that has not expired', () => {
+        const lots = dispensableLots([
+            lot('fresh', 50, '2027-01-01'),
+            lot('expired', 10, '2026-02-28'),
+            lot('today', 5, TODAY),
+            lot('empty', 0, '2026-04-01'),
+            lot('other', 5, '2026-03-15', 'ibuprofen'),
+        ], item.id, TODAY);
+        expect(lots.map((l) => l.id)).toEqual(['today', 'fresh']);
+    });
+
+    it('does not flag retired items as low stock', () => {
+        expect(summarizeItemStock({ ...item, is_active: false }, [], TODAY).lowStock).toBe(false);
+    });
+});
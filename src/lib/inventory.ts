@@ -0,0 +1,80 @@
+import type { InventoryCategory, InventoryItem, InventoryLot } from '~/types';
+
+export const INVENTORY_CATEGORIES: { value: InventoryCategory; label: string }[] = [
+  { value: 'medicine', label: 'Medicine' },
+  { value: 'supply', label: 'Supply' },
+];
+
+/** Lots expiring within this many days are flagged on the dashboard. */
+export const EXPIRY_WARNING_DAYS = 60;
+
+export type LotExpiryStatus = 'expired' | 'expiring' | 'ok' | 'no_expiry';
+
+/** Whole days from `today` to `date` (both YYYY-MM-DD); negative once past. */
+export function daysUntil(date: string, today: string): number {
+  const ms = Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`);
+  return Math.round(ms / 86_400_000);
+}
+
+/** A lot is still usable on its expiry date and expired the day after. */
+export function lotExpiryStatus(lot: Pick<InventoryLot, 'expiry_date'>, today: string, warnDays = EXPIRY_WARNING_DAYS): LotExpiryStatus {
+  if (!lot.expiry_date) return 'no_expiry';
+  const days = daysUntil(lot.expiry_date, today);
+  if (days < 0) return 'expired';
+  return days <= warnDays ? 'expiring' : 'ok';
+}
+
+export interface ItemStockSummary {
+  item: InventoryItem;
+  /** Lots with stock left, earliest expiry first */
+  lots: InventoryLot[];
+  /** Stock in lots that have not expired */
+  usable: number;
+  /** Stock still on the shelf past its expiry date, awaiting disposal */
+  expired: number;
+  lowStock: boolean;
+  expiringLots: InventoryLot[];
+  expiredLots: InventoryLot[];
+}
+
+/** Earliest expiry first; lots without an expiry date go last. */
+export function sortLotsByExpiry(lots: InventoryLot[]): InventoryLot[] {
+  return [...lots].sort((a, b) => {
+    if (a.expiry_date === b.expiry_date) return a.received_at.localeCompare(b.received_at);
+    if (!a.expiry_date) return 1;
+    if (!b.expiry_date) return -1;
+    return a.expiry_date.localeCompare(b.expiry_date);
+  });
+}
+
+/**
+ * Roll an item's lots up into what the clinic can still use. Expired stock
+ * does not count toward the reorder level, since it cannot be dispensed.
+ */
+export function summarizeItemStock(item: InventoryItem, lots: InventoryLot[], today: string, warnDays = EXPIRY_WARNING_DAYS): ItemStockSummary {
+  const inStock = sortLotsByExpiry(lots.filter((l) => l.item_id === item.id && l.quantity_on_hand > 0));
+  const expiredLots = inStock.filter((l) => lotExpiryStatus(l, today, warnDays) === 'expired');
+  const expiringLots = inStock.filter((l) => lotExpiryStatus(l, today, warnDays) === 'expiring');
+  const expired = expiredLots.reduce((sum, l) => sum + l.quantity_on_hand, 0);
+  const usable = inStock.reduce((sum, l) => sum + l.quantity_on_hand, 0) - expired;
+  return {
+    item,
+    lots: inStock,
+    usable,
+    expired,
+    lowStock: item.is_active && usable <= item.reorder_level,
+    expiringLots,
+    expiredLots,
+  };
+}
+
+/**
+ * Lots an item can be dispensed from, soonest expiry first so older stock
+ * goes out before it expires. Matches dispense_inventory_item(), which
+ * refuses expired lots.
+ */
+export function dispensableLots(lots: InventoryLot[], itemId: string, today: string): InventoryLot[] {
+  return sortLotsByExpiry(
+    lots.filter((l) => l.item_id === itemId && l.quantity_on_hand > 0 && lotExpiryStatus(l, today) !== 'expired')
+  );
+}
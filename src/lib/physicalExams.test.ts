@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { academicYearStart, complianceCsv, needsReminder, recentAcademicYears, summarizeCompliance } from './physicalExams';
+import type { PhysicalExamComplianceRow } from '~/types';
+
+const row = (overrides: Partial<PhysicalExamComplianceRow> = {}): PhysicalExamComplianceRow => ({
+    profile_id: 'p1',
+    full_name: 'Juan Cruz',
+    email: 'juan@example.com',
+    population: 'student',
+    id_number: '2024-0001',
+    campus_id: 'campus-1',
+    campus_name: 'Main Campus',
+    college_id: null,
+    college_name: 'College of Nursing',
+    department_id: null,
+    department_name: null,
+    completed_on: null,
+    scheduled_on: null,
+    last_reminded_at: null,
+    ...overrides,
+});
+
+describe('Physical exam compliance', () => {
+    it('places dates in the academic year that starts in June', () => {
+        expect(academicYearStart('2026-05-31')).toBe('2025-06-01');
+        expect(academicYearStart('2026-06-01')).toBe('2026-06-01');
+        expect(recentAcademicYears('2026-01-15', 3)).toEqual(['2025-06-01', '2024-06-01', '2023-06-01']);
+    });
+
+    it('reminds only people with nothing done or booked, outside the cooldown', () => {
+        const now = new Date('2026-03-10T00:00:00Z');
+        expect(needsReminder(row(), now)).toBe(true);
+        expect(needsReminder(row({ completed_on: '2026-02-01' }), now)).toBe(false);
+        expect(needsReminder(row({ scheduled_on: '2026-03-20' }), now)).toBe(false);
+        expect(needsReminder(row({ email: '' }), now)).toBe(false);
+        expect(needsReminder(row({ last_reminded_at: '2026-03-05T00:00:00Z' }), now)).toBe(false);
+        expect(needsReminder(row({ last_reminded_at: '2026-03-03T00:00:00Z' }), now)).toBe(true);
+    });
+
+    it('summarizes and exports the report', () => {
+        const rows = [
+            row({ completed_on: '2025-08-01', scheduled_on: '2025-09-01' }),
+            row({ scheduled_on: '2025-09-01' }),
+            row({ full_name: 'Cruz, "JD" Juan' }),
+        ];
+        expect(summarizeCompliance(rows)).toEqual({ total: 3, completed: 1, scheduled: 1, missing: 1, rate: 33 });
+
+        const lines = complianceCsv(rows).trimEnd().split('\r\n');
+        expect(lines).toHaveLength(4);
+        expect(lines[1]).toContain(',Completed,2025-08-01,');
+        expect(lines[3].startsWith('"Cruz, ""JD"" Juan",')).toBe(true);
+    });
+});
@@ -0,0 +1,103 @@
+import type { PhysicalExamComplianceRow } from '~/types';
+
+// Keep in sync with create_physical_exam_compliance.sql and the send-email edge function
+export const ACADEMIC_YEAR_START_MONTH = 6;
+export const REMINDER_COOLDOWN_DAYS = 7;
+
+export type ComplianceStatus = 'completed' | 'scheduled' | 'missing';
+
+export const COMPLIANCE_LABELS: Record<ComplianceStatus, string> = {
+  completed: 'Completed',
+  scheduled: 'Booked',
+  missing: 'Not yet',
+};
+
+/** Start (YYYY-06-01) of the academic year a date (YYYY-MM-DD) falls in. */
+export function academicYearStart(date: string): string {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  const startYear = month >= ACADEMIC_YEAR_START_MONTH ? year : year - 1;
+  return `${startYear}-${String(ACADEMIC_YEAR_START_MONTH).padStart(2, '0')}-01`;
+}
+
+export function academicYearLabel(start: string): string {
+  const year = Number(start.slice(0, 4));
+  return `AY ${year}–${year + 1}`;
+}
+
+/** The current academic year and the ones before it, newest first. */
+export function recentAcademicYears(today: string, count: number): string[] {
+  const currentStartYear = Number(academicYearStart(today).slice(0, 4));
+  return Array.from({ length: count }, (_, i) => academicYearStart(`${currentStartYear - i}-${String(ACADEMIC_YEAR_START_MONTH).padStart(2, '0')}-01`));
+}
+
+export function complianceStatus(row: Pick<PhysicalExamComplianceRow, 'completed_on' | 'scheduled_on'>): ComplianceStatus {
+  if (row.completed_on) return 'completed';
+  if (row.scheduled_on) return 'scheduled';
+  return 'missing';
+}
+
+/**
+ * Whether the one-click reminder would email this person: no exam done or
+ * booked, an email on file, and not reminded within the cooldown.
+ */
+export function needsReminder(
+  row: Pick<PhysicalExamComplianceRow, 'completed_on' | 'scheduled_on' | 'email' | 'last_reminded_at'>,
+  now: Date
+): boolean {
+  if (complianceStatus(row) !== 'missing' || !row.email?.includes('@')) return false;
+  if (!row.last_reminded_at) return true;
+  return now.getTime() - new Date(row.last_reminded_at).getTime() >= REMINDER_COOLDOWN_DAYS * 24 * 60 * 60 * 1000;
+}
+
+export interface ComplianceSummary {
+  total: number;
+  completed: number;
+  scheduled: number;
+  missing: number;
+  /** Completed share, 0–100, rounded down */
+  rate: number;
+}
+
+export function summarizeCompliance(rows: Pick<PhysicalExamComplianceRow, 'completed_on' | 'scheduled_on'>[]): ComplianceSummary {
+  const summary = { total: rows.length, completed: 0, scheduled: 0, missing: 0, rate: 0 };
+  for (const row of rows) summary[complianceStatus(row)]++;
+  summary.rate = summary.total ? Math.floor((summary.completed / summary.total) * 100) : 0;
+  return summary;
+}
+
+function csvCell(value: string | null | undefined): string {
+  const text = value ?? '';
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The report as CSV, one row per person, in the order given. */
+export function complianceCsv(rows: PhysicalExamComplianceRow[]): string {
+  const header = ['Name', 'ID Number', 'Email', 'Type', 'Campus', 'College', 'Department', 'Status', 'Completed On', 'Booked For'];
+  const lines = rows.map((row) => [
+    row.full_name,
+    row.id_number,
+    row.email,
+    row.population === 'student' ? 'Student' : 'Employee',
+    row.campus_name,
+    row.college_name,
+    row.department_name,
+    COMPLIANCE_LABELS[complianceStatus(row)],
+    row.completed_on,
+    row.completed_on ? null : row.scheduled_on,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+/** Download the report as a CSV file named after the academic year. */
+export function downloadComplianceCsv(rows: PhysicalExamComplianceRow[], yearStart: string) {
+  const blob = new Blob([complianceCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `physical-exam-compliance-${yearStart.slice(0, 4)}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { followUpDueDate, isFollowUpOverdue } from './referrals';
+
+describe('Referrals', () => {
+    it('sets the follow-up date by urgency, across month ends', () => {
+        expect(followUpDueDate({ visit_date: '2026-01-25', urgency: 'routine' })).toBe('2026-02-08');
+        expect(followUpDueDate({ visit_date: '2026-02-27', urgency: 'urgent' })).toBe('2026-03-02');
+        expect(followUpDueDate({ visit_date: '2026-12-31', urgency: 'emergency' })).toBe('2027-01-01');
+    });
+
+    it('is overdue only after the follow-up date', () => {
+        const referral = { visit_date: '2026-03-01', urgency: 'urgent' as const, status: 'open' as const };
+        expect(isFollowUpOverdue(referral, '2026-03-04')).toBe(false);
+        expect(isFollowUpOverdue(referral, '2026-03-05')).toBe(true);
+    });
+
+    it('never flags returned or closed referrals', () => {
+        expect(isFollowUpOverdue({ visit_date: '2025-01-01', urgency: 'routine', status: 'returned' }, '2026-03-01')).toBe(false);
+        expect(isFollowUpOverdue({ visit_date: '2025-01-01', urgency: 'routine', status: 'closed' }, '2026-03-01')).toBe(false);
+    });
+});
@@ -0,0 +1,34 @@
+import type { Referral, ReferralUrgency } from '~/types';
+
+export const REFERRAL_URGENCIES: { value: ReferralUrgency; label: string; followUpDays: number }[] = [
+  { value: 'routine', label: 'Routine', followUpDays: 14 },
+  { value: 'urgent', label: 'Urgent', followUpDays: 3 },
+  { value: 'emergency', label: 'Emergency', followUpDays: 1 },
+];
+
+// Spelled out in full so Tailwind keeps the classes
+export const URGENCY_BADGES: Record<ReferralUrgency, string> = {
+  routine: 'bg-gray-50 text-gray-700 border-gray-200',
+  urgent: 'bg-amber-50 text-amber-700 border-amber-200',
+  emergency: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export function urgencyLabel(urgency: ReferralUrgency): string {
+  return REFERRAL_URGENCIES.find((u) => u.value === urgency)?.label ?? urgency;
+}
+
+/**
+ * The day nurses should have heard back about an open referral, counted
+ * from the visit (YYYY-MM-DD): the more urgent, the sooner.
+ */
+export function followUpDueDate(referral: Pick<Referral, 'visit_date' | 'urgency'>): string {
+  const days = REFERRAL_URGENCIES.find((u) => u.value === referral.urgency)?.followUpDays ?? 14;
+  const due = new Date(`${referral.visit_date}T00:00:00Z`);
+  due.setUTCDate(due.getUTCDate() + days);
+  return due.toISOString().slice(0, 10);
+}
+
+/** Open referrals past their follow-up date; returned and closed ones never are. */
+export function isFollowUpOverdue(referral: Pick<Referral, 'visit_date' | 'urgency' | 'status'>, today: string): boolean {
+  return referral.status === 'open' && today > followUpDueDate(referral);
+}
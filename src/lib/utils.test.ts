@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatDate, formatTime, formatLocalDate, getWeekBounds, calculateAge } from './utils';
+import { formatDate, formatTime, formatLocalDate, generateSlotTimes, getTypeCapacity, getWeekBounds, calculateAge } from './utils';
 
 describe('Utility Functions', () => {
     describe('formatDate', () => {
@@ -27,6 +27,40 @@ describe('Utility Functions', () => {
         });
     });
 
+    describe('generateSlotTimes', () => {
+        it('splits a window into fixed-length slots', () => {
+            expect(generateSlotTimes('08:00', '09:30', 30)).toEqual([
+                { startTime: '08:00', endTime: '08:30' },
+                { startTime: '08:30', endTime: '09:00' },
+                { startTime: '09:00', endTime: '09:30' },
+            ]);
+        });
+
+        it('drops a trailing slot that would run past the end time', () => {
+            expect(generateSlotTimes('13:00:00', '14:00:00', 45)).toEqual([
+                { startTime: '13:00', endTime: '13:45' },
+            ]);
+        });
+
+        it('returns no slots for a non-positive duration', () => {
+            expect(generateSlotTimes('08:00', '12:00', 0)).toEqual([]);
+        });
+    });
+
+    describe('getTypeCapacity', () => {
+        it('prefers the day override over the campus default', () => {
+            expect(getTypeCapacity('dental', { type_capacity: { dental: 4 } }, { type_capacity: { dental: 10 } })).toBe(4);
+        });
+
+        it('falls back to the campus default for types the override leaves out', () => {
+            expect(getTypeCapacity('dental', { type_capacity: { consultation: 20 } }, { type_capacity: { dental: 10 } })).toBe(10);
+        });
+
+        it('returns null when no bucket is configured', () => {
+            expect(getTypeCapacity('physical_exam', null, { type_capacity: {} })).toBeNull();
+        });
+    });
+
     describe('getWeekBounds', () => {
         it('returns start and end of week', () => {
             // Jan 10 2024 is Wednesday. Week should be Mon Jan 8 to Fri Jan 12 (or similar span)
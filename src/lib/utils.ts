@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { AppointmentType, TypeCapacity } from '~/types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -28,6 +29,45 @@ export function formatLocalDate(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+/**
+ * Split a schedule window into back-to-back slots of `slotDuration` minutes.
+ * Only slots that end within the window are returned, matching the
+ * server-side check in book_appointment().
+ */
+export function generateSlotTimes(
+  startTime: string,
+  endTime: string,
+  slotDuration: number
+): { startTime: string; endTime: string }[] {
+  if (!slotDuration || slotDuration <= 0) return [];
+  const toMinutes = (t: string) => {
+    const [h, m] = t.split(':').map(Number);
+    return h * 60 + m;
+  };
+  const toTime = (minutes: number) =>
+    `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+  const slots: { startTime: string; endTime: string }[] = [];
+  const end = toMinutes(endTime);
+  for (let current = toMinutes(startTime); current + slotDuration <= end; current += slotDuration) {
+    slots.push({ startTime: toTime(current), endTime: toTime(current + slotDuration) });
+  }
+  return slots;
+}
+
+/**
+ * Effective per-type capacity for a day: the day override's bucket wins over
+ * the campus default, mirroring get_type_capacity() on the server.
+ * Returns null when the type has no bucket of its own.
+ */
+export function getTypeCapacity(
+  type: AppointmentType,
+  override?: { type_capacity?: TypeCapacity } | null,
+  setting?: { type_capacity?: TypeCapacity } | null
+): number | null {
+  return override?.type_capacity?.[type] ?? setting?.type_capacity?.[type] ?? null;
+}
+
 export function getWeekBounds(date: Date): { start: Date; end: Date } {
   const start = new Date(date);
   const day = start.getDay();
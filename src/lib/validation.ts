@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { APPOINTMENT_TYPE_CODES, APPOINTMENT_TYPE_COLORS, BOOKER_ROLES } from './appointmentTypes';
 
 // ─── Phone Number Validation ─────────────────────────────────────────────────
 // Philippine phone numbers: +63 followed by 10 digits, or 11 digits starting with 09
@@ -87,7 +88,7 @@ export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>;
 export const appointmentSchema = z.object({
   patientId: uuidSchema.optional(),
   campusId: uuidSchema,
-  appointmentType: z.enum(['consultation', 'dental', 'medical_certificate', 'follow_up', 'emergency']),
+  appointmentType: z.enum(APPOINTMENT_TYPE_CODES),
   appointmentDate: dateSchema,
   startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
   endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
@@ -97,11 +98,27 @@ export const appointmentSchema = z.object({
   patientName: nameSchema.optional(),
   patientEmail: emailSchema.optional(),
   patientPhone: phoneSchema,
-  bookerRole: z.enum(['student', 'nurse', 'admin', 'supervisor']).default('student'),
+  bookerRole: z.enum(BOOKER_ROLES).default('student'),
 });
 
 export type AppointmentInput = z.infer<typeof appointmentSchema>;
 
+export const appointmentTypeConfigSchema = z.object({
+  label: z.string()
+    .trim()
+    .min(1, 'Label is required')
+    .max(60, 'Label must be less than 60 characters'),
+  color: z.enum(APPOINTMENT_TYPE_COLORS),
+  durationMinutes: z.number()
+    .int('Duration must be a whole number of minutes')
+    .min(5, 'Duration must be at least 5 minutes')
+    .max(240, 'Duration must be at most 240 minutes'),
+  enabled: z.boolean(),
+  allowedBookerRoles: z.array(z.enum(BOOKER_ROLES)),
+});
+
+export type AppointmentTypeConfigInput = z.infer<typeof appointmentTypeConfigSchema>;
+
 // ─── Email Template Validation ───────────────────────────────────────────────
 
 export const emailTemplateSchema = z.object({
@@ -161,6 +178,102 @@ export const dayOverrideSchema = z.object({
 
 export type DayOverrideInput = z.infer<typeof dayOverrideSchema>;
 
+// ─── Vital Signs Validation ──────────────────────────────────────────────────
+// These limits only reject values that cannot be real readings (usually typos,
+// e.g. 370 for 37.0 °C). Abnormal but possible values pass and are flagged by
+// getVitalWarnings() in vitals.ts instead. Keep in sync with create_vital_signs.sql.
+
+const vitalReading = (label: string, min: number, max: number, unit: string, wholeNumber = true) => {
+  const base = z.number({ error: `${label} must be a number` });
+  return (wholeNumber ? base.int(`${label} must be a whole number`) : base)
+    .min(min, `${label} must be at least ${min} ${unit}`)
+    .max(max, `${label} must be at most ${max} ${unit}`)
+    .optional();
+};
+
+export const vitalSignsSchema = z.object({
+  systolicBp: vitalReading('Systolic pressure', 50, 300, 'mmHg'),
+  diastolicBp: vitalReading('Diastolic pressure', 30, 200, 'mmHg'),
+  heartRate: vitalReading('Heart rate', 20, 250, 'bpm'),
+  temperatureC: vitalReading('Temperature', 30, 45, '°C', false),
+  respiratoryRate: vitalReading('Respiratory rate', 4, 80, '/min'),
+  weightKg: vitalReading('Weight', 2, 350, 'kg', false),
+  heightCm: vitalReading('Height', 40, 250, 'cm', false),
+  spo2: vitalReading('SpO2', 50, 100, '%'),
+})
+  .refine((v) => Object.values(v).some((reading) => reading !== undefined), {
+    message: 'Enter at least one reading',
+    path: ['_general'],
+  })
+  .refine((v) => (v.systolicBp === undefined) === (v.diastolicBp === undefined), {
+    message: 'Enter both systolic and diastolic pressure',
+    path: ['diastolicBp'],
+  })
+  .refine((v) => v.systolicBp === undefined || v.diastolicBp === undefined || v.systolicBp > v.diastolicBp, {
+    message: 'Systolic pressure must be higher than diastolic',
+    path: ['systolicBp'],
+  });
+
+export type VitalSignsInput = z.infer<typeof vitalSignsSchema>;
+
+// ─── Inventory Validation ────────────────────────────────────────────────────
+// Keep in sync with create_inventory.sql.
+
+const stockQuantity = z.number({ error: 'Quantity must be a number' })
+  .int('Quantity must be a whole number')
+  .min(1, 'Quantity must be at least 1')
+  .max(100000, 'Quantity must be at most 100000');
+
+export const inventoryItemSchema = z.object({
+  name: z.string().trim().min(1, 'Item name is required').max(120, 'Item name must be less than 120 characters'),
+  category: z.enum(['medicine', 'supply']),
+  unit: z.string().trim().min(1, 'Unit is required').max(30, 'Unit must be less than 30 characters'),
+  reorderLevel: z.number({ error: 'Reorder level must be a number' })
+    .int('Reorder level must be a whole number')
+    .min(0, 'Reorder level cannot be negative')
+    .max(100000, 'Reorder level must be at most 100000'),
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+});
+
+export type InventoryItemInput = z.infer<typeof inventoryItemSchema>;
+
+export const stockInSchema = z.object({
+  lotNumber: z.string().trim().min(1, 'Lot number is required').max(60, 'Lot number must be less than 60 characters'),
+  expiryDate: dateSchema.optional(),
+  quantity: stockQuantity,
+  notes: z.string().max(500, 'Notes must be less than 500 characters').optional(),
+});
+
+export type StockInInput = z.infer<typeof stockInSchema>;
+
+export const stockOutSchema = z.object({
+  quantity: stockQuantity,
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason must be less than 500 characters'),
+});
+
+export type StockOutInput = z.infer<typeof stockOutSchema>;
+
+export const dispenseSchema = z.object({
+  lotId: z.string().min(1, 'Please choose a lot'),
+  quantity: stockQuantity,
+  instructions: z.string().trim().max(500, 'Instructions must be less than 500 characters').optional(),
+});
+
+export type DispenseInput = z.infer<typeof dispenseSchema>;
+
+// ─── Referral Validation ─────────────────────────────────────────────────────
+// Keep in sync with create_referrals.sql.
+
+export const referralSchema = z.object({
+  facilityName: z.string().trim().min(1, 'Facility is required').max(200, 'Facility must be less than 200 characters'),
+  referredTo: z.string().trim().max(200, 'Referred to must be less than 200 characters').optional(),
+  reason: z.string().trim().min(1, 'Reason for referral is required').max(1000, 'Reason must be less than 1000 characters'),
+  urgency: z.enum(['routine', 'urgent', 'emergency']),
+  findings: z.string().trim().min(1, 'Findings are required').max(2000, 'Findings must be less than 2000 characters'),
+});
+
+export type ReferralInput = z.infer<typeof referralSchema>;
+
 // ─── Utility Functions ───────────────────────────────────────────────────────
 
 /**
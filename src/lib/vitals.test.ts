@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { computeBmi, bmiCategory, getVitalWarnings } from './vitals';
+import { vitalSignsSchema, validateInput } from './validation';
+
+describe('Vital signs', () => {
+    describe('computeBmi', () => {
+        it('computes BMI from kg and cm, rounded to one decimal', () => {
+            expect(computeBmi(70, 175)).toBe(22.9);
+            expect(computeBmi(50, 160)).toBe(19.5);
+        });
+
+        it('needs both weight and height', () => {
+            expect(computeBmi(70, undefined)).toBeNull();
+            expect(computeBmi(null, 175)).toBeNull();
+        });
+
+        it('uses WHO categories', () => {
+            expect(bmiCategory(18.4)).toBe('Underweight');
+            expect(bmiCategory(18.5)).toBe('Normal');
+            expect(bmiCategory(25)).toBe('Overweight');
+            expect(bmiCategory(30)).toBe('Obese');
+        });
+    });
+
+    describe('getVitalWarnings', () => {
+        it('returns nothing for normal readings', () => {
+            expect(getVitalWarnings({
+                systolicBp: 118, diastolicBp: 76, heartRate: 72, temperatureC: 36.6,
+                respiratoryRate: 16, weightKg: 65, heightCm: 170, spo2: 98,
+            })).toEqual([]);
+        });
+
+        it('grades abnormal readings by severity', () => {
+            const warnings = getVitalWarnings({ systolicBp: 185, diastolicBp: 100, temperatureC: 38.2, spo2: 93, heartRate: 140 });
+            expect(warnings.map((w) => [w.field, w.severity])).toEqual([
+                ['systolicBp', 'critical'],
+                ['heartRate', 'critical'],
+                ['temperatureC', 'warning'],
+                ['spo2', 'warning'],
+            ]);
+        });
+
+        it('flags low blood pressure and a BMI outside the normal range', () => {
+            const warnings = getVitalWarnings({ systolicBp: 85, diastolicBp: 55, weightKg: 45, heightCm: 170 });
+            expect(warnings).toEqual([
+                { field: 'systolicBp', severity: 'warning', message: 'Blood pressure 85/55 mmHg is low' },
+                { field: 'bmi', severity: 'warning', message: 'BMI 15.6 (underweight)' },
+            ]);
+        });
+    });
+
+    describe('vitalSignsSchema', () => {
+        it('accepts a partial set of readings', () => {
+            expect(validateInput(vitalSignsSchema, { temperatureC: 37.2 }).success).toBe(true);
+        });
+
+        it('rejects impossible values and an empty form', () => {
+            expect(validateInput(vitalSignsSchema, { temperatureC: 372 }).errors).toEqual({
+                temperatureC: 'Temperature must be at most 45 °C',
+            });
+            expect(validateInput(vitalSignsSchema, { heartRate: 72.5 }).errors?.heartRate).toBe('Heart rate must be a whole number');
+            expect(validateInput(vitalSignsSchema, {}).errors).toEqual({ _general: 'Enter at least one reading' });
+        });
+
+        it('requires both blood pressure values with systolic above diastolic', () => {
+            expect(validateInput(vitalSignsSchema, { systolicBp: 120 }).errors?.diastolicBp).toBe('Enter both systolic and diastolic pressure');
+            expect(validateInput(vitalSignsSchema, { systolicBp: 80, diastolicBp: 90 }).errors?.systolicBp).toBe('Systolic pressure must be higher than diastolic');
+        });
+    });
+});
@@ -0,0 +1,86 @@
+import type { VitalSigns } from '~/types';
+import type { VitalSignsInput } from './validation';
+
+export type VitalField = keyof VitalSignsInput | 'bmi';
+
+export interface VitalWarning {
+  field: VitalField;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+/** BMI from weight (kg) and height (cm), rounded to one decimal. */
+export function computeBmi(weightKg?: number | null, heightCm?: number | null): number | null {
+  if (!weightKg || !heightCm) return null;
+  const meters = heightCm / 100;
+  return Math.round((weightKg / (meters * meters)) * 10) / 10;
+}
+
+/** WHO adult BMI categories. */
+export function bmiCategory(bmi: number): 'Underweight' | 'Normal' | 'Overweight' | 'Obese' {
+  if (bmi < 18.5) return 'Underweight';
+  if (bmi < 25) return 'Normal';
+  if (bmi < 30) return 'Overweight';
+  return 'Obese';
+}
+
+/**
+ * Flags readings outside normal adult resting ranges. These are prompts for the
+ * nurse to re-check or escalate, not a diagnosis; values that cannot be real
+ * readings are rejected earlier by vitalSignsSchema.
+ */
+export function getVitalWarnings(v: VitalSignsInput): VitalWarning[] {
+  const warnings: VitalWarning[] = [];
+  const add = (field: VitalField, severity: VitalWarning['severity'], message: string) =>
+    warnings.push({ field, severity, message });
+
+  if (v.systolicBp !== undefined && v.diastolicBp !== undefined) {
+    const bp = `${v.systolicBp}/${v.diastolicBp} mmHg`;
+    if (v.systolicBp >= 180 || v.diastolicBp >= 120) add('systolicBp', 'critical', `Blood pressure ${bp} is in the hypertensive crisis range`);
+    else if (v.systolicBp >= 140 || v.diastolicBp >= 90) add('systolicBp', 'warning', `Blood pressure ${bp} is high`);
+    else if (v.systolicBp < 90 || v.diastolicBp < 60) add('systolicBp', 'warning', `Blood pressure ${bp} is low`);
+  }
+
+  if (v.heartRate !== undefined) {
+    if (v.heartRate < 40 || v.heartRate > 130) add('heartRate', 'critical', `Heart rate ${v.heartRate} bpm is far outside 60–100`);
+    else if (v.heartRate < 60 || v.heartRate > 100) add('heartRate', 'warning', `Heart rate ${v.heartRate} bpm is outside 60–100`);
+  }
+
+  if (v.temperatureC !== undefined) {
+    if (v.temperatureC >= 39.5) add('temperatureC', 'critical', `High fever (${v.temperatureC} °C)`);
+    else if (v.temperatureC >= 37.5) add('temperatureC', 'warning', `Fever (${v.temperatureC} °C)`);
+    else if (v.temperatureC < 35) add('temperatureC', 'critical', `Low body temperature (${v.temperatureC} °C)`);
+  }
+
+  if (v.respiratoryRate !== undefined) {
+    if (v.respiratoryRate < 8 || v.respiratoryRate > 30) add('respiratoryRate', 'critical', `Respiratory rate ${v.respiratoryRate}/min is far outside 12–20`);
+    else if (v.respiratoryRate < 12 || v.respiratoryRate > 20) add('respiratoryRate', 'warning', `Respiratory rate ${v.respiratoryRate}/min is outside 12–20`);
+  }
+
+  if (v.spo2 !== undefined) {
+    if (v.spo2 < 90) add('spo2', 'critical', `SpO2 ${v.spo2}% is below 90%`);
+    else if (v.spo2 < 95) add('spo2', 'warning', `SpO2 ${v.spo2}% is below 95%`);
+  }
+
+  const bmi = computeBmi(v.weightKg, v.heightCm);
+  if (bmi !== null && (bmi < 18.5 || bmi >= 30)) {
+    add('bmi', 'warning', `BMI ${bmi} (${bmiCategory(bmi).toLowerCase()})`);
+  }
+
+  return warnings;
+}
+
+/** Maps a stored row back to form readings, e.g. to re-check old visits for warnings. */
+export function readingsFromRecord(record: VitalSigns): VitalSignsInput {
+  const value = (n: number | null) => (n === null ? undefined : Number(n));
+  return {
+    systolicBp: value(record.systolic_bp),
+    diastolicBp: value(record.diastolic_bp),
+    heartRate: value(record.heart_rate),
+    temperatureC: value(record.temperature_c),
+    respiratoryRate: value(record.respiratory_rate),
+    weightKg: value(record.weight_kg),
+    heightCm: value(record.height_cm),
+    spo2: value(record.spo2),
+  };
+}
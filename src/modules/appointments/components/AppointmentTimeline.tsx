@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarPlus, CalendarClock, RefreshCw, LogIn, Megaphone, Mail, BellRing, History } from 'lucide-react';
+import { useAppointmentStore } from '../store';
+import { formatDate, formatTime } from '~/lib/utils';
+import type { AppointmentHistoryEntry, AppointmentHistoryEvent } from '~/types';
+
+interface AppointmentTimelineProps {
+  appointmentId: string;
+}
+
+const EVENT_STYLES: Record<AppointmentHistoryEvent, { icon: typeof History; className: string }> = {
+  created: { icon: CalendarPlus, className: 'bg-maroon-100 text-maroon-800' },
+  rescheduled: { icon: CalendarClock, className: 'bg-amber-100 text-amber-700' },
+  status_changed: { icon: RefreshCw, className: 'bg-blue-100 text-blue-700' },
+  checked_in: { icon: LogIn, className: 'bg-green-100 text-green-700' },
+  called: { icon: Megaphone, className: 'bg-green-100 text-green-700' },
+  confirmation_sent: { icon: Mail, className: 'bg-gray-100 text-gray-600' },
+  reminder_sent: { icon: BellRing, className: 'bg-gray-100 text-gray-600' },
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No Show',
+};
+
+/** "March 14, 2025 · Morning", or the slot time for slot-mode bookings. */
+function describeWhen(date: unknown, timeOfDay: unknown, startTime: unknown): string {
+  if (typeof date !== 'string') return 'an unknown date';
+  const session = timeOfDay === 'AM' ? 'Morning' : timeOfDay === 'PM' ? 'Afternoon' : null;
+  // Session bookings always start at 08:00 / 13:00; anything else is a concrete slot
+  const time = typeof startTime === 'string' && startTime !== '08:00' && startTime !== '13:00' ? formatTime(startTime) : null;
+  return [formatDate(date), time ?? session].filter(Boolean).join(' · ');
+}
+
+function describeEvent(entry: AppointmentHistoryEntry): { title: string; note?: string } {
+  const d = entry.details ?? {};
+  switch (entry.event) {
+    case 'created':
+      return { title: `Booked for ${describeWhen(d.appointment_date, d.time_of_day, d.start_time)}` };
+    case 'rescheduled':
+      return {
+        title: 'Rescheduled',
+        note: `${describeWhen(d.from_date, d.from_time_of_day, d.from_start_time)} → ${describeWhen(d.to_date, d.to_time_of_day, d.to_start_time)}`,
+      };
+    case 'status_changed':
+      return {
+        title: `${STATUS_LABELS[String(d.from)] ?? d.from} → ${STATUS_LABELS[String(d.to)] ?? d.to}`,
+        note: d.reason ? `Reason: ${d.reason}` : undefined,
+      };
+    case 'checked_in':
+      return { title: d.queue_number != null ? `Checked in · queue #${d.queue_number}` : 'Checked in' };
+    case 'called':
+      return { title: d.queue_number != null ? `Called in · queue #${d.queue_number}` : 'Called in' };
+    case 'confirmation_sent':
+      return { title: 'Booking confirmation emailed' };
+    case 'reminder_sent':
+      return { title: 'Reminder emailed' };
+    default:
+      return { title: String(entry.event) };
+  }
+}
+
+/** Server-recorded history of one appointment (see create_appointment_history.sql). */
+export function AppointmentTimeline({ appointmentId }: AppointmentTimelineProps) {
+  const { fetchAppointmentHistory } = useAppointmentStore();
+  const [entries, setEntries] = useState<AppointmentHistoryEntry[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setFailed(false);
+
+    fetchAppointmentHistory(appointmentId)
+      .then((result) => {
+        if (!cancelled) setEntries(result);
+      })
+      .catch((err) => {
+        console.error('Failed to load appointment history:', err);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, fetchAppointmentHistory]);
+
+  if (failed) {
+    return <p className="text-xs text-gray-500">History is unavailable right now.</p>;
+  }
+
+  if (!entries) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-5 h-5 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-500">No history recorded for this appointment yet.</p>;
+  }
+
+  return (
+    <ol className="relative">
+      {entries.map((entry, index) => {
+        const { icon: Icon, className } = EVENT_STYLES[entry.event] ?? { icon: History, className: 'bg-gray-100 text-gray-600' };
+        const { title, note } = describeEvent(entry);
+        const isLast = index === entries.length - 1;
+        return (
+          <li key={entry.id} className="relative flex gap-3 pb-3">
+            {!isLast && <span className="absolute left-3.5 top-7 bottom-0 w-px bg-gray-200" aria-hidden />}
+            <span className={`w-7 h-7 flex-shrink-0 rounded-full flex items-center justify-center ${className}`}>
+              <Icon className="w-3.5 h-3.5" />
+            </span>
+            <div className="min-w-0 pt-0.5">
+              <p className="text-sm font-medium text-gray-800">{title}</p>
+              {note && <p className="text-xs text-gray-600 break-words">{note}</p>}
+              <p className="text-[11px] text-gray-400">
+                {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                {entry.actor_name && ` · ${entry.actor_name}${entry.actor_role ? ` (${entry.actor_role})` : ''}`}
+                {/* Backfilled bookings have no actor either, so only later events are attributed to the system */}
+                {!entry.actor_id && !entry.actor_name && entry.event !== 'created' && ' · System'}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
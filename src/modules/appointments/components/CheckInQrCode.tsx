@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { QrCode } from 'lucide-react';
+import { useAppointmentStore } from '../store';
+import { checkInQrDataUrl } from '~/lib/checkInCode';
+
+interface CheckInQrCodeProps {
+  appointmentId: string;
+}
+
+/** Signed check-in QR for the patient to show at the clinic. */
+export function CheckInQrCode({ appointmentId }: CheckInQrCodeProps) {
+  const { fetchCheckInCode } = useAppointmentStore();
+  const [code, setCode] = useState<string | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCode(null);
+    setImageUrl(null);
+    setFailed(false);
+
+    fetchCheckInCode(appointmentId)
+      .then(async (result) => {
+        const url = await checkInQrDataUrl(result);
+        if (cancelled) return;
+        setCode(result);
+        setImageUrl(url);
+      })
+      .catch((err) => {
+        console.error('Failed to load check-in code:', err);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, fetchCheckInCode]);
+
+  return (
+    <div className="flex flex-col items-center text-center">
+      <p className="text-[11px] font-semibold text-gray-400 uppercase tracking-widest mb-2 flex items-center gap-1">
+        <QrCode className="w-3.5 h-3.5" />
+        Check-in Code
+      </p>
+      {failed ? (
+        <p className="text-xs text-gray-500">Unable to load your check-in code. You can still check in at the clinic desk.</p>
+      ) : !imageUrl || !code ? (
+        <div className="w-40 h-40 flex items-center justify-center">
+          <div className="w-6 h-6 border-2 border-maroon-800 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <>
+          <img src={imageUrl} alt="Check-in QR code" className="w-40 h-40" />
+          <p className="text-xs text-gray-500 mt-1">Show this at the clinic on the day of your appointment.</p>
+          <p className="text-[10px] text-gray-400 font-mono break-all mt-1 select-all">{code}</p>
+        </>
+      )}
+    </div>
+  );
+}
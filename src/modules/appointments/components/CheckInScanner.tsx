@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Camera, Check, AlertCircle, Keyboard, X } from 'lucide-react';
+import { useAppointmentStore } from '../store';
+import { extractCheckInCode } from '~/lib/checkInCode';
+import type { Appointment } from '~/types';
+
+// Shape-detection API; not in the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+
+// Ignore the same code while it stays in front of the camera
+const RESCAN_COOLDOWN_MS = 4000;
+
+interface CheckInScannerProps {
+  campusId: string;
+  onClose: () => void;
+  onCheckedIn?: (appointment: Appointment) => void;
+}
+
+/**
+ * Check patients in from their QR code. Uses the device camera where the
+ * browser supports barcode detection; manual code entry always works.
+ */
+export function CheckInScanner({ campusId, onClose, onCheckedIn }: CheckInScannerProps) {
+  const { checkInByCode } = useAppointmentStore();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const busyRef = useRef(false);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const [cameraState, setCameraState] = useState<'starting' | 'on' | 'unavailable'>(
+    getBarcodeDetector() && 'mediaDevices' in navigator ? 'starting' : 'unavailable'
+  );
+  const [manualCode, setManualCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [result, setResult] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const submitCode = useCallback(async (raw: string) => {
+    if (busyRef.current) return;
+    const code = extractCheckInCode(raw);
+    if (!code) {
+      setResult({ type: 'error', text: 'This is not a clinic check-in code.' });
+      return;
+    }
+
+    busyRef.current = true;
+    setIsChecking(true);
+    try {
+      const apt = await checkInByCode(code, campusId);
+      setResult({
+        type: 'success',
+        text: `${apt.patient_name || 'Patient'} checked in — queue #${apt.queue_number} (${apt.time_of_day})`,
+      });
+      setManualCode('');
+      onCheckedIn?.(apt);
+    } catch (err) {
+      setResult({ type: 'error', text: err instanceof Error ? err.message : 'Failed to check in.' });
+    } finally {
+      busyRef.current = false;
+      setIsChecking(false);
+    }
+  }, [campusId, checkInByCode, onCheckedIn]);
+
+  // The camera loop outlives re-renders; always call the latest submitCode
+  const submitRef = useRef(submitCode);
+  submitRef.current = submitCode;
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector || !('mediaDevices' in navigator)) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (media) => {
+        if (stopped) {
+          media.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        await video.play();
+        setCameraState('on');
+
+        timer = setInterval(async () => {
+          if (busyRef.current || video.readyState < 2) return;
+          try {
+            const codes = await detector.detect(video);
+            const value = codes[0]?.rawValue;
+            if (!value) return;
+            const last = lastScanRef.current;
+            if (last && last.code === value && Date.now() - last.at < RESCAN_COOLDOWN_MS) return;
+            lastScanRef.current = { code: value, at: Date.now() };
+            await submitRef.current(value);
+          } catch {
+            // Frame not ready; try again on the next tick
+          }
+        }, 400);
+      })
+      .catch((err) => {
+        console.warn('Camera unavailable, falling back to manual entry:', err);
+        if (!stopped) setCameraState('unavailable');
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden"
+      >
+        <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Camera className="w-4 h-4 text-maroon-800" />
+            Scan Check-in Code
+          </h3>
+          <button onClick={onClose} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {cameraState !== 'unavailable' ? (
+            <div className="relative aspect-square bg-gray-900 rounded-lg overflow-hidden">
+              <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+              {cameraState === 'starting' && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                </div>
+              )}
+              <div className="absolute inset-10 border-2 border-white/70 rounded-lg pointer-events-none" />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
+              Camera scanning isn&apos;t available on this device or browser. Enter the code printed under the patient&apos;s QR code instead.
+            </p>
+          )}
+
+          {result && (
+            <div className={`flex items-start gap-2 p-3 rounded-lg text-sm ${
+              result.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+            }`}>
+              {result.type === 'success'
+                ? <Check className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                : <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+              <p>{result.text}</p>
+            </div>
+          )}
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              void submitCode(manualCode);
+            }}
+            className="space-y-2"
+          >
+            <label className="text-sm font-medium text-gray-700 flex items-center gap-1.5">
+              <Keyboard className="w-4 h-4 text-gray-400" />
+              Enter code manually
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="LDCU1...."
+                className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm font-mono"
+              />
+              <button
+                type="submit"
+                disabled={isChecking || !manualCode.trim()}
+                className="px-4 py-2 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center gap-2"
+              >
+                {isChecking && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                Check In
+              </button>
+            </div>
+          </form>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,3 +1,7 @@
 export { useAppointmentStore } from './store';
+export type { BookingAttempt } from './store';
 export { AppointmentCard } from './components/AppointmentCard';
 export { AppointmentList } from './components/AppointmentList';
+export { CheckInQrCode } from './components/CheckInQrCode';
+export { CheckInScanner } from './components/CheckInScanner';
+export { AppointmentTimeline } from './components/AppointmentTimeline';
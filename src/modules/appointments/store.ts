@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import type { Appointment, AppointmentType, AppointmentStatus } from '~/types';
+import type { Appointment, AppointmentType, AppointmentStatus, AppointmentHistoryEntry, NoShowStanding, QueueBoardEntry } from '~/types';
 import { supabase } from '~/lib/supabase';
 import { logUserAction } from '~/lib/auditLog';
 
@@ -15,20 +15,55 @@ interface AppointmentFilters {
   dateRange?: { start: string; end: string };
 }
 
+/** Arguments for the book_appointment() RPC, with the same defaults the DB function uses. */
+function bookingRpcParams(data: Partial<Appointment>) {
+  return {
+    p_patient_id: data.patient_id ?? null,
+    p_campus_id: data.campus_id,
+    p_appointment_type: data.appointment_type ?? 'consultation',
+    p_appointment_date: data.appointment_date,
+    p_start_time: data.start_time ?? '08:00',
+    p_end_time: data.end_time ?? '12:00',
+    p_status: data.status ?? 'scheduled',
+    p_time_of_day: data.time_of_day ?? 'AM',
+    p_notes: data.notes ?? null,
+    p_patient_name: data.patient_name ?? null,
+    p_patient_email: data.patient_email ?? null,
+    p_patient_phone: data.patient_phone ?? null,
+    p_booker_role: data.booker_role ?? 'student',
+  };
+}
+
+/** Result of one attempt in a batch: the new appointment, or the booking error code. */
+export type BookingAttempt =
+  | { appointment: Appointment }
+  | { code: string; message: string };
+
 interface AppointmentState {
   appointments: Appointment[];
   selectedAppointment: Appointment | null;
   filters: AppointmentFilters;
   bookingCounts: Record<string, number>;
   amPmBookingCounts: Record<string, { AM: number, PM: number }>;
+  typeBookingCounts: Record<string, Partial<Record<AppointmentType, number>>>;
   isLoading: boolean;
   isSaving: boolean;
 
   fetchAppointments: (filters?: AppointmentFilters) => Promise<void>;
   fetchBookingCounts: (startDate: string, endDate: string, campusId?: string) => Promise<void>;
   createAppointment: (data: Partial<Appointment>) => Promise<Appointment>;
+  tryBookAppointment: (data: Partial<Appointment>) => Promise<BookingAttempt>;
   updateAppointment: (id: string, data: Partial<Appointment>) => Promise<void>;
   deleteAppointment: (id: string) => Promise<void>;
+  cancelAppointment: (id: string, reason: string) => Promise<Appointment>;
+  checkInAppointment: (id: string) => Promise<Appointment>;
+  fetchCheckInCode: (id: string) => Promise<string>;
+  checkInByCode: (code: string, campusId: string) => Promise<Appointment>;
+  callNextPatient: (campusId: string, date: string, timeOfDay: 'AM' | 'PM') => Promise<Appointment | null>;
+  fetchQueueBoard: (campusId: string) => Promise<QueueBoardEntry[]>;
+  fetchAppointmentHistory: (id: string) => Promise<AppointmentHistoryEntry[]>;
+  fetchNoShowStanding: (patient?: { patientId?: string | null; email?: string | null }) => Promise<NoShowStanding | null>;
+  fetchNoShowCounts: (emails: string[]) => Promise<Record<string, { count: number; restricted: boolean }>>;
   rescheduleDate: (date: string, unfinishedIds: string[], campusId: string) => Promise<void>;
   setSelectedAppointment: (appointment: Appointment | null) => void;
   setFilters: (filters: Partial<AppointmentFilters>) => void;
@@ -41,6 +76,7 @@ export const useAppointmentStore = create<AppointmentState>()(
     filters: {},
     bookingCounts: {},
     amPmBookingCounts: {},
+    typeBookingCounts: {},
     isLoading: false,
     isSaving: false,
 
@@ -82,11 +118,11 @@ export const useAppointmentStore = create<AppointmentState>()(
     fetchBookingCounts: async (startDate, endDate, campusId) => {
       bookingCountsFetchRequestId += 1;
       const requestId = bookingCountsFetchRequestId;
-      set({ bookingCounts: {}, amPmBookingCounts: {} });
+      set({ bookingCounts: {}, amPmBookingCounts: {}, typeBookingCounts: {} });
       try {
         let query = supabase
           .from('appointments')
-          .select('appointment_date, time_of_day')
+          .select('appointment_date, time_of_day, appointment_type')
           .neq('status', 'cancelled')
           .gte('appointment_date', startDate)
           .lte('appointment_date', endDate);
@@ -100,10 +136,14 @@ export const useAppointmentStore = create<AppointmentState>()(
 
         const counts: Record<string, number> = {};
         const amPmCounts: Record<string, { AM: number, PM: number }> = {};
+        const typeCounts: Record<string, Partial<Record<AppointmentType, number>>> = {};
         
-        (data || []).forEach((row: { appointment_date: string, time_of_day?: 'AM' | 'PM' }) => {
+        (data || []).forEach((row: { appointment_date: string, time_of_day?: 'AM' | 'PM', appointment_type: AppointmentType }) => {
           const date = row.appointment_date;
           counts[date] = (counts[date] || 0) + 1;
+
+          if (!typeCounts[date]) typeCounts[date] = {};
+          typeCounts[date][row.appointment_type] = (typeCounts[date][row.appointment_type] || 0) + 1;
           
           if (!amPmCounts[date]) {
             amPmCounts[date] = { AM: 0, PM: 0 };
@@ -112,7 +152,7 @@ export const useAppointmentStore = create<AppointmentState>()(
           if (row.time_of_day === 'PM') amPmCounts[date].PM += 1;
         });
         
-        set({ bookingCounts: counts, amPmBookingCounts: amPmCounts });
+        set({ bookingCounts: counts, amPmBookingCounts: amPmCounts, typeBookingCounts: typeCounts });
       } catch (error) {
         console.error('Error fetching booking counts:', error);
       }
@@ -123,27 +163,35 @@ export const useAppointmentStore = create<AppointmentState>()(
       try {
         // Use the atomic book_appointment() DB function with advisory lock
         // to prevent race conditions and double-booking
-        const { data: result, error } = await supabase.rpc('book_appointment', {
-          p_patient_id: data.patient_id ?? null,
-          p_campus_id: data.campus_id,
-          p_appointment_type: data.appointment_type ?? 'consultation',
-          p_appointment_date: data.appointment_date,
-          p_start_time: data.start_time ?? '08:00',
-          p_end_time: data.end_time ?? '12:00',
-          p_status: data.status ?? 'scheduled',
-          p_time_of_day: data.time_of_day ?? 'AM',
-          p_notes: data.notes ?? null,
-          p_patient_name: data.patient_name ?? null,
-          p_patient_email: data.patient_email ?? null,
-          p_patient_phone: data.patient_phone ?? null,
-          p_booker_role: data.booker_role ?? 'student',
-        });
+        const { data: result, error } = await supabase.rpc('book_appointment', bookingRpcParams(data));
 
         if (error) {
           // Surface user-friendly messages for booking errors
           if (error.message?.includes('ALREADY_BOOKED')) {
             throw new Error('You already have a scheduled appointment. Please complete or cancel it before booking a new one.');
           }
+          if (error.message?.includes('NO_SHOW_PENALTY')) {
+            // The server message carries the dates, so pass it through
+            throw new Error(error.message.replace(/^.*NO_SHOW_PENALTY:\s*/, ''));
+          }
+          if (error.message?.includes('WEEKLY_LIMIT')) {
+            throw new Error('You have reached the weekly limit for this appointment type. Please choose a date in another week.');
+          }
+          if (error.message?.includes('TYPE_NOT_OFFERED')) {
+            throw new Error('This appointment type is not currently offered at this campus. Please choose another type.');
+          }
+          if (error.message?.includes('TYPE_NOT_ALLOWED')) {
+            throw new Error('This appointment type cannot be booked online for your account. Please contact the clinic.');
+          }
+          if (error.message?.includes('FULLY_BOOKED_TYPE')) {
+            throw new Error('This appointment type is fully booked on this date. Please select another date or appointment type.');
+          }
+          if (error.message?.includes('FULLY_BOOKED_SLOT')) {
+            throw new Error('This time slot is fully booked. Please pick another slot.');
+          }
+          if (error.message?.includes('INVALID_SLOT')) {
+            throw new Error('The selected time slot is not available on this day. Please pick another slot.');
+          }
           if (error.message?.includes('FULLY_BOOKED_AM')) {
             throw new Error('The morning (AM) session is fully booked. Please select a different time or date.');
           }
@@ -184,6 +232,38 @@ export const useAppointmentStore = create<AppointmentState>()(
 
     },
 
+    tryBookAppointment: async (data) => {
+      const { data: result, error } = await supabase.rpc('book_appointment', bookingRpcParams(data));
+
+      if (error) {
+        // Booking errors are raised as 'CODE: message' by book_appointment()
+        const code = error.message?.match(/^([A-Z_]+):/)?.[1];
+        if (!code) throw error;
+        return { code, message: error.message.slice(code.length + 1).trim() };
+      }
+
+      const newAppointment = result as Appointment;
+
+      await logUserAction({
+        action: 'CREATE',
+        resourceType: 'appointment',
+        resourceId: newAppointment.id,
+        campusId: newAppointment.campus_id,
+        details: {
+          appointment_type: newAppointment.appointment_type,
+          appointment_date: newAppointment.appointment_date,
+          patient_name: newAppointment.patient_name,
+          group_booking: true,
+        },
+      });
+
+      set((state) => {
+        state.appointments.push(newAppointment);
+      });
+
+      return { appointment: newAppointment };
+    },
+
     updateAppointment: async (id, data) => {
       set({ isSaving: true });
       try {
@@ -254,6 +334,195 @@ export const useAppointmentStore = create<AppointmentState>()(
       }
     },
 
+    cancelAppointment: async (id, reason) => {
+      set({ isSaving: true });
+      try {
+        // Atomic cancel_appointment() enforces ownership, status and the
+        // per-campus cutoff window server-side
+        const { data: result, error } = await supabase.rpc('cancel_appointment', {
+          p_appointment_id: id,
+          p_reason: reason,
+        });
+
+        if (error) {
+          if (error.message?.includes('REASON_REQUIRED')) {
+            throw new Error('Please provide a reason for cancelling (up to 500 characters).');
+          }
+          if (error.message?.includes('CANCEL_CUTOFF')) {
+            const hours = error.message.match(/within (\d+) hours/)?.[1];
+            throw new Error(
+              hours
+                ? `Appointments can no longer be cancelled within ${hours} hours of the session. Please contact the clinic.`
+                : 'This appointment can no longer be cancelled online. Please contact the clinic.'
+            );
+          }
+          if (error.message?.includes('NOT_CANCELLABLE')) {
+            throw new Error('Only scheduled appointments can be cancelled.');
+          }
+          if (error.message?.includes('WRONG_CAMPUS')) {
+            throw new Error('You can only cancel appointments at your own campus.');
+          }
+          if (error.message?.includes('NOT_ALLOWED')) {
+            throw new Error('You can only cancel your own appointments.');
+          }
+          if (error.message?.includes('NOT_FOUND')) {
+            throw new Error('This appointment no longer exists.');
+          }
+          throw error;
+        }
+
+        const cancelled = result as Appointment;
+
+        await logUserAction({
+          action: 'CANCEL',
+          resourceType: 'appointment',
+          resourceId: id,
+          campusId: cancelled.campus_id,
+          details: {
+            appointment_type: cancelled.appointment_type,
+            appointment_date: cancelled.appointment_date,
+            patient_name: cancelled.patient_name,
+            reason: cancelled.cancellation_reason,
+          },
+        });
+
+        set((state) => {
+          const index = state.appointments.findIndex((a) => a.id === id);
+          if (index !== -1) {
+            Object.assign(state.appointments[index], cancelled);
+          }
+          state.isSaving = false;
+        });
+
+        return cancelled;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+
+    checkInAppointment: async (id) => {
+      const { data: result, error } = await supabase.rpc('check_in_appointment', { p_appointment_id: id });
+
+      if (error) {
+        if (error.message?.includes('WRONG_CAMPUS')) {
+          throw new Error('This appointment is booked at another campus.');
+        }
+        if (error.message?.includes('NOT_TODAY')) {
+          throw new Error('Patients can only be checked in on the day of their appointment.');
+        }
+        if (error.message?.includes('NOT_CHECKABLE')) {
+          throw new Error('Only scheduled appointments can be checked in.');
+        }
+        throw error;
+      }
+
+      const checkedIn = result as Appointment;
+      set((state) => {
+        const index = state.appointments.findIndex((a) => a.id === id);
+        if (index !== -1) Object.assign(state.appointments[index], checkedIn);
+      });
+      return checkedIn;
+    },
+
+    fetchCheckInCode: async (id) => {
+      const { data, error } = await supabase.rpc('get_checkin_code', { p_appointment_id: id });
+      if (error) throw error;
+      return data as string;
+    },
+
+    checkInByCode: async (code, campusId) => {
+      const { data: result, error } = await supabase.rpc('check_in_by_code', {
+        p_code: code,
+        p_campus_id: campusId,
+      });
+
+      if (error) {
+        if (error.message?.includes('INVALID_CODE')) {
+          throw new Error('This QR code is not a valid clinic check-in code.');
+        }
+        if (error.message?.includes('WRONG_CAMPUS')) {
+          throw new Error('This appointment is booked at another campus.');
+        }
+        if (error.message?.includes('EXPIRED_CODE')) {
+          throw new Error('This QR code has expired. The appointment was rescheduled, cancelled or has already passed.');
+        }
+        if (error.message?.includes('NOT_TODAY')) {
+          throw new Error('This appointment is not for today. Patients can only be checked in on the day of their appointment.');
+        }
+        if (error.message?.includes('NOT_CHECKABLE')) {
+          throw new Error('Only scheduled appointments can be checked in.');
+        }
+        throw error;
+      }
+
+      const checkedIn = result as Appointment;
+      set((state) => {
+        const index = state.appointments.findIndex((a) => a.id === checkedIn.id);
+        if (index !== -1) Object.assign(state.appointments[index], checkedIn);
+      });
+      return checkedIn;
+    },
+
+    callNextPatient: async (campusId, date, timeOfDay) => {
+      const { data: result, error } = await supabase.rpc('call_next_patient', {
+        p_campus_id: campusId,
+        p_date: date,
+        p_time_of_day: timeOfDay,
+      });
+      if (error) {
+        if (error.message?.includes('WRONG_CAMPUS')) {
+          throw new Error('You can only call patients at your own campus.');
+        }
+        throw error;
+      }
+
+      const called = (result as Appointment | null) ?? null;
+      if (called) {
+        set((state) => {
+          const index = state.appointments.findIndex((a) => a.id === called.id);
+          if (index !== -1) Object.assign(state.appointments[index], called);
+        });
+      }
+      return called;
+    },
+
+    fetchQueueBoard: async (campusId) => {
+      const { data, error } = await supabase.rpc('get_queue_board', { p_campus_id: campusId });
+      if (error) throw error;
+      return (data ?? []) as QueueBoardEntry[];
+    },
+
+    fetchAppointmentHistory: async (id) => {
+      const { data, error } = await supabase
+        .from('appointment_history')
+        .select('*')
+        .eq('appointment_id', id)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return (data ?? []) as AppointmentHistoryEntry[];
+    },
+
+    fetchNoShowStanding: async (patient) => {
+      const { data, error } = await supabase.rpc('get_no_show_standing', {
+        p_patient_id: patient?.patientId ?? null,
+        p_email: patient?.email ?? null,
+      });
+      if (error) throw error;
+      return ((data as NoShowStanding[] | null)?.[0]) ?? null;
+    },
+
+    fetchNoShowCounts: async (emails) => {
+      if (emails.length === 0) return {};
+      const { data, error } = await supabase.rpc('get_no_show_counts', { p_emails: emails });
+      if (error) throw error;
+      const counts: Record<string, { count: number; restricted: boolean }> = {};
+      (data ?? []).forEach((row: { email: string; no_show_count: number; restricted: boolean }) => {
+        counts[row.email] = { count: row.no_show_count, restricted: row.restricted };
+      });
+      return counts;
+    },
+
     rescheduleDate: async (date, unfinishedIds, campusId) => {
       try {
         set({ isSaving: true });
@@ -320,8 +589,11 @@ export const useAppointmentStore = create<AppointmentState>()(
         // Uses the atomic reschedule_appointment() DB function with advisory locks
         let dateIndex = 0;
         for (const aptId of unfinishedIds) {
-          while (dateIndex < futureDates.length) {
-            const targetDate = futureDates[dateIndex];
+          // A date whose bucket for this appointment's type is full is skipped
+          // for this appointment only; other types may still fit there.
+          let tryIndex = dateIndex;
+          while (tryIndex < futureDates.length) {
+            const targetDate = futureDates[tryIndex];
             const currentCount = countMap[targetDate] || 0;
             if (currentCount < maxPerDay) {
               const { error } = await supabase.rpc('reschedule_appointment', {
@@ -331,9 +603,14 @@ export const useAppointmentStore = create<AppointmentState>()(
               });
 
               if (error) {
+                if (error.message?.includes('FULLY_BOOKED_TYPE')) {
+                  tryIndex++;
+                  continue;
+                }
                 // If target date is full (race condition), try next date
                 if (error.message?.includes('FULLY_BOOKED')) {
-                  dateIndex++;
+                  if (tryIndex === dateIndex) dateIndex++;
+                  tryIndex++;
                   continue;
                 }
                 throw error;
@@ -342,7 +619,8 @@ export const useAppointmentStore = create<AppointmentState>()(
               countMap[targetDate] = currentCount + 1;
               break;
             }
-            dateIndex++;
+            if (tryIndex === dateIndex) dateIndex++;
+            tryIndex++;
           }
         }
 
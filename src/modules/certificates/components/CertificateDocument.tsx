@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { formatDate } from '~/lib/utils';
+import { certificateQrDataUrl } from '~/lib/certificateVerification';
+import type { MedicalCertificate } from '~/types';
+
+interface CertificateDocumentProps {
+  certificate: MedicalCertificate;
+}
+
+const ROLE_TITLES: Record<string, string> = {
+  nurse: 'Attending Nurse',
+  supervisor: 'Supervising Nurse',
+};
+
+/** The certificate as handed to the patient, sized for one A4 / Letter page. */
+export function CertificateDocument({ certificate }: CertificateDocumentProps) {
+  const revoked = !!certificate.revoked_at;
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    certificateQrDataUrl(certificate.verify_token)
+      .then((url) => { if (!cancelled) setQrUrl(url); })
+      .catch((err) => console.error('Failed to render verification QR:', err));
+    return () => { cancelled = true; };
+  }, [certificate.verify_token]);
+
+  return (
+    <div className="relative bg-white w-full max-w-[210mm] mx-auto p-10 sm:p-14 text-gray-900 font-serif overflow-hidden print:p-0 print:max-w-none">
+      {revoked && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <span className="text-7xl font-black text-red-600/20 uppercase tracking-widest -rotate-[30deg] border-8 border-red-600/20 px-8 py-2">
+            Revoked
+          </span>
+        </div>
+      )}
+
+      <header className="flex items-center gap-4 border-b-4 border-double border-maroon-800 pb-4">
+        <img src="/ldcu-logo.png" alt="LDCU Logo" className="w-20 h-20 object-contain flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-lg font-bold text-maroon-800 uppercase tracking-wide">Liceo de Cagayan University</p>
+          <p className="text-sm font-semibold">University Clinic{certificate.campus_name ? ` · ${certificate.campus_name}` : ''}</p>
+          {certificate.campus_address && <p className="text-xs text-gray-600">{certificate.campus_address}</p>}
+        </div>
+      </header>
+
+      <div className="flex justify-between items-baseline mt-4 text-xs font-sans">
+        <span>
+          Certificate No. <span className="font-mono font-bold">{certificate.certificate_number}</span>
+        </span>
+        <span>Date issued: {formatDate(certificate.issued_at)}</span>
+      </div>
+
+      <h1 className="text-center text-2xl font-bold uppercase tracking-[0.3em] mt-8 mb-8">Medical Certificate</h1>
+
+      <div className="space-y-5 text-[15px] leading-relaxed">
+        <p>To whom it may concern:</p>
+        <p className="indent-10">
+          This is to certify that <span className="font-bold uppercase underline underline-offset-4">{certificate.patient_name}</span>
+          {certificate.patient_age != null && <>, {certificate.patient_age} years old</>}
+          {certificate.patient_sex && <>, {certificate.patient_sex}</>}
+          {certificate.patient_id_number && <>, ID No. {certificate.patient_id_number}</>}
+          , was seen and examined at this clinic on <span className="font-semibold">{formatDate(certificate.visit_date)}</span> with
+          the following findings:
+        </p>
+
+        <div className="border-l-4 border-maroon-200 pl-4 whitespace-pre-wrap">{certificate.findings}</div>
+
+        {certificate.recommendation && (
+          <div>
+            <p className="font-semibold">Recommendation:</p>
+            <p className="whitespace-pre-wrap">{certificate.recommendation}</p>
+          </div>
+        )}
+
+        {certificate.rest_days > 0 && certificate.rest_from && (
+          <p>
+            The patient is advised to rest for <span className="font-semibold">{certificate.rest_days} day{certificate.rest_days === 1 ? '' : 's'}</span>,
+            from {formatDate(certificate.rest_from)}
+            {certificate.rest_to && certificate.rest_to !== certificate.rest_from && <> to {formatDate(certificate.rest_to)}</>}.
+          </p>
+        )}
+
+        <p className="indent-10">
+          This certificate is issued upon the request of the above-named patient for whatever purpose it may serve, except for
+          medico-legal purposes.
+        </p>
+      </div>
+
+      <div className="mt-16 flex items-end justify-between gap-6">
+        <div className="flex items-center gap-3 font-sans">
+          {qrUrl && <img src={qrUrl} alt="Verification QR code" className="w-24 h-24" />}
+          <p className="text-[10px] text-gray-600 max-w-[12rem] leading-snug">
+            Scan to verify, or enter the certificate number at{' '}
+            <span className="font-semibold">{window.location.host}/verify</span>
+          </p>
+        </div>
+        <div className="w-72 text-center">
+          <div className="border-b border-gray-900 h-10" />
+          <p className="mt-1 font-bold uppercase">{certificate.issued_by_name}</p>
+          <p className="text-sm">{ROLE_TITLES[certificate.issued_by_role] ?? 'Clinic Staff'}</p>
+        </div>
+      </div>
+
+      <footer className="mt-14 pt-3 border-t border-gray-300 text-[10px] text-gray-500 font-sans">
+        Not valid without the signature of the issuing clinician. Any alteration or erasure voids this certificate.
+      </footer>
+    </div>
+  );
+}
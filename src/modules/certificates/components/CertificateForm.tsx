@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, FileBadge, Printer } from 'lucide-react';
+import { useCertificateStore } from '../store';
+import { formatDate } from '~/lib/utils';
+import type { MedicalCertificate } from '~/types';
+
+interface CertificateFormProps {
+  appointmentId: string;
+  onIssued?: (certificate: MedicalCertificate) => void;
+}
+
+const MAX_REST_DAYS = 30;
+
+export const openCertificatePrint = (certificateId: string) => {
+  window.open(`/certificates/${certificateId}/print`, '_blank', 'noopener');
+};
+
+/** Issue a medical certificate for a completed appointment, or reprint the one already issued. */
+export function CertificateForm({ appointmentId, onIssued }: CertificateFormProps) {
+  const { fetchAppointmentCertificates, issueCertificate } = useCertificateStore();
+  const [history, setHistory] = useState<MedicalCertificate[]>([]);
+  const [findings, setFindings] = useState('');
+  const [recommendation, setRecommendation] = useState('');
+  const [restDays, setRestDays] = useState('0');
+  const [restFrom, setRestFrom] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    fetchAppointmentCertificates(appointmentId)
+      .then(setHistory)
+      .catch((err) => {
+        console.error('Failed to load certificates:', err);
+        setError('Failed to load certificates for this appointment.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [appointmentId, fetchAppointmentCertificates]);
+
+  const active = history.find((c) => !c.revoked_at);
+  const revoked = history.filter((c) => c.revoked_at);
+
+  const handleIssue = async () => {
+    const days = Number(restDays || '0');
+    if (!findings.trim()) {
+      setError('Please enter the findings.');
+      return;
+    }
+    if (!Number.isInteger(days) || days < 0 || days > MAX_REST_DAYS) {
+      setError(`Rest days must be a whole number from 0 to ${MAX_REST_DAYS}.`);
+      return;
+    }
+
+    setIsIssuing(true);
+    setError(null);
+    try {
+      const certificate = await issueCertificate(appointmentId, {
+        findings: findings.trim(),
+        recommendation: recommendation.trim() || null,
+        rest_days: days,
+        rest_from: days > 0 && restFrom ? restFrom : null,
+      });
+      setHistory((prev) => [certificate, ...prev]);
+      onIssued?.(certificate);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue the certificate.');
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {active ? (
+        <div className="p-4 rounded-xl border border-green-200 bg-green-50 space-y-2">
+          <p className="text-sm text-green-900">
+            Certificate <span className="font-mono font-bold">{active.certificate_number}</span> was issued by{' '}
+            {active.issued_by_name} on {formatDate(active.issued_at)}.
+          </p>
+          <p className="text-xs text-green-800">
+            To correct it, revoke it from the Certificates page and issue a new one.
+          </p>
+          <button
+            type="button"
+            onClick={() => openCertificatePrint(active.id)}
+            className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 transition-colors flex items-center gap-2"
+          >
+            <Printer className="w-4 h-4" />
+            Print Certificate
+          </button>
+        </div>
+      ) : (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Findings / Diagnosis *</label>
+            <textarea
+              value={findings}
+              onChange={(e) => setFindings(e.target.value)}
+              rows={4}
+              maxLength={2000}
+              placeholder="e.g. Acute upper respiratory tract infection"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm resize-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Recommendation</label>
+            <textarea
+              value={recommendation}
+              onChange={(e) => setRecommendation(e.target.value)}
+              rows={2}
+              maxLength={1000}
+              placeholder="e.g. Increase fluid intake; return if fever persists"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm resize-none"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Rest Days</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_REST_DAYS}
+                value={restDays}
+                onChange={(e) => setRestDays(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm"
+              />
+            </div>
+            {Number(restDays) > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rest Starting</label>
+                <input
+                  type="date"
+                  value={restFrom}
+                  onChange={(e) => setRestFrom(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm"
+                />
+                <p className="text-[11px] text-gray-500 mt-1">Leave blank to start on the visit date.</p>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            The certificate is signed in your name. Patient details are taken from their profile as they are now.
+          </p>
+        </>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {!active && (
+        <button
+          type="button"
+          onClick={handleIssue}
+          disabled={isIssuing}
+          className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          {isIssuing ? (
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+          ) : (
+            <FileBadge className="w-4 h-4" />
+          )}
+          Issue Certificate
+        </button>
+      )}
+
+      {revoked.length > 0 && (
+        <div className="pt-3 border-t border-gray-100">
+          <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Revoked</p>
+          <ul className="space-y-1 text-xs text-gray-600">
+            {revoked.map((c) => (
+              <li key={c.id}>
+                <span className="font-mono line-through">{c.certificate_number}</span> — {c.revocation_reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
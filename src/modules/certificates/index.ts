@@ -0,0 +1,3 @@
+export { useCertificateStore } from './store';
+export { CertificateForm, openCertificatePrint } from './components/CertificateForm';
+export { CertificateDocument } from './components/CertificateDocument';
@@ -0,0 +1,145 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { CertificateVerification, MedicalCertificate, MedicalCertificateFields } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+interface CertificateState {
+  certificates: MedicalCertificate[];
+  isLoading: boolean;
+
+  fetchCertificates: () => Promise<void>;
+  fetchCertificate: (certificateId: string) => Promise<MedicalCertificate | null>;
+  fetchAppointmentCertificates: (appointmentId: string) => Promise<MedicalCertificate[]>;
+  issueCertificate: (appointmentId: string, fields: MedicalCertificateFields) => Promise<MedicalCertificate>;
+  revokeCertificate: (certificateId: string, reason: string) => Promise<MedicalCertificate>;
+  verifyCertificate: (query: string) => Promise<CertificateVerification>;
+}
+
+// Newest first; enough for the certificates list without paging
+const LIST_LIMIT = 300;
+
+export const useCertificateStore = create<CertificateState>()(
+  immer((set) => ({
+    certificates: [],
+    isLoading: false,
+
+    fetchCertificates: async () => {
+      set({ isLoading: true });
+      try {
+        const { data, error } = await supabase
+          .from('medical_certificates')
+          .select('*')
+          .order('issued_at', { ascending: false })
+          .limit(LIST_LIMIT);
+
+        if (error) throw error;
+        set({ certificates: (data as MedicalCertificate[]) || [] });
+      } catch (error) {
+        console.error('Error fetching medical certificates:', error);
+      } finally {
+        set({ isLoading: false });
+      }
+    },
+
+    fetchCertificate: async (certificateId) => {
+      const { data, error } = await supabase
+        .from('medical_certificates')
+        .select('*')
+        .eq('id', certificateId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as MedicalCertificate) ?? null;
+    },
+
+    // Every certificate for the visit, including revoked ones, newest first
+    fetchAppointmentCertificates: async (appointmentId) => {
+      const { data, error } = await supabase
+        .from('medical_certificates')
+        .select('*')
+        .eq('appointment_id', appointmentId)
+        .order('issued_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as MedicalCertificate[]) || [];
+    },
+
+    issueCertificate: async (appointmentId, fields) => {
+      const { data, error } = await supabase.rpc('issue_medical_certificate', {
+        p_appointment_id: appointmentId,
+        p_findings: fields.findings,
+        p_recommendation: fields.recommendation,
+        p_rest_days: fields.rest_days,
+        p_rest_from: fields.rest_from,
+      });
+
+      if (error) {
+        if (error.message?.includes('NOT_COMPLETED')) {
+          throw new Error('Mark the appointment as completed before issuing a certificate.');
+        }
+        if (error.message?.includes('ALREADY_ISSUED')) {
+          throw new Error('This appointment already has a valid certificate. Revoke it first to issue a corrected one.');
+        }
+        if (error.message?.includes('FINDINGS_REQUIRED')) {
+          throw new Error('Please enter the findings.');
+        }
+        if (error.message?.includes('INVALID_REST_DAYS')) {
+          throw new Error('Rest days must be between 0 and 30.');
+        }
+        if (error.message?.includes('NOT_ALLOWED')) {
+          throw new Error('Only nurses and supervisors can issue medical certificates.');
+        }
+        throw error;
+      }
+
+      const certificate = data as MedicalCertificate;
+      set((state) => {
+        state.certificates.unshift(certificate);
+      });
+
+      // Findings stay out of the audit log; the number is enough to find the certificate
+      await logUserAction({
+        action: 'CREATE',
+        resourceType: 'medical_certificate',
+        resourceId: certificate.id,
+        campusId: certificate.campus_id ?? undefined,
+        details: { certificate_number: certificate.certificate_number, appointment_id: appointmentId },
+      });
+
+      return certificate;
+    },
+
+    // revoke_medical_certificate() writes its own audit entry
+    revokeCertificate: async (certificateId, reason) => {
+      const { data, error } = await supabase.rpc('revoke_medical_certificate', {
+        p_certificate_id: certificateId,
+        p_reason: reason,
+      });
+
+      if (error) {
+        if (error.message?.includes('REASON_REQUIRED')) {
+          throw new Error('Please give a reason for revoking the certificate.');
+        }
+        if (error.message?.includes('ALREADY_REVOKED')) {
+          throw new Error('This certificate has already been revoked.');
+        }
+        throw error;
+      }
+
+      const certificate = data as MedicalCertificate;
+      set((state) => {
+        const index = state.certificates.findIndex((c) => c.id === certificateId);
+        if (index !== -1) state.certificates[index] = certificate;
+      });
+      return certificate;
+    },
+
+    // Public: works signed out, rate-limited per client by the database
+    verifyCertificate: async (query) => {
+      const { data, error } = await supabase.rpc('verify_medical_certificate', { p_query: query });
+      if (error) throw error;
+      return data as CertificateVerification;
+    },
+  }))
+);
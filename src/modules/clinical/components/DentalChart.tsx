@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Check, Save, Trash2 } from 'lucide-react';
+import { useClinicalStore } from '../store';
+import { ToothGrid, ToothLegend } from './ToothGrid';
+import type { ToothState } from './ToothGrid';
+import { DENTAL_CONDITIONS, DENTAL_PROCEDURES, TOOTH_SURFACES, latestToothStates, toothName, conditionLabel } from '~/lib/dental';
+import type { DentalChartEntry, DentalProcedure, DentalToothRecord } from '~/types';
+
+interface DentalChartProps {
+  appointmentId: string;
+  /** Walk-ins have no account, so there is no earlier chart to carry over */
+  patientId: string | null;
+}
+
+const toRecord = (entry: DentalChartEntry): DentalToothRecord => ({
+  tooth: entry.tooth,
+  condition: entry.condition,
+  surfaces: entry.surfaces,
+  procedure: entry.procedure,
+  notes: entry.notes,
+});
+
+/** Interactive FDI tooth chart for one dental appointment. */
+export function DentalChart({ appointmentId, patientId }: DentalChartProps) {
+  const { fetchDentalChart, fetchDentalHistory, saveDentalChart } = useClinicalStore();
+  const [chart, setChart] = useState<Map<number, DentalToothRecord>>(new Map());
+  const [previous, setPrevious] = useState<Map<number, DentalChartEntry>>(new Map());
+  const [selectedTooth, setSelectedTooth] = useState<number | null>(null);
+  const [showPrimary, setShowPrimary] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    Promise.all([fetchDentalChart(appointmentId), patientId ? fetchDentalHistory(patientId) : Promise.resolve([])])
+      .then(([current, history]) => {
+        setChart(new Map(current.map((entry) => [entry.tooth, toRecord(entry)])));
+        setPrevious(latestToothStates(history.filter((entry) => entry.appointment_id !== appointmentId)));
+        // Start on the primary arch when this visit only charted baby teeth
+        setShowPrimary(current.length > 0 && current.every((entry) => entry.tooth >= 50));
+      })
+      .catch((err) => {
+        console.error('Failed to load dental chart:', err);
+        setError('Failed to load the dental chart.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [appointmentId, patientId, fetchDentalChart, fetchDentalHistory]);
+
+  const stateFor = (tooth: number): ToothState | undefined => {
+    const current = chart.get(tooth);
+    if (current) return { condition: current.condition, hasProcedure: !!current.procedure };
+    const earlier = previous.get(tooth);
+    return earlier ? { condition: earlier.condition, hasProcedure: false, carriedOver: true } : undefined;
+  };
+
+  const selected = selectedTooth !== null ? chart.get(selectedTooth) : undefined;
+  const earlierForSelected = selectedTooth !== null ? previous.get(selectedTooth) : undefined;
+
+  const updateTooth = (tooth: number, changes: Partial<DentalToothRecord>) => {
+    setSaved(false);
+    setChart((prev) => {
+      const next = new Map(prev);
+      const base: DentalToothRecord = next.get(tooth) ?? {
+        tooth,
+        // Start from what was last charted so unchanged findings carry forward
+        condition: previous.get(tooth)?.condition ?? 'sound',
+        surfaces: [],
+        procedure: null,
+        notes: null,
+      };
+      next.set(tooth, { ...base, ...changes });
+      return next;
+    });
+  };
+
+  const removeTooth = (tooth: number) => {
+    setSaved(false);
+    setChart((prev) => {
+      const next = new Map(prev);
+      next.delete(tooth);
+      return next;
+    });
+  };
+
+  const toggleSurface = (tooth: number, surface: string) => {
+    const surfaces = chart.get(tooth)?.surfaces ?? [];
+    updateTooth(tooth, {
+      surfaces: surfaces.includes(surface) ? surfaces.filter((s) => s !== surface) : [...surfaces, surface],
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const entries = await saveDentalChart(appointmentId, [...chart.values()].sort((a, b) => a.tooth - b.tooth));
+      setChart(new Map(entries.map((entry) => [entry.tooth, toRecord(entry)])));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the dental chart.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const procedureCount = useMemo(() => [...chart.values()].filter((t) => t.procedure).length, [chart]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          Click a tooth to chart it. Faded teeth show what was found at an earlier visit.
+        </p>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs font-medium flex-shrink-0">
+          {[false, true].map((primary) => (
+            <button
+              key={String(primary)}
+              type="button"
+              onClick={() => { setShowPrimary(primary); setSelectedTooth(null); }}
+              className={`px-2.5 py-1 ${showPrimary === primary ? 'bg-maroon-800 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {primary ? 'Primary' : 'Permanent'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ToothGrid showPrimary={showPrimary} stateFor={stateFor} selectedTooth={selectedTooth} onSelect={setSelectedTooth} />
+      <ToothLegend />
+
+      {selectedTooth !== null && (
+        <div className="border border-gray-200 rounded-xl p-4 space-y-3 bg-gray-50/50">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <p className="font-semibold text-gray-900">
+                {selectedTooth} · {toothName(selectedTooth)}
+              </p>
+              {earlierForSelected && (
+                <p className="text-xs text-gray-500">
+                  Last charted as {conditionLabel(earlierForSelected.condition).toLowerCase()}
+                  {earlierForSelected.appointment?.appointment_date && ` on ${earlierForSelected.appointment.appointment_date}`}
+                </p>
+              )}
+            </div>
+            {selected && (
+              <button
+                type="button"
+                onClick={() => removeTooth(selectedTooth)}
+                className="text-xs text-gray-500 hover:text-red-600 flex items-center gap-1"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                Not charted this visit
+              </button>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1.5">Condition</p>
+            <div className="flex flex-wrap gap-1.5">
+              {DENTAL_CONDITIONS.map((c) => (
+                <button
+                  key={c.value}
+                  type="button"
+                  onClick={() => updateTooth(selectedTooth, { condition: c.value })}
+                  className={`px-2.5 py-1 rounded-full border-2 text-xs font-medium ${c.color} ${
+                    selected?.condition === c.value ? 'ring-2 ring-maroon-600 ring-offset-1' : 'opacity-70 hover:opacity-100'
+                  }`}
+                >
+                  {c.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1.5">Surfaces</p>
+              <div className="flex gap-1">
+                {TOOTH_SURFACES.map((surface) => (
+                  <button
+                    key={surface}
+                    type="button"
+                    onClick={() => toggleSurface(selectedTooth, surface)}
+                    className={`w-8 h-8 rounded-md border text-xs font-bold ${
+                      selected?.surfaces.includes(surface) ? 'bg-maroon-800 text-white border-maroon-800' : 'bg-white text-gray-600 border-gray-300 hover:border-maroon-400'
+                    }`}
+                  >
+                    {surface}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1.5">Procedure Performed</p>
+              <select
+                value={selected?.procedure ?? ''}
+                onChange={(e) => updateTooth(selectedTooth, { procedure: (e.target.value || null) as DentalProcedure | null })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm bg-white"
+              >
+                <option value="">None</option>
+                {DENTAL_PROCEDURES.map((p) => (
+                  <option key={p.value} value={p.value}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <input
+            type="text"
+            value={selected?.notes ?? ''}
+            onChange={(e) => updateTooth(selectedTooth, { notes: e.target.value || null })}
+            maxLength={300}
+            placeholder="Notes for this tooth (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm"
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          {isSaving ? (
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+          ) : (
+            <Save className="w-4 h-4" />
+          )}
+          Save Chart
+        </button>
+        <span className="text-xs text-gray-500">
+          {chart.size} {chart.size === 1 ? 'tooth' : 'teeth'} charted · {procedureCount} procedure{procedureCount === 1 ? '' : 's'}
+        </span>
+        {saved && (
+          <span className="text-green-600 text-sm font-medium flex items-center gap-1">
+            <Check className="w-4 h-4" />
+            Saved
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Smile } from 'lucide-react';
+import { useClinicalStore } from '../store';
+import { ToothGrid, ToothLegend } from './ToothGrid';
+import { DENTAL_PROCEDURES, conditionLabel, latestToothStates } from '~/lib/dental';
+import { formatDate } from '~/lib/utils';
+import type { DentalChartEntry } from '~/types';
+
+interface DentalHistoryProps {
+  patientId: string;
+}
+
+/** A patient's current tooth chart rolled up from every dental visit, plus the per-visit log. */
+export function DentalHistory({ patientId }: DentalHistoryProps) {
+  const { fetchDentalHistory } = useClinicalStore();
+  const [entries, setEntries] = useState<DentalChartEntry[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [showPrimary, setShowPrimary] = useState(false);
+
+  useEffect(() => {
+    setEntries(null);
+    setLoadFailed(false);
+    fetchDentalHistory(patientId)
+      .then((result) => {
+        setEntries(result);
+        setShowPrimary(result.length > 0 && result.every((entry) => entry.tooth >= 50));
+      })
+      .catch((err) => {
+        console.error('Failed to load dental history:', err);
+        setLoadFailed(true);
+      });
+  }, [patientId, fetchDentalHistory]);
+
+  const current = useMemo(() => latestToothStates(entries ?? []), [entries]);
+
+  // Newest visit first
+  const visits = useMemo(() => {
+    const byDate = new Map<string, DentalChartEntry[]>();
+    for (const entry of entries ?? []) {
+      const date = entry.appointment?.appointment_date ?? entry.recorded_at.slice(0, 10);
+      byDate.set(date, [...(byDate.get(date) ?? []), entry]);
+    }
+    return [...byDate.entries()].sort(([a], [b]) => b.localeCompare(a));
+  }, [entries]);
+
+  const header = (
+    <h2 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+      <Smile className="w-5 h-5 text-maroon-800" />
+      Dental History
+    </h2>
+  );
+
+  if (loadFailed) {
+    return <div>{header}<p className="text-sm text-gray-500">Dental history is unavailable right now.</p></div>;
+  }
+
+  if (!entries) {
+    return (
+      <div>
+        {header}
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <div>{header}<p className="text-sm text-gray-500">No dental charts recorded yet.</p></div>;
+  }
+
+  const procedureLabel = (value: string) => DENTAL_PROCEDURES.find((p) => p.value === value)?.label ?? value;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        {header}
+        <button
+          type="button"
+          onClick={() => setShowPrimary(!showPrimary)}
+          className="text-xs font-medium text-maroon-800 hover:underline mb-3"
+        >
+          Show {showPrimary ? 'permanent' : 'primary'} teeth
+        </button>
+      </div>
+
+      <ToothGrid
+        showPrimary={showPrimary}
+        stateFor={(tooth) => {
+          const entry = current.get(tooth);
+          return entry ? { condition: entry.condition, hasProcedure: !!entry.procedure } : undefined;
+        }}
+      />
+      <ToothLegend />
+
+      <div className="pt-3 border-t border-gray-100 space-y-3">
+        {visits.map(([date, visitEntries]) => (
+          <div key={date}>
+            <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">{formatDate(date)}</p>
+            <ul className="space-y-0.5 text-sm text-gray-700">
+              {[...visitEntries].sort((a, b) => a.tooth - b.tooth).map((entry) => (
+                <li key={entry.id}>
+                  <span className="font-semibold">{entry.tooth}</span>
+                  {' · '}
+                  {conditionLabel(entry.condition)}
+                  {entry.surfaces.length > 0 && <span className="text-gray-500"> ({entry.surfaces.join('')})</span>}
+                  {entry.procedure && <span className="text-maroon-800"> · {procedureLabel(entry.procedure)}</span>}
+                  {entry.notes && <span className="text-gray-500"> — {entry.notes}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Check, RefreshCw, Save } from 'lucide-react';
+import { useClinicalStore } from '../store';
+import { useAuthStore } from '~/modules/auth';
+import type { EncounterNote, EncounterNoteFields } from '~/types';
+
+interface EncounterNoteEditorProps {
+  appointmentId: string;
+}
+
+const SOAP_FIELDS: { key: 'subjective' | 'objective' | 'assessment' | 'plan'; label: string; placeholder: string }[] = [
+  { key: 'subjective', label: 'Subjective', placeholder: 'History of present illness, symptoms as reported by the patient' },
+  { key: 'objective', label: 'Objective', placeholder: 'Vital signs, physical examination findings' },
+  { key: 'assessment', label: 'Assessment', placeholder: 'Impression / diagnosis' },
+  { key: 'plan', label: 'Plan', placeholder: 'Treatment, medication given, advice, follow-up' },
+];
+
+const EMPTY_FIELDS: EncounterNoteFields = {
+  chief_complaint: '',
+  subjective: null,
+  objective: null,
+  assessment: null,
+  plan: null,
+  attending_staff_id: null,
+};
+
+function toFields(note: EncounterNote | undefined, fallbackAttending: string | null): EncounterNoteFields {
+  if (!note) return { ...EMPTY_FIELDS, attending_staff_id: fallbackAttending };
+  return {
+    chief_complaint: note.chief_complaint,
+    subjective: note.subjective,
+    objective: note.objective,
+    assessment: note.assessment,
+    plan: note.plan,
+    attending_staff_id: note.attending_staff_id,
+  };
+}
+
+/** SOAP encounter note for one appointment; every save becomes a new version. */
+export function EncounterNoteEditor({ appointmentId }: EncounterNoteEditorProps) {
+  const { clinicStaff, fetchClinicStaff, fetchEncounterNotes, saveEncounterNote } = useClinicalStore();
+  const { profile } = useAuthStore();
+  const [versions, setVersions] = useState<EncounterNote[] | null>(null);
+  const [fields, setFields] = useState<EncounterNoteFields>(EMPTY_FIELDS);
+  const [viewingVersion, setViewingVersion] = useState<number | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The writer attends by default when they are clinical staff themselves
+  const defaultAttending = profile && ['nurse', 'supervisor'].includes(profile.role) ? profile.id : null;
+
+  const load = useCallback(async () => {
+    setVersions(null);
+    setLoadFailed(false);
+    setError(null);
+    setViewingVersion(null);
+    try {
+      const result = await fetchEncounterNotes(appointmentId);
+      setVersions(result);
+      setFields(toFields(result[0], defaultAttending));
+    } catch (err) {
+      console.error('Failed to load encounter note:', err);
+      setLoadFailed(true);
+    }
+  }, [appointmentId, fetchEncounterNotes, defaultAttending]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (clinicStaff.length === 0) fetchClinicStaff();
+  }, [clinicStaff.length, fetchClinicStaff]);
+
+  const currentVersion = versions?.[0]?.version ?? 0;
+  const viewed = viewingVersion !== null ? versions?.find((v) => v.version === viewingVersion) : undefined;
+  const shown = viewed ? toFields(viewed, null) : fields;
+  const readOnly = !!viewed;
+
+  const setField = (key: keyof EncounterNoteFields, value: string) => {
+    setSaved(false);
+    // chief_complaint is always a string; the optional fields clear to null
+    setFields((prev) => ({ ...prev, [key]: key === 'chief_complaint' ? value : value || null }));
+  };
+
+  const handleSave = async () => {
+    if (!fields.chief_complaint?.trim()) {
+      setError('Please enter the chief complaint.');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const note = await saveEncounterNote(appointmentId, currentVersion, fields);
+      setVersions((prev) => [note, ...(prev ?? [])]);
+      setFields(toFields(note, null));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the note.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loadFailed) {
+    return (
+      <div className="text-sm text-gray-500 flex items-center gap-2">
+        Encounter notes are unavailable right now.
+        <button onClick={load} className="text-maroon-800 font-medium hover:underline">Retry</button>
+      </div>
+    );
+  }
+
+  if (!versions) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm disabled:bg-gray-50 disabled:text-gray-700';
+  const attendingName = viewed?.attending_staff_name;
+
+  return (
+    <div className="space-y-4">
+      {viewed && (
+        <div className="flex items-center justify-between gap-2 p-2.5 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800">
+          <span>Viewing version {viewed.version} of {currentVersion} (read-only)</span>
+          <button onClick={() => setViewingVersion(null)} className="font-semibold hover:underline">Back to current</button>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Chief Complaint *</label>
+        <input
+          type="text"
+          value={shown.chief_complaint}
+          onChange={(e) => setField('chief_complaint', e.target.value)}
+          disabled={readOnly}
+          maxLength={300}
+          placeholder="Main reason for the visit"
+          className={inputClass}
+        />
+      </div>
+
+      {SOAP_FIELDS.map((field) => (
+        <div key={field.key}>
+          <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">{field.label}</label>
+          <textarea
+            value={shown[field.key] ?? ''}
+            onChange={(e) => setField(field.key, e.target.value)}
+            disabled={readOnly}
+            rows={3}
+            placeholder={field.placeholder}
+            className={`${inputClass} resize-y`}
+          />
+        </div>
+      ))}
+
+      <div>
+        <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Attending Staff</label>
+        {readOnly ? (
+          <p className="text-sm text-gray-800">{attendingName || '—'}</p>
+        ) : (
+          <select
+            value={shown.attending_staff_id ?? ''}
+            onChange={(e) => setField('attending_staff_id', e.target.value)}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">Not recorded</option>
+            {clinicStaff.map((staff) => (
+              <option key={staff.id} value={staff.id}>
+                {`${staff.first_name || ''} ${staff.last_name || ''}`.trim() || 'Unnamed'} ({staff.role})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <div>
+            <p>{error}</p>
+            {error.includes('Reload') && (
+              <button onClick={load} className="mt-1 font-semibold flex items-center gap-1 hover:underline">
+                <RefreshCw className="w-3.5 h-3.5" />
+                Reload note
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            {isSaving ? (
+              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            ) : (
+              <Save className="w-4 h-4" />
+            )}
+            {currentVersion === 0 ? 'Save Note' : `Save as Version ${currentVersion + 1}`}
+          </button>
+          {saved && (
+            <span className="text-green-600 text-sm font-medium flex items-center gap-1">
+              <Check className="w-4 h-4" />
+              Saved
+            </span>
+          )}
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <div className="pt-3 border-t border-gray-100">
+          <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">Versions</h4>
+          <ul className="space-y-1">
+            {versions.map((version, index) => (
+              <li key={version.id}>
+                <button
+                  onClick={() => setViewingVersion(index === 0 ? null : version.version)}
+                  className={`w-full text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                    (index === 0 && viewingVersion === null) || viewingVersion === version.version
+                      ? 'bg-maroon-50 text-maroon-900'
+                      : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="font-semibold">v{version.version}{index === 0 && ' (current)'}</span>
+                  {' · '}
+                  {format(new Date(version.created_at), 'MMM d, yyyy h:mm a')}
+                  {version.author_name && ` · ${version.author_name}`}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { DENTAL_CONDITIONS, PERMANENT_TEETH, PRIMARY_TEETH, conditionLabel, toothName } from '~/lib/dental';
+import type { DentalCondition } from '~/types';
+
+export interface ToothState {
+  condition: DentalCondition;
+  hasProcedure: boolean;
+  /** Carried over from an earlier visit rather than charted now */
+  carriedOver?: boolean;
+}
+
+interface ToothGridProps {
+  showPrimary: boolean;
+  stateFor: (tooth: number) => ToothState | undefined;
+  selectedTooth?: number | null;
+  onSelect?: (tooth: number) => void;
+}
+
+const colorFor = (condition: DentalCondition) =>
+  DENTAL_CONDITIONS.find((c) => c.value === condition)?.color ?? 'bg-white border-gray-300 text-gray-700';
+
+/** Upper and lower arches in FDI order, as the dentist faces the patient. */
+export function ToothGrid({ showPrimary, stateFor, selectedTooth, onSelect }: ToothGridProps) {
+  const rows = showPrimary ? PRIMARY_TEETH : PERMANENT_TEETH;
+
+  const renderRow = (teeth: number[]) => (
+    <div className="flex justify-center gap-0.5 sm:gap-1">
+      {teeth.map((tooth, index) => {
+        const state = stateFor(tooth);
+        const midline = index === teeth.length / 2;
+        return (
+          <button
+            key={tooth}
+            type="button"
+            disabled={!onSelect}
+            onClick={() => onSelect?.(tooth)}
+            title={`${tooth} · ${toothName(tooth)}${state ? ` · ${conditionLabel(state.condition)}` : ''}`}
+            className={`relative w-7 h-9 sm:w-9 sm:h-11 rounded-md border-2 text-[10px] sm:text-xs font-bold transition-all ${
+              midline ? 'ml-1.5 sm:ml-3' : ''
+            } ${state ? colorFor(state.condition) : 'bg-white border-gray-200 text-gray-500'} ${
+              state?.carriedOver ? 'opacity-50 border-dashed' : ''
+            } ${selectedTooth === tooth ? 'ring-2 ring-maroon-600 ring-offset-1' : ''} ${
+              onSelect ? 'hover:scale-105 cursor-pointer' : 'cursor-default'
+            }`}
+          >
+            {tooth}
+            {state?.hasProcedure && (
+              <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-maroon-700 border border-white" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-1.5 overflow-x-auto py-1">
+      <p className="text-center text-[10px] uppercase tracking-wider text-gray-400">Upper · patient's right ← → left</p>
+      {renderRow(rows.upper)}
+      <div className="border-t border-dashed border-gray-300 mx-4" />
+      {renderRow(rows.lower)}
+      <p className="text-center text-[10px] uppercase tracking-wider text-gray-400">Lower</p>
+    </div>
+  );
+}
+
+export function ToothLegend() {
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1.5 text-[11px] text-gray-600">
+      {DENTAL_CONDITIONS.map((c) => (
+        <span key={c.value} className="flex items-center gap-1">
+          <span className={`w-3 h-3 rounded-sm border-2 ${c.color}`} />
+          {c.label}
+        </span>
+      ))}
+      <span className="flex items-center gap-1">
+        <span className="w-2.5 h-2.5 rounded-full bg-maroon-700" />
+        Procedure done
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, AlertTriangle, Check, Save } from 'lucide-react';
+import { useClinicalStore } from '../store';
+import { vitalSignsSchema, validateInput } from '~/lib/validation';
+import type { VitalSignsInput } from '~/lib/validation';
+import { bmiCategory, computeBmi, getVitalWarnings, readingsFromRecord } from '~/lib/vitals';
+import type { VitalSigns } from '~/types';
+
+interface VitalSignsFormProps {
+  appointmentId: string;
+  onSaved?: (vitals: VitalSigns) => void;
+}
+
+type ReadingKey = keyof VitalSignsInput;
+
+const FIELDS: { key: ReadingKey; label: string; unit: string; step: string; placeholder: string }[] = [
+  { key: 'systolicBp', label: 'Systolic', unit: 'mmHg', step: '1', placeholder: '120' },
+  { key: 'diastolicBp', label: 'Diastolic', unit: 'mmHg', step: '1', placeholder: '80' },
+  { key: 'heartRate', label: 'Heart Rate', unit: 'bpm', step: '1', placeholder: '72' },
+  { key: 'temperatureC', label: 'Temperature', unit: '°C', step: '0.1', placeholder: '36.5' },
+  { key: 'respiratoryRate', label: 'Respiratory Rate', unit: '/min', step: '1', placeholder: '16' },
+  { key: 'spo2', label: 'SpO2', unit: '%', step: '1', placeholder: '98' },
+  { key: 'weightKg', label: 'Weight', unit: 'kg', step: '0.1', placeholder: '60' },
+  { key: 'heightCm', label: 'Height', unit: 'cm', step: '0.1', placeholder: '165' },
+];
+
+function toReadings(values: Record<ReadingKey, string>): VitalSignsInput {
+  const readings: VitalSignsInput = {};
+  for (const { key } of FIELDS) {
+    const raw = values[key].trim();
+    if (raw !== '') readings[key] = Number(raw);
+  }
+  return readings;
+}
+
+const EMPTY_VALUES = Object.fromEntries(FIELDS.map((f) => [f.key, ''])) as Record<ReadingKey, string>;
+
+/** Vital signs for one appointment, with BMI and live warnings on abnormal values. */
+export function VitalSignsForm({ appointmentId, onSaved }: VitalSignsFormProps) {
+  const { fetchVitalSigns, saveVitalSigns } = useClinicalStore();
+  const [values, setValues] = useState<Record<ReadingKey, string>>(EMPTY_VALUES);
+  const [existing, setExisting] = useState<VitalSigns | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchVitalSigns(appointmentId)
+      .then((record) => {
+        setExisting(record);
+        if (record) {
+          const readings = readingsFromRecord(record);
+          setValues(Object.fromEntries(FIELDS.map((f) => [f.key, readings[f.key]?.toString() ?? ''])) as Record<ReadingKey, string>);
+        } else {
+          setValues(EMPTY_VALUES);
+        }
+      })
+      .catch((err) => {
+        console.error('Failed to load vital signs:', err);
+        setError('Failed to load previously recorded vitals.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [appointmentId, fetchVitalSigns]);
+
+  const readings = useMemo(() => toReadings(values), [values]);
+  const bmi = computeBmi(readings.weightKg, readings.heightCm);
+
+  // Only warn on readings that pass the range checks
+  const warnings = useMemo(() => {
+    const valid: VitalSignsInput = {};
+    const result = validateInput(vitalSignsSchema, readings);
+    for (const { key } of FIELDS) {
+      if (readings[key] !== undefined && !result.errors?.[key]) valid[key] = readings[key];
+    }
+    return getVitalWarnings(valid);
+  }, [readings]);
+
+  const handleChange = (key: ReadingKey, value: string) => {
+    setSaved(false);
+    setFieldErrors((prev) => {
+      const next = { ...prev };
+      delete next[key];
+      delete next._general;
+      return next;
+    });
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    const result = validateInput(vitalSignsSchema, readings);
+    if (!result.success || !result.data) {
+      setFieldErrors(result.errors || {});
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const vitals = await saveVitalSigns(appointmentId, result.data);
+      setExisting(vitals);
+      setSaved(true);
+      onSaved?.(vitals);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save vital signs.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const flagged = new Map(warnings.map((w) => [w.field, w.severity]));
+  // Blood pressure is graded as a pair and flagged on both inputs
+  const severityFor = (key: ReadingKey) => flagged.get(key === 'diastolicBp' ? 'systolicBp' : key);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {FIELDS.map((field) => {
+          const severity = severityFor(field.key);
+          const fieldError = fieldErrors[field.key];
+          return (
+            <div key={field.key}>
+              <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">
+                {field.label} <span className="normal-case font-normal text-gray-400">({field.unit})</span>
+              </label>
+              <input
+                type="number"
+                inputMode="decimal"
+                step={field.step}
+                value={values[field.key]}
+                onChange={(e) => handleChange(field.key, e.target.value)}
+                placeholder={field.placeholder}
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm ${
+                  fieldError ? 'border-red-400' : severity === 'critical' ? 'border-red-400 bg-red-50' : severity === 'warning' ? 'border-amber-400 bg-amber-50' : 'border-gray-300'
+                }`}
+              />
+              {fieldError && <p className="text-[11px] text-red-600 mt-1">{fieldError}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-xs font-bold uppercase tracking-wider text-gray-500">BMI</span>
+        {bmi !== null ? (
+          <span className={flagged.has('bmi') ? 'text-amber-700 font-semibold' : 'text-gray-800 font-semibold'}>
+            {bmi} <span className="font-normal text-gray-500">· {bmiCategory(bmi)}</span>
+          </span>
+        ) : (
+          <span className="text-gray-400">Enter weight and height</span>
+        )}
+      </div>
+
+      {warnings.length > 0 && (
+        <ul className="space-y-1.5">
+          {warnings.map((warning) => (
+            <li
+              key={warning.field}
+              className={`flex items-start gap-2 p-2.5 rounded-lg text-xs ${
+                warning.severity === 'critical' ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-amber-50 text-amber-800 border border-amber-200'
+              }`}
+            >
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(error || fieldErrors._general) && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error || fieldErrors._general}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+        >
+          {isSaving ? (
+            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+          ) : (
+            <Save className="w-4 h-4" />
+          )}
+          {existing ? 'Update Vitals' : 'Save Vitals'}
+        </button>
+        {saved && (
+          <span className="text-green-600 text-sm font-medium flex items-center gap-1">
+            <Check className="w-4 h-4" />
+            Saved
+          </span>
+        )}
+        {existing && !saved && (
+          <span className="text-xs text-gray-500">
+            Recorded {format(new Date(existing.recorded_at), 'MMM d, h:mm a')}
+            {existing.recorded_by_name && ` by ${existing.recorded_by_name}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
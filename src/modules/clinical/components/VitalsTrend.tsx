@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Activity } from 'lucide-react';
+import { useClinicalStore } from '../store';
+import { getVitalWarnings, readingsFromRecord } from '~/lib/vitals';
+import type { VitalField, VitalWarning } from '~/lib/vitals';
+import type { VitalSigns } from '~/types';
+
+interface VitalsTrendProps {
+  patientId: string;
+}
+
+type Column = {
+  label: string;
+  field: VitalField;
+  value: (v: VitalSigns) => number | null;
+  display?: (v: VitalSigns) => string | null;
+};
+
+const COLUMNS: Column[] = [
+  {
+    label: 'BP',
+    field: 'systolicBp',
+    value: (v) => v.systolic_bp,
+    display: (v) => (v.systolic_bp !== null ? `${v.systolic_bp}/${v.diastolic_bp}` : null),
+  },
+  { label: 'HR', field: 'heartRate', value: (v) => v.heart_rate },
+  { label: 'Temp °C', field: 'temperatureC', value: (v) => v.temperature_c },
+  { label: 'RR', field: 'respiratoryRate', value: (v) => v.respiratory_rate },
+  { label: 'SpO2 %', field: 'spo2', value: (v) => v.spo2 },
+  { label: 'Weight kg', field: 'weightKg', value: (v) => v.weight_kg },
+  { label: 'BMI', field: 'bmi', value: (v) => v.bmi },
+];
+
+/** Tiny inline line chart of one reading across visits (gaps are skipped). */
+function Sparkline({ points }: { points: (number | null)[] }) {
+  const values = points.filter((p): p is number => p !== null);
+  if (values.length < 2) return <div className="h-6" />;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const step = 100 / (points.length - 1);
+  const path = points
+    .map((p, i) => (p === null ? null : `${i * step},${22 - ((Number(p) - min) / span) * 20}`))
+    .filter(Boolean)
+    .join(' ');
+  return (
+    <svg viewBox="0 0 100 24" preserveAspectRatio="none" className="w-full h-6">
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+/** A patient's vital signs across visits, oldest to newest, with abnormal readings highlighted. */
+export function VitalsTrend({ patientId }: VitalsTrendProps) {
+  const { fetchVitalTrend } = useClinicalStore();
+  const [rows, setRows] = useState<VitalSigns[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    setRows(null);
+    setLoadFailed(false);
+    fetchVitalTrend(patientId)
+      .then(setRows)
+      .catch((err) => {
+        console.error('Failed to load vitals trend:', err);
+        setLoadFailed(true);
+      });
+  }, [patientId, fetchVitalTrend]);
+
+  const header = (
+    <h2 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+      <Activity className="w-5 h-5 text-maroon-800" />
+      Vital Signs
+    </h2>
+  );
+
+  if (loadFailed) {
+    return <div>{header}<p className="text-sm text-gray-500">Vital signs are unavailable right now.</p></div>;
+  }
+
+  if (!rows) {
+    return (
+      <div>
+        {header}
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return <div>{header}<p className="text-sm text-gray-500">No vital signs recorded yet.</p></div>;
+  }
+
+  const warningsByRow = rows.map((row) => {
+    const severities = new Map<VitalField, VitalWarning['severity']>();
+    getVitalWarnings(readingsFromRecord(row)).forEach((w) => severities.set(w.field, w.severity));
+    return severities;
+  });
+
+  const cellClass = (severity?: VitalWarning['severity']) =>
+    severity === 'critical' ? 'text-red-700 font-semibold bg-red-50' : severity === 'warning' ? 'text-amber-700 font-semibold bg-amber-50' : 'text-gray-800';
+
+  return (
+    <div>
+      {header}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase tracking-wider">
+              <th className="text-left font-semibold py-2 pr-3">Visit</th>
+              {COLUMNS.map((col) => (
+                <th key={col.label} className="text-right font-semibold py-2 px-2 whitespace-nowrap">{col.label}</th>
+              ))}
+            </tr>
+            {rows.length > 1 && (
+              <tr className="text-maroon-700">
+                <td className="text-[10px] text-gray-400 pr-3">Trend</td>
+                {COLUMNS.map((col) => (
+                  <td key={col.label} className="px-2 pb-1">
+                    <Sparkline points={rows.map(col.value)} />
+                  </td>
+                ))}
+              </tr>
+            )}
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {[...rows].reverse().map((row, reversedIndex) => {
+              const severities = warningsByRow[rows.length - 1 - reversedIndex];
+              return (
+                <tr key={row.id}>
+                  <td className="py-2 pr-3 whitespace-nowrap">
+                    <span className="text-gray-800">{format(new Date(row.appointment?.appointment_date ?? row.recorded_at), 'MMM d, yyyy')}</span>
+                    {row.appointment && (
+                      <span className="block text-[11px] text-gray-400 capitalize">{row.appointment.appointment_type.replace(/_/g, ' ')}</span>
+                    )}
+                  </td>
+                  {COLUMNS.map((col) => {
+                    const shown = col.display ? col.display(row) : col.value(row);
+                    return (
+                      <td key={col.label} className={`py-2 px-2 text-right rounded ${cellClass(severities.get(col.field))}`}>
+                        {shown ?? <span className="text-gray-300">—</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export { useClinicalStore } from './store';
+export type { ClinicStaffMember } from './store';
+export { EncounterNoteEditor } from './components/EncounterNoteEditor';
+export { VitalSignsForm } from './components/VitalSignsForm';
+export { VitalsTrend } from './components/VitalsTrend';
+export { DentalChart } from './components/DentalChart';
+export { DentalHistory } from './components/DentalHistory';
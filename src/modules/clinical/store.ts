@@ -0,0 +1,195 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { DentalChartEntry, DentalToothRecord, EncounterNote, EncounterNoteFields, Profile, VitalSigns } from '~/types';
+import type { VitalSignsInput } from '~/lib/validation';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+export type ClinicStaffMember = Pick<Profile, 'id' | 'first_name' | 'last_name' | 'role'>;
+
+interface ClinicalState {
+  clinicStaff: ClinicStaffMember[];
+
+  fetchClinicStaff: () => Promise<void>;
+  fetchEncounterNotes: (appointmentId: string) => Promise<EncounterNote[]>;
+  saveEncounterNote: (appointmentId: string, expectedVersion: number, fields: EncounterNoteFields) => Promise<EncounterNote>;
+  fetchVitalSigns: (appointmentId: string) => Promise<VitalSigns | null>;
+  fetchVitalTrend: (patientId: string) => Promise<VitalSigns[]>;
+  saveVitalSigns: (appointmentId: string, readings: VitalSignsInput) => Promise<VitalSigns>;
+  fetchDentalChart: (appointmentId: string) => Promise<DentalChartEntry[]>;
+  fetchDentalHistory: (patientId: string) => Promise<DentalChartEntry[]>;
+  saveDentalChart: (appointmentId: string, teeth: DentalToothRecord[]) => Promise<DentalChartEntry[]>;
+}
+
+export const useClinicalStore = create<ClinicalState>()(
+  immer((set) => ({
+    clinicStaff: [],
+
+    fetchClinicStaff: async () => {
+      try {
+        const { data, error } = await supabase
+          .from('profiles')
+          .select('id, first_name, last_name, role')
+          .in('role', ['nurse', 'supervisor'])
+          .order('first_name');
+
+        if (error) throw error;
+        set({ clinicStaff: data || [] });
+      } catch (error) {
+        console.error('Error fetching clinic staff:', error);
+      }
+    },
+
+    // All versions, newest (current) first
+    fetchEncounterNotes: async (appointmentId) => {
+      const { data, error } = await supabase
+        .from('encounter_notes')
+        .select('*')
+        .eq('appointment_id', appointmentId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      return (data as EncounterNote[]) || [];
+    },
+
+    saveEncounterNote: async (appointmentId, expectedVersion, fields) => {
+      const { data, error } = await supabase.rpc('save_encounter_note', {
+        p_appointment_id: appointmentId,
+        p_expected_version: expectedVersion,
+        p_chief_complaint: fields.chief_complaint,
+        p_subjective: fields.subjective,
+        p_objective: fields.objective,
+        p_assessment: fields.assessment,
+        p_plan: fields.plan,
+        p_attending_staff_id: fields.attending_staff_id,
+      });
+
+      if (error) {
+        if (error.message?.includes('NOTE_CONFLICT')) {
+          throw new Error('Someone else saved this note while you were editing. Reload it to see their changes before saving again.');
+        }
+        if (error.message?.includes('CHIEF_COMPLAINT_REQUIRED')) {
+          throw new Error('Please enter the chief complaint.');
+        }
+        throw error;
+      }
+
+      const note = data as EncounterNote;
+
+      // Clinical content stays out of the audit log; the version is enough to find it
+      await logUserAction({
+        action: note.version === 1 ? 'CREATE' : 'UPDATE',
+        resourceType: 'encounter_note',
+        resourceId: note.id,
+        details: { appointment_id: appointmentId, version: note.version },
+      });
+
+      return note;
+    },
+
+    fetchVitalSigns: async (appointmentId) => {
+      const { data, error } = await supabase
+        .from('vital_signs')
+        .select('*')
+        .eq('appointment_id', appointmentId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as VitalSigns) ?? null;
+    },
+
+    // Oldest first, so the trend reads left to right
+    fetchVitalTrend: async (patientId) => {
+      const { data, error } = await supabase
+        .from('vital_signs')
+        .select('*, appointment:appointments(appointment_date, appointment_type)')
+        .eq('patient_id', patientId)
+        .order('recorded_at', { ascending: true })
+        .limit(50);
+
+      if (error) throw error;
+      return (data as VitalSigns[]) || [];
+    },
+
+    saveVitalSigns: async (appointmentId, readings) => {
+      const { data, error } = await supabase.rpc('save_vital_signs', {
+        p_appointment_id: appointmentId,
+        p_systolic_bp: readings.systolicBp ?? null,
+        p_diastolic_bp: readings.diastolicBp ?? null,
+        p_heart_rate: readings.heartRate ?? null,
+        p_temperature_c: readings.temperatureC ?? null,
+        p_respiratory_rate: readings.respiratoryRate ?? null,
+        p_weight_kg: readings.weightKg ?? null,
+        p_height_cm: readings.heightCm ?? null,
+        p_spo2: readings.spo2 ?? null,
+      });
+
+      if (error) {
+        if (error.message?.includes('VITALS_EMPTY')) {
+          throw new Error('Enter at least one reading.');
+        }
+        if (error.code === '23514') {
+          throw new Error('One of the readings is outside the possible range. Please check the values.');
+        }
+        throw error;
+      }
+
+      const vitals = data as VitalSigns;
+      await logUserAction({
+        action: 'CREATE',
+        resourceType: 'vital_signs',
+        resourceId: vitals.id,
+        details: { appointment_id: appointmentId },
+      });
+
+      return vitals;
+    },
+
+    fetchDentalChart: async (appointmentId) => {
+      const { data, error } = await supabase
+        .from('dental_chart_entries')
+        .select('*')
+        .eq('appointment_id', appointmentId)
+        .order('tooth');
+
+      if (error) throw error;
+      return (data as DentalChartEntry[]) || [];
+    },
+
+    // Every charted tooth across the patient's dental visits
+    fetchDentalHistory: async (patientId) => {
+      const { data, error } = await supabase
+        .from('dental_chart_entries')
+        .select('*, appointment:appointments(appointment_date)')
+        .eq('patient_id', patientId)
+        .order('recorded_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as DentalChartEntry[]) || [];
+    },
+
+    saveDentalChart: async (appointmentId, teeth) => {
+      const { data, error } = await supabase.rpc('save_dental_chart', {
+        p_appointment_id: appointmentId,
+        p_entries: teeth,
+      });
+
+      if (error) {
+        if (error.message?.includes('NOT_DENTAL')) {
+          throw new Error('Dental charts can only be recorded for dental appointments.');
+        }
+        throw error;
+      }
+
+      const entries = (data as DentalChartEntry[]) || [];
+      await logUserAction({
+        action: 'UPDATE',
+        resourceType: 'dental_chart',
+        resourceId: appointmentId,
+        details: { teeth_charted: entries.length },
+      });
+
+      return entries;
+    },
+  }))
+);
@@ -0,0 +1,2 @@
+export { useComplianceStore } from './store';
+export type { ComplianceFilters } from './store';
@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { College, Department, PhysicalExamComplianceRow } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+import { sendPhysicalExamReminders } from '~/lib/email';
+
+export interface ComplianceFilters {
+  yearStart: string;
+  campusId?: string;
+  collegeId?: string;
+  departmentId?: string;
+}
+
+interface ComplianceState {
+  rows: PhysicalExamComplianceRow[];
+  colleges: College[];
+  departments: Department[];
+  isLoading: boolean;
+
+  fetchCompliance: (filters: ComplianceFilters) => Promise<void>;
+  fetchOrgUnits: (campusId?: string) => Promise<void>;
+  sendReminders: (filters: ComplianceFilters) => Promise<{ sent: number; skipped: number; failed: number }>;
+}
+
+export const useComplianceStore = create<ComplianceState>()(
+  immer((set) => ({
+    rows: [],
+    colleges: [],
+    departments: [],
+    isLoading: false,
+
+    fetchCompliance: async (filters) => {
+      set({ isLoading: true });
+      try {
+        const { data, error } = await supabase.rpc('physical_exam_compliance', {
+          p_year_start: filters.yearStart,
+          p_campus_id: filters.campusId || null,
+          p_college_id: filters.collegeId || null,
+          p_department_id: filters.departmentId || null,
+        });
+
+        if (error) {
+          if (error.message?.includes('WRONG_CAMPUS')) {
+            throw new Error('You can only view compliance for your own campus.');
+          }
+          if (error.message?.includes('NOT_ALLOWED')) {
+            throw new Error('Only clinic staff can view physical exam compliance.');
+          }
+          throw error;
+        }
+        set({ rows: (data as PhysicalExamComplianceRow[]) || [] });
+      } catch (error) {
+        set({ rows: [] });
+        throw error;
+      } finally {
+        set({ isLoading: false });
+      }
+    },
+
+    fetchOrgUnits: async (campusId) => {
+      try {
+        let collegesQuery = supabase.from('colleges').select('*').order('name');
+        let departmentsQuery = supabase.from('departments').select('*').order('name');
+        if (campusId) {
+          collegesQuery = collegesQuery.eq('campus_id', campusId);
+          departmentsQuery = departmentsQuery.eq('campus_id', campusId);
+        }
+
+        const [collegesResult, departmentsResult] = await Promise.all([collegesQuery, departmentsQuery]);
+        if (collegesResult.error) throw collegesResult.error;
+        if (departmentsResult.error) throw departmentsResult.error;
+
+        set({
+          colleges: (collegesResult.data as College[]) || [],
+          departments: (departmentsResult.data as Department[]) || [],
+        });
+      } catch (error) {
+        console.error('Error fetching colleges and departments:', error);
+      }
+    },
+
+    sendReminders: async (filters) => {
+      const result = await sendPhysicalExamReminders(filters);
+
+      await logUserAction({
+        action: 'CREATE',
+        resourceType: 'physical_exam_reminder',
+        campusId: filters.campusId,
+        details: {
+          academic_year_start: filters.yearStart,
+          college_id: filters.collegeId ?? null,
+          department_id: filters.departmentId ?? null,
+          sent: result.sent,
+          skipped: result.skipped,
+          failed: result.failed,
+        },
+      });
+
+      return { sent: result.sent, skipped: result.skipped, failed: result.failed };
+    },
+  }))
+);
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { CalendarSync, Copy, Check, Trash2, Plus, AlertCircle } from 'lucide-react';
+import { useCalendarFeedStore, getCalendarFeedUrl } from '../store';
+import { useScheduleStore } from '~/modules/schedule';
+import type { CalendarFeedType } from '~/types';
+
+interface CalendarFeedsSectionProps {
+  feedType: CalendarFeedType;
+}
+
+/**
+ * Calendar subscription links for the profile pages. Patients get a feed of
+ * their own upcoming appointments; clinic staff get per-campus feeds with
+ * session counts and closures.
+ */
+export function CalendarFeedsSection({ feedType }: CalendarFeedsSectionProps) {
+  const { feeds, fetchMyFeeds, createFeed, revokeFeed, isSaving } = useCalendarFeedStore();
+  const { campuses, fetchCampuses } = useScheduleStore();
+  const [newCampusId, setNewCampusId] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchMyFeeds();
+    if (feedType === 'campus') fetchCampuses();
+  }, [feedType, fetchMyFeeds, fetchCampuses]);
+
+  const myFeeds = feeds.filter((f) => f.feed_type === feedType);
+  const availableCampuses = campuses.filter((c) => !myFeeds.some((f) => f.campus_id === c.id));
+
+  const handleCreate = async () => {
+    setError('');
+    try {
+      await createFeed(feedType, feedType === 'campus' ? newCampusId : undefined);
+      setNewCampusId('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create calendar link.');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError('');
+    try {
+      await revokeFeed(id);
+      setConfirmRevokeId(null);
+    } catch (err) {
+      console.error('Failed to revoke calendar feed:', err);
+      setError('Failed to revoke calendar link. Please try again.');
+    }
+  };
+
+  const handleCopy = async (id: string, url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      setError('Copy failed — select the link and copy it manually.');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-0.5 flex items-center gap-2">
+        <CalendarSync className="w-5 h-5 text-maroon-800" />
+        Calendar Subscription
+      </h3>
+      <p className="text-sm text-gray-400 mb-5">
+        {feedType === 'patient'
+          ? 'Add your upcoming clinic appointments to Google Calendar, Outlook or Apple Calendar. They update automatically.'
+          : 'Subscribe to a campus calendar showing booked counts per session and clinic closures. No patient details are included.'}
+      </p>
+
+      <div className="space-y-3">
+        {myFeeds.map((feed) => {
+          const url = getCalendarFeedUrl(feed.token);
+          const campusName = campuses.find((c) => c.id === feed.campus_id)?.name;
+          return (
+            <div key={feed.id} className="border border-gray-200 rounded-xl p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-semibold text-gray-800">
+                  {feedType === 'patient' ? 'My appointments' : campusName || 'Campus'}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {feed.last_accessed_at
+                    ? `Last synced ${new Date(feed.last_accessed_at).toLocaleString()}`
+                    : 'Not synced yet'}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-xs font-mono text-gray-600 outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => handleCopy(feed.id, url)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50 transition-colors flex items-center gap-1.5 text-sm"
+                >
+                  {copiedId === feed.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  {copiedId === feed.id ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <a
+                  href={url.replace(/^https?:/, 'webcal:')}
+                  className="font-medium text-maroon-800 hover:text-maroon-900"
+                >
+                  Open in calendar app
+                </a>
+                {confirmRevokeId === feed.id ? (
+                  <span className="ml-auto flex items-center gap-2">
+                    <span className="text-gray-500">Revoke this link?</span>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(feed.id)}
+                      disabled={isSaving}
+                      className="font-semibold text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmRevokeId(null)}
+                      className="text-gray-500 hover:text-gray-700"
+                    >
+                      Keep
+                    </button>
+                  </span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmRevokeId(feed.id)}
+                    className="ml-auto flex items-center gap-1 text-gray-500 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Revoke
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {feedType === 'patient' ? (
+          myFeeds.length === 0 && (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isSaving}
+              className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Create calendar link
+            </button>
+          )
+        ) : (
+          availableCampuses.length > 0 && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={newCampusId}
+                onChange={(e) => setNewCampusId(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm"
+              >
+                <option value="">Select a campus…</option>
+                {availableCampuses.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={isSaving || !newCampusId}
+                className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Create calendar link
+              </button>
+            </div>
+          )
+        )}
+
+        {myFeeds.length > 0 && (
+          <p className="text-xs text-gray-400">
+            Anyone with a link can see its calendar. Revoke a link if it was shared by mistake, then create a new one.
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
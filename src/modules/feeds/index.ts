@@ -0,0 +1,2 @@
+export { useCalendarFeedStore, getCalendarFeedUrl } from './store';
+export { CalendarFeedsSection } from './components/CalendarFeedsSection';
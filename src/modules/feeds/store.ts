@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { CalendarFeed, CalendarFeedType } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+/** Subscription URL served by the calendar-feed edge function. */
+export function getCalendarFeedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
+
+interface CalendarFeedState {
+  feeds: CalendarFeed[];
+  isLoading: boolean;
+  isSaving: boolean;
+
+  fetchMyFeeds: () => Promise<void>;
+  createFeed: (feedType: CalendarFeedType, campusId?: string) => Promise<CalendarFeed>;
+  revokeFeed: (id: string) => Promise<void>;
+}
+
+export const useCalendarFeedStore = create<CalendarFeedState>()(
+  immer((set) => ({
+    feeds: [],
+    isLoading: false,
+    isSaving: false,
+
+    fetchMyFeeds: async () => {
+      set({ isLoading: true });
+      try {
+        // RLS limits this to the signed-in user's own feeds
+        const { data, error } = await supabase
+          .from('calendar_feeds')
+          .select('*')
+          .is('revoked_at', null)
+          .order('created_at');
+
+        if (error) throw error;
+        set({ feeds: data || [], isLoading: false });
+      } catch (error) {
+        console.error('Error fetching calendar feeds:', error);
+        set({ isLoading: false });
+      }
+    },
+
+    createFeed: async (feedType, campusId) => {
+      set({ isSaving: true });
+      try {
+        const { data, error } = await supabase.rpc('create_calendar_feed', {
+          p_feed_type: feedType,
+          p_campus_id: campusId ?? null,
+        });
+
+        if (error) {
+          if (error.message?.includes('WRONG_CAMPUS')) {
+            throw new Error('Nurses can only subscribe to their own campus calendar.');
+          }
+          if (error.message?.includes('NOT_ALLOWED')) {
+            throw new Error('Only clinic staff can subscribe to campus calendars.');
+          }
+          throw error;
+        }
+
+        const feed = data as CalendarFeed;
+        set((state) => {
+          state.feeds.push(feed);
+          state.isSaving = false;
+        });
+        await logUserAction({
+          action: 'CREATE',
+          resourceType: 'calendar_feed',
+          resourceId: feed.id,
+          campusId,
+          details: { feed_type: feedType },
+        });
+        return feed;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+
+    revokeFeed: async (id) => {
+      set({ isSaving: true });
+      try {
+        const { error } = await supabase.rpc('revoke_calendar_feed', { p_feed_id: id });
+        if (error) throw error;
+
+        set((state) => {
+          state.feeds = state.feeds.filter((f) => f.id !== id);
+          state.isSaving = false;
+        });
+        await logUserAction({ action: 'DELETE', resourceType: 'calendar_feed', resourceId: id });
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+  }))
+);
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import { useHealthRecordStore } from '../store';
+
+interface AllergyBannerProps {
+  /** Walk-in appointments have no patient account, so nothing is shown */
+  patientId: string | null | undefined;
+}
+
+/** Allergy warning shown to clinic staff whenever they open a patient's appointment. */
+export function AllergyBanner({ patientId }: AllergyBannerProps) {
+  const { records, fetchRecord } = useHealthRecordStore();
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!patientId) return;
+    setLoaded(false);
+    fetchRecord(patientId)
+      .catch((err) => console.error('Failed to load health record:', err))
+      .finally(() => setLoaded(true));
+  }, [patientId, fetchRecord]);
+
+  if (!patientId || !loaded) return null;
+  const record = records[patientId];
+
+  if (!record) {
+    return (
+      <div className="p-2.5 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-800">
+        No health record on file — ask the patient about allergies.
+      </div>
+    );
+  }
+
+  if (record.allergies.length > 0) {
+    return (
+      <div className="flex items-start gap-2 p-3 rounded-lg border border-red-300 bg-red-50 text-red-800">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <div className="text-sm">
+          <p className="font-bold uppercase tracking-wide text-xs">Allergies</p>
+          <p className="font-medium">{record.allergies.join(', ')}</p>
+          {!record.verified_at && <p className="text-xs text-red-600 mt-0.5">Reported by the patient, not yet verified</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (record.no_known_allergies) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-gray-500">
+        <ShieldCheck className="w-3.5 h-3.5 text-green-600" />
+        No known allergies{!record.verified_at && ' (unverified)'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2.5 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-800">
+      Allergies not recorded — ask the patient before treatment.
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { HeartPulse, Edit2, Save, X, Plus, AlertCircle, BadgeCheck, Check } from 'lucide-react';
+import { useHealthRecordStore, BLOOD_TYPES } from '../store';
+import type { BloodType, HealthRecord, HealthRecordFields } from '~/types';
+
+interface HealthRecordSectionProps {
+  patientId: string;
+  /** Clinic staff view: shows the verify action */
+  canVerify?: boolean;
+}
+
+const EMPTY_FIELDS: HealthRecordFields = {
+  allergies: [],
+  no_known_allergies: false,
+  chronic_conditions: [],
+  current_medications: [],
+  blood_type: null,
+  emergency_contact_name: null,
+  emergency_contact_relationship: null,
+  emergency_contact_phone: null,
+};
+
+function toFields(record: HealthRecord | null | undefined): HealthRecordFields {
+  if (!record) return EMPTY_FIELDS;
+  return {
+    allergies: record.allergies,
+    no_known_allergies: record.no_known_allergies,
+    chronic_conditions: record.chronic_conditions,
+    current_medications: record.current_medications,
+    blood_type: record.blood_type,
+    emergency_contact_name: record.emergency_contact_name,
+    emergency_contact_relationship: record.emergency_contact_relationship,
+    emergency_contact_phone: record.emergency_contact_phone,
+  };
+}
+
+interface ListFieldProps {
+  label: string;
+  items: string[];
+  placeholder: string;
+  onChange: (items: string[]) => void;
+}
+
+function ListField({ label, items, placeholder, onChange }: ListFieldProps) {
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const value = draft.trim();
+    if (!value) return;
+    if (!items.some((item) => item.toLowerCase() === value.toLowerCase())) onChange([...items, value]);
+    setDraft('');
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">{label}</label>
+      {items.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {items.map((item) => (
+            <span key={item} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-gray-100 text-sm text-gray-800">
+              {item}
+              <button type="button" onClick={() => onChange(items.filter((i) => i !== item))} className="text-gray-400 hover:text-red-600">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              add();
+            }
+          }}
+          maxLength={200}
+          placeholder={placeholder}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm"
+        />
+        <button
+          type="button"
+          onClick={add}
+          disabled={!draft.trim()}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-40 flex items-center gap-1"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ReadOnlyList({ label, items, empty }: { label: string; items: string[]; empty: string }) {
+  return (
+    <div>
+      <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">{label}</p>
+      <p className="text-sm text-gray-800">{items.length > 0 ? items.join(', ') : <span className="text-gray-400">{empty}</span>}</p>
+    </div>
+  );
+}
+
+/**
+ * A patient's health record. Patients fill it in from their profile page;
+ * clinic staff see the same section on the patient view and can verify it.
+ */
+export function HealthRecordSection({ patientId, canVerify = false }: HealthRecordSectionProps) {
+  const { records, fetchRecord, saveRecord, verifyRecord, isSaving } = useHealthRecordStore();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [fields, setFields] = useState<HealthRecordFields>(EMPTY_FIELDS);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchRecord(patientId)
+      .catch((err) => {
+        console.error('Failed to load health record:', err);
+        setMessage({ type: 'error', text: 'Failed to load the health record.' });
+      })
+      .finally(() => setIsLoading(false));
+  }, [patientId, fetchRecord]);
+
+  const record = records[patientId];
+
+  const startEditing = () => {
+    setFields(toFields(record));
+    setMessage(null);
+    setIsEditing(true);
+  };
+
+  const setField = <K extends keyof HealthRecordFields>(key: K, value: HealthRecordFields[K]) => {
+    setFields((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    if (fields.emergency_contact_phone && fields.emergency_contact_phone.length !== 11) {
+      setMessage({ type: 'error', text: 'Emergency contact number must be exactly 11 digits.' });
+      return;
+    }
+    setMessage(null);
+    try {
+      await saveRecord(patientId, fields);
+      setIsEditing(false);
+      setMessage({ type: 'success', text: 'Health record saved.' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save the health record.' });
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!record) return;
+    setMessage(null);
+    try {
+      await verifyRecord(patientId, record.updated_at);
+      setMessage({ type: 'success', text: 'Health record verified.' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to verify the health record.' });
+      fetchRecord(patientId).catch(() => undefined);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm';
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-3 mb-5">
+        <div>
+          <h3 className="text-base sm:text-lg font-bold text-gray-900 mb-0.5 flex items-center gap-2">
+            <HeartPulse className="w-5 h-5 text-maroon-800" />
+            Health Record
+          </h3>
+          <p className="text-sm text-gray-400">
+            {canVerify
+              ? 'Check these details with the patient, then mark the record as verified.'
+              : 'Allergies, conditions and medications the clinic should know about. A nurse will verify them at your next visit.'}
+          </p>
+        </div>
+        {!isEditing && !isLoading && (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="flex-shrink-0 flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-maroon-800 border border-maroon-200 rounded-lg hover:bg-maroon-50"
+          >
+            <Edit2 className="w-4 h-4" />
+            {record ? 'Edit' : 'Fill In'}
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`mb-4 flex items-start gap-2 p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.type === 'success' ? <Check className="w-4 h-4 flex-shrink-0 mt-0.5" /> : <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />}
+          {message.text}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+        </div>
+      ) : isEditing ? (
+        <div className="space-y-4">
+          <ListField
+            label="Allergies"
+            items={fields.allergies}
+            placeholder="e.g. Penicillin, peanuts"
+            onChange={(items) => setFields((prev) => ({ ...prev, allergies: items, no_known_allergies: items.length > 0 ? false : prev.no_known_allergies }))}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={fields.no_known_allergies}
+              disabled={fields.allergies.length > 0}
+              onChange={(e) => setField('no_known_allergies', e.target.checked)}
+              className="rounded border-gray-300 text-maroon-800 focus:ring-maroon-500"
+            />
+            {canVerify ? 'No known allergies' : 'I have no known allergies'}
+          </label>
+          <ListField
+            label="Chronic Conditions"
+            items={fields.chronic_conditions}
+            placeholder="e.g. Asthma, hypertension"
+            onChange={(items) => setField('chronic_conditions', items)}
+          />
+          <ListField
+            label="Current Medications"
+            items={fields.current_medications}
+            placeholder="e.g. Salbutamol inhaler as needed"
+            onChange={(items) => setField('current_medications', items)}
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Blood Type</label>
+              <select
+                value={fields.blood_type ?? ''}
+                onChange={(e) => setField('blood_type', (e.target.value || null) as BloodType | null)}
+                className={`${inputClass} bg-white`}
+              >
+                <option value="">Unknown</option>
+                {BLOOD_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">Emergency Contact</p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={fields.emergency_contact_name ?? ''}
+                onChange={(e) => setField('emergency_contact_name', e.target.value || null)}
+                maxLength={150}
+                placeholder="Full name"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={fields.emergency_contact_relationship ?? ''}
+                onChange={(e) => setField('emergency_contact_relationship', e.target.value || null)}
+                maxLength={50}
+                placeholder="Relationship (e.g. Mother)"
+                className={inputClass}
+              />
+              <input
+                type="tel"
+                value={fields.emergency_contact_phone ?? ''}
+                onChange={(e) => setField('emergency_contact_phone', e.target.value.replace(/\D/g, '').slice(0, 11) || null)}
+                placeholder="09XXXXXXXXX"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {record?.verified_at && (
+            <p className="text-xs text-amber-700">Saving changes will need the clinic to verify your record again.</p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors"
+            >
+              {isSaving
+                ? <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                : <Save className="w-4 h-4" />}
+              Save Health Record
+            </button>
+            <button
+              type="button"
+              onClick={() => { setIsEditing(false); setMessage(null); }}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : !record ? (
+        <p className="text-sm text-gray-500">
+          {canVerify ? 'This patient has not filled in a health record yet.' : 'You have not filled in your health record yet.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <ReadOnlyList
+              label="Allergies"
+              items={record.allergies}
+              empty={record.no_known_allergies ? 'No known allergies' : 'Not recorded'}
+            />
+            <div>
+              <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Blood Type</p>
+              <p className="text-sm text-gray-800">{record.blood_type || <span className="text-gray-400">Unknown</span>}</p>
+            </div>
+            <ReadOnlyList label="Chronic Conditions" items={record.chronic_conditions} empty="None recorded" />
+            <ReadOnlyList label="Current Medications" items={record.current_medications} empty="None recorded" />
+            <div className="sm:col-span-2">
+              <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Emergency Contact</p>
+              {record.emergency_contact_name ? (
+                <p className="text-sm text-gray-800">
+                  {record.emergency_contact_name}
+                  {record.emergency_contact_relationship && ` (${record.emergency_contact_relationship})`}
+                  {record.emergency_contact_phone && ` · ${record.emergency_contact_phone}`}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-400">Not recorded</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 pt-3 border-t border-gray-100">
+            {record.verified_at ? (
+              <p className="text-xs text-green-700 flex items-center gap-1.5">
+                <BadgeCheck className="w-4 h-4" />
+                Verified {format(new Date(record.verified_at), 'MMM d, yyyy')}
+                {record.verified_by_name && ` by ${record.verified_by_name}`}
+              </p>
+            ) : (
+              <p className="text-xs text-amber-700">
+                Not yet verified · last updated {format(new Date(record.updated_at), 'MMM d, yyyy h:mm a')}
+              </p>
+            )}
+            {canVerify && !record.verified_at && (
+              <button
+                type="button"
+                onClick={handleVerify}
+                disabled={isSaving}
+                className="flex items-center gap-1.5 px-3 py-1.5 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                <BadgeCheck className="w-4 h-4" />
+                Mark as Verified
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { useHealthRecordStore, BLOOD_TYPES } from './store';
+export { HealthRecordSection } from './components/HealthRecordSection';
+export { AllergyBanner } from './components/AllergyBanner';
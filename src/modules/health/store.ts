@@ -0,0 +1,143 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { BloodType, HealthRecord, HealthRecordFields } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+export const BLOOD_TYPES: BloodType[] = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+const RECORD_FIELDS: (keyof HealthRecordFields)[] = [
+  'allergies',
+  'no_known_allergies',
+  'chronic_conditions',
+  'current_medications',
+  'blood_type',
+  'emergency_contact_name',
+  'emergency_contact_relationship',
+  'emergency_contact_phone',
+];
+
+interface HealthRecordState {
+  // Keyed by patient id; null means the patient has no record yet
+  records: Record<string, HealthRecord | null>;
+  isSaving: boolean;
+
+  fetchRecord: (patientId: string) => Promise<HealthRecord | null>;
+  saveRecord: (patientId: string, fields: HealthRecordFields) => Promise<HealthRecord>;
+  verifyRecord: (patientId: string, expectedUpdatedAt: string) => Promise<HealthRecord>;
+}
+
+export const useHealthRecordStore = create<HealthRecordState>()(
+  immer((set, get) => ({
+    records: {},
+    isSaving: false,
+
+    fetchRecord: async (patientId) => {
+      const { data, error } = await supabase
+        .from('patient_health_records')
+        .select('*')
+        .eq('patient_id', patientId)
+        .maybeSingle();
+
+      if (error) throw error;
+      const record = (data as HealthRecord) ?? null;
+      set((state) => {
+        state.records[patientId] = record;
+      });
+      return record;
+    },
+
+    saveRecord: async (patientId, fields) => {
+      set({ isSaving: true });
+      try {
+        // Not loaded yet: look the record up so the audit entry tells a create from an update
+        const cached = get().records[patientId];
+        const previous = cached !== undefined ? cached : await get().fetchRecord(patientId);
+
+        const { data, error } = await supabase.rpc('save_health_record', {
+          p_patient_id: patientId,
+          p_allergies: fields.allergies,
+          p_no_known_allergies: fields.no_known_allergies,
+          p_chronic_conditions: fields.chronic_conditions,
+          p_current_medications: fields.current_medications,
+          p_blood_type: fields.blood_type,
+          p_emergency_contact_name: fields.emergency_contact_name,
+          p_emergency_contact_relationship: fields.emergency_contact_relationship,
+          p_emergency_contact_phone: fields.emergency_contact_phone,
+        });
+
+        if (error) {
+          if (error.message?.includes('ALLERGIES_CONFLICT')) {
+            throw new Error('Remove the listed allergies or untick "No known allergies".');
+          }
+          if (error.message?.includes('INVALID_BLOOD_TYPE')) {
+            throw new Error('Please choose a blood type from the list.');
+          }
+          if (error.message?.includes('NOT_ALLOWED')) {
+            throw new Error('You can only edit your own health record.');
+          }
+          throw error;
+        }
+
+        const record = data as HealthRecord;
+        set((state) => {
+          state.records[patientId] = record;
+          state.isSaving = false;
+        });
+
+        // Field names only — the medical details themselves stay out of the audit log
+        const changedFields = RECORD_FIELDS.filter(
+          (key) => JSON.stringify(previous?.[key] ?? null) !== JSON.stringify(record[key] ?? null)
+        );
+        await logUserAction({
+          action: previous ? 'UPDATE' : 'CREATE',
+          resourceType: 'health_record',
+          resourceId: patientId,
+          details: { changed_fields: changedFields, was_verified: !!previous?.verified_at },
+        });
+
+        return record;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+
+    verifyRecord: async (patientId, expectedUpdatedAt) => {
+      set({ isSaving: true });
+      try {
+        const { data, error } = await supabase.rpc('verify_health_record', {
+          p_patient_id: patientId,
+          p_expected_updated_at: expectedUpdatedAt,
+        });
+
+        if (error) {
+          if (error.message?.includes('RECORD_CHANGED')) {
+            throw new Error('The patient updated their record after you opened it. Review the latest version before verifying.');
+          }
+          if (error.message?.includes('NOT_FOUND')) {
+            throw new Error('This patient has not filled in a health record yet.');
+          }
+          throw error;
+        }
+
+        const record = data as HealthRecord;
+        set((state) => {
+          state.records[patientId] = record;
+          state.isSaving = false;
+        });
+        await logUserAction({
+          action: 'UPDATE',
+          resourceType: 'health_record',
+          resourceId: patientId,
+          details: { verified: true },
+        });
+
+        return record;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+  }))
+);
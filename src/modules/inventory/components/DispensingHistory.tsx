@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Pill } from 'lucide-react';
+import { useInventoryStore } from '../store';
+import { DispensingEntryRow } from './DispensingPanel';
+import { formatDate } from '~/lib/utils';
+import type { DispensingEntry } from '~/types';
+
+interface DispensingHistoryProps {
+  patientId: string;
+}
+
+/** Everything dispensed to a patient, grouped by visit, newest first. */
+export function DispensingHistory({ patientId }: DispensingHistoryProps) {
+  const { fetchPatientDispensing } = useInventoryStore();
+  const [entries, setEntries] = useState<DispensingEntry[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    setEntries(null);
+    setLoadFailed(false);
+    fetchPatientDispensing(patientId)
+      .then(setEntries)
+      .catch((err) => {
+        console.error('Failed to load dispensing history:', err);
+        setLoadFailed(true);
+      });
+  }, [patientId, fetchPatientDispensing]);
+
+  const visits = useMemo(() => {
+    const byVisit = new Map<string, DispensingEntry[]>();
+    for (const entry of entries ?? []) {
+      byVisit.set(entry.appointment_id, [...(byVisit.get(entry.appointment_id) ?? []), entry]);
+    }
+    return [...byVisit.values()];
+  }, [entries]);
+
+  const header = (
+    <h2 className="text-lg font-semibold text-gray-900 mb-3 flex items-center gap-2">
+      <Pill className="w-5 h-5 text-maroon-800" />
+      Medicines Dispensed
+    </h2>
+  );
+
+  if (loadFailed) {
+    return <div>{header}<p className="text-sm text-gray-500">The dispensing history is unavailable right now.</p></div>;
+  }
+
+  if (!entries) {
+    return (
+      <div>
+        {header}
+        <div className="flex justify-center py-6">
+          <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <div>{header}<p className="text-sm text-gray-500">Nothing dispensed yet.</p></div>;
+  }
+
+  return (
+    <div>
+      {header}
+      <div className="space-y-3">
+        {visits.map((visitEntries) => {
+          const first = visitEntries[0];
+          return (
+            <div key={first.appointment_id}>
+              <p className="text-xs font-bold uppercase tracking-wider text-gray-500">
+                {formatDate(first.appointment?.appointment_date ?? first.dispensed_at)}
+                {first.appointment && (
+                  <span className="normal-case font-normal text-gray-400"> · {first.appointment.appointment_type.replace(/_/g, ' ')}</span>
+                )}
+              </p>
+              <ul className="divide-y divide-gray-100">
+                {[...visitEntries].reverse().map((entry) => (
+                  <DispensingEntryRow key={entry.id} entry={entry} />
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Check, Pill } from 'lucide-react';
+import { useInventoryStore } from '../store';
+import { dispenseSchema } from '~/lib/validation';
+import { dispensableLots } from '~/lib/inventory';
+import { formatDate } from '~/lib/utils';
+import type { DispensingEntry } from '~/types';
+
+interface DispensingPanelProps {
+  appointmentId: string;
+  campusId: string;
+  /** False shows what was given without the form, e.g. on cancelled visits */
+  canDispense?: boolean;
+  onDispensed?: (entry: DispensingEntry) => void;
+}
+
+export function DispensingEntryRow({ entry }: { entry: DispensingEntry }) {
+  return (
+    <li className="py-2 text-sm flex items-start justify-between gap-3">
+      <div className="min-w-0">
+        <p className="text-gray-900 font-medium">{entry.item_name}</p>
+        {entry.instructions && <p className="text-xs text-gray-600">{entry.instructions}</p>}
+        <p className="text-[11px] text-gray-400">
+          Lot {entry.lot_number} · {format(new Date(entry.dispensed_at), 'MMM d, h:mm a')}
+          {entry.dispensed_by_name && ` · ${entry.dispensed_by_name}`}
+        </p>
+      </div>
+      <span className="font-semibold text-gray-900 whitespace-nowrap">
+        {entry.quantity} {entry.unit}
+      </span>
+    </li>
+  );
+}
+
+/** Medicines and supplies given during one visit, and the form to give more from the campus's stock. */
+export function DispensingPanel({ appointmentId, campusId, canDispense = true, onDispensed }: DispensingPanelProps) {
+  const { items, lots, fetchInventory, fetchAppointmentDispensing, dispense } = useInventoryStore();
+  const [entries, setEntries] = useState<DispensingEntry[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [itemId, setItemId] = useState('');
+  const [lotId, setLotId] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [instructions, setInstructions] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    setEntries(null);
+    setLoadFailed(false);
+    fetchAppointmentDispensing(appointmentId)
+      .then(setEntries)
+      .catch((err) => {
+        console.error('Failed to load dispensing log:', err);
+        setLoadFailed(true);
+      });
+  }, [appointmentId, fetchAppointmentDispensing]);
+
+  useEffect(() => {
+    if (canDispense && campusId) fetchInventory(campusId);
+  }, [canDispense, campusId, fetchInventory]);
+
+  // Only items with unexpired stock can be picked
+  const stockedItems = useMemo(
+    () => items.filter((i) => i.campus_id === campusId && i.is_active && dispensableLots(lots, i.id, today).length > 0),
+    [items, lots, campusId, today]
+  );
+  const itemLots = useMemo(() => (itemId ? dispensableLots(lots, itemId, today) : []), [lots, itemId, today]);
+  const selectedItem = stockedItems.find((i) => i.id === itemId);
+
+  // Default to the lot that expires first
+  useEffect(() => {
+    if (!itemLots.some((l) => l.id === lotId)) setLotId(itemLots[0]?.id ?? '');
+  }, [itemLots, lotId]);
+
+  const handleDispense = async () => {
+    setError(null);
+    setSaved(false);
+    const result = dispenseSchema.safeParse({ lotId, quantity: Number(quantity), instructions });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Please check the quantity.');
+      return;
+    }
+    const lot = itemLots.find((l) => l.id === result.data.lotId);
+    if (lot && result.data.quantity > lot.quantity_on_hand) {
+      setError(`Only ${lot.quantity_on_hand} left in lot ${lot.lot_number}.`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const entry = await dispense(appointmentId, result.data.lotId, result.data.quantity, result.data.instructions || null);
+      setEntries((prev) => [...(prev ?? []), entry]);
+      setItemId('');
+      setQuantity('1');
+      setInstructions('');
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+      onDispensed?.(entry);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record the dispensing.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Medicines Dispensed</h4>
+        {loadFailed ? (
+          <p className="text-sm text-gray-500">The dispensing log is unavailable right now.</p>
+        ) : entries === null ? (
+          <div className="flex justify-center py-4">
+            <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing dispensed yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {entries.map((entry) => (
+              <DispensingEntryRow key={entry.id} entry={entry} />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {canDispense && (
+        <div className="space-y-3 pt-3 border-t border-gray-100">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Item</label>
+              <select value={itemId} onChange={(e) => setItemId(e.target.value)} className={`${inputClass} cursor-pointer`}>
+                <option value="">{stockedItems.length === 0 ? 'No items in stock' : 'Choose an item'}</option>
+                {stockedItems.map((item) => (
+                  <option key={item.id} value={item.id}>{item.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Lot</label>
+              <select value={lotId} onChange={(e) => setLotId(e.target.value)} disabled={!itemId} className={`${inputClass} cursor-pointer disabled:bg-gray-50`}>
+                {itemLots.map((lot) => (
+                  <option key={lot.id} value={lot.id}>
+                    {lot.lot_number} — {lot.quantity_on_hand} left{lot.expiry_date ? `, exp. ${formatDate(lot.expiry_date)}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">
+                Quantity {selectedItem && <span className="normal-case font-normal text-gray-400">({selectedItem.unit})</span>}
+              </label>
+              <input type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClass} />
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-xs font-bold uppercase tracking-wider text-gray-500 mb-1">Instructions</label>
+              <input
+                type="text"
+                value={instructions}
+                maxLength={500}
+                onChange={(e) => setInstructions(e.target.value)}
+                placeholder="e.g. 1 tablet every 4 hours as needed for fever"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <p>{error}</p>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleDispense}
+              disabled={isSaving || !lotId}
+              className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+            >
+              {isSaving ? (
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                <Pill className="w-4 h-4" />
+              )}
+              {isSaving ? 'Dispensing...' : 'Dispense'}
+            </button>
+            {saved && (
+              <span className="text-green-600 text-sm font-medium flex items-center gap-1">
+                <Check className="w-4 h-4" />
+                Recorded and taken off stock
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { useInventoryStore } from './store';
+export type { StockInFields } from './store';
+export { DispensingPanel } from './components/DispensingPanel';
+export { DispensingHistory } from './components/DispensingHistory';
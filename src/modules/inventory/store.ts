@@ -0,0 +1,262 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { DispensingEntry, InventoryItem, InventoryItemFields, InventoryLot, InventoryMovement } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+export interface StockInFields {
+  lot_number: string;
+  expiry_date: string | null;
+  quantity: number;
+  notes: string | null;
+}
+
+interface InventoryState {
+  items: InventoryItem[];
+  /** Lots with stock left; emptied lots stay in the movement history only */
+  lots: InventoryLot[];
+  isLoading: boolean;
+
+  fetchInventory: (campusId?: string) => Promise<void>;
+  fetchMovements: (itemId: string) => Promise<InventoryMovement[]>;
+  saveItem: (campusId: string, fields: InventoryItemFields, itemId?: string) => Promise<InventoryItem>;
+  receiveStock: (itemId: string, fields: StockInFields) => Promise<InventoryLot>;
+  recordStockOut: (lotId: string, quantity: number, reason: string) => Promise<InventoryLot>;
+  fetchAppointmentDispensing: (appointmentId: string) => Promise<DispensingEntry[]>;
+  fetchPatientDispensing: (patientId: string) => Promise<DispensingEntry[]>;
+  dispense: (appointmentId: string, lotId: string, quantity: number, instructions: string | null) => Promise<DispensingEntry>;
+}
+
+// Enough history for one item without paging
+const MOVEMENT_LIMIT = 200;
+
+const NOT_ALLOWED_MESSAGE = 'You can only manage inventory for your own campus.';
+
+// Newest first; enough for a patient's record without paging
+const PATIENT_DISPENSING_LIMIT = 100;
+
+export const useInventoryStore = create<InventoryState>()(
+  immer((set) => ({
+    items: [],
+    lots: [],
+    isLoading: false,
+
+    // RLS already limits nurses to their campus; the filter is for supervisors picking one
+    fetchInventory: async (campusId) => {
+      set({ isLoading: true });
+      try {
+        let itemsQuery = supabase.from('inventory_items').select('*').order('name');
+        let lotsQuery = supabase.from('inventory_lots').select('*').gt('quantity_on_hand', 0);
+        if (campusId) {
+          itemsQuery = itemsQuery.eq('campus_id', campusId);
+          lotsQuery = lotsQuery.eq('campus_id', campusId);
+        }
+
+        const [itemsResult, lotsResult] = await Promise.all([itemsQuery, lotsQuery]);
+        if (itemsResult.error) throw itemsResult.error;
+        if (lotsResult.error) throw lotsResult.error;
+
+        set({
+          items: (itemsResult.data as InventoryItem[]) || [],
+          lots: (lotsResult.data as InventoryLot[]) || [],
+        });
+      } catch (error) {
+        console.error('Error fetching inventory:', error);
+      } finally {
+        set({ isLoading: false });
+      }
+    },
+
+    fetchMovements: async (itemId) => {
+      const { data, error } = await supabase
+        .from('inventory_movements')
+        .select('*, lot:inventory_lots(lot_number, expiry_date)')
+        .eq('item_id', itemId)
+        .order('created_at', { ascending: false })
+        .limit(MOVEMENT_LIMIT);
+
+      if (error) throw error;
+      return (data as InventoryMovement[]) || [];
+    },
+
+    saveItem: async (campusId, fields, itemId) => {
+      const { data, error } = await supabase.rpc('save_inventory_item', {
+        p_item_id: itemId ?? null,
+        p_campus_id: campusId,
+        p_name: fields.name,
+        p_category: fields.category,
+        p_unit: fields.unit,
+        p_reorder_level: fields.reorder_level,
+        p_notes: fields.notes,
+        p_is_active: fields.is_active,
+      });
+
+      if (error) {
+        if (error.message?.includes('DUPLICATE_ITEM')) {
+          throw new Error(`${fields.name.trim()} is already in this campus's inventory.`);
+        }
+        if (error.message?.includes('NAME_REQUIRED')) {
+          throw new Error('Please enter the item name.');
+        }
+        if (error.message?.includes('INVALID_REORDER_LEVEL')) {
+          throw new Error('Reorder level must be between 0 and 100000.');
+        }
+        if (error.message?.includes('NOT_ALLOWED')) {
+          throw new Error(NOT_ALLOWED_MESSAGE);
+        }
+        throw error;
+      }
+
+      const item = data as InventoryItem;
+      set((state) => {
+        const index = state.items.findIndex((i) => i.id === item.id);
+        if (index !== -1) state.items[index] = item;
+        else state.items.push(item);
+        state.items.sort((a, b) => a.name.localeCompare(b.name));
+      });
+
+      // Stock changes are recorded in inventory_movements; only item edits go to the audit log
+      await logUserAction({
+        action: itemId ? 'UPDATE' : 'CREATE',
+        resourceType: 'inventory_item',
+        resourceId: item.id,
+        campusId: item.campus_id,
+        details: { name: item.name, reorder_level: item.reorder_level, is_active: item.is_active },
+      });
+
+      return item;
+    },
+
+    receiveStock: async (itemId, fields) => {
+      const { data, error } = await supabase.rpc('receive_inventory_stock', {
+        p_item_id: itemId,
+        p_lot_number: fields.lot_number,
+        p_expiry_date: fields.expiry_date,
+        p_quantity: fields.quantity,
+        p_notes: fields.notes,
+      });
+
+      if (error) {
+        if (error.message?.includes('ALREADY_EXPIRED')) {
+          throw new Error('This lot has already expired and cannot be received.');
+        }
+        if (error.message?.includes('LOT_REQUIRED')) {
+          throw new Error('Please enter the lot or batch number.');
+        }
+        if (error.message?.includes('INVALID_QUANTITY')) {
+          throw new Error('Quantity must be between 1 and 100000.');
+        }
+        if (error.message?.includes('NOT_ALLOWED')) {
+          throw new Error(NOT_ALLOWED_MESSAGE);
+        }
+        throw error;
+      }
+
+      const lot = data as InventoryLot;
+      set((state) => {
+        const index = state.lots.findIndex((l) => l.id === lot.id);
+        if (index !== -1) state.lots[index] = lot;
+        else state.lots.push(lot);
+      });
+      return lot;
+    },
+
+    recordStockOut: async (lotId, quantity, reason) => {
+      const { data, error } = await supabase.rpc('record_inventory_stock_out', {
+        p_lot_id: lotId,
+        p_quantity: quantity,
+        p_reason: reason,
+      });
+
+      if (error) {
+        if (error.message?.includes('INSUFFICIENT_STOCK')) {
+          throw new Error('Not enough stock left in this lot. Refresh to see the current balance.');
+        }
+        if (error.message?.includes('REASON_REQUIRED')) {
+          throw new Error('Please give a reason for removing stock.');
+        }
+        if (error.message?.includes('INVALID_QUANTITY')) {
+          throw new Error('Quantity must be at least 1.');
+        }
+        if (error.message?.includes('NOT_ALLOWED')) {
+          throw new Error(NOT_ALLOWED_MESSAGE);
+        }
+        throw error;
+      }
+
+      const lot = data as InventoryLot;
+      set((state) => {
+        state.lots = lot.quantity_on_hand > 0
+          ? state.lots.map((l) => (l.id === lot.id ? lot : l))
+          : state.lots.filter((l) => l.id !== lot.id);
+      });
+      return lot;
+    },
+
+    fetchAppointmentDispensing: async (appointmentId) => {
+      const { data, error } = await supabase
+        .from('dispensing_entries')
+        .select('*')
+        .eq('appointment_id', appointmentId)
+        .order('dispensed_at');
+
+      if (error) throw error;
+      return (data as DispensingEntry[]) || [];
+    },
+
+    fetchPatientDispensing: async (patientId) => {
+      const { data, error } = await supabase
+        .from('dispensing_entries')
+        .select('*, appointment:appointments(appointment_date, appointment_type)')
+        .eq('patient_id', patientId)
+        .order('dispensed_at', { ascending: false })
+        .limit(PATIENT_DISPENSING_LIMIT);
+
+      if (error) throw error;
+      return (data as DispensingEntry[]) || [];
+    },
+
+    // The stock decrement and the movement row are written by dispense_inventory_item()
+    dispense: async (appointmentId, lotId, quantity, instructions) => {
+      const { data, error } = await supabase.rpc('dispense_inventory_item', {
+        p_appointment_id: appointmentId,
+        p_lot_id: lotId,
+        p_quantity: quantity,
+        p_instructions: instructions,
+      });
+
+      if (error) {
+        if (error.message?.includes('INSUFFICIENT_STOCK')) {
+          throw new Error('Not enough stock left in this lot. Refresh to see the current balance.');
+        }
+        if (error.message?.includes('LOT_EXPIRED')) {
+          throw new Error('This lot has expired and cannot be dispensed.');
+        }
+        if (error.message?.includes('ITEM_RETIRED')) {
+          throw new Error('This item has been retired and can no longer be dispensed.');
+        }
+        if (error.message?.includes('APPOINTMENT_CLOSED')) {
+          throw new Error('Nothing can be dispensed for a cancelled or no-show appointment.');
+        }
+        if (error.message?.includes('WRONG_CAMPUS')) {
+          throw new Error("Dispense from the appointment's own campus stock.");
+        }
+        if (error.message?.includes('INVALID_QUANTITY')) {
+          throw new Error('Quantity must be between 1 and 100000.');
+        }
+        if (error.message?.includes('NOT_ALLOWED')) {
+          throw new Error(NOT_ALLOWED_MESSAGE);
+        }
+        throw error;
+      }
+
+      const entry = data as DispensingEntry;
+      set((state) => {
+        const lot = state.lots.find((l) => l.id === lotId);
+        if (lot) lot.quantity_on_hand -= entry.quantity;
+        state.lots = state.lots.filter((l) => l.quantity_on_hand > 0);
+      });
+      return entry;
+    },
+  }))
+);
@@ -0,0 +1,117 @@
+import { formatDate } from '~/lib/utils';
+import { urgencyLabel } from '~/lib/referrals';
+import type { Referral } from '~/types';
+
+interface ReferralDocumentProps {
+  referral: Referral;
+}
+
+const ROLE_TITLES: Record<string, string> = {
+  nurse: 'Referring Nurse',
+  supervisor: 'Supervising Nurse',
+};
+
+/** The referral letter the patient carries to the facility, with a return slip to bring back. */
+export function ReferralDocument({ referral }: ReferralDocumentProps) {
+  return (
+    <div className="relative bg-white w-full max-w-[210mm] mx-auto p-10 sm:p-14 text-gray-900 font-serif overflow-hidden print:p-0 print:max-w-none">
+      <header className="flex items-center gap-4 border-b-4 border-double border-maroon-800 pb-4">
+        <img src="/ldcu-logo.png" alt="LDCU Logo" className="w-20 h-20 object-contain flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-lg font-bold text-maroon-800 uppercase tracking-wide">Liceo de Cagayan University</p>
+          <p className="text-sm font-semibold">University Clinic{referral.campus_name ? ` · ${referral.campus_name}` : ''}</p>
+          {referral.campus_address && <p className="text-xs text-gray-600">{referral.campus_address}</p>}
+        </div>
+      </header>
+
+      <div className="flex justify-between items-baseline mt-4 text-xs font-sans">
+        <span>
+          Referral No. <span className="font-mono font-bold">{referral.referral_number}</span>
+        </span>
+        <span>Date: {formatDate(referral.referred_at)}</span>
+      </div>
+
+      <div className="flex items-center justify-center gap-4 mt-8 mb-8">
+        <h1 className="text-2xl font-bold uppercase tracking-[0.3em]">Referral Slip</h1>
+        {referral.urgency !== 'routine' && (
+          <span className="px-3 py-1 border-2 border-red-700 text-red-700 text-sm font-sans font-bold uppercase tracking-wider">
+            {urgencyLabel(referral.urgency)}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-5 text-[15px] leading-relaxed">
+        <div>
+          <p>
+            To: <span className="font-bold">{referral.referred_to || 'The Attending Physician'}</span>
+          </p>
+          <p className="pl-7">{referral.facility_name}</p>
+        </div>
+
+        <p className="indent-10">
+          Respectfully referring <span className="font-bold uppercase underline underline-offset-4">{referral.patient_name}</span>
+          {referral.patient_age != null && <>, {referral.patient_age} years old</>}
+          {referral.patient_sex && <>, {referral.patient_sex}</>}
+          {referral.patient_id_number && <>, ID No. {referral.patient_id_number}</>}
+          , who was seen at this clinic on <span className="font-semibold">{formatDate(referral.visit_date)}</span>, for your
+          evaluation and management.
+        </p>
+
+        <div>
+          <p className="font-semibold">Reason for referral:</p>
+          <p className="whitespace-pre-wrap">{referral.reason}</p>
+        </div>
+
+        <div>
+          <p className="font-semibold">Findings:</p>
+          <div className="border-l-4 border-maroon-200 pl-4 whitespace-pre-wrap">{referral.findings}</div>
+        </div>
+
+        <p className="indent-10">Thank you for accommodating our patient.</p>
+      </div>
+
+      <div className="mt-14 flex justify-end">
+        <div className="w-72 text-center">
+          <div className="border-b border-gray-900 h-10" />
+          <p className="mt-1 font-bold uppercase">{referral.referred_by_name}</p>
+          <p className="text-sm">{ROLE_TITLES[referral.referred_by_role] ?? 'Clinic Staff'}</p>
+        </div>
+      </div>
+
+      <section className="mt-12 pt-4 border-t-2 border-dashed border-gray-400 font-sans text-sm break-inside-avoid">
+        <p className="text-xs font-bold uppercase tracking-wider text-gray-600">
+          Return slip — please fill in and have the patient bring this back to the clinic
+        </p>
+        <p className="mt-2 text-xs">
+          Re: {referral.patient_name} · Referral No. <span className="font-mono">{referral.referral_number}</span>
+        </p>
+        {referral.return_notes ? (
+          <div className="mt-3">
+            <p className="whitespace-pre-wrap">{referral.return_notes}</p>
+            <p className="mt-1 text-xs text-gray-500">
+              Received {referral.returned_at && formatDate(referral.returned_at)}
+              {referral.returned_by_name && ` by ${referral.returned_by_name}`}
+            </p>
+          </div>
+        ) : (
+          <div className="mt-3 space-y-5">
+            <div>
+              <p className="text-xs text-gray-600">Impression / findings:</p>
+              <div className="border-b border-gray-400 h-6" />
+              <div className="border-b border-gray-400 h-6" />
+            </div>
+            <div>
+              <p className="text-xs text-gray-600">Recommendations:</p>
+              <div className="border-b border-gray-400 h-6" />
+              <div className="border-b border-gray-400 h-6" />
+            </div>
+            <div className="flex justify-between gap-6 pt-4 text-xs text-gray-600">
+              <span className="flex-1 border-t border-gray-900 pt-1 text-center">Physician's signature over printed name</span>
+              <span className="w-40 border-t border-gray-900 pt-1 text-center">Date</span>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
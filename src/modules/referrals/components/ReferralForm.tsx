@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Printer, Send } from 'lucide-react';
+import { useReferralStore } from '../store';
+import { referralSchema } from '~/lib/validation';
+import { REFERRAL_URGENCIES, URGENCY_BADGES, urgencyLabel } from '~/lib/referrals';
+import { formatDate } from '~/lib/utils';
+import type { Referral, ReferralUrgency } from '~/types';
+
+interface ReferralFormProps {
+  appointmentId: string;
+  onCreated?: (referral: Referral) => void;
+}
+
+const STATUS_LABELS: Record<Referral['status'], string> = {
+  open: 'Awaiting follow-up',
+  returned: 'Returned',
+  closed: 'Closed',
+};
+
+export const openReferralPrint = (referralId: string) => {
+  window.open(`/referrals/${referralId}/print`, '_blank', 'noopener');
+};
+
+/** Refer the patient of a completed appointment, and reprint the referrals already written for it. */
+export function ReferralForm({ appointmentId, onCreated }: ReferralFormProps) {
+  const { fetchAppointmentReferrals, createReferral } = useReferralStore();
+  const [history, setHistory] = useState<Referral[]>([]);
+  const [facilityName, setFacilityName] = useState('');
+  const [referredTo, setReferredTo] = useState('');
+  const [reason, setReason] = useState('');
+  const [urgency, setUrgency] = useState<ReferralUrgency>('routine');
+  const [findings, setFindings] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    fetchAppointmentReferrals(appointmentId)
+      .then(setHistory)
+      .catch((err) => {
+        console.error('Failed to load referrals:', err);
+        setError('Failed to load referrals for this appointment.');
+      })
+      .finally(() => setIsLoading(false));
+  }, [appointmentId, fetchAppointmentReferrals]);
+
+  const handleCreate = async () => {
+    const result = referralSchema.safeParse({ facilityName, referredTo, reason, urgency, findings });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Please check the referral details.');
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const referral = await createReferral(appointmentId, {
+        facility_name: result.data.facilityName,
+        referred_to: result.data.referredTo || null,
+        reason: result.data.reason,
+        urgency: result.data.urgency,
+        findings: result.data.findings,
+      });
+      setHistory((prev) => [referral, ...prev]);
+      setFacilityName('');
+      setReferredTo('');
+      setReason('');
+      setUrgency('routine');
+      setFindings('');
+      openReferralPrint(referral.id);
+      onCreated?.(referral);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the referral.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="w-6 h-6 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {history.length > 0 && (
+        <div className="pb-3 border-b border-gray-100">
+          <p className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">Referrals from this visit</p>
+          <ul className="space-y-2">
+            {history.map((r) => (
+              <li key={r.id} className="flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-gray-900 truncate">
+                    <span className="font-mono font-semibold text-maroon-800">{r.referral_number}</span> · {r.facility_name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {STATUS_LABELS[r.status]} · by {r.referred_by_name} on {formatDate(r.referred_at)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => openReferralPrint(r.id)}
+                  className="p-2 text-gray-500 hover:text-maroon-800 hover:bg-maroon-50 rounded-lg flex-shrink-0"
+                  title="Print referral"
+                >
+                  <Printer className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Facility *</label>
+          <input
+            type="text"
+            value={facilityName}
+            onChange={(e) => setFacilityName(e.target.value)}
+            maxLength={200}
+            placeholder="e.g. Northern Mindanao Medical Center"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Referred To</label>
+          <input
+            type="text"
+            value={referredTo}
+            onChange={(e) => setReferredTo(e.target.value)}
+            maxLength={200}
+            placeholder="Specialist or department, if known"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Urgency</label>
+        <div className="flex gap-2">
+          {REFERRAL_URGENCIES.map((u) => (
+            <button
+              key={u.value}
+              type="button"
+              onClick={() => setUrgency(u.value)}
+              className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${urgency === u.value ? URGENCY_BADGES[u.value] + ' font-semibold' : 'bg-white text-gray-600 border-gray-300 hover:border-maroon-500'}`}
+            >
+              {u.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Reason for Referral *</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          maxLength={1000}
+          placeholder="e.g. For further evaluation of persistent chest pain"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm resize-none"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Findings *</label>
+        <textarea
+          value={findings}
+          onChange={(e) => setFindings(e.target.value)}
+          rows={4}
+          maxLength={2000}
+          placeholder="History, vital signs, examination findings and first aid given"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 outline-none text-sm resize-none"
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        The letter is signed in your name and opens for printing. It stays on the Referrals page as{' '}
+        <span className={`px-1.5 py-px rounded border ${URGENCY_BADGES[urgency]}`}>{urgencyLabel(urgency)}</span> until it is marked returned or closed.
+      </p>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleCreate}
+        disabled={isCreating}
+        className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+      >
+        {isCreating ? (
+          <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+        ) : (
+          <Send className="w-4 h-4" />
+        )}
+        Create Referral
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { useReferralStore } from './store';
+export { ReferralForm, openReferralPrint } from './components/ReferralForm';
+export { ReferralDocument } from './components/ReferralDocument';
@@ -0,0 +1,155 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { Referral, ReferralFields } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+interface ReferralState {
+  referrals: Referral[];
+  isLoading: boolean;
+
+  fetchReferrals: () => Promise<void>;
+  fetchReferral: (referralId: string) => Promise<Referral | null>;
+  fetchAppointmentReferrals: (appointmentId: string) => Promise<Referral[]>;
+  createReferral: (appointmentId: string, fields: ReferralFields) => Promise<Referral>;
+  updateReferralStatus: (referralId: string, status: 'returned' | 'closed', notes: string) => Promise<Referral>;
+}
+
+// Newest first; enough for the referrals list without paging
+const LIST_LIMIT = 300;
+
+export const useReferralStore = create<ReferralState>()(
+  immer((set) => ({
+    referrals: [],
+    isLoading: false,
+
+    fetchReferrals: async () => {
+      set({ isLoading: true });
+      try {
+        const { data, error } = await supabase
+          .from('referrals')
+          .select('*')
+          .order('referred_at', { ascending: false })
+          .limit(LIST_LIMIT);
+
+        if (error) throw error;
+        set({ referrals: (data as Referral[]) || [] });
+      } catch (error) {
+        console.error('Error fetching referrals:', error);
+      } finally {
+        set({ isLoading: false });
+      }
+    },
+
+    fetchReferral: async (referralId) => {
+      const { data, error } = await supabase
+        .from('referrals')
+        .select('*')
+        .eq('id', referralId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as Referral) ?? null;
+    },
+
+    fetchAppointmentReferrals: async (appointmentId) => {
+      const { data, error } = await supabase
+        .from('referrals')
+        .select('*')
+        .eq('appointment_id', appointmentId)
+        .order('referred_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as Referral[]) || [];
+    },
+
+    createReferral: async (appointmentId, fields) => {
+      const { data, error } = await supabase.rpc('create_referral', {
+        p_appointment_id: appointmentId,
+        p_facility_name: fields.facility_name,
+        p_referred_to: fields.referred_to,
+        p_reason: fields.reason,
+        p_urgency: fields.urgency,
+        p_findings: fields.findings,
+      });
+
+      if (error) {
+        if (error.message?.includes('NOT_COMPLETED')) {
+          throw new Error('Referrals can only be written for completed appointments.');
+        }
+        if (error.message?.includes('FACILITY_REQUIRED')) {
+          throw new Error('Please enter the facility the patient is referred to.');
+        }
+        if (error.message?.includes('REASON_REQUIRED')) {
+          throw new Error('Please enter the reason for referral.');
+        }
+        if (error.message?.includes('FINDINGS_REQUIRED')) {
+          throw new Error('Please enter the findings.');
+        }
+        if (error.message?.includes('WRONG_CAMPUS')) {
+          throw new Error('You can only refer patients seen at your own campus.');
+        }
+        if (error.message?.includes('NOT_ALLOWED')) {
+          throw new Error('Only nurses and supervisors can write referrals.');
+        }
+        throw error;
+      }
+
+      const referral = data as Referral;
+      set((state) => {
+        state.referrals.unshift(referral);
+      });
+
+      // Findings stay out of the audit log; the number is enough to find the referral
+      await logUserAction({
+        action: 'CREATE',
+        resourceType: 'referral',
+        resourceId: referral.id,
+        campusId: referral.campus_id ?? undefined,
+        details: { referral_number: referral.referral_number, facility: referral.facility_name, urgency: referral.urgency },
+      });
+
+      return referral;
+    },
+
+    updateReferralStatus: async (referralId, status, notes) => {
+      const { data, error } = await supabase.rpc('update_referral_status', {
+        p_referral_id: referralId,
+        p_status: status,
+        p_notes: notes,
+      });
+
+      if (error) {
+        if (error.message?.includes('NOTES_REQUIRED')) {
+          throw new Error('Please add a follow-up note.');
+        }
+        if (error.message?.includes('WRONG_CAMPUS')) {
+          throw new Error('You can only update referrals for your own campus.');
+        }
+        if (error.message?.includes('ALREADY_CLOSED')) {
+          throw new Error('This referral is already closed.');
+        }
+        if (error.message?.includes('ALREADY_RETURNED')) {
+          throw new Error('This referral has already been marked returned.');
+        }
+        throw error;
+      }
+
+      const referral = data as Referral;
+      set((state) => {
+        const index = state.referrals.findIndex((r) => r.id === referralId);
+        if (index !== -1) state.referrals[index] = referral;
+      });
+
+      await logUserAction({
+        action: 'UPDATE',
+        resourceType: 'referral',
+        resourceId: referral.id,
+        campusId: referral.campus_id ?? undefined,
+        details: { referral_number: referral.referral_number, new_status: status },
+      });
+
+      return referral;
+    },
+  }))
+);
@@ -0,0 +1 @@
+export { useRescheduleRequestStore } from './store';
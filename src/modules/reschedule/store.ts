@@ -0,0 +1,245 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { RescheduleRequest, RescheduleRequestStatus } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+const REQUEST_SELECT =
+  '*, appointment:appointments(id, patient_name, patient_email, appointment_type, appointment_date, time_of_day, start_time, status)';
+
+interface RescheduleRequestState {
+  myRequests: RescheduleRequest[];
+  requests: RescheduleRequest[];
+  isLoading: boolean;
+  isSaving: boolean;
+
+  fetchMyRequests: (patientId: string) => Promise<void>;
+  fetchRequests: (filters?: { campusId?: string; status?: RescheduleRequestStatus }) => Promise<void>;
+  requestReschedule: (data: {
+    appointmentId: string;
+    requestedDate: string;
+    timeOfDay: 'AM' | 'PM';
+    startTime?: string | null;
+    reason?: string;
+  }) => Promise<RescheduleRequest>;
+  withdrawRequest: (id: string) => Promise<void>;
+  approveRequest: (id: string) => Promise<RescheduleRequest>;
+  rejectRequest: (id: string, reason: string) => Promise<RescheduleRequest>;
+}
+
+/** Replace a request in both lists with the row the server returned. */
+function mergeRequest(list: RescheduleRequest[], updated: RescheduleRequest) {
+  const index = list.findIndex((r) => r.id === updated.id);
+  if (index !== -1) list[index] = { ...list[index], ...updated };
+}
+
+export const useRescheduleRequestStore = create<RescheduleRequestState>()(
+  immer((set, get) => ({
+    myRequests: [],
+    requests: [],
+    isLoading: false,
+    isSaving: false,
+
+    fetchMyRequests: async (patientId) => {
+      try {
+        const { data, error } = await supabase
+          .from('reschedule_requests')
+          .select('*')
+          .eq('patient_id', patientId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        set({ myRequests: data || [] });
+      } catch (error) {
+        console.error('Error fetching reschedule requests:', error);
+      }
+    },
+
+    fetchRequests: async (filters) => {
+      set({ isLoading: true });
+      try {
+        let query = supabase
+          .from('reschedule_requests')
+          .select(REQUEST_SELECT)
+          .order('created_at', { ascending: filters?.status === 'pending' });
+
+        if (filters?.campusId) query = query.eq('campus_id', filters.campusId);
+        if (filters?.status) query = query.eq('status', filters.status);
+
+        const { data, error } = await query.limit(200);
+        if (error) throw error;
+        set({ requests: (data as RescheduleRequest[]) || [], isLoading: false });
+      } catch (error) {
+        console.error('Error fetching reschedule requests:', error);
+        set({ isLoading: false });
+      }
+    },
+
+    requestReschedule: async ({ appointmentId, requestedDate, timeOfDay, startTime, reason }) => {
+      set({ isSaving: true });
+      try {
+        const { data, error } = await supabase.rpc('request_reschedule', {
+          p_appointment_id: appointmentId,
+          p_requested_date: requestedDate,
+          p_time_of_day: timeOfDay,
+          p_start_time: startTime ?? null,
+          p_reason: reason?.replace(/[<>]/g, '').trim() || null,
+        });
+
+        if (error) {
+          if (error.message?.includes('RESCHEDULE_PENDING')) {
+            throw new Error('You already have a pending request for this appointment. Withdraw it first to ask for a different date.');
+          }
+          if (error.message?.includes('RESCHEDULE_SAME')) {
+            throw new Error('Your appointment is already on that date and time.');
+          }
+          if (error.message?.includes('RESCHEDULE_PAST')) {
+            throw new Error('You cannot move an appointment to a past date.');
+          }
+          if (error.message?.includes('RESCHEDULE_CLOSED')) {
+            throw new Error('The clinic is closed on that date. Please pick another day.');
+          }
+          if (error.message?.includes('NOT_RESCHEDULABLE')) {
+            throw new Error('Only upcoming scheduled appointments can be moved.');
+          }
+          if (error.message?.includes('INVALID_SLOT')) {
+            throw new Error('Please choose a time slot for the new date.');
+          }
+          throw error;
+        }
+
+        const request = data as RescheduleRequest;
+
+        await logUserAction({
+          action: 'CREATE',
+          resourceType: 'reschedule_request',
+          resourceId: request.id,
+          campusId: request.campus_id,
+          details: {
+            appointment_id: request.appointment_id,
+            from_date: request.from_date,
+            requested_date: request.requested_date,
+            requested_time_of_day: request.requested_time_of_day,
+          },
+        });
+
+        set((state) => {
+          state.myRequests.unshift(request);
+          state.isSaving = false;
+        });
+
+        return request;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+
+    withdrawRequest: async (id) => {
+      const { error } = await supabase.rpc('withdraw_reschedule_request', { p_request_id: id });
+      if (error) {
+        if (error.message?.includes('NOT_FOUND')) {
+          throw new Error('This request has already been reviewed.');
+        }
+        throw error;
+      }
+
+      set((state) => {
+        const request = state.myRequests.find((r) => r.id === id);
+        if (request) request.status = 'withdrawn';
+      });
+    },
+
+    approveRequest: async (id) => {
+      set({ isSaving: true });
+      try {
+        // The move itself runs through reschedule_appointment() on the server
+        const { data, error } = await supabase.rpc('approve_reschedule_request', { p_request_id: id });
+
+        if (error) {
+          if (error.message?.includes('NOT_FOUND')) {
+            throw new Error('This request was already reviewed or withdrawn.');
+          }
+          if (error.message?.includes('WRONG_CAMPUS')) {
+            throw new Error('You can only review requests for your own campus.');
+          }
+          if (error.message?.includes('RESCHEDULE_PAST')) {
+            throw new Error('The requested date has already passed. Reject the request instead.');
+          }
+          if (error.message?.includes('FULLY_BOOKED') || error.message?.includes('INVALID_SLOT')) {
+            throw new Error(`${error.message.replace(/^.*?[A-Z_]+:\s*/, '')} Reject the request or free up a slot first.`);
+          }
+          throw error;
+        }
+
+        const approved = data as RescheduleRequest;
+
+        await logUserAction({
+          action: 'UPDATE',
+          resourceType: 'reschedule_request',
+          resourceId: id,
+          campusId: approved.campus_id,
+          details: {
+            status: 'approved',
+            appointment_id: approved.appointment_id,
+            from_date: approved.from_date,
+            requested_date: approved.requested_date,
+          },
+        });
+
+        set((state) => {
+          mergeRequest(state.requests, approved);
+          state.isSaving = false;
+        });
+
+        return get().requests.find((r) => r.id === id) ?? approved;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+
+    rejectRequest: async (id, reason) => {
+      set({ isSaving: true });
+      try {
+        const { data, error } = await supabase.rpc('reject_reschedule_request', {
+          p_request_id: id,
+          p_reason: reason.replace(/[<>]/g, '').trim(),
+        });
+
+        if (error) {
+          if (error.message?.includes('REASON_REQUIRED')) {
+            throw new Error('Please give the patient a reason.');
+          }
+          if (error.message?.includes('NOT_FOUND')) {
+            throw new Error('This request was already reviewed or withdrawn.');
+          }
+          if (error.message?.includes('WRONG_CAMPUS')) {
+            throw new Error('You can only review requests for your own campus.');
+          }
+          throw error;
+        }
+
+        const rejected = data as RescheduleRequest;
+
+        await logUserAction({
+          action: 'UPDATE',
+          resourceType: 'reschedule_request',
+          resourceId: id,
+          campusId: rejected.campus_id,
+          details: { status: 'rejected', appointment_id: rejected.appointment_id, reason: rejected.rejection_reason },
+        });
+
+        set((state) => {
+          mergeRequest(state.requests, rejected);
+          state.isSaving = false;
+        });
+
+        return get().requests.find((r) => r.id === id) ?? rejected;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+  }))
+);
@@ -6,29 +6,39 @@ interface TimeSlotProps {
     startTime: string;
     endTime: string;
     isAvailable: boolean;
+    capacity?: number;
+    booked?: number;
   };
+  isSelected?: boolean;
   onSelect?: () => void;
 }
 
-export function TimeSlot({ slot, onSelect }: TimeSlotProps) {
+export function TimeSlot({ slot, isSelected, onSelect }: TimeSlotProps) {
+  const remaining = slot.capacity !== undefined ? Math.max(0, slot.capacity - (slot.booked ?? 0)) : null;
+
   return (
     <button
+      type="button"
       disabled={!slot.isAvailable}
       onClick={onSelect}
       className={`rounded-lg border p-3 text-left transition-all duration-300 ${
-        slot.isAvailable
-          ? 'border-gray-300 bg-white hover:border-maroon-500 hover:bg-maroon-50 hover:scale-105 hover:shadow-md'
+        isSelected
+          ? 'border-maroon-800 bg-maroon-800 text-white shadow-md'
+          : slot.isAvailable
+          ? 'border-gray-300 bg-white hover:border-maroon-500 hover:bg-maroon-50 hover:shadow-md'
           : 'border-gray-200 bg-gray-100 cursor-not-allowed opacity-60'
       }`}
     >
-      <div className="flex items-center justify-between">
-        <span className="font-medium">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-sm">
           {formatTime(slot.startTime)} - {formatTime(slot.endTime)}
         </span>
         {slot.isAvailable ? (
-          <span className="text-sm text-green-600 font-medium">Available</span>
+          <span className={`text-xs font-medium ${isSelected ? 'text-maroon-100' : 'text-green-600'}`}>
+            {remaining !== null ? `${remaining} left` : 'Available'}
+          </span>
         ) : (
-          <span className="text-sm text-gray-500">Booked</span>
+          <span className="text-xs text-gray-500">Full</span>
         )}
       </div>
     </button>
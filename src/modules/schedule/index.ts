@@ -1,3 +1,4 @@
 export { useScheduleStore } from './store';
+export type { TimeSlot as TimeSlotInfo } from './store';
 export { CalendarView } from './components/CalendarView';
 export { TimeSlot } from './components/TimeSlot';
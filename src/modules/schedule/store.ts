@@ -1,14 +1,19 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { persist } from 'zustand/middleware';
-import type { ScheduleSetting, Campus, BookingSetting, Department, EmailTemplate, ScheduleConfig } from '~/types';
+import type { ScheduleSetting, Campus, BookingSetting, BookingMode, Department, EmailTemplate, ScheduleConfig, WeeklyLimit, TypeCapacity, NoShowPolicy, AppointmentTypeConfig } from '~/types';
 import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+import { formatLocalDate, generateSlotTimes } from '~/lib/utils';
+import { defaultAppointmentTypes } from '~/lib/appointmentTypes';
 
-interface TimeSlot {
+export interface TimeSlot {
   date: string;
   startTime: string;
   endTime: string;
   isAvailable: boolean;
+  capacity: number;
+  booked: number;
 }
 
 interface ScheduleState {
@@ -20,6 +25,10 @@ interface ScheduleState {
   scheduleConfig: ScheduleConfig | null;
   selectedCampusId: string | null;
   timeSlots: TimeSlot[];
+  weeklyLimits: WeeklyLimit[];
+  /** Appointment type catalog of the campus last passed to fetchAppointmentTypes */
+  appointmentTypes: AppointmentTypeConfig[];
+  noShowPolicy: NoShowPolicy | null;
   dayOverrides: Record<string, import('~/types').DayOverride>;
   selectedDate: Date | null;
   weekOffset: number;
@@ -29,7 +38,19 @@ interface ScheduleState {
   fetchCampuses: () => Promise<void>;
   fetchDepartments: (campusId?: string) => Promise<void>;
   fetchBookingSetting: (campusId: string) => Promise<void>;
+  fetchCancellationCutoff: (campusId: string) => Promise<number>;
   updateBookingSetting: (campusId: string, maxPerDay: number) => Promise<void>;
+  updateCancellationCutoff: (campusId: string, hours: number) => Promise<void>;
+  updateBookingMode: (campusId: string, mode: BookingMode) => Promise<void>;
+  updateTypeCapacity: (campusId: string, capacity: TypeCapacity) => Promise<void>;
+  upsertScheduleSetting: (setting: Omit<ScheduleSetting, 'id'>) => Promise<void>;
+  fetchWeeklyLimits: () => Promise<void>;
+  upsertWeeklyLimit: (limit: Omit<WeeklyLimit, 'id'>) => Promise<void>;
+  deleteWeeklyLimit: (id: string) => Promise<void>;
+  fetchAppointmentTypes: (campusId: string) => Promise<void>;
+  updateAppointmentType: (id: string, patch: Partial<Pick<AppointmentTypeConfig, 'label' | 'color' | 'duration_minutes' | 'enabled' | 'allowed_booker_roles' | 'sort_order'>>) => Promise<void>;
+  fetchNoShowPolicy: () => Promise<void>;
+  updateNoShowPolicy: (policy: Omit<NoShowPolicy, 'updated_at'>) => Promise<void>;
   fetchEmailTemplates: (campusId: string) => Promise<void>;
   upsertEmailTemplate: (template: Partial<EmailTemplate> & { campus_id: string; template_type: string }) => Promise<void>;
   fetchScheduleConfig: (campusId: string) => Promise<void>;
@@ -53,6 +74,9 @@ export const useScheduleStore = create<ScheduleState>()(
       scheduleConfig: null,
       selectedCampusId: null,
       timeSlots: [],
+      weeklyLimits: [],
+      appointmentTypes: [],
+      noShowPolicy: null,
       dayOverrides: {},
       selectedDate: null,
       weekOffset: 0,
@@ -134,6 +158,17 @@ export const useScheduleStore = create<ScheduleState>()(
         }
       },
 
+      // Cutoff for a campus other than the one being browsed (e.g. an appointment's own campus)
+      fetchCancellationCutoff: async (campusId) => {
+        const { data, error } = await supabase
+          .from('booking_settings')
+          .select('cancellation_cutoff_hours')
+          .eq('campus_id', campusId)
+          .maybeSingle();
+        if (error) throw error;
+        return data?.cancellation_cutoff_hours ?? 24;
+      },
+
       updateBookingSetting: async (campusId, maxPerDay) => {
         try {
           const { data: existing } = await supabase
@@ -155,13 +190,232 @@ export const useScheduleStore = create<ScheduleState>()(
             if (error) throw error;
           }
 
-          set({ bookingSetting: { campus_id: campusId, max_bookings_per_day: maxPerDay } as BookingSetting });
+          // Keep the campus's other settings (cutoff, booking mode) in sync
+          set((state) => {
+            const current = state.bookingSetting?.campus_id === campusId ? state.bookingSetting : null;
+            state.bookingSetting = { ...current, campus_id: campusId, max_bookings_per_day: maxPerDay } as BookingSetting;
+          });
         } catch (error) {
           console.error('Error updating booking setting:', error);
           throw error;
         }
       },
 
+      updateCancellationCutoff: async (campusId, hours) => {
+        try {
+          const { data, error } = await supabase
+            .from('booking_settings')
+            .upsert(
+              { campus_id: campusId, cancellation_cutoff_hours: hours, updated_at: new Date().toISOString() },
+              { onConflict: 'campus_id' }
+            )
+            .select('*')
+            .single();
+          if (error) throw error;
+
+          set({ bookingSetting: data as BookingSetting });
+        } catch (error) {
+          console.error('Error updating cancellation cutoff:', error);
+          throw error;
+        }
+      },
+
+      updateBookingMode: async (campusId, mode) => {
+        try {
+          const { data, error } = await supabase
+            .from('booking_settings')
+            .upsert(
+              { campus_id: campusId, booking_mode: mode, updated_at: new Date().toISOString() },
+              { onConflict: 'campus_id' }
+            )
+            .select('*')
+            .single();
+          if (error) throw error;
+
+          set({ bookingSetting: data as BookingSetting });
+        } catch (error) {
+          console.error('Error updating booking mode:', error);
+          throw error;
+        }
+      },
+
+      updateTypeCapacity: async (campusId, capacity) => {
+        try {
+          const { data, error } = await supabase
+            .from('booking_settings')
+            .upsert(
+              { campus_id: campusId, type_capacity: capacity, updated_at: new Date().toISOString() },
+              { onConflict: 'campus_id' }
+            )
+            .select('*')
+            .single();
+          if (error) throw error;
+
+          set({ bookingSetting: data as BookingSetting });
+        } catch (error) {
+          console.error('Error updating type capacity:', error);
+          throw error;
+        }
+      },
+
+      upsertScheduleSetting: async (setting) => {
+        try {
+          const { data, error } = await supabase
+            .from('schedule_settings')
+            .upsert(
+              { ...setting, updated_at: new Date().toISOString() },
+              { onConflict: 'campus_id,day_of_week' }
+            )
+            .select('*')
+            .single();
+          if (error) throw error;
+
+          set((state) => {
+            const index = state.scheduleSettings.findIndex(
+              (s) => s.campus_id === setting.campus_id && s.day_of_week === setting.day_of_week
+            );
+            if (index !== -1) state.scheduleSettings[index] = data as ScheduleSetting;
+            else state.scheduleSettings.push(data as ScheduleSetting);
+          });
+        } catch (error) {
+          console.error('Error saving schedule setting:', error);
+          throw error;
+        }
+      },
+
+      fetchWeeklyLimits: async () => {
+        try {
+          const { data, error } = await supabase
+            .from('weekly_limits')
+            .select('*')
+            .order('appointment_type');
+          if (error) throw error;
+          set({ weeklyLimits: data || [] });
+        } catch (error) {
+          console.error('Error fetching weekly limits:', error);
+          set({ weeklyLimits: [] });
+        }
+      },
+
+      upsertWeeklyLimit: async (limit) => {
+        try {
+          const { data, error } = await supabase
+            .from('weekly_limits')
+            .upsert(
+              { ...limit, updated_at: new Date().toISOString() },
+              { onConflict: 'appointment_type,user_role' }
+            )
+            .select('*')
+            .single();
+          if (error) throw error;
+
+          set((state) => {
+            const index = state.weeklyLimits.findIndex(
+              (l) => l.appointment_type === limit.appointment_type && l.user_role === limit.user_role
+            );
+            if (index !== -1) state.weeklyLimits[index] = data as WeeklyLimit;
+            else state.weeklyLimits.push(data as WeeklyLimit);
+          });
+        } catch (error) {
+          console.error('Error saving weekly limit:', error);
+          throw error;
+        }
+      },
+
+      deleteWeeklyLimit: async (id) => {
+        try {
+          const { error } = await supabase.from('weekly_limits').delete().eq('id', id);
+          if (error) throw error;
+
+          set((state) => {
+            state.weeklyLimits = state.weeklyLimits.filter((l) => l.id !== id);
+          });
+        } catch (error) {
+          console.error('Error deleting weekly limit:', error);
+          throw error;
+        }
+      },
+
+      fetchAppointmentTypes: async (campusId) => {
+        try {
+          const { data, error } = await supabase
+            .from('appointment_type_catalog')
+            .select('*')
+            .eq('campus_id', campusId)
+            .order('sort_order');
+          if (error) throw error;
+          // A campus without rows yet books with the seeded defaults
+          set({ appointmentTypes: data && data.length > 0 ? (data as AppointmentTypeConfig[]) : defaultAppointmentTypes(campusId) });
+        } catch (error) {
+          console.error('Error fetching appointment types:', error);
+          set({ appointmentTypes: defaultAppointmentTypes(campusId) });
+        }
+      },
+
+      updateAppointmentType: async (id, patch) => {
+        try {
+          const { data, error } = await supabase
+            .from('appointment_type_catalog')
+            .update({ ...patch, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select('*')
+            .single();
+          if (error) throw error;
+
+          const updated = data as AppointmentTypeConfig;
+          set((state) => {
+            const index = state.appointmentTypes.findIndex((t) => t.id === id);
+            if (index !== -1) state.appointmentTypes[index] = updated;
+          });
+
+          await logUserAction({
+            action: 'UPDATE',
+            resourceType: 'appointment_type',
+            resourceId: id,
+            campusId: updated.campus_id,
+            details: { code: updated.code, ...patch },
+          });
+        } catch (error) {
+          console.error('Error updating appointment type:', error);
+          throw error;
+        }
+      },
+
+      fetchNoShowPolicy: async () => {
+        try {
+          const { data, error } = await supabase.from('no_show_policy').select('*').maybeSingle();
+          if (error) throw error;
+          set({ noShowPolicy: (data as NoShowPolicy) ?? null });
+        } catch (error) {
+          console.error('Error fetching no-show policy:', error);
+          set({ noShowPolicy: null });
+        }
+      },
+
+      updateNoShowPolicy: async (policy) => {
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          const { data, error } = await supabase
+            .from('no_show_policy')
+            .update({ ...policy, updated_at: new Date().toISOString(), updated_by: user?.id ?? null })
+            .eq('id', true)
+            .select('*')
+            .single();
+          if (error) throw error;
+
+          await logUserAction({
+            action: 'UPDATE',
+            resourceType: 'no_show_policy',
+            details: { ...policy },
+          });
+
+          set({ noShowPolicy: data as NoShowPolicy });
+        } catch (error) {
+          console.error('Error saving no-show policy:', error);
+          throw error;
+        }
+      },
+
       fetchEmailTemplates: async (campusId) => {
         try {
           const { data, error } = await supabase
@@ -348,6 +602,7 @@ export const useScheduleStore = create<ScheduleState>()(
         set({ isLoading: true });
         try {
           const dayOfWeek = date.getDay();
+          const dateStr = formatLocalDate(date);
 
           const { data: settings } = await supabase
             .from('schedule_settings')
@@ -355,40 +610,40 @@ export const useScheduleStore = create<ScheduleState>()(
             .eq('campus_id', campusId)
             .eq('day_of_week', dayOfWeek)
             .eq('is_active', true)
-            .single();
+            .maybeSingle();
 
           if (!settings) {
             set({ timeSlots: [], isLoading: false });
             return;
           }
 
-          const slots: TimeSlot[] = [];
-          const slotDuration = settings.slot_duration;
-          const [startHour, startMin] = settings.start_time.split(':').map(Number);
-          const [endHour, endMin] = settings.end_time.split(':').map(Number);
-
-          let currentMinutes = startHour * 60 + startMin;
-          const endMinutes = endHour * 60 + endMin;
-
-          while (currentMinutes < endMinutes) {
-            const startTime = `${Math.floor(currentMinutes / 60)
-              .toString()
-              .padStart(2, '0')}:${(currentMinutes % 60).toString().padStart(2, '0')}`;
-            const endTime = `${Math.floor((currentMinutes + slotDuration) / 60)
-              .toString()
-              .padStart(2, '0')}:${((currentMinutes + slotDuration) % 60)
-                .toString()
-                .padStart(2, '0')}`;
-
-            slots.push({
-              date: date.toISOString().split('T')[0],
-              startTime,
-              endTime,
-              isAvailable: true,
-            });
+          // Count active bookings per slot start so capacity matches book_appointment()
+          const { data: booked, error } = await supabase
+            .from('appointments')
+            .select('start_time')
+            .eq('campus_id', campusId)
+            .eq('appointment_date', dateStr)
+            .neq('status', 'cancelled');
+          if (error) throw error;
 
-            currentMinutes += slotDuration;
-          }
+          const bookedBySlot: Record<string, number> = {};
+          (booked || []).forEach((row: { start_time: string }) => {
+            const key = row.start_time.slice(0, 5);
+            bookedBySlot[key] = (bookedBySlot[key] || 0) + 1;
+          });
+
+          const slots: TimeSlot[] = generateSlotTimes(settings.start_time, settings.end_time, settings.slot_duration)
+            .map(({ startTime, endTime }) => {
+              const count = bookedBySlot[startTime] || 0;
+              return {
+                date: dateStr,
+                startTime,
+                endTime,
+                capacity: settings.max_appointments,
+                booked: count,
+                isAvailable: count < settings.max_appointments,
+              };
+            });
 
           set({ timeSlots: slots, isLoading: false });
         } catch (error) {
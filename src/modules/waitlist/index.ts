@@ -0,0 +1 @@
+export { useWaitlistStore } from './store';
@@ -0,0 +1,124 @@
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import type { WaitlistEntry } from '~/types';
+import { supabase } from '~/lib/supabase';
+import { logUserAction } from '~/lib/auditLog';
+
+interface WaitlistState {
+  myEntries: WaitlistEntry[];
+  isLoading: boolean;
+  isSaving: boolean;
+
+  fetchMyEntries: (patientId: string) => Promise<void>;
+  joinWaitlist: (data: Pick<WaitlistEntry, 'campus_id' | 'waitlist_date' | 'time_of_day' | 'appointment_type'> & Partial<WaitlistEntry>) => Promise<WaitlistEntry>;
+  leaveWaitlist: (id: string) => Promise<void>;
+}
+
+export const useWaitlistStore = create<WaitlistState>()(
+  immer((set) => ({
+    myEntries: [],
+    isLoading: false,
+    isSaving: false,
+
+    fetchMyEntries: async (patientId) => {
+      set({ isLoading: true });
+      try {
+        const { data, error } = await supabase
+          .from('waitlist_entries')
+          .select('*')
+          .eq('patient_id', patientId)
+          .order('waitlist_date')
+          .order('created_at');
+
+        if (error) throw error;
+        set({ myEntries: data || [], isLoading: false });
+      } catch (error) {
+        console.error('Error fetching waitlist entries:', error);
+        set({ isLoading: false });
+      }
+    },
+
+    joinWaitlist: async (data) => {
+      set({ isSaving: true });
+      try {
+        // join_waitlist() takes the same campus+date lock as book_appointment()
+        // and reads the patient's email and booker role from their profile
+        const { data: result, error } = await supabase.rpc('join_waitlist', {
+          p_campus_id: data.campus_id,
+          p_waitlist_date: data.waitlist_date,
+          p_time_of_day: data.time_of_day,
+          p_appointment_type: data.appointment_type,
+          p_patient_name: data.patient_name ?? null,
+          p_patient_phone: data.patient_phone ?? null,
+          p_notes: data.notes ?? null,
+        });
+
+        if (error) {
+          if (error.message?.includes('ALREADY_WAITLISTED')) {
+            throw new Error('You are already on the waitlist for this session.');
+          }
+          if (error.message?.includes('ALREADY_BOOKED')) {
+            throw new Error('You already have a scheduled appointment. Please complete or cancel it before joining a waitlist.');
+          }
+          if (error.message?.includes('SESSION_AVAILABLE')) {
+            throw new Error('This session still has open slots. Please book it directly instead.');
+          }
+          if (error.message?.includes('WAITLIST_PAST')) {
+            throw new Error('You cannot join the waitlist for a past date.');
+          }
+          if (error.message?.includes('TYPE_NOT_OFFERED')) {
+            throw new Error('This appointment type is not currently offered at this campus.');
+          }
+          if (error.message?.includes('TYPE_NOT_ALLOWED')) {
+            throw new Error('This appointment type cannot be booked online for your account.');
+          }
+          throw error;
+        }
+
+        const entry = result as WaitlistEntry;
+
+        await logUserAction({
+          action: 'CREATE',
+          resourceType: 'waitlist_entry',
+          resourceId: entry.id,
+          campusId: entry.campus_id,
+          details: {
+            waitlist_date: entry.waitlist_date,
+            time_of_day: entry.time_of_day,
+            appointment_type: entry.appointment_type,
+          },
+        });
+
+        set((state) => {
+          state.myEntries.push(entry);
+          state.isSaving = false;
+        });
+
+        return entry;
+      } catch (error) {
+        set({ isSaving: false });
+        throw error;
+      }
+    },
+
+    leaveWaitlist: async (id) => {
+      try {
+        const { error } = await supabase.rpc('leave_waitlist', { p_entry_id: id });
+        if (error) {
+          if (error.message?.includes('NOT_FOUND')) {
+            throw new Error('This waitlist entry is no longer active.');
+          }
+          throw error;
+        }
+
+        set((state) => {
+          const entry = state.myEntries.find((e) => e.id === id);
+          if (entry) entry.status = 'left';
+        });
+      } catch (error) {
+        console.error('Error leaving waitlist:', error);
+        throw error;
+      }
+    },
+  }))
+);
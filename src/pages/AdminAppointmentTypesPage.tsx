@@ -0,0 +1,290 @@
+import { useEffect, useState } from 'react';
+import { Tags, Save, Check, ArrowUp, ArrowDown } from 'lucide-react';
+import { useScheduleStore } from '~/modules/schedule';
+import { APPOINTMENT_TYPE_COLORS, BOOKER_ROLES, appointmentTypeColorClasses } from '~/lib/appointmentTypes';
+import { appointmentTypeConfigSchema } from '~/lib/validation';
+import type { AppointmentTypeConfig, BookerRole } from '~/types';
+
+const ROLE_LABELS: Record<BookerRole, string> = {
+    student: 'Students',
+    staff: 'Staff',
+};
+
+type TypeDraft = Pick<AppointmentTypeConfig, 'id' | 'code' | 'label' | 'color' | 'enabled' | 'allowed_booker_roles' | 'sort_order'> & {
+    duration: string;
+};
+
+const toDraft = (t: AppointmentTypeConfig): TypeDraft => ({
+    id: t.id,
+    code: t.code,
+    label: t.label,
+    color: t.color,
+    enabled: t.enabled,
+    allowed_booker_roles: t.allowed_booker_roles,
+    sort_order: t.sort_order,
+    duration: String(t.duration_minutes),
+});
+
+export function AdminAppointmentTypesPage() {
+    const { campuses, fetchCampuses, appointmentTypes, fetchAppointmentTypes, updateAppointmentType } = useScheduleStore();
+    const [selectedCampus, setSelectedCampus] = useState('');
+    const [drafts, setDrafts] = useState<TypeDraft[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchCampuses();
+    }, [fetchCampuses]);
+
+    useEffect(() => {
+        if (campuses.length > 0 && !selectedCampus) {
+            setSelectedCampus(campuses[0].id);
+        }
+    }, [campuses, selectedCampus]);
+
+    useEffect(() => {
+        if (selectedCampus) fetchAppointmentTypes(selectedCampus);
+    }, [selectedCampus, fetchAppointmentTypes]);
+
+    useEffect(() => {
+        setDrafts([...appointmentTypes].sort((a, b) => a.sort_order - b.sort_order).map(toDraft));
+        setError('');
+    }, [appointmentTypes]);
+
+    // Defaults stand in when the catalog table has not been created yet
+    const notSeeded = appointmentTypes.some((t) => t.id.startsWith('default-'));
+
+    const updateDraft = (id: string, patch: Partial<TypeDraft>) => {
+        setDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, ...patch } : d)));
+    };
+
+    const toggleRole = (draft: TypeDraft, role: BookerRole) => {
+        const roles = draft.allowed_booker_roles.includes(role)
+            ? draft.allowed_booker_roles.filter((r) => r !== role)
+            : BOOKER_ROLES.filter((r) => r === role || draft.allowed_booker_roles.includes(r));
+        updateDraft(draft.id, { allowed_booker_roles: roles });
+    };
+
+    const move = (index: number, offset: -1 | 1) => {
+        setDrafts((prev) => {
+            const target = index + offset;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next.map((d, i) => ({ ...d, sort_order: i + 1 }));
+        });
+    };
+
+    const handleSave = async () => {
+        setError('');
+        const parsed: { draft: TypeDraft; duration: number }[] = [];
+        for (const draft of drafts) {
+            const result = appointmentTypeConfigSchema.safeParse({
+                label: draft.label,
+                color: draft.color,
+                durationMinutes: Number(draft.duration),
+                enabled: draft.enabled,
+                allowedBookerRoles: draft.allowed_booker_roles,
+            });
+            if (!result.success) {
+                setError(`${draft.label || draft.code}: ${result.error.issues[0]?.message ?? 'invalid settings'}`);
+                return;
+            }
+            parsed.push({ draft: { ...draft, label: result.data.label }, duration: result.data.durationMinutes });
+        }
+        if (!parsed.some(({ draft }) => draft.enabled)) {
+            setError('Keep at least one appointment type enabled.');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            for (const { draft, duration } of parsed) {
+                const current = appointmentTypes.find((t) => t.id === draft.id);
+                if (!current) continue;
+                const patch: Parameters<typeof updateAppointmentType>[1] = {};
+                if (draft.label !== current.label) patch.label = draft.label;
+                if (draft.color !== current.color) patch.color = draft.color;
+                if (duration !== current.duration_minutes) patch.duration_minutes = duration;
+                if (draft.enabled !== current.enabled) patch.enabled = draft.enabled;
+                if (draft.sort_order !== current.sort_order) patch.sort_order = draft.sort_order;
+                if (draft.allowed_booker_roles.join() !== current.allowed_booker_roles.join()) {
+                    patch.allowed_booker_roles = draft.allowed_booker_roles;
+                }
+                if (Object.keys(patch).length > 0) await updateAppointmentType(draft.id, patch);
+            }
+            setSaved(true);
+            setTimeout(() => setSaved(false), 2000);
+        } catch (err) {
+            console.error('Failed to save appointment types:', err);
+            setError('Failed to save appointment types. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Appointment Types</h1>
+                <p className="text-gray-600">Choose which services each campus offers and who can book them</p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <Tags className="w-5 h-5 text-maroon-800" />
+                    Type Catalog
+                </h2>
+                <p className="text-sm text-gray-600 mb-6">
+                    Labels appear on booking pages, the schedule and confirmation emails. Disabled types cannot be booked; existing
+                    appointments keep their type. Clinic staff can book walk-ins for any enabled type regardless of the roles below.
+                </p>
+
+                <div className="max-w-sm mb-6">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Campus</label>
+                    <select
+                        value={selectedCampus}
+                        onChange={(e) => setSelectedCampus(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none cursor-pointer"
+                    >
+                        {campuses.map((campus) => (
+                            <option key={campus.id} value={campus.id}>
+                                {campus.name}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                {notSeeded && (
+                    <p className="mb-4 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg">
+                        Showing the default types. Run create_appointment_type_catalog.sql to manage them per campus.
+                    </p>
+                )}
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                                <th className="py-2 pr-3">Order</th>
+                                <th className="py-2 pr-3">Label</th>
+                                <th className="py-2 pr-3">Color</th>
+                                <th className="py-2 pr-3">Duration (min)</th>
+                                <th className="py-2 pr-3">Enabled</th>
+                                <th className="py-2">Bookable Online By</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {drafts.map((draft, index) => (
+                                <tr key={draft.id} className={`border-t border-gray-100 ${draft.enabled ? '' : 'opacity-50'}`}>
+                                    <td className="py-2 pr-3">
+                                        <div className="flex items-center gap-1">
+                                            <button
+                                                type="button"
+                                                onClick={() => move(index, -1)}
+                                                disabled={index === 0}
+                                                className="p-1 text-gray-500 hover:text-maroon-800 disabled:opacity-30 cursor-pointer"
+                                                aria-label="Move up"
+                                            >
+                                                <ArrowUp className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => move(index, 1)}
+                                                disabled={index === drafts.length - 1}
+                                                className="p-1 text-gray-500 hover:text-maroon-800 disabled:opacity-30 cursor-pointer"
+                                                aria-label="Move down"
+                                            >
+                                                <ArrowDown className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <input
+                                            type="text"
+                                            value={draft.label}
+                                            maxLength={60}
+                                            onChange={(e) => updateDraft(draft.id, { label: e.target.value })}
+                                            className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                                        />
+                                        <p className="text-[11px] text-gray-400 mt-0.5 font-mono">{draft.code}</p>
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <div className="flex items-center gap-2">
+                                            <span className={`w-3 h-3 rounded-full ${appointmentTypeColorClasses(draft.color).dot}`} />
+                                            <select
+                                                value={draft.color}
+                                                onChange={(e) => updateDraft(draft.id, { color: e.target.value as TypeDraft['color'] })}
+                                                className="px-2 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none cursor-pointer capitalize"
+                                            >
+                                                {APPOINTMENT_TYPE_COLORS.map((color) => (
+                                                    <option key={color} value={color}>{color}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <input
+                                            type="number"
+                                            min={5}
+                                            max={240}
+                                            value={draft.duration}
+                                            onChange={(e) => updateDraft(draft.id, { duration: e.target.value })}
+                                            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                                        />
+                                    </td>
+                                    <td className="py-2 pr-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={draft.enabled}
+                                            onChange={(e) => updateDraft(draft.id, { enabled: e.target.checked })}
+                                            className="w-4 h-4 accent-maroon-800 cursor-pointer"
+                                        />
+                                    </td>
+                                    <td className="py-2">
+                                        <div className="flex items-center gap-4">
+                                            {BOOKER_ROLES.map((role) => (
+                                                <label key={role} className="flex items-center gap-1.5 text-gray-700 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={draft.allowed_booker_roles.includes(role)}
+                                                        onChange={() => toggleRole(draft, role)}
+                                                        className="w-4 h-4 accent-maroon-800 cursor-pointer"
+                                                    />
+                                                    {ROLE_LABELS[role]}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+                <div className="mt-6 flex items-center gap-3">
+                    <button
+                        onClick={handleSave}
+                        disabled={saving || notSeeded}
+                        className="px-6 py-2 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2 cursor-pointer"
+                    >
+                        {saving ? (
+                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        ) : (
+                            <Save className="w-4 h-4" />
+                        )}
+                        {saving ? 'Saving...' : 'Save Types'}
+                    </button>
+                    {saved && (
+                        <span className="text-green-600 text-sm font-medium flex items-center gap-1">
+                            <Check className="w-4 h-4" />
+                            Appointment types saved successfully!
+                        </span>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+}
@@ -1,10 +1,37 @@
 import { useEffect, useState } from 'react';
-import { Settings, Save, Check } from 'lucide-react';
+import { Settings, Save, Check, Clock } from 'lucide-react';
 import { useScheduleStore } from '~/modules/schedule';
+import { generateSlotTimes } from '~/lib/utils';
+import { APPOINTMENT_TYPE_CODES } from '~/lib/appointmentTypes';
+import type { AppointmentType, BookingMode, ScheduleSetting, TypeCapacity } from '~/types';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type SlotDraft = Omit<ScheduleSetting, 'id' | 'campus_id'>;
+
+const defaultSlotDraft = (day: number): SlotDraft => ({
+    day_of_week: day,
+    start_time: '08:00',
+    end_time: '17:00',
+    slot_duration: 30,
+    max_appointments: 1,
+    is_active: day !== 0 && day !== 6,
+});
 
 export function AdminBookingSettingsPage() {
-    const { campuses, fetchCampuses, fetchBookingSetting, bookingSetting, updateBookingSetting } = useScheduleStore();
+    const {
+        campuses, fetchCampuses, fetchBookingSetting, bookingSetting, updateBookingSetting, updateCancellationCutoff,
+        updateBookingMode, scheduleSettings, fetchScheduleSettings, upsertScheduleSetting, updateTypeCapacity,
+        appointmentTypes, fetchAppointmentTypes,
+    } = useScheduleStore();
     const [maxBookings, setMaxBookings] = useState<number | string>(50);
+    const [cutoffHours, setCutoffHours] = useState<number | string>(24);
+    const [bookingMode, setBookingMode] = useState<BookingMode>('session');
+    const [slotDrafts, setSlotDrafts] = useState<SlotDraft[]>(() => WEEKDAYS.map((_, day) => defaultSlotDraft(day)));
+    const [slotError, setSlotError] = useState('');
+    // Blank means the type shares the daily limit with no bucket of its own
+    const [typeDrafts, setTypeDrafts] = useState<Partial<Record<AppointmentType, string>>>({});
+    const [typeError, setTypeError] = useState('');
     const [selectedCampus, setSelectedCampus] = useState('');
     const [saving, setSaving] = useState(false);
     const [saved, setSaved] = useState(false);
@@ -22,13 +49,72 @@ export function AdminBookingSettingsPage() {
     useEffect(() => {
         if (selectedCampus) {
             fetchBookingSetting(selectedCampus);
+            fetchScheduleSettings(selectedCampus).catch(() => undefined);
+            fetchAppointmentTypes(selectedCampus);
         }
-    }, [selectedCampus, fetchBookingSetting]);
+    }, [selectedCampus, fetchBookingSetting, fetchScheduleSettings, fetchAppointmentTypes]);
+
+    const typeOptions = appointmentTypes.map((t) => ({ value: t.code, label: t.label }));
 
     useEffect(() => {
         setMaxBookings(bookingSetting?.max_bookings_per_day || 50);
+        setCutoffHours(bookingSetting?.cancellation_cutoff_hours ?? 24);
+        setBookingMode(bookingSetting?.booking_mode ?? 'session');
+        const drafts: Partial<Record<AppointmentType, string>> = {};
+        APPOINTMENT_TYPE_CODES.forEach((value) => {
+            const cap = bookingSetting?.type_capacity?.[value];
+            drafts[value] = cap === undefined ? '' : String(cap);
+        });
+        setTypeDrafts(drafts);
     }, [bookingSetting]);
 
+    const parseTypeCapacity = (): TypeCapacity | null => {
+        const capacity: TypeCapacity = {};
+        for (const { value, label } of typeOptions) {
+            const raw = (typeDrafts[value] ?? '').trim();
+            if (raw === '') continue;
+            const n = parseInt(raw, 10);
+            if (!Number.isFinite(n) || n < 0 || n > 500) {
+                setTypeError(`${label}: enter a number from 0 to 500, or leave it blank.`);
+                return null;
+            }
+            capacity[value] = n;
+        }
+        setTypeError('');
+        return capacity;
+    };
+
+    useEffect(() => {
+        setSlotDrafts(WEEKDAYS.map((_, day) => {
+            const existing = scheduleSettings.find((s) => s.campus_id === selectedCampus && s.day_of_week === day);
+            if (!existing) return defaultSlotDraft(day);
+            return {
+                day_of_week: day,
+                start_time: existing.start_time.slice(0, 5),
+                end_time: existing.end_time.slice(0, 5),
+                slot_duration: existing.slot_duration,
+                max_appointments: existing.max_appointments,
+                is_active: existing.is_active,
+            };
+        }));
+    }, [scheduleSettings, selectedCampus]);
+
+    const updateSlotDraft = (day: number, patch: Partial<SlotDraft>) => {
+        setSlotDrafts((prev) => prev.map((d) => (d.day_of_week === day ? { ...d, ...patch } : d)));
+    };
+
+    const validateSlotDrafts = (): string | null => {
+        for (const d of slotDrafts) {
+            if (!d.is_active) continue;
+            const day = WEEKDAYS[d.day_of_week];
+            if (!d.start_time || !d.end_time || d.end_time <= d.start_time) return `${day}: end time must be after start time.`;
+            if (!Number.isFinite(d.slot_duration) || d.slot_duration < 5 || d.slot_duration > 240) return `${day}: slot length must be between 5 and 240 minutes.`;
+            if (!Number.isFinite(d.max_appointments) || d.max_appointments < 1) return `${day}: each slot must hold at least 1 patient.`;
+            if (generateSlotTimes(d.start_time, d.end_time, d.slot_duration).length === 0) return `${day}: the hours are shorter than one slot.`;
+        }
+        return null;
+    };
+
     const parseMaxBookingsValue = (): number | null => {
         const raw = typeof maxBookings === 'string' ? maxBookings.trim() : String(maxBookings);
         if (raw === '') return null;
@@ -37,14 +123,37 @@ export function AdminBookingSettingsPage() {
         return n;
     };
 
+    const parseCutoffValue = (): number | null => {
+        const raw = typeof cutoffHours === 'string' ? cutoffHours.trim() : String(cutoffHours);
+        if (raw === '') return null;
+        const n = parseInt(raw, 10);
+        if (!Number.isFinite(n) || n < 0 || n > 168) return null;
+        return n;
+    };
+
     const handleSave = async () => {
         if (!selectedCampus) return;
         const n = parseMaxBookingsValue();
-        if (n === null) return;
+        const cutoff = parseCutoffValue();
+        if (n === null || cutoff === null) return;
+        const typeCapacity = parseTypeCapacity();
+        if (typeCapacity === null) return;
+        const slotProblem = bookingMode === 'slot' ? validateSlotDrafts() : null;
+        setSlotError(slotProblem || '');
+        if (slotProblem) return;
         setSaving(true);
         try {
             await updateBookingSetting(selectedCampus, n);
+            await updateCancellationCutoff(selectedCampus, cutoff);
+            if (bookingMode === 'slot') {
+                for (const draft of slotDrafts) {
+                    await upsertScheduleSetting({ ...draft, campus_id: selectedCampus });
+                }
+            }
+            await updateBookingMode(selectedCampus, bookingMode);
+            await updateTypeCapacity(selectedCampus, typeCapacity);
             setMaxBookings(n);
+            setCutoffHours(cutoff);
             setSaved(true);
             setTimeout(() => setSaved(false), 2000);
         } catch (error) {
@@ -100,8 +209,143 @@ export function AdminBookingSettingsPage() {
                             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
                         />
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Cancellation Cutoff (hours)</label>
+                        <input
+                            type="number"
+                            min={0}
+                            max={168}
+                            value={cutoffHours}
+                            onFocus={(e) => e.currentTarget.select()}
+                            onChange={(e) => setCutoffHours(e.target.value)}
+                            onBlur={() => {
+                                const n = parseCutoffValue();
+                                setCutoffHours(n === null ? (bookingSetting?.cancellation_cutoff_hours ?? 24) : n);
+                            }}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">Patients cannot cancel online within this many hours of their session.</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Booking Mode</label>
+                        <select
+                            value={bookingMode}
+                            onChange={(e) => setBookingMode(e.target.value as BookingMode)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none cursor-pointer"
+                        >
+                            <option value="session">AM / PM sessions (first come, first served)</option>
+                            <option value="slot">Time slots</option>
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">In time-slot mode patients pick a specific slot from the weekly schedule below.</p>
+                    </div>
                 </div>
 
+                <div className="mt-6 border-t border-gray-100 pt-6">
+                    <h3 className="text-sm font-semibold text-gray-900 mb-1">Daily Capacity per Appointment Type</h3>
+                    <p className="text-xs text-gray-500 mb-4">Reserve room for each service so one type cannot fill the whole day. Leave blank for no separate limit. Day overrides on the schedule can change these for a single date.</p>
+                    <div className="grid sm:grid-cols-3 gap-4">
+                        {typeOptions.map((type) => (
+                            <div key={type.value}>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">{type.label}</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={500}
+                                    placeholder="No limit"
+                                    value={typeDrafts[type.value] ?? ''}
+                                    onChange={(e) => setTypeDrafts((prev) => ({ ...prev, [type.value]: e.target.value }))}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                    {typeError && <p className="text-sm text-red-600 mt-3">{typeError}</p>}
+                </div>
+
+                {bookingMode === 'slot' && (
+                    <div className="mt-6 border-t border-gray-100 pt-6">
+                        <h3 className="text-sm font-semibold text-gray-900 mb-1 flex items-center gap-2">
+                            <Clock className="w-4 h-4 text-maroon-800" />
+                            Weekly Slot Schedule
+                        </h3>
+                        <p className="text-xs text-gray-500 mb-4">Slots run from the start time in fixed steps; each slot holds up to the given number of patients. The daily limit above still applies.</p>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                                        <th className="py-2 pr-3">Day</th>
+                                        <th className="py-2 pr-3">Open</th>
+                                        <th className="py-2 pr-3">Start</th>
+                                        <th className="py-2 pr-3">End</th>
+                                        <th className="py-2 pr-3">Slot (min)</th>
+                                        <th className="py-2 pr-3">Per Slot</th>
+                                        <th className="py-2">Slots</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {slotDrafts.map((d) => (
+                                        <tr key={d.day_of_week} className={`border-t border-gray-100 ${d.is_active ? '' : 'opacity-50'}`}>
+                                            <td className="py-2 pr-3 font-medium text-gray-700">{WEEKDAYS[d.day_of_week]}</td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={d.is_active}
+                                                    onChange={(e) => updateSlotDraft(d.day_of_week, { is_active: e.target.checked })}
+                                                    className="w-4 h-4 accent-maroon-800 cursor-pointer"
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="time"
+                                                    value={d.start_time}
+                                                    disabled={!d.is_active}
+                                                    onChange={(e) => updateSlotDraft(d.day_of_week, { start_time: e.target.value })}
+                                                    className="px-2 py-1 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-maroon-500"
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="time"
+                                                    value={d.end_time}
+                                                    disabled={!d.is_active}
+                                                    onChange={(e) => updateSlotDraft(d.day_of_week, { end_time: e.target.value })}
+                                                    className="px-2 py-1 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-maroon-500"
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="number"
+                                                    min={5}
+                                                    max={240}
+                                                    step={5}
+                                                    value={d.slot_duration}
+                                                    disabled={!d.is_active}
+                                                    onChange={(e) => updateSlotDraft(d.day_of_week, { slot_duration: parseInt(e.target.value, 10) })}
+                                                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-maroon-500"
+                                                />
+                                            </td>
+                                            <td className="py-2 pr-3">
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    value={d.max_appointments}
+                                                    disabled={!d.is_active}
+                                                    onChange={(e) => updateSlotDraft(d.day_of_week, { max_appointments: parseInt(e.target.value, 10) })}
+                                                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg outline-none focus:ring-2 focus:ring-maroon-500"
+                                                />
+                                            </td>
+                                            <td className="py-2 text-gray-500">
+                                                {d.is_active ? generateSlotTimes(d.start_time, d.end_time, d.slot_duration || 0).length : '—'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {slotError && <p className="text-sm text-red-600 mt-3">{slotError}</p>}
+                    </div>
+                )}
+
                 <div className="mt-6 flex items-center gap-3">
                     <button
                         onClick={handleSave}
@@ -127,6 +371,8 @@ export function AdminBookingSettingsPage() {
                     <p className="text-xs text-gray-500">
                         Current setting: <span className="font-medium text-gray-700">{bookingSetting?.max_bookings_per_day || 50}</span> bookings per day
                         {bookingSetting ? '' : ' (default)'}
+                        {' · '}{bookingSetting?.booking_mode === 'slot' ? 'time-slot' : 'AM/PM session'} booking
+                        {' · '}online cancellation closes <span className="font-medium text-gray-700">{bookingSetting?.cancellation_cutoff_hours ?? 24}</span> hours before a session
                     </p>
                 </div>
             </div>
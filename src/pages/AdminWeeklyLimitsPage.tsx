@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { CalendarRange, Save, Check } from 'lucide-react';
+import { useScheduleStore } from '~/modules/schedule';
+import { APPOINTMENT_TYPE_CODES, appointmentTypeLabel } from '~/lib/appointmentTypes';
+import type { AppointmentType, UserRole } from '~/types';
+
+// Limits cover all campuses, so every code is listed under its default label
+const APPOINTMENT_TYPES: { value: AppointmentType; label: string }[] = APPOINTMENT_TYPE_CODES.map((code) => ({
+    value: code,
+    label: appointmentTypeLabel([], code),
+}));
+
+// Only patients book appointments, so limits apply to these roles
+const BOOKER_ROLES: { value: UserRole; label: string }[] = [
+    { value: 'student', label: 'Students' },
+    { value: 'staff', label: 'Staff' },
+];
+
+const limitKey = (type: AppointmentType, role: UserRole) => `${type}:${role}`;
+
+export function AdminWeeklyLimitsPage() {
+    const { weeklyLimits, fetchWeeklyLimits, upsertWeeklyLimit, deleteWeeklyLimit } = useScheduleStore();
+    // Blank means "no weekly limit"
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchWeeklyLimits();
+    }, [fetchWeeklyLimits]);
+
+    useEffect(() => {
+        const next: Record<string, string> = {};
+        weeklyLimits.forEach((l) => {
+            next[limitKey(l.appointment_type, l.user_role)] = String(l.max_appointments_per_week);
+        });
+        setDrafts(next);
+    }, [weeklyLimits]);
+
+    const parseLimit = (raw: string | undefined): number | null | undefined => {
+        const value = (raw ?? '').trim();
+        if (value === '') return null;
+        const n = parseInt(value, 10);
+        if (!Number.isFinite(n) || n < 1 || n > 50) return undefined;
+        return n;
+    };
+
+    const handleSave = async () => {
+        setError('');
+        for (const type of APPOINTMENT_TYPES) {
+            for (const role of BOOKER_ROLES) {
+                if (parseLimit(drafts[limitKey(type.value, role.value)]) === undefined) {
+                    setError(`${type.label} for ${role.label.toLowerCase()}: enter a number from 1 to 50, or leave it blank for no limit.`);
+                    return;
+                }
+            }
+        }
+
+        setSaving(true);
+        try {
+            for (const type of APPOINTMENT_TYPES) {
+                for (const role of BOOKER_ROLES) {
+                    const limit = parseLimit(drafts[limitKey(type.value, role.value)]);
+                    const existing = weeklyLimits.find((l) => l.appointment_type === type.value && l.user_role === role.value);
+                    if (limit === null) {
+                        if (existing) await deleteWeeklyLimit(existing.id);
+                    } else if (limit !== undefined && limit !== existing?.max_appointments_per_week) {
+                        await upsertWeeklyLimit({ appointment_type: type.value, user_role: role.value, max_appointments_per_week: limit });
+                    }
+                }
+            }
+            setSaved(true);
+            setTimeout(() => setSaved(false), 2000);
+        } catch (err) {
+            console.error('Failed to save weekly limits:', err);
+            setError('Failed to save weekly limits. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Weekly Limits</h1>
+                <p className="text-gray-600">Limit how often patients can book each appointment type per week</p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <CalendarRange className="w-5 h-5 text-maroon-800" />
+                    Appointments Per Week
+                </h2>
+                <p className="text-sm text-gray-600 mb-6">
+                    Weeks run Monday to Sunday and cover all campuses. Cancelled appointments do not count. Leave a field blank for no limit.
+                </p>
+
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                                <th className="py-2 pr-4">Appointment Type</th>
+                                {BOOKER_ROLES.map((role) => (
+                                    <th key={role.value} className="py-2 pr-4">{role.label}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {APPOINTMENT_TYPES.map((type) => (
+                                <tr key={type.value} className="border-t border-gray-100">
+                                    <td className="py-3 pr-4 font-medium text-gray-700">{type.label}</td>
+                                    {BOOKER_ROLES.map((role) => {
+                                        const key = limitKey(type.value, role.value);
+                                        return (
+                                            <td key={role.value} className="py-3 pr-4">
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    max={50}
+                                                    placeholder="No limit"
+                                                    value={drafts[key] ?? ''}
+                                                    onChange={(e) => setDrafts((prev) => ({ ...prev, [key]: e.target.value }))}
+                                                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                                                />
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+                <div className="mt-6 flex items-center gap-3">
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="px-6 py-2 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2 cursor-pointer"
+                    >
+                        {saving ? (
+                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        ) : (
+                            <Save className="w-4 h-4" />
+                        )}
+                        {saving ? 'Saving...' : 'Save Limits'}
+                    </button>
+                    {saved && (
+                        <span className="text-green-600 text-sm font-medium flex items-center gap-1">
+                            <Check className="w-4 h-4" />
+                            Limits saved successfully!
+                        </span>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+}
@@ -1,16 +1,20 @@
 import { useEffect, useState, useMemo } from 'react';
 import { Calendar, Search, X, Trash2, ChevronUp, ChevronDown, ChevronsUpDown, Edit2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppointmentStore } from '~/modules/appointments';
+import { Link } from 'react-router-dom';
+import { useAppointmentStore, AppointmentTimeline } from '~/modules/appointments';
 import { useScheduleStore } from '~/modules/schedule';
 import { useAuthStore } from '~/modules/auth';
+import { AllergyBanner } from '~/modules/health';
+import { DispensingPanel } from '~/modules/inventory';
 import { formatDate, clampDateYear } from '~/lib/utils';
-import type { AppointmentStatus, AppointmentType } from '~/types';
+import { APPOINTMENT_TYPE_CODES, appointmentTypeColorClasses, appointmentTypeLabel } from '~/lib/appointmentTypes';
+import type { AppointmentStatus, AppointmentType, NoShowStanding } from '~/types';
 import { supabase } from '~/lib/supabase';
 
 export function AppointmentsPage() {
-  const { appointments, fetchAppointments, isLoading, updateAppointment, deleteAppointment } = useAppointmentStore();
-  const { campuses, fetchCampuses } = useScheduleStore();
+  const { appointments, fetchAppointments, isLoading, updateAppointment, deleteAppointment, fetchNoShowStanding } = useAppointmentStore();
+  const { campuses, fetchCampuses, appointmentTypes, fetchAppointmentTypes } = useScheduleStore();
   const { profile } = useAuthStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<AppointmentStatus | ''>('');
@@ -28,6 +32,7 @@ export function AppointmentsPage() {
   const [selectedAppointment, setSelectedAppointment] = useState<any>(null);
   const [pendingStatus, setPendingStatus] = useState<AppointmentStatus | ''>('');
   const [isSavingStatus, setIsSavingStatus] = useState(false);
+  const [noShowStanding, setNoShowStanding] = useState<NoShowStanding | null>(null);
 
   // Delete Confirm Modal
   const [deleteTarget, setDeleteTarget] = useState<{ id: string; name: string } | null>(null);
@@ -86,6 +91,14 @@ export function AppointmentsPage() {
     fetchCampuses();
   }, [fetchAppointments, fetchCampuses, profile?.role, profile?.assigned_campus_id]);
 
+  // Type labels and colors come from the catalog of the campus in view;
+  // with all campuses listed, the default labels are used
+  const catalogCampusId = campusFilter || (profile?.role === 'nurse' ? profile.assigned_campus_id ?? '' : '');
+  useEffect(() => {
+    if (catalogCampusId) fetchAppointmentTypes(catalogCampusId);
+  }, [catalogCampusId, fetchAppointmentTypes]);
+  const catalogFor = (campusId: string) => (catalogCampusId && campusId === catalogCampusId ? appointmentTypes : []);
+
   // Fetch patient avatars for appointments that have a linked profile
   useEffect(() => {
     const ids = appointments
@@ -166,6 +179,12 @@ export function AppointmentsPage() {
     setSelectedAppointment(apt);
     setPendingStatus(apt.status);
     setIsStatusModalOpen(true);
+    setNoShowStanding(null);
+    if (apt.patient_id || apt.patient_email) {
+      fetchNoShowStanding({ patientId: apt.patient_id, email: apt.patient_email })
+        .then(setNoShowStanding)
+        .catch((err) => console.error('Failed to load no-show standing:', err));
+    }
   };
 
   const handleSaveStatus = async () => {
@@ -285,9 +304,9 @@ export function AppointmentsPage() {
                 className="h-[42px] w-full pl-3 pr-9 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm transition-shadow cursor-pointer appearance-none"
               >
                 <option value="">All Types</option>
-                <option value="physical_exam">Physical Exam</option>
-                <option value="consultation">Consultation</option>
-                <option value="dental">Dental</option>
+                {APPOINTMENT_TYPE_CODES.map((code) => (
+                  <option key={code} value={code}>{appointmentTypeLabel(catalogFor(catalogCampusId), code)}</option>
+                ))}
               </select>
               <ChevronDown className="pointer-events-none absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
             </div>
@@ -451,8 +470,8 @@ export function AppointmentsPage() {
 
                     {/* Type — centered */}
                     <td className="px-4 py-3.5 text-center hidden sm:table-cell">
-                      <span className="inline-block px-2.5 py-1 text-xs font-medium bg-blue-50 text-blue-700 rounded-full capitalize">
-                        {apt.appointment_type.replace(/_/g, ' ')}
+                      <span className={`inline-block px-2.5 py-1 text-xs font-medium border rounded-full ${appointmentTypeColorClasses(catalogFor(apt.campus_id).find((t) => t.code === apt.appointment_type)?.color ?? 'blue').badge}`}>
+                        {appointmentTypeLabel(catalogFor(apt.campus_id), apt.appointment_type)}
                       </span>
                     </td>
 
@@ -551,7 +570,7 @@ export function AppointmentsPage() {
               animate={{ opacity: 1, scale: 1, y: 0 }}
               exit={{ opacity: 0, scale: 0.95, y: 10 }}
               transition={{ type: 'spring', duration: 0.3 }}
-              className="relative w-full max-w-sm bg-white rounded-2xl shadow-xl overflow-hidden flex flex-col"
+              className="relative w-full max-w-md max-h-[90vh] bg-white rounded-2xl shadow-xl overflow-hidden flex flex-col"
             >
               {/* Header */}
               <div className="px-5 pt-5 pb-3 flex flex-wrap sm:flex-nowrap items-baseline gap-2">
@@ -574,6 +593,24 @@ export function AppointmentsPage() {
                     </p>
                   </div>
                 )}
+                {selectedAppointment.patient_id && (
+                  <div className="mb-3 space-y-1.5">
+                    <AllergyBanner patientId={selectedAppointment.patient_id} />
+                    <Link to={`/patients/${selectedAppointment.patient_id}`} className="inline-block text-xs font-medium text-maroon-800 hover:underline">
+                      Open patient health record →
+                    </Link>
+                  </div>
+                )}
+                {noShowStanding && noShowStanding.no_show_count > 0 && (
+                  <div className={`mb-3 p-3 rounded-xl border text-xs leading-snug ${noShowStanding.restricted ? 'bg-red-50 border-red-200 text-red-700' : 'bg-gray-50 border-gray-200 text-gray-600'}`}>
+                    <strong>{noShowStanding.no_show_count} no-show{noShowStanding.no_show_count === 1 ? '' : 's'}</strong> in the last {noShowStanding.window_days} days.
+                    {noShowStanding.restricted && noShowStanding.restricted_until && (
+                      noShowStanding.penalty === 'block'
+                        ? ` Booking is paused until ${formatDate(noShowStanding.restricted_until)}.`
+                        : ` Limited to booking ${noShowStanding.max_advance_days} day(s) ahead until ${formatDate(noShowStanding.restricted_until)}.`
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-2">
                   <button
                     onClick={() => setPendingStatus('scheduled')}
@@ -611,6 +648,15 @@ export function AppointmentsPage() {
                 </div>
               </div>
 
+              {/* History */}
+              <div className="px-5 pt-3 pb-2 min-h-0 overflow-y-auto space-y-4">
+                <DispensingPanel appointmentId={selectedAppointment.id} campusId={selectedAppointment.campus_id} canDispense={false} />
+                <div>
+                  <h4 className="text-xs font-bold uppercase tracking-wider text-gray-500 mb-2">History</h4>
+                  <AppointmentTimeline appointmentId={selectedAppointment.id} />
+                </div>
+              </div>
+
               {/* Actions */}
               <div className="p-5 flex gap-3 mt-1 bg-gray-50/80 border-t border-gray-100">
                 <button
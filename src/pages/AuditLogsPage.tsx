@@ -176,6 +176,8 @@ export function AuditLogsPage() {
         return 'bg-red-100 text-red-800';
       case 'ASSIGN':
         return 'bg-purple-100 text-purple-800';
+      case 'CANCEL':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -200,6 +202,9 @@ export function AuditLogsPage() {
       } else if (log.action === 'DELETE') {
         if (details.patient_name) items.push(`Patient: ${details.patient_name}`);
         if (details.appointment_date) items.push(`Date: ${details.appointment_date}`);
+      } else if (log.action === 'CANCEL') {
+        if (details.appointment_date) items.push(`Date: ${details.appointment_date}`);
+        if (details.reason) items.push(`Reason: ${details.reason}`);
       }
     } else if (log.resource_type === 'profile') {
       if (details.updated_fields) {
@@ -208,6 +213,28 @@ export function AuditLogsPage() {
       if (details.previous_campus && details.new_campus && details.previous_campus !== details.new_campus) {
         items.push(`Campus changed`);
       }
+    } else if (log.resource_type === 'medical_certificate') {
+      if (details.certificate_number) items.push(`Certificate: ${details.certificate_number}`);
+      if (log.action === 'CANCEL' && details.reason) items.push(`Revoked: ${details.reason}`);
+    } else if (log.resource_type === 'appointment_type') {
+      if (details.code) items.push(`Type: ${details.code.replace('_', ' ')}`);
+      if (details.label) items.push(`Label: ${details.label}`);
+      if (details.enabled !== undefined) items.push(details.enabled ? 'Enabled' : 'Disabled');
+      if (details.allowed_booker_roles) items.push(`Bookable by: ${details.allowed_booker_roles.join(', ') || 'clinic staff only'}`);
+    } else if (log.resource_type === 'inventory_item') {
+      if (details.name) items.push(`Item: ${details.name}`);
+      if (details.reorder_level !== undefined) items.push(`Reorder level: ${details.reorder_level}`);
+      if (details.is_active === false) items.push('Retired');
+    } else if (log.resource_type === 'referral') {
+      if (details.referral_number) items.push(`Referral: ${details.referral_number}`);
+      if (details.facility) items.push(`To: ${details.facility}`);
+      if (details.urgency) items.push(`Urgency: ${details.urgency}`);
+      if (details.new_status) items.push(`Marked ${details.new_status}`);
+    } else if (log.resource_type === 'physical_exam_reminder') {
+      if (details.academic_year_start) items.push(`AY ${String(details.academic_year_start).slice(0, 4)}`);
+      if (details.sent !== undefined) items.push(`Sent: ${details.sent}`);
+      if (details.skipped) items.push(`Skipped: ${details.skipped}`);
+      if (details.failed) items.push(`Failed: ${details.failed}`);
     } else if (log.resource_type === 'nurse_campus') {
       if (details.assigned_campus) {
         items.push(`Assigned to: ${details.assigned_campus}`);
@@ -282,6 +309,7 @@ export function AuditLogsPage() {
               <option value="UPDATE">Update</option>
               <option value="DELETE">Delete</option>
               <option value="ASSIGN">Assign</option>
+              <option value="CANCEL">Cancel</option>
             </select>
           </div>
           <div>
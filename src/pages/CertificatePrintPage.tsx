@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Printer, AlertCircle } from 'lucide-react';
+import { useCertificateStore, CertificateDocument } from '~/modules/certificates';
+import type { MedicalCertificate } from '~/types';
+
+/** Full-page certificate outside the sidebar layout, so the browser prints only the certificate. */
+export function CertificatePrintPage() {
+    const { certificateId } = useParams<{ certificateId: string }>();
+    const { fetchCertificate } = useCertificateStore();
+    const [certificate, setCertificate] = useState<MedicalCertificate | null>(null);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        if (!certificateId) return;
+        fetchCertificate(certificateId)
+            .then(setCertificate)
+            .catch((err) => console.error('Failed to load certificate:', err))
+            .finally(() => setLoaded(true));
+    }, [certificateId, fetchCertificate]);
+
+    // The browser uses the title as the default PDF file name
+    useEffect(() => {
+        if (!certificate) return;
+        const previousTitle = document.title;
+        document.title = certificate.certificate_number;
+        return () => {
+            document.title = previousTitle;
+        };
+    }, [certificate]);
+
+    if (!loaded) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    if (!certificate) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-2 text-gray-600">
+                <AlertCircle className="w-8 h-8 text-gray-300" />
+                <p>Certificate not found.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-100 py-6 print:bg-white print:py-0">
+            <div className="max-w-[210mm] mx-auto mb-4 px-4 flex items-center justify-between gap-3 print:hidden">
+                <p className="text-sm text-gray-600">
+                    {certificate.revoked_at
+                        ? 'This certificate has been revoked and prints with a REVOKED mark.'
+                        : 'Sign the printed copy before handing it to the patient.'}
+                </p>
+                <button
+                    onClick={() => window.print()}
+                    className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 transition-colors flex items-center gap-2 flex-shrink-0"
+                >
+                    <Printer className="w-4 h-4" />
+                    Print
+                </button>
+            </div>
+            <div className="shadow-lg print:shadow-none max-w-[210mm] mx-auto">
+                <CertificateDocument certificate={certificate} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ShieldCheck, ShieldX, ShieldAlert, Search, Clock } from 'lucide-react';
+import { Header, Footer } from '~/components/layout';
+import { useCertificateStore } from '~/modules/certificates';
+import { extractCertificateQuery } from '~/lib/certificateVerification';
+import type { CertificateVerification } from '~/types';
+
+export function CertificateVerificationPage() {
+    const { token } = useParams<{ token: string }>();
+    const { verifyCertificate } = useCertificateStore();
+    const [input, setInput] = useState('');
+    const [result, setResult] = useState<CertificateVerification | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState('');
+
+    const check = useCallback(async (query: string) => {
+        setIsChecking(true);
+        setError('');
+        setResult(null);
+        try {
+            setResult(await verifyCertificate(query));
+        } catch (err) {
+            console.error('Certificate verification failed:', err);
+            setError('Unable to check certificates right now. Please try again later.');
+        } finally {
+            setIsChecking(false);
+        }
+    }, [verifyCertificate]);
+
+    // Opened from the QR code on a printed certificate
+    useEffect(() => {
+        if (!token) return;
+        const query = extractCertificateQuery(token);
+        if (query) {
+            void check(query);
+        } else {
+            setResult({ status: 'not_found' });
+        }
+    }, [token, check]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const query = extractCertificateQuery(input);
+        if (!query) {
+            setResult(null);
+            setError('Enter the certificate number exactly as printed, e.g. LDCU-MC-2026-000123.');
+            return;
+        }
+        void check(query);
+    };
+
+    return (
+        <div className="min-h-screen flex flex-col bg-gray-50">
+            <Header />
+            <main className="flex-1 p-4 sm:p-6 lg:p-8">
+                <div className="max-w-xl mx-auto">
+                    <div className="mb-6">
+                        <h1 className="text-2xl font-bold text-gray-900">Verify a Medical Certificate</h1>
+                        <p className="text-gray-600">
+                            Check that a certificate from the LDCU University Clinic is genuine and has not been revoked.
+                        </p>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-4 sm:p-5 flex flex-col sm:flex-row gap-2">
+                        <input
+                            type="text"
+                            value={input}
+                            onChange={(e) => setInput(e.target.value)}
+                            placeholder="Certificate number, e.g. LDCU-MC-2026-000123"
+                            className="flex-1 h-[42px] px-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm font-mono"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isChecking || !input.trim()}
+                            className="h-[42px] px-4 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                        >
+                            {isChecking ? (
+                                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                            ) : (
+                                <Search className="w-4 h-4" />
+                            )}
+                            Verify
+                        </button>
+                    </form>
+
+                    {error && <p className="mt-3 text-sm text-red-700">{error}</p>}
+
+                    {isChecking && !result && (
+                        <div className="flex justify-center py-10">
+                            <div className="w-8 h-8 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                        </div>
+                    )}
+
+                    {result && <VerificationResult result={result} />}
+
+                    <p className="mt-6 text-xs text-gray-500">
+                        For privacy, only the patient's initials are shown. Contact the issuing campus clinic if the
+                        details do not match the certificate you were given.
+                    </p>
+                </div>
+            </main>
+            <Footer />
+        </div>
+    );
+}
+
+function VerificationResult({ result }: { result: CertificateVerification }) {
+    if (result.status === 'rate_limited') {
+        return (
+            <div className="mt-5 p-5 rounded-xl border border-amber-200 bg-amber-50 flex gap-3">
+                <Clock className="w-6 h-6 text-amber-600 flex-shrink-0" />
+                <div>
+                    <p className="font-semibold text-amber-900">Too many lookups</p>
+                    <p className="text-sm text-amber-800">
+                        Please wait
+                        {result.lockout_until ? ` until ${format(new Date(result.lockout_until), 'h:mm a')}` : ' a few minutes'} before
+                        checking another certificate.
+                    </p>
+                </div>
+            </div>
+        );
+    }
+
+    if (result.status === 'not_found') {
+        return (
+            <div className="mt-5 p-5 rounded-xl border border-gray-200 bg-white flex gap-3">
+                <ShieldAlert className="w-6 h-6 text-gray-500 flex-shrink-0" />
+                <div>
+                    <p className="font-semibold text-gray-900">No certificate found</p>
+                    <p className="text-sm text-gray-600">
+                        No certificate matches that number. Check it against the printed copy; a certificate that cannot be found
+                        should not be accepted.
+                    </p>
+                </div>
+            </div>
+        );
+    }
+
+    const valid = result.status === 'valid';
+    const Icon = valid ? ShieldCheck : ShieldX;
+
+    return (
+        <div className={`mt-5 rounded-xl border overflow-hidden ${valid ? 'border-green-200' : 'border-red-200'}`}>
+            <div className={`p-5 flex gap-3 ${valid ? 'bg-green-50' : 'bg-red-50'}`}>
+                <Icon className={`w-7 h-7 flex-shrink-0 ${valid ? 'text-green-600' : 'text-red-600'}`} />
+                <div>
+                    <p className={`text-lg font-bold ${valid ? 'text-green-900' : 'text-red-900'}`}>
+                        {valid ? 'Valid certificate' : 'Revoked certificate'}
+                    </p>
+                    <p className={`text-sm ${valid ? 'text-green-800' : 'text-red-800'}`}>
+                        {valid
+                            ? 'This certificate was issued by the LDCU University Clinic and is still in effect.'
+                            : `This certificate was withdrawn by the clinic${result.revoked_at ? ` on ${format(new Date(result.revoked_at), 'MMMM d, yyyy')}` : ''} and should not be accepted.`}
+                    </p>
+                </div>
+            </div>
+            <dl className="bg-white p-5 grid grid-cols-2 gap-4 text-sm">
+                <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wide">Certificate No.</dt>
+                    <dd className="font-mono font-semibold text-gray-900">{result.certificate_number}</dd>
+                </div>
+                <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wide">Patient</dt>
+                    <dd className="font-semibold text-gray-900">{result.patient_initials || '—'}</dd>
+                </div>
+                <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wide">Date Issued</dt>
+                    <dd className="font-semibold text-gray-900">
+                        {result.issued_at ? format(new Date(result.issued_at), 'MMMM d, yyyy') : '—'}
+                    </dd>
+                </div>
+                <div>
+                    <dt className="text-xs text-gray-500 uppercase tracking-wide">Issuing Campus</dt>
+                    <dd className="font-semibold text-gray-900">{result.campus_name || '—'}</dd>
+                </div>
+            </dl>
+        </div>
+    );
+}
@@ -0,0 +1,520 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Users, Upload, CalendarRange, AlertCircle, Check, X, Square } from 'lucide-react';
+import { useAppointmentStore } from '~/modules/appointments';
+import { useScheduleStore } from '~/modules/schedule';
+import { supabase } from '~/lib/supabase';
+import { sendBookingConfirmation } from '~/lib/email';
+import { parseRoster, listBookableDates, type RosterRow } from '~/lib/groupBooking';
+import { formatDate, formatLocalDate, formatTime } from '~/lib/utils';
+import { appointmentTypeLabel, bookableAppointmentTypes } from '~/lib/appointmentTypes';
+import type { AppointmentType } from '~/types';
+
+const SESSION_TIMES = {
+    AM: { start: '08:00', end: '12:00' },
+    PM: { start: '13:00', end: '17:00' },
+};
+
+// book_appointment() codes meaning "this day (or session) has no room left"
+const DAY_FULL_CODES = ['FULLY_BOOKED', 'FULLY_BOOKED_TYPE', 'FULLY_BOOKED_AM', 'FULLY_BOOKED_PM', 'INVALID_SLOT'];
+
+const FAILURE_LABELS: Record<string, string> = {
+    ALREADY_BOOKED: 'Already has a scheduled appointment',
+    WEEKLY_LIMIT: 'Weekly limit reached for this appointment type',
+    TYPE_NOT_OFFERED: 'This appointment type is not offered at the campus',
+};
+
+interface RowResult {
+    row: RosterRow;
+    status: 'booked' | 'failed';
+    detail: string;
+    emailFailed?: boolean;
+}
+
+interface Candidate {
+    startTime: string;
+    endTime: string;
+}
+
+export function GroupBookingPage() {
+    const { tryBookAppointment, fetchCheckInCode } = useAppointmentStore();
+    const {
+        campuses, fetchCampuses, fetchScheduleConfig, fetchBookingSetting, fetchDayOverrides, generateTimeSlots,
+        appointmentTypes, fetchAppointmentTypes,
+    } = useScheduleStore();
+
+    const [campusId, setCampusId] = useState('');
+    const [appointmentType, setAppointmentType] = useState<AppointmentType>('physical_exam');
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+    const [session, setSession] = useState<'AM' | 'PM'>('AM');
+    const [maxPerDay, setMaxPerDay] = useState('');
+    const [sendConfirmations, setSendConfirmations] = useState(true);
+    const [rosterText, setRosterText] = useState('');
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [results, setResults] = useState<RowResult[]>([]);
+    const [error, setError] = useState('');
+    const stopRef = useRef(false);
+
+    useEffect(() => {
+        fetchCampuses();
+    }, [fetchCampuses]);
+
+    useEffect(() => {
+        if (campuses.length > 0 && !campusId) {
+            setCampusId(campuses[0].id);
+        }
+    }, [campuses, campusId]);
+
+    useEffect(() => {
+        if (campusId) fetchAppointmentTypes(campusId);
+    }, [campusId, fetchAppointmentTypes]);
+
+    const typeOptions = useMemo(() => bookableAppointmentTypes(appointmentTypes), [appointmentTypes]);
+
+    useEffect(() => {
+        if (typeOptions.length > 0 && !typeOptions.some((t) => t.code === appointmentType)) {
+            setAppointmentType(typeOptions[0].code);
+        }
+    }, [typeOptions, appointmentType]);
+
+    const roster = useMemo(() => parseRoster(rosterText), [rosterText]);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setRosterText(await file.text());
+    };
+
+    const handleBook = async () => {
+        setError('');
+        const today = formatLocalDate(new Date());
+        if (!campusId) { setError('Please choose a campus.'); return; }
+        if (!startDate || !endDate) { setError('Please choose a date range.'); return; }
+        if (startDate < today) { setError('The date range cannot start in the past.'); return; }
+        if (endDate < startDate) { setError('The end date must be on or after the start date.'); return; }
+        if (roster.rows.length === 0) { setError('Add at least one student to the roster.'); return; }
+        const fixedCap = maxPerDay ? Number(maxPerDay) : null;
+        if (fixedCap !== null && (!Number.isInteger(fixedCap) || fixedCap < 1)) {
+            setError('Max per day must be a whole number of at least 1.');
+            return;
+        }
+
+        setRunning(true);
+        setProgress(0);
+        setResults([]);
+        stopRef.current = false;
+
+        try {
+            await Promise.all([
+                fetchScheduleConfig(campusId),
+                fetchBookingSetting(campusId),
+                fetchDayOverrides(campusId, startDate, endDate),
+            ]);
+            const { scheduleConfig, bookingSetting, dayOverrides } = useScheduleStore.getState();
+            const slotMode = bookingSetting?.booking_mode === 'slot';
+
+            const disabledWeekdays = new Set(scheduleConfig?.disabled_weekdays || []);
+            if (scheduleConfig?.include_sunday === false) disabledWeekdays.add(0);
+            if (scheduleConfig?.include_saturday === false) disabledWeekdays.add(6);
+
+            const dates = listBookableDates(startDate, endDate, {
+                disabledWeekdays: [...disabledWeekdays],
+                holidayDates: scheduleConfig?.holiday_dates || [],
+                closedDates: Object.values(dayOverrides).filter((o) => o.is_closed).map((o) => o.override_date),
+            });
+            if (dates.length === 0) {
+                setError('The clinic is closed on every day in this range.');
+                return;
+            }
+
+            // Link roster rows to existing accounts so bookings show up for the student.
+            // Roster emails are lower-cased; stored ones may not be, so match case-insensitively
+            // (ilike's wildcards only widen the query, the exact match happens here).
+            const rosterEmails = roster.rows.map((r) => r.email);
+            const { data: profiles, error: profileError } = await supabase
+                .from('profiles')
+                .select('id, email')
+                .ilikeAnyOf('email', rosterEmails);
+            if (profileError) throw profileError;
+            const patientIds = new Map<string, string>();
+            for (const profile of (profiles || []) as { id: string; email: string | null }[]) {
+                const email = profile.email?.toLowerCase();
+                if (email && rosterEmails.includes(email)) patientIds.set(email, profile.id);
+            }
+
+            // book_appointment() only enforces one scheduled appointment per linked patient, so
+            // refuse unlinked rows that already have one under their email (e.g. a re-submitted roster)
+            const unlinkedEmails = rosterEmails.filter((email) => !patientIds.has(email));
+            const alreadyBooked = new Set<string>();
+            if (unlinkedEmails.length > 0) {
+                const { data: existing, error: existingError } = await supabase
+                    .from('appointments')
+                    .select('patient_email')
+                    .is('patient_id', null)
+                    .eq('status', 'scheduled')
+                    .ilikeAnyOf('patient_email', unlinkedEmails);
+                if (existingError) throw existingError;
+                for (const apt of (existing || []) as { patient_email: string | null }[]) {
+                    const email = apt.patient_email?.toLowerCase();
+                    if (email && unlinkedEmails.includes(email)) alreadyBooked.add(email);
+                }
+            }
+
+            // Without a fixed cap, spread students evenly and only overflow once every day has its share
+            let cap = fixedCap ?? Math.ceil(roster.rows.length / dates.length);
+            const fullDates = new Set<string>();
+            const bookedPerDate: Record<string, number> = {};
+            const slotCache: Record<string, Candidate[]> = {};
+
+            const candidatesFor = async (date: string): Promise<Candidate[]> => {
+                if (!slotMode) return [{ startTime: SESSION_TIMES[session].start, endTime: SESSION_TIMES[session].end }];
+                if (!slotCache[date]) {
+                    const [y, m, d] = date.split('-').map(Number);
+                    await generateTimeSlots(new Date(y, m - 1, d), campusId);
+                    slotCache[date] = useScheduleStore.getState().timeSlots
+                        .filter((s) => s.isAvailable && (s.startTime < '12:00') === (session === 'AM'))
+                        .map((s) => ({ startTime: s.startTime, endTime: s.endTime }));
+                }
+                return slotCache[date];
+            };
+
+            const bookRow = async (row: RosterRow): Promise<RowResult> => {
+                if (alreadyBooked.has(row.email)) {
+                    return { row, status: 'failed', detail: FAILURE_LABELS.ALREADY_BOOKED };
+                }
+
+                const notes = [
+                    'Group booking',
+                    row.department && `Department: ${row.department}`,
+                    row.studentId && `Student ID: ${row.studentId}`,
+                ].filter(Boolean).join(' | ');
+
+                for (;;) {
+                    for (const date of dates) {
+                        if (fullDates.has(date) || (bookedPerDate[date] || 0) >= cap) continue;
+
+                        const candidates = await candidatesFor(date);
+                        while (candidates.length > 0) {
+                            const slot = candidates[0];
+                            const attempt = await tryBookAppointment({
+                                patient_id: patientIds.get(row.email) ?? undefined,
+                                campus_id: campusId,
+                                appointment_type: appointmentType,
+                                appointment_date: date,
+                                start_time: slot.startTime,
+                                end_time: slot.endTime,
+                                time_of_day: session,
+                                status: 'scheduled',
+                                notes,
+                                patient_name: row.name,
+                                patient_email: row.email,
+                                booker_role: 'student',
+                            });
+
+                            if ('appointment' in attempt) {
+                                bookedPerDate[date] = (bookedPerDate[date] || 0) + 1;
+                                const when = slotMode
+                                    ? `${formatDate(date)}, ${formatTime(slot.startTime)}`
+                                    : `${formatDate(date)} (${session})`;
+                                let emailFailed = false;
+                                if (sendConfirmations) {
+                                    try {
+                                        const checkInCode = await fetchCheckInCode(attempt.appointment.id).catch(() => undefined);
+                                        await sendBookingConfirmation(
+                                            row.email,
+                                            row.name,
+                                            formatDate(date),
+                                            appointmentTypeLabel(appointmentTypes, appointmentType),
+                                            undefined,
+                                            { id: attempt.appointment.id, checkInCode }
+                                        );
+                                    } catch (emailError) {
+                                        console.error('Failed to send group booking confirmation:', emailError);
+                                        emailFailed = true;
+                                    }
+                                }
+                                return { row, status: 'booked', detail: when, emailFailed };
+                            }
+
+                            if (attempt.code === 'FULLY_BOOKED_SLOT') {
+                                candidates.shift();
+                                continue;
+                            }
+                            if (DAY_FULL_CODES.includes(attempt.code)) break;
+                            return { row, status: 'failed', detail: FAILURE_LABELS[attempt.code] ?? attempt.message };
+                        }
+                        fullDates.add(date);
+                    }
+
+                    // Every day has its even share: let the rest overflow into whatever room is left
+                    if (fixedCap === null && cap !== Infinity) {
+                        cap = Infinity;
+                        continue;
+                    }
+                    return { row, status: 'failed', detail: 'No capacity left in the selected dates' };
+                }
+            };
+
+            for (const row of roster.rows) {
+                if (stopRef.current) break;
+                const result = await bookRow(row);
+                setResults((prev) => [...prev, result]);
+                setProgress((prev) => prev + 1);
+            }
+        } catch (err) {
+            console.error('Group booking failed:', err);
+            setError('Group booking stopped because of an unexpected error. Rows already booked are listed below.');
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const bookedCount = results.filter((r) => r.status === 'booked').length;
+    const failedCount = results.length - bookedCount;
+
+    return (
+        <>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">Group Booking</h1>
+                <p className="text-gray-600">Book a whole class or section across several days at once</p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                        <CalendarRange className="w-5 h-5 text-maroon-800" />
+                        Schedule
+                    </h2>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="block">
+                            <span className="block text-sm font-medium text-gray-700 mb-1">Campus</span>
+                            <select
+                                value={campusId}
+                                onChange={(e) => setCampusId(e.target.value)}
+                                disabled={running}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                            >
+                                {campuses.map((campus) => (
+                                    <option key={campus.id} value={campus.id}>{campus.name}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="block text-sm font-medium text-gray-700 mb-1">Appointment Type</span>
+                            <select
+                                value={appointmentType}
+                                onChange={(e) => setAppointmentType(e.target.value as AppointmentType)}
+                                disabled={running}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                            >
+                                {typeOptions.map((type) => (
+                                    <option key={type.code} value={type.code}>{type.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="block text-sm font-medium text-gray-700 mb-1">From</span>
+                            <input
+                                type="date"
+                                value={startDate}
+                                min={formatLocalDate(new Date())}
+                                onChange={(e) => setStartDate(e.target.value)}
+                                disabled={running}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                            />
+                        </label>
+                        <label className="block">
+                            <span className="block text-sm font-medium text-gray-700 mb-1">To</span>
+                            <input
+                                type="date"
+                                value={endDate}
+                                min={startDate || formatLocalDate(new Date())}
+                                onChange={(e) => setEndDate(e.target.value)}
+                                disabled={running}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                            />
+                        </label>
+                        <div>
+                            <span className="block text-sm font-medium text-gray-700 mb-1">Session</span>
+                            <div className="flex gap-2">
+                                {(['AM', 'PM'] as const).map((value) => (
+                                    <button
+                                        key={value}
+                                        type="button"
+                                        onClick={() => setSession(value)}
+                                        disabled={running}
+                                        className={`flex-1 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                                            session === value
+                                                ? 'bg-maroon-800 border-maroon-800 text-white'
+                                                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                        }`}
+                                    >
+                                        {value === 'AM' ? 'Morning' : 'Afternoon'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="block">
+                            <span className="block text-sm font-medium text-gray-700 mb-1">Max per day</span>
+                            <input
+                                type="number"
+                                min={1}
+                                placeholder="Spread evenly"
+                                value={maxPerDay}
+                                onChange={(e) => setMaxPerDay(e.target.value)}
+                                disabled={running}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                            />
+                        </label>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={sendConfirmations}
+                            onChange={(e) => setSendConfirmations(e.target.checked)}
+                            disabled={running}
+                            className="rounded border-gray-300 text-maroon-800 focus:ring-maroon-500"
+                        />
+                        Email a booking confirmation to each student
+                    </label>
+                    <p className="text-xs text-gray-500">
+                        Closed days, holidays and disabled weekdays are skipped. Each booking goes through the normal capacity,
+                        session and weekly-limit checks, so full days roll over to the next open day.
+                    </p>
+                </div>
+
+                <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+                    <div className="flex items-center justify-between gap-2">
+                        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                            <Users className="w-5 h-5 text-maroon-800" />
+                            Roster
+                        </h2>
+                        <label className={`px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors flex items-center gap-1.5 ${running ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                            <Upload className="w-4 h-4" />
+                            Upload CSV
+                            <input
+                                type="file"
+                                accept=".csv,.txt,text/csv"
+                                className="hidden"
+                                onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+                            />
+                        </label>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                        One student per line: <span className="font-mono text-xs">name, email, student ID, department</span>.
+                        You can also paste cells straight from a spreadsheet. A header row is optional.
+                    </p>
+                    <textarea
+                        value={rosterText}
+                        onChange={(e) => setRosterText(e.target.value)}
+                        disabled={running}
+                        rows={10}
+                        placeholder={'Juan Dela Cruz, juan.delacruz@example.com, 2024-00123, BS Nursing'}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none font-mono text-xs"
+                    />
+                    {rosterText.trim() && (
+                        <div className="text-sm">
+                            <p className="text-gray-700">
+                                <span className="font-semibold">{roster.rows.length}</span> student{roster.rows.length === 1 ? '' : 's'} ready
+                                {roster.errors.length > 0 && (
+                                    <span className="text-red-600">, {roster.errors.length} line{roster.errors.length === 1 ? '' : 's'} skipped</span>
+                                )}
+                            </p>
+                            {roster.errors.length > 0 && (
+                                <ul className="mt-2 max-h-28 overflow-y-auto text-xs text-red-600 space-y-0.5">
+                                    {roster.errors.map((e) => (
+                                        <li key={e.line}>Line {e.line}: {e.message}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="mb-6 flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg">
+                    <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                    <p className="text-sm">{error}</p>
+                </div>
+            )}
+
+            <div className="mb-6 flex flex-wrap items-center gap-3">
+                <button
+                    onClick={handleBook}
+                    disabled={running || roster.rows.length === 0}
+                    className="px-6 py-2 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2 cursor-pointer"
+                >
+                    {running ? (
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                    ) : (
+                        <Users className="w-4 h-4" />
+                    )}
+                    {running ? `Booking ${progress} of ${roster.rows.length}...` : `Book ${roster.rows.length} Student${roster.rows.length === 1 ? '' : 's'}`}
+                </button>
+                {running && (
+                    <button
+                        onClick={() => { stopRef.current = true; }}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+                    >
+                        <Square className="w-4 h-4" />
+                        Stop
+                    </button>
+                )}
+            </div>
+
+            {results.length > 0 && (
+                <div className="bg-white rounded-xl shadow-md p-6">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <h2 className="text-lg font-semibold text-gray-900">Results</h2>
+                        <p className="text-sm text-gray-600">
+                            <span className="text-green-700 font-semibold">{bookedCount} booked</span>
+                            {' · '}
+                            <span className={failedCount > 0 ? 'text-red-600 font-semibold' : ''}>{failedCount} failed</span>
+                        </p>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500 uppercase tracking-wide">
+                                    <th className="py-2 pr-4">Line</th>
+                                    <th className="py-2 pr-4">Student</th>
+                                    <th className="py-2 pr-4">Email</th>
+                                    <th className="py-2 pr-4">Result</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {results.map((result) => (
+                                    <tr key={result.row.line} className="border-t border-gray-100">
+                                        <td className="py-2 pr-4 text-gray-500">{result.row.line}</td>
+                                        <td className="py-2 pr-4 font-medium text-gray-800">
+                                            {result.row.name}
+                                            {result.row.studentId && <span className="block text-xs text-gray-500">{result.row.studentId}</span>}
+                                        </td>
+                                        <td className="py-2 pr-4 text-gray-600">{result.row.email}</td>
+                                        <td className="py-2 pr-4">
+                                            {result.status === 'booked' ? (
+                                                <span className="flex items-center gap-1.5 text-green-700">
+                                                    <Check className="w-4 h-4 flex-shrink-0" />
+                                                    {result.detail}
+                                                    {result.emailFailed && <span className="text-xs text-amber-600">(confirmation email failed)</span>}
+                                                </span>
+                                            ) : (
+                                                <span className="flex items-center gap-1.5 text-red-600">
+                                                    <X className="w-4 h-4 flex-shrink-0" />
+                                                    {result.detail}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { PackageCheck, RefreshCw, AlertTriangle, CalendarClock } from 'lucide-react';
+import { useScheduleStore } from '~/modules/schedule';
+import { useInventoryStore } from '~/modules/inventory';
+import { EXPIRY_WARNING_DAYS, daysUntil, summarizeItemStock } from '~/lib/inventory';
+
+const WARNING_WINDOWS = [30, EXPIRY_WARNING_DAYS, 90];
+
+export function InventoryDashboardPage() {
+    const { campuses, fetchCampuses } = useScheduleStore();
+    const { items, lots, isLoading, fetchInventory } = useInventoryStore();
+    const [warnDays, setWarnDays] = useState(EXPIRY_WARNING_DAYS);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    useEffect(() => {
+        fetchCampuses();
+        fetchInventory();
+    }, [fetchCampuses, fetchInventory]);
+
+    // Only campuses with something to act on
+    const campusAlerts = useMemo(() => {
+        return campuses
+            .map((campus) => {
+                const summaries = items
+                    .filter((i) => i.campus_id === campus.id && i.is_active)
+                    .map((item) => summarizeItemStock(item, lots, today, warnDays));
+                return {
+                    campus,
+                    lowStock: summaries.filter((s) => s.lowStock),
+                    expiring: summaries.flatMap((s) => s.expiringLots.map((lot) => ({ item: s.item, lot }))),
+                    expired: summaries.flatMap((s) => s.expiredLots.map((lot) => ({ item: s.item, lot }))),
+                };
+            })
+            .filter((a) => a.lowStock.length + a.expiring.length + a.expired.length > 0);
+    }, [campuses, items, lots, today, warnDays]);
+
+    return (
+        <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Inventory Alerts</h1>
+                    <p className="text-gray-600 text-sm">Low-stock and expiring medicines and supplies across campuses</p>
+                </div>
+                <div className="flex gap-2">
+                    <select
+                        value={warnDays}
+                        onChange={(e) => setWarnDays(Number(e.target.value))}
+                        className="h-[42px] px-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm cursor-pointer"
+                    >
+                        {WARNING_WINDOWS.map((days) => (
+                            <option key={days} value={days}>Expiring within {days} days</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => fetchInventory()}
+                        className="h-[42px] px-3 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 text-gray-600"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-16">
+                    <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                </div>
+            ) : campusAlerts.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                    <PackageCheck className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-600 font-medium">Nothing needs attention</p>
+                    <p className="text-gray-400 text-sm mt-1">Every campus is above its reorder levels with no stock expiring soon.</p>
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {campusAlerts.map(({ campus, lowStock, expiring, expired }) => (
+                        <div key={campus.id} className="bg-white rounded-xl shadow-md p-4 sm:p-5">
+                            <div className="flex items-center justify-between mb-4">
+                                <h2 className="text-lg font-semibold text-gray-900">{campus.name}</h2>
+                                <Link to={`/inventory?campus=${campus.id}`} className="text-sm text-maroon-800 hover:underline">
+                                    Manage stock
+                                </Link>
+                            </div>
+
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                <div>
+                                    <h3 className="text-sm font-semibold text-red-700 mb-2 flex items-center gap-1.5">
+                                        <AlertTriangle className="w-4 h-4" />
+                                        Low stock ({lowStock.length})
+                                    </h3>
+                                    {lowStock.length === 0 ? (
+                                        <p className="text-sm text-gray-400">None</p>
+                                    ) : (
+                                        <div className="divide-y divide-gray-100">
+                                            {lowStock.map(({ item, usable }) => (
+                                                <div key={item.id} className="py-2 flex items-center justify-between text-sm">
+                                                    <span className="text-gray-900">{item.name}</span>
+                                                    <span className="text-gray-600 whitespace-nowrap">
+                                                        <span className="font-semibold text-red-700">{usable}</span> / reorder at {item.reorder_level} {item.unit}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <h3 className="text-sm font-semibold text-amber-700 mb-2 flex items-center gap-1.5">
+                                        <CalendarClock className="w-4 h-4" />
+                                        Expired or expiring ({expired.length + expiring.length})
+                                    </h3>
+                                    {expired.length + expiring.length === 0 ? (
+                                        <p className="text-sm text-gray-400">None</p>
+                                    ) : (
+                                        <div className="divide-y divide-gray-100">
+                                            {[...expired, ...expiring].map(({ item, lot }) => {
+                                                const days = daysUntil(lot.expiry_date!, today);
+                                                return (
+                                                    <div key={lot.id} className="py-2 flex items-center justify-between gap-2 text-sm">
+                                                        <div className="min-w-0">
+                                                            <p className="text-gray-900">{item.name}</p>
+                                                            <p className="text-xs text-gray-500">
+                                                                Lot {lot.lot_number} · {lot.quantity_on_hand} {item.unit}
+                                                            </p>
+                                                        </div>
+                                                        <span className={`px-2 py-0.5 text-xs rounded border whitespace-nowrap ${days < 0
+                                                            ? 'bg-red-50 text-red-700 border-red-200'
+                                                            : 'bg-amber-50 text-amber-700 border-amber-200'
+                                                            }`}>
+                                                            {days < 0 ? 'Expired' : days === 0 ? 'Expires today' : `${days} day${days === 1 ? '' : 's'}`}
+                                                            {' · '}
+                                                            {format(parseISO(lot.expiry_date!), 'MMM d, yyyy')}
+                                                        </span>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,673 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Package, Plus, Search, RefreshCw, Check, AlertCircle, ArrowDownToLine, ArrowUpFromLine, History, Pencil, X } from 'lucide-react';
+import { useAuthStore } from '~/modules/auth';
+import { useScheduleStore } from '~/modules/schedule';
+import { useInventoryStore, type StockInFields } from '~/modules/inventory';
+import { INVENTORY_CATEGORIES, lotExpiryStatus, summarizeItemStock, type ItemStockSummary, type LotExpiryStatus } from '~/lib/inventory';
+import { inventoryItemSchema, stockInSchema, stockOutSchema } from '~/lib/validation';
+import type { InventoryCategory, InventoryItem, InventoryItemFields, InventoryMovement, InventoryMovementType } from '~/types';
+
+type CategoryFilter = InventoryCategory | '';
+
+type Dialog =
+    | { kind: 'item'; item: InventoryItem | null }
+    | { kind: 'stock_in'; summary: ItemStockSummary }
+    | { kind: 'stock_out'; summary: ItemStockSummary }
+    | { kind: 'history'; summary: ItemStockSummary };
+
+const EXPIRY_BADGES: Record<LotExpiryStatus, { label: string; className: string }> = {
+    expired: { label: 'Expired', className: 'bg-red-50 text-red-700 border-red-200' },
+    expiring: { label: 'Expiring', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+    ok: { label: 'OK', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+    no_expiry: { label: 'No expiry', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+};
+
+const MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+    stock_in: 'Received',
+    stock_out: 'Removed',
+    dispense: 'Dispensed to a patient',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm';
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+export function InventoryPage() {
+    const { profile } = useAuthStore();
+    const { campuses, fetchCampuses } = useScheduleStore();
+    const { items, lots, isLoading, fetchInventory, fetchMovements, saveItem, receiveStock, recordStockOut } = useInventoryStore();
+
+    // Nurses manage their own campus only; the database enforces the same rule
+    const ownCampusId = profile?.role === 'nurse'
+        ? profile.assigned_campus_id ?? profile.campus_id ?? ''
+        : null;
+    const [searchParams] = useSearchParams();
+    const [selectedCampus, setSelectedCampus] = useState(searchParams.get('campus') ?? '');
+    const campusId = ownCampusId ?? selectedCampus;
+
+    const [search, setSearch] = useState('');
+    const [categoryFilter, setCategoryFilter] = useState<CategoryFilter>('');
+    const [showRetired, setShowRetired] = useState(false);
+    const [dialog, setDialog] = useState<Dialog | null>(null);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    useEffect(() => {
+        fetchCampuses();
+    }, [fetchCampuses]);
+
+    useEffect(() => {
+        if (ownCampusId === null && campuses.length > 0 && !selectedCampus) {
+            setSelectedCampus(campuses[0].id);
+        }
+    }, [campuses, selectedCampus, ownCampusId]);
+
+    useEffect(() => {
+        if (campusId) fetchInventory(campusId);
+    }, [campusId, fetchInventory]);
+
+    const summaries = useMemo(
+        () => items.filter((i) => i.campus_id === campusId).map((item) => summarizeItemStock(item, lots, today)),
+        [items, lots, campusId, today]
+    );
+
+    const visibleSummaries = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return summaries.filter(({ item }) => {
+            if (!showRetired && !item.is_active) return false;
+            if (categoryFilter && item.category !== categoryFilter) return false;
+            return !term || item.name.toLowerCase().includes(term);
+        });
+    }, [summaries, search, categoryFilter, showRetired]);
+
+    const counts = useMemo(() => ({
+        active: summaries.filter((s) => s.item.is_active).length,
+        lowStock: summaries.filter((s) => s.lowStock).length,
+        expiring: summaries.filter((s) => s.expiringLots.length > 0).length,
+        expired: summaries.filter((s) => s.expiredLots.length > 0).length,
+    }), [summaries]);
+
+    const campusName = campuses.find((c) => c.id === campusId)?.name;
+
+    const handleDone = (text: string) => {
+        setDialog(null);
+        setMessage({ text, type: 'success' });
+    };
+
+    if (ownCampusId === '') {
+        return (
+            <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                <Package className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600 font-medium">No campus assigned</p>
+                <p className="text-gray-400 text-sm mt-1">Ask a supervisor to assign you to a campus to manage its inventory.</p>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Inventory</h1>
+                    <p className="text-gray-600 text-sm">Medicines and supplies{campusName ? ` at ${campusName}` : ''}</p>
+                </div>
+                <div className="flex gap-2 w-full sm:w-auto">
+                    {ownCampusId === null && (
+                        <select
+                            value={selectedCampus}
+                            onChange={(e) => setSelectedCampus(e.target.value)}
+                            className="h-[42px] flex-1 sm:w-[220px] px-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm cursor-pointer"
+                        >
+                            {campuses.map((campus) => (
+                                <option key={campus.id} value={campus.id}>
+                                    {campus.name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                    <button
+                        onClick={() => campusId && fetchInventory(campusId)}
+                        className="h-[42px] px-3 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 text-gray-600"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setDialog({ kind: 'item', item: null })}
+                        disabled={!campusId}
+                        className="h-[42px] px-4 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2 whitespace-nowrap"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add Item
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+                {[
+                    { label: 'Items tracked', value: counts.active, className: 'text-gray-900' },
+                    { label: 'Low stock', value: counts.lowStock, className: 'text-red-700' },
+                    { label: 'Expiring soon', value: counts.expiring, className: 'text-amber-700' },
+                    { label: 'Expired on shelf', value: counts.expired, className: 'text-red-700' },
+                ].map((card) => (
+                    <div key={card.label} className="bg-white rounded-xl shadow-md p-4">
+                        <p className="text-xs text-gray-500 uppercase tracking-wide">{card.label}</p>
+                        <p className={`text-2xl font-bold ${card.className}`}>{card.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+                <div className="relative sm:w-[280px]">
+                    <Search className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search items"
+                        className="h-[42px] w-full pl-9 pr-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm"
+                    />
+                </div>
+                <div className="flex gap-2 overflow-x-auto">
+                    {[{ value: '' as CategoryFilter, label: 'All' }, ...INVENTORY_CATEGORIES].map((tab) => (
+                        <button
+                            key={tab.label}
+                            onClick={() => setCategoryFilter(tab.value)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors whitespace-nowrap ${categoryFilter === tab.value
+                                ? 'bg-maroon-800 text-white border-maroon-800'
+                                : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'
+                                }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer sm:ml-auto">
+                    <input
+                        type="checkbox"
+                        checked={showRetired}
+                        onChange={(e) => setShowRetired(e.target.checked)}
+                        className="w-4 h-4 accent-maroon-800 cursor-pointer"
+                    />
+                    Show retired items
+                </label>
+            </div>
+
+            {message && (
+                <div className={`flex items-center gap-2 p-3 mb-4 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <Check className="w-4 h-4 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+                    <p>{message.text}</p>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-16">
+                    <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                </div>
+            ) : visibleSummaries.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                    <Package className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-600 font-medium">No items found</p>
+                    <p className="text-gray-400 text-sm mt-1">Add the medicines and supplies this clinic keeps in stock.</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase tracking-wide border-b border-gray-100">
+                                <th className="py-3 px-4">Item</th>
+                                <th className="py-3 px-4">Usable Stock</th>
+                                <th className="py-3 px-4">Reorder At</th>
+                                <th className="py-3 px-4">Next Expiry</th>
+                                <th className="py-3 px-4 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleSummaries.map((summary) => {
+                                const { item } = summary;
+                                const nextLot = summary.lots.find((l) => l.expiry_date && lotExpiryStatus(l, today) !== 'expired');
+                                return (
+                                    <tr key={item.id} className={`border-t border-gray-100 align-top ${item.is_active ? '' : 'opacity-50'}`}>
+                                        <td className="py-3 px-4">
+                                            <p className="font-semibold text-gray-900">{item.name}</p>
+                                            <p className="text-xs text-gray-500 capitalize">
+                                                {item.category} · per {item.unit}
+                                                {!item.is_active && ' · retired'}
+                                            </p>
+                                        </td>
+                                        <td className="py-3 px-4">
+                                            <div className="flex items-center gap-2 flex-wrap">
+                                                <span className="font-semibold text-gray-900">{summary.usable}</span>
+                                                {summary.lowStock && (
+                                                    <span className="px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border bg-red-50 text-red-700 border-red-200">
+                                                        Low
+                                                    </span>
+                                                )}
+                                            </div>
+                                            {summary.expired > 0 && (
+                                                <p className="text-xs text-red-600">+{summary.expired} expired, awaiting disposal</p>
+                                            )}
+                                        </td>
+                                        <td className="py-3 px-4 text-gray-700">{item.reorder_level}</td>
+                                        <td className="py-3 px-4">
+                                            {nextLot?.expiry_date ? (
+                                                <span className={`px-2 py-0.5 text-xs rounded border ${EXPIRY_BADGES[lotExpiryStatus(nextLot, today)].className}`}>
+                                                    {formatDate(nextLot.expiry_date)}
+                                                </span>
+                                            ) : (
+                                                <span className="text-gray-400">—</span>
+                                            )}
+                                        </td>
+                                        <td className="py-3 px-4">
+                                            <div className="flex justify-end gap-1">
+                                                <button
+                                                    onClick={() => setDialog({ kind: 'stock_in', summary })}
+                                                    disabled={!item.is_active}
+                                                    className="p-2 text-gray-500 hover:text-maroon-800 hover:bg-maroon-50 rounded-lg disabled:opacity-30"
+                                                    title="Receive stock"
+                                                >
+                                                    <ArrowDownToLine className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => setDialog({ kind: 'stock_out', summary })}
+                                                    disabled={summary.lots.length === 0}
+                                                    className="p-2 text-gray-500 hover:text-maroon-800 hover:bg-maroon-50 rounded-lg disabled:opacity-30"
+                                                    title="Remove stock"
+                                                >
+                                                    <ArrowUpFromLine className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => setDialog({ kind: 'history', summary })}
+                                                    className="p-2 text-gray-500 hover:text-maroon-800 hover:bg-maroon-50 rounded-lg"
+                                                    title="Lots and history"
+                                                >
+                                                    <History className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => setDialog({ kind: 'item', item })}
+                                                    className="p-2 text-gray-500 hover:text-maroon-800 hover:bg-maroon-50 rounded-lg"
+                                                    title="Edit item"
+                                                >
+                                                    <Pencil className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {dialog?.kind === 'item' && (
+                <ItemDialog
+                    item={dialog.item}
+                    onClose={() => setDialog(null)}
+                    onSave={async (fields) => {
+                        const saved = await saveItem(campusId, fields, dialog.item?.id);
+                        handleDone(dialog.item ? `${saved.name} updated.` : `${saved.name} added.`);
+                    }}
+                />
+            )}
+            {dialog?.kind === 'stock_in' && (
+                <StockInDialog
+                    summary={dialog.summary}
+                    onClose={() => setDialog(null)}
+                    onSave={async (fields) => {
+                        await receiveStock(dialog.summary.item.id, fields);
+                        handleDone(`Received ${fields.quantity} ${dialog.summary.item.unit} of ${dialog.summary.item.name}.`);
+                    }}
+                />
+            )}
+            {dialog?.kind === 'stock_out' && (
+                <StockOutDialog
+                    summary={dialog.summary}
+                    today={today}
+                    onClose={() => setDialog(null)}
+                    onSave={async (lotId, quantity, reason) => {
+                        await recordStockOut(lotId, quantity, reason);
+                        handleDone(`Removed ${quantity} ${dialog.summary.item.unit} of ${dialog.summary.item.name}.`);
+                    }}
+                />
+            )}
+            {dialog?.kind === 'history' && (
+                <HistoryDialog
+                    summary={dialog.summary}
+                    today={today}
+                    fetchMovements={fetchMovements}
+                    onClose={() => setDialog(null)}
+                />
+            )}
+        </>
+    );
+}
+
+function DialogShell({ title, subtitle, onClose, children }: { title: string; subtitle?: string; onClose: () => void; children: React.ReactNode }) {
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden">
+                <div className="flex-shrink-0 px-6 py-4 flex items-center justify-between bg-maroon-900 text-white">
+                    <div>
+                        <h3 className="text-lg font-bold">{title}</h3>
+                        {subtitle && <p className="text-sm text-maroon-100">{subtitle}</p>}
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-maroon-800 rounded-full transition-colors text-maroon-100 hover:text-white">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="p-6 overflow-y-auto">{children}</div>
+            </div>
+        </div>
+    );
+}
+
+function DialogActions({ saving, label, error, onClose }: { saving: boolean; label: string; error: string; onClose: () => void }) {
+    return (
+        <>
+            {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+            <div className="mt-6 flex justify-end gap-2">
+                <button type="button" onClick={onClose} className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50">
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors"
+                >
+                    {saving ? 'Saving...' : label}
+                </button>
+            </div>
+        </>
+    );
+}
+
+// Runs a dialog's save, keeping it open with the error when the database refuses
+function useDialogSave() {
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const run = async (save: () => Promise<void>) => {
+        setSaving(true);
+        setError('');
+        try {
+            await save();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+    return { saving, error, setError, run };
+}
+
+function ItemDialog({ item, onClose, onSave }: {
+    item: InventoryItem | null;
+    onClose: () => void;
+    onSave: (fields: InventoryItemFields) => Promise<void>;
+}) {
+    const [name, setName] = useState(item?.name ?? '');
+    const [category, setCategory] = useState<InventoryCategory>(item?.category ?? 'medicine');
+    const [unit, setUnit] = useState(item?.unit ?? 'pc');
+    const [reorderLevel, setReorderLevel] = useState(String(item?.reorder_level ?? 0));
+    const [notes, setNotes] = useState(item?.notes ?? '');
+    const [isActive, setIsActive] = useState(item?.is_active ?? true);
+    const { saving, error, setError, run } = useDialogSave();
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = inventoryItemSchema.safeParse({ name, category, unit, reorderLevel: Number(reorderLevel), notes });
+        if (!result.success) {
+            setError(result.error.issues[0]?.message ?? 'Please check the item details.');
+            return;
+        }
+        const { data } = result;
+        run(() => onSave({
+            name: data.name,
+            category: data.category,
+            unit: data.unit,
+            reorder_level: data.reorderLevel,
+            notes: data.notes?.trim() || null,
+            is_active: isActive,
+        }));
+    };
+
+    return (
+        <DialogShell title={item ? 'Edit Item' : 'Add Item'} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input type="text" value={name} maxLength={120} onChange={(e) => setName(e.target.value)} placeholder="e.g. Paracetamol 500mg" className={inputClass} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                        <select value={category} onChange={(e) => setCategory(e.target.value as InventoryCategory)} className={`${inputClass} cursor-pointer`}>
+                            {INVENTORY_CATEGORIES.map((c) => (
+                                <option key={c.value} value={c.value}>{c.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Unit</label>
+                        <input type="text" value={unit} maxLength={30} onChange={(e) => setUnit(e.target.value)} placeholder="tablet, bottle, box" className={inputClass} />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reorder level</label>
+                    <input type="number" min={0} value={reorderLevel} onChange={(e) => setReorderLevel(e.target.value)} className={inputClass} />
+                    <p className="text-xs text-gray-500 mt-1">Flagged as low stock once usable stock falls to this number.</p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <textarea value={notes} maxLength={500} rows={2} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+                </div>
+                {item && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                        <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} className="w-4 h-4 accent-maroon-800 cursor-pointer" />
+                        Still stocked (untick to retire the item)
+                    </label>
+                )}
+                <DialogActions saving={saving} label={item ? 'Save Changes' : 'Add Item'} error={error} onClose={onClose} />
+            </form>
+        </DialogShell>
+    );
+}
+
+function StockInDialog({ summary, onClose, onSave }: {
+    summary: ItemStockSummary;
+    onClose: () => void;
+    onSave: (fields: StockInFields) => Promise<void>;
+}) {
+    const [lotNumber, setLotNumber] = useState('');
+    const [expiryDate, setExpiryDate] = useState('');
+    const [quantity, setQuantity] = useState('');
+    const [notes, setNotes] = useState('');
+    const { saving, error, setError, run } = useDialogSave();
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = stockInSchema.safeParse({ lotNumber, expiryDate: expiryDate || undefined, quantity: Number(quantity), notes });
+        if (!result.success) {
+            setError(result.error.issues[0]?.message ?? 'Please check the delivery details.');
+            return;
+        }
+        const { data } = result;
+        run(() => onSave({
+            lot_number: data.lotNumber,
+            expiry_date: data.expiryDate ?? null,
+            quantity: data.quantity,
+            notes: data.notes?.trim() || null,
+        }));
+    };
+
+    return (
+        <DialogShell title="Receive Stock" subtitle={summary.item.name} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Lot / batch no.</label>
+                        <input type="text" value={lotNumber} maxLength={60} onChange={(e) => setLotNumber(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Expiry date</label>
+                        <input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Quantity ({summary.item.unit})</label>
+                    <input type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClass} />
+                    <p className="text-xs text-gray-500 mt-1">Receiving the same lot number and expiry again adds to that lot.</p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                    <input type="text" value={notes} maxLength={500} onChange={(e) => setNotes(e.target.value)} placeholder="Supplier, delivery receipt no." className={inputClass} />
+                </div>
+                <DialogActions saving={saving} label="Receive" error={error} onClose={onClose} />
+            </form>
+        </DialogShell>
+    );
+}
+
+function StockOutDialog({ summary, today, onClose, onSave }: {
+    summary: ItemStockSummary;
+    today: string;
+    onClose: () => void;
+    onSave: (lotId: string, quantity: number, reason: string) => Promise<void>;
+}) {
+    // Expired lots come first so disposing of them is the default
+    const [lotId, setLotId] = useState(summary.lots[0]?.id ?? '');
+    const [quantity, setQuantity] = useState('');
+    const [reason, setReason] = useState('');
+    const { saving, error, setError, run } = useDialogSave();
+    const lot = summary.lots.find((l) => l.id === lotId);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const result = stockOutSchema.safeParse({ quantity: Number(quantity), reason });
+        if (!result.success) {
+            setError(result.error.issues[0]?.message ?? 'Please check the quantity and reason.');
+            return;
+        }
+        if (!lot) {
+            setError('Please choose a lot.');
+            return;
+        }
+        if (result.data.quantity > lot.quantity_on_hand) {
+            setError(`Only ${lot.quantity_on_hand} left in lot ${lot.lot_number}.`);
+            return;
+        }
+        run(() => onSave(lot.id, result.data.quantity, result.data.reason));
+    };
+
+    return (
+        <DialogShell title="Remove Stock" subtitle={summary.item.name} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Lot</label>
+                    <select value={lotId} onChange={(e) => setLotId(e.target.value)} className={`${inputClass} cursor-pointer`}>
+                        {summary.lots.map((l) => (
+                            <option key={l.id} value={l.id}>
+                                {l.lot_number} — {l.quantity_on_hand} left
+                                {l.expiry_date ? `, exp. ${formatDate(l.expiry_date)}` : ''}
+                                {lotExpiryStatus(l, today) === 'expired' ? ' (expired)' : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Quantity ({summary.item.unit})</label>
+                    <input type="number" min={1} max={lot?.quantity_on_hand} value={quantity} onChange={(e) => setQuantity(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                    <input type="text" value={reason} maxLength={500} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Expired, damaged, count correction" className={inputClass} />
+                </div>
+                <DialogActions saving={saving} label="Remove" error={error} onClose={onClose} />
+            </form>
+        </DialogShell>
+    );
+}
+
+function HistoryDialog({ summary, today, fetchMovements, onClose }: {
+    summary: ItemStockSummary;
+    today: string;
+    fetchMovements: (itemId: string) => Promise<InventoryMovement[]>;
+    onClose: () => void;
+}) {
+    const [movements, setMovements] = useState<InventoryMovement[] | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchMovements(summary.item.id)
+            .then(setMovements)
+            .catch((err) => {
+                console.error('Error fetching inventory movements:', err);
+                setError('Failed to load the stock history.');
+            });
+    }, [summary.item.id, fetchMovements]);
+
+    return (
+        <DialogShell title="Lots & History" subtitle={summary.item.name} onClose={onClose}>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Lots in stock</h4>
+            {summary.lots.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-6">Nothing in stock.</p>
+            ) : (
+                <div className="space-y-2 mb-6">
+                    {summary.lots.map((lot) => {
+                        const badge = EXPIRY_BADGES[lotExpiryStatus(lot, today)];
+                        return (
+                            <div key={lot.id} className="flex items-center justify-between gap-2 text-sm border border-gray-100 rounded-lg px-3 py-2">
+                                <div>
+                                    <p className="font-mono text-gray-900">{lot.lot_number}</p>
+                                    <p className="text-xs text-gray-500">{lot.expiry_date ? `Expires ${formatDate(lot.expiry_date)}` : 'No expiry date'}</p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className={`px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border ${badge.className}`}>{badge.label}</span>
+                                    <span className="font-semibold text-gray-900">{lot.quantity_on_hand}</span>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Movements</h4>
+            {error ? (
+                <p className="text-sm text-red-600">{error}</p>
+            ) : movements === null ? (
+                <div className="flex justify-center py-6">
+                    <div className="w-8 h-8 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                </div>
+            ) : movements.length === 0 ? (
+                <p className="text-sm text-gray-500">No stock movements yet.</p>
+            ) : (
+                <div className="divide-y divide-gray-100">
+                    {movements.map((m) => (
+                        <div key={m.id} className="py-2 text-sm flex items-start justify-between gap-3">
+                            <div className="min-w-0">
+                                <p className="text-gray-900">
+                                    {MOVEMENT_LABELS[m.movement_type]}
+                                    {m.lot ? ` · lot ${m.lot.lot_number}` : ''}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                    {format(parseISO(m.created_at), 'MMM d, yyyy h:mm a')}
+                                    {m.actor_name ? ` · ${m.actor_name}` : ''}
+                                </p>
+                                {m.reason && <p className="text-xs text-gray-600 mt-0.5">{m.reason}</p>}
+                            </div>
+                            <div className="text-right whitespace-nowrap">
+                                <p className={`font-semibold ${m.movement_type === 'stock_in' ? 'text-emerald-700' : 'text-red-700'}`}>
+                                    {m.movement_type === 'stock_in' ? '+' : '−'}{m.quantity}
+                                </p>
+                                <p className="text-xs text-gray-500">{m.balance_after} left</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </DialogShell>
+    );
+}
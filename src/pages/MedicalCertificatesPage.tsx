@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { FileBadge, Printer, Ban, Search, Check, AlertCircle, RefreshCw } from 'lucide-react';
+import { useCertificateStore, openCertificatePrint } from '~/modules/certificates';
+import type { MedicalCertificate } from '~/types';
+
+type StatusFilter = 'valid' | 'revoked' | '';
+
+const STATUS_TABS: { value: StatusFilter; label: string }[] = [
+    { value: 'valid', label: 'Valid' },
+    { value: 'revoked', label: 'Revoked' },
+    { value: '', label: 'All' },
+];
+
+export function MedicalCertificatesPage() {
+    const { certificates, fetchCertificates, revokeCertificate, isLoading } = useCertificateStore();
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('valid');
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+    const [revokeReason, setRevokeReason] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    useEffect(() => {
+        fetchCertificates();
+    }, [fetchCertificates]);
+
+    const visibleCertificates = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return certificates.filter((c) => {
+            if (statusFilter === 'valid' && c.revoked_at) return false;
+            if (statusFilter === 'revoked' && !c.revoked_at) return false;
+            if (!term) return true;
+            return (
+                c.certificate_number.toLowerCase().includes(term) ||
+                c.patient_name.toLowerCase().includes(term) ||
+                (c.patient_id_number ?? '').toLowerCase().includes(term)
+            );
+        });
+    }, [certificates, search, statusFilter]);
+
+    const handleRevoke = async (certificate: MedicalCertificate) => {
+        if (!revokeReason.trim()) return;
+        setBusyId(certificate.id);
+        setMessage(null);
+        try {
+            await revokeCertificate(certificate.id, revokeReason.trim());
+            setRevokingId(null);
+            setRevokeReason('');
+            setMessage({ text: `Certificate ${certificate.certificate_number} revoked.`, type: 'success' });
+        } catch (err) {
+            setMessage({ text: err instanceof Error ? err.message : 'Failed to revoke the certificate.', type: 'error' });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Medical Certificates</h1>
+                    <p className="text-gray-600 text-sm">Certificates issued from completed appointments</p>
+                </div>
+                <div className="flex gap-2 w-full sm:w-auto">
+                    <div className="relative flex-1 sm:w-[280px]">
+                        <Search className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Certificate no., patient or ID"
+                            className="h-[42px] w-full pl-9 pr-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm"
+                        />
+                    </div>
+                    <button
+                        onClick={() => fetchCertificates()}
+                        className="h-[42px] px-3 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 text-gray-600"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex gap-2 mb-4 overflow-x-auto">
+                {STATUS_TABS.map((tab) => (
+                    <button
+                        key={tab.label}
+                        onClick={() => setStatusFilter(tab.value)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors whitespace-nowrap ${statusFilter === tab.value
+                            ? 'bg-maroon-800 text-white border-maroon-800'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'
+                            }`}
+                    >
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            {message && (
+                <div className={`flex items-center gap-2 p-3 mb-4 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <Check className="w-4 h-4 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+                    <p>{message.text}</p>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-16">
+                    <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                </div>
+            ) : visibleCertificates.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                    <FileBadge className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-600 font-medium">No {statusFilter || ''} certificates</p>
+                    <p className="text-gray-400 text-sm mt-1">Issue one from a completed appointment on the schedule.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {visibleCertificates.map((certificate) => {
+                        const isBusy = busyId === certificate.id;
+                        const revoked = !!certificate.revoked_at;
+                        return (
+                            <div key={certificate.id} className="bg-white rounded-xl shadow-md p-4 sm:p-5">
+                                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <p className="font-mono font-bold text-maroon-800">{certificate.certificate_number}</p>
+                                            <span className={`px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border ${revoked
+                                                ? 'bg-red-50 text-red-700 border-red-200'
+                                                : 'bg-emerald-50 text-emerald-700 border-emerald-200'
+                                                }`}>
+                                                {revoked ? 'Revoked' : 'Valid'}
+                                            </span>
+                                        </div>
+                                        <p className="font-semibold text-gray-900 capitalize">{certificate.patient_name}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {[
+                                                certificate.patient_id_number,
+                                                `Seen ${format(parseISO(certificate.visit_date), 'MMM d, yyyy')}`,
+                                                certificate.rest_days > 0 ? `${certificate.rest_days} rest day${certificate.rest_days === 1 ? '' : 's'}` : null,
+                                                certificate.campus_name,
+                                            ].filter(Boolean).join(' · ')}
+                                        </p>
+                                        <p className="mt-1 text-[11px] text-gray-400">
+                                            Issued by {certificate.issued_by_name} · {format(new Date(certificate.issued_at), 'MMM d, yyyy h:mm a')}
+                                        </p>
+                                        {revoked && (
+                                            <p className="mt-1 text-sm text-red-700 whitespace-pre-wrap break-words">
+                                                <span className="text-red-500">Revoked by {certificate.revoked_by_name ?? 'staff'} on {format(new Date(certificate.revoked_at!), 'MMM d, yyyy')}:</span>{' '}
+                                                {certificate.revocation_reason}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {revokingId !== certificate.id && (
+                                        <div className="flex gap-2 flex-shrink-0">
+                                            {!revoked && (
+                                                <button
+                                                    onClick={() => { setRevokingId(certificate.id); setRevokeReason(''); }}
+                                                    className="px-3 py-2 border border-red-200 text-red-700 text-sm font-medium rounded-lg hover:bg-red-50 transition-colors flex items-center gap-1.5"
+                                                >
+                                                    <Ban className="w-4 h-4" />
+                                                    Revoke
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => openCertificatePrint(certificate.id)}
+                                                className="px-3 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 transition-colors flex items-center gap-1.5"
+                                            >
+                                                <Printer className="w-4 h-4" />
+                                                Print
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {revokingId === certificate.id && (
+                                    <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+                                        <label className="block text-sm font-medium text-gray-700">Reason for revoking</label>
+                                        <textarea
+                                            value={revokeReason}
+                                            onChange={(e) => setRevokeReason(e.target.value)}
+                                            maxLength={500}
+                                            rows={2}
+                                            placeholder="e.g. Wrong rest period; reissued with the corrected dates"
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none resize-none text-sm"
+                                        />
+                                        <p className="text-xs text-gray-500">
+                                            The certificate will show as revoked wherever it is checked. This is recorded in the audit log.
+                                        </p>
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={() => setRevokingId(null)}
+                                                disabled={isBusy}
+                                                className="px-3 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                                            >
+                                                Back
+                                            </button>
+                                            <button
+                                                onClick={() => handleRevoke(certificate)}
+                                                disabled={isBusy || !revokeReason.trim()}
+                                                className="px-3 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1.5"
+                                            >
+                                                {isBusy && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                                                Revoke Certificate
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </>
+    );
+}
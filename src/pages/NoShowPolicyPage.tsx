@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { UserX, Save, Check } from 'lucide-react';
+import { useScheduleStore } from '~/modules/schedule';
+import type { NoShowPenalty } from '~/types';
+
+const PENALTIES: { value: NoShowPenalty; label: string; description: string }[] = [
+    { value: 'block', label: 'Pause booking', description: 'No new bookings for a number of days after the latest no-show.' },
+    { value: 'short_window', label: 'Shorter booking window', description: 'Only book a few days ahead until older no-shows leave the window.' },
+];
+
+// Field limits match the CHECK constraints in create_no_show_policy.sql
+const LIMITS = {
+    threshold: { min: 1, max: 20, label: 'No-shows before a penalty' },
+    window_days: { min: 7, max: 365, label: 'Counting window (days)' },
+    block_days: { min: 1, max: 180, label: 'Pause length (days)' },
+    max_advance_days: { min: 0, max: 60, label: 'Book at most (days ahead)' },
+};
+
+type NumericField = keyof typeof LIMITS;
+
+export function NoShowPolicyPage() {
+    const { noShowPolicy, fetchNoShowPolicy, updateNoShowPolicy } = useScheduleStore();
+    const [enabled, setEnabled] = useState(false);
+    const [penalty, setPenalty] = useState<NoShowPenalty>('block');
+    const [drafts, setDrafts] = useState<Record<NumericField, string>>({
+        threshold: '3',
+        window_days: '90',
+        block_days: '14',
+        max_advance_days: '3',
+    });
+    const [saving, setSaving] = useState(false);
+    const [saved, setSaved] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetchNoShowPolicy();
+    }, [fetchNoShowPolicy]);
+
+    useEffect(() => {
+        if (!noShowPolicy) return;
+        setEnabled(noShowPolicy.enabled);
+        setPenalty(noShowPolicy.penalty);
+        setDrafts({
+            threshold: String(noShowPolicy.threshold),
+            window_days: String(noShowPolicy.window_days),
+            block_days: String(noShowPolicy.block_days),
+            max_advance_days: String(noShowPolicy.max_advance_days),
+        });
+    }, [noShowPolicy]);
+
+    const handleSave = async () => {
+        setError('');
+        const values = {} as Record<NumericField, number>;
+        for (const field of Object.keys(LIMITS) as NumericField[]) {
+            const { min, max, label } = LIMITS[field];
+            const n = parseInt(drafts[field], 10);
+            if (!Number.isFinite(n) || n < min || n > max) {
+                setError(`${label}: enter a number from ${min} to ${max}.`);
+                return;
+            }
+            values[field] = n;
+        }
+
+        setSaving(true);
+        try {
+            await updateNoShowPolicy({ enabled, penalty, ...values });
+            setSaved(true);
+            setTimeout(() => setSaved(false), 2000);
+        } catch (err) {
+            console.error('Failed to save no-show policy:', err);
+            setError('Failed to save the no-show policy. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const numberInput = (field: NumericField) => (
+        <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">{LIMITS[field].label}</span>
+            <input
+                type="number"
+                min={LIMITS[field].min}
+                max={LIMITS[field].max}
+                value={drafts[field]}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [field]: e.target.value }))}
+                disabled={!enabled}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none disabled:bg-gray-50 disabled:text-gray-400"
+            />
+        </label>
+    );
+
+    return (
+        <>
+            <div className="mb-6">
+                <h1 className="text-2xl font-bold text-gray-900">No-Show Policy</h1>
+                <p className="text-gray-600">Limit booking for patients who repeatedly miss their appointments</p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-md p-6 max-w-2xl">
+                <div className="flex items-start justify-between gap-4 mb-6">
+                    <div>
+                        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                            <UserX className="w-5 h-5 text-maroon-800" />
+                            Penalty Rules
+                        </h2>
+                        <p className="text-sm text-gray-600 mt-1">
+                            No-shows are counted per patient across all campuses over a rolling window. Appointments marked
+                            No Show by clinic staff are the only ones that count.
+                        </p>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-700 flex-shrink-0 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={enabled}
+                            onChange={(e) => setEnabled(e.target.checked)}
+                            className="rounded border-gray-300 text-maroon-800 focus:ring-maroon-500"
+                        />
+                        Enabled
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+                    {numberInput('threshold')}
+                    {numberInput('window_days')}
+                </div>
+
+                <div className="space-y-2 mb-6">
+                    <span className="block text-sm font-medium text-gray-700">Penalty</span>
+                    {PENALTIES.map((option) => (
+                        <label
+                            key={option.value}
+                            className={`flex items-start gap-3 p-3 border rounded-lg transition-colors ${
+                                penalty === option.value ? 'border-maroon-500 bg-maroon-50/50' : 'border-gray-200'
+                            } ${enabled ? 'cursor-pointer' : 'opacity-60'}`}
+                        >
+                            <input
+                                type="radio"
+                                name="no-show-penalty"
+                                value={option.value}
+                                checked={penalty === option.value}
+                                onChange={() => setPenalty(option.value)}
+                                disabled={!enabled}
+                                className="mt-1 text-maroon-800 focus:ring-maroon-500"
+                            />
+                            <span>
+                                <span className="block text-sm font-semibold text-gray-800">{option.label}</span>
+                                <span className="block text-xs text-gray-500">{option.description}</span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {penalty === 'block' ? numberInput('block_days') : numberInput('max_advance_days')}
+                </div>
+
+                {enabled && (
+                    <p className="text-sm text-gray-600 mt-4 bg-gray-50 rounded-lg p-3">
+                        {penalty === 'block'
+                            ? `After ${drafts.threshold || '?'} no-shows within ${drafts.window_days || '?'} days, a patient cannot book for ${drafts.block_days || '?'} days after their latest no-show.`
+                            : `After ${drafts.threshold || '?'} no-shows within ${drafts.window_days || '?'} days, a patient can only book up to ${drafts.max_advance_days || '?'} days ahead until older no-shows drop out of the window.`}
+                    </p>
+                )}
+
+                {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+
+                <div className="mt-6 flex items-center gap-3">
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="px-6 py-2 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2 cursor-pointer"
+                    >
+                        {saving ? (
+                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        ) : (
+                            <Save className="w-4 h-4" />
+                        )}
+                        {saving ? 'Saving...' : 'Save Policy'}
+                    </button>
+                    {saved && (
+                        <span className="text-green-600 text-sm font-medium flex items-center gap-1">
+                            <Check className="w-4 h-4" />
+                            Policy saved successfully!
+                        </span>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+}
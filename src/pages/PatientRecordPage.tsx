@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Mail, Phone, IdCard } from 'lucide-react';
+import { supabase } from '~/lib/supabase';
+import { formatDate } from '~/lib/utils';
+import { HealthRecordSection } from '~/modules/health';
+import { VitalsTrend, DentalHistory } from '~/modules/clinical';
+import { DispensingHistory } from '~/modules/inventory';
+import type { Appointment, Profile } from '~/types';
+
+type PatientSummary = Pick<Profile, 'id' | 'first_name' | 'last_name' | 'middle_name' | 'email' | 'role' | 'student_id' | 'employee_id' | 'contact_number' | 'sex' | 'date_of_birth'>;
+
+const STATUS_STYLES: Record<string, string> = {
+    scheduled: 'bg-blue-100 text-blue-800',
+    completed: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-800',
+    no_show: 'bg-gray-100 text-gray-800',
+};
+
+export function PatientRecordPage() {
+    const { patientId = '' } = useParams<{ patientId: string }>();
+    const navigate = useNavigate();
+    const [patient, setPatient] = useState<PatientSummary | null>(null);
+    const [appointments, setAppointments] = useState<Appointment[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [notFound, setNotFound] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            setIsLoading(true);
+            setNotFound(false);
+            try {
+                const [{ data: profileData, error: profileError }, { data: aptData, error: aptError }] = await Promise.all([
+                    supabase
+                        .from('profiles')
+                        .select('id, first_name, last_name, middle_name, email, role, student_id, employee_id, contact_number, sex, date_of_birth')
+                        .eq('id', patientId)
+                        .maybeSingle(),
+                    supabase
+                        .from('appointments')
+                        .select('*')
+                        .eq('patient_id', patientId)
+                        .order('appointment_date', { ascending: false })
+                        .limit(10),
+                ]);
+                if (profileError) throw profileError;
+                if (aptError) throw aptError;
+                if (cancelled) return;
+                setPatient(profileData);
+                setNotFound(!profileData);
+                setAppointments(aptData || []);
+            } catch (error) {
+                console.error('Failed to load patient:', error);
+                if (!cancelled) setNotFound(true);
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [patientId]);
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center py-16">
+                <div className="w-8 h-8 border-2 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    if (notFound || !patient) {
+        return (
+            <div className="bg-white rounded-xl shadow-md p-8 max-w-2xl text-center">
+                <p className="text-gray-600 mb-4">Patient not found.</p>
+                <button onClick={() => navigate(-1)} className="text-maroon-800 font-medium hover:underline">Go back</button>
+            </div>
+        );
+    }
+
+    const fullName = [patient.first_name, patient.middle_name, patient.last_name].filter(Boolean).join(' ');
+    const schoolId = patient.student_id || patient.employee_id;
+
+    return (
+        <>
+            <div className="mb-6 flex items-start gap-3">
+                <button
+                    onClick={() => navigate(-1)}
+                    className="p-2 rounded-lg hover:bg-gray-100 text-gray-600 transition-colors"
+                    aria-label="Back"
+                >
+                    <ArrowLeft className="w-5 h-5" />
+                </button>
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900 capitalize">{fullName || 'Unnamed patient'}</h1>
+                    <p className="text-gray-600 capitalize">
+                        {patient.role}
+                        {patient.sex && ` · ${patient.sex}`}
+                        {patient.date_of_birth && ` · born ${formatDate(patient.date_of_birth)}`}
+                    </p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 space-y-6">
+                    <div className="bg-white rounded-xl shadow-md p-6">
+                        <HealthRecordSection patientId={patient.id} canVerify />
+                    </div>
+                    <div className="bg-white rounded-xl shadow-md p-6">
+                        <VitalsTrend patientId={patient.id} />
+                    </div>
+                    <div className="bg-white rounded-xl shadow-md p-6">
+                        <DentalHistory patientId={patient.id} />
+                    </div>
+                    <div className="bg-white rounded-xl shadow-md p-6">
+                        <DispensingHistory patientId={patient.id} />
+                    </div>
+                </div>
+
+                <div className="space-y-6">
+                    <div className="bg-white rounded-xl shadow-md p-6 space-y-2 text-sm text-gray-700">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-2">Contact</h2>
+                        <p className="flex items-center gap-2 break-all"><Mail className="w-4 h-4 text-gray-400 flex-shrink-0" />{patient.email}</p>
+                        {patient.contact_number && (
+                            <p className="flex items-center gap-2"><Phone className="w-4 h-4 text-gray-400" />{patient.contact_number}</p>
+                        )}
+                        {schoolId && (
+                            <p className="flex items-center gap-2"><IdCard className="w-4 h-4 text-gray-400" />{schoolId}</p>
+                        )}
+                    </div>
+
+                    <div className="bg-white rounded-xl shadow-md p-6">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-3">Recent Appointments</h2>
+                        {appointments.length === 0 ? (
+                            <p className="text-sm text-gray-500">No appointments yet.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {appointments.map((apt) => (
+                                    <li key={apt.id} className="flex items-center justify-between gap-2 text-sm">
+                                        <span className="text-gray-800">
+                                            {formatDate(apt.appointment_date)}
+                                            <span className="text-gray-500 capitalize"> · {apt.appointment_type.replace('_', ' ')}</span>
+                                        </span>
+                                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[apt.status] || 'bg-gray-100 text-gray-800'}`}>
+                                            {apt.status.replace('_', ' ')}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </>
+    );
+}
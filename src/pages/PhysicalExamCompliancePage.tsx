@@ -0,0 +1,386 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ClipboardCheck, Download, Mail, RefreshCw, Search, Check, AlertCircle } from 'lucide-react';
+import { useAuthStore } from '~/modules/auth';
+import { useScheduleStore } from '~/modules/schedule';
+import { useComplianceStore } from '~/modules/compliance';
+import type { ComplianceFilters } from '~/modules/compliance';
+import {
+    COMPLIANCE_LABELS,
+    academicYearLabel,
+    complianceStatus,
+    downloadComplianceCsv,
+    needsReminder,
+    recentAcademicYears,
+    summarizeCompliance,
+} from '~/lib/physicalExams';
+import type { ComplianceStatus } from '~/lib/physicalExams';
+import type { CompliancePopulation } from '~/types';
+
+const YEARS_SHOWN = 5;
+
+const POPULATION_TABS: { value: CompliancePopulation | ''; label: string }[] = [
+    { value: '', label: 'Everyone' },
+    { value: 'student', label: 'Students' },
+    { value: 'employee', label: 'Employees' },
+];
+
+const STATUS_TABS: { value: ComplianceStatus | ''; label: string }[] = [
+    { value: '', label: 'All' },
+    { value: 'missing', label: COMPLIANCE_LABELS.missing },
+    { value: 'scheduled', label: COMPLIANCE_LABELS.scheduled },
+    { value: 'completed', label: COMPLIANCE_LABELS.completed },
+];
+
+const STATUS_BADGES: Record<ComplianceStatus, string> = {
+    completed: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    scheduled: 'bg-blue-50 text-blue-700 border-blue-200',
+    missing: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const selectClass = 'h-[42px] px-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm cursor-pointer';
+
+const formatDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+export function PhysicalExamCompliancePage() {
+    const { profile } = useAuthStore();
+    const { campuses, fetchCampuses } = useScheduleStore();
+    const { rows, colleges, departments, isLoading, fetchCompliance, fetchOrgUnits, sendReminders } = useComplianceStore();
+
+    // Nurses see their own campus only; the database enforces the same rule
+    const ownCampusId = profile?.role === 'nurse'
+        ? profile.assigned_campus_id ?? profile.campus_id ?? ''
+        : null;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const years = useMemo(() => recentAcademicYears(today, YEARS_SHOWN), [today]);
+
+    const [yearStart, setYearStart] = useState(years[0]);
+    const [selectedCampus, setSelectedCampus] = useState('');
+    const [collegeId, setCollegeId] = useState('');
+    const [departmentId, setDepartmentId] = useState('');
+    const [population, setPopulation] = useState<CompliancePopulation | ''>('');
+    const [statusFilter, setStatusFilter] = useState<ComplianceStatus | ''>('missing');
+    const [search, setSearch] = useState('');
+    const [confirmingReminders, setConfirmingReminders] = useState(false);
+    const [isSending, setIsSending] = useState(false);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    const campusId = ownCampusId ?? selectedCampus;
+
+    const filters = useMemo<ComplianceFilters>(() => ({
+        yearStart,
+        campusId: campusId || undefined,
+        collegeId: collegeId || undefined,
+        departmentId: departmentId || undefined,
+    }), [yearStart, campusId, collegeId, departmentId]);
+
+    useEffect(() => {
+        fetchCampuses();
+    }, [fetchCampuses]);
+
+    // Colleges and departments belong to a campus, so a campus change clears them
+    useEffect(() => {
+        setCollegeId('');
+        setDepartmentId('');
+        fetchOrgUnits(campusId || undefined);
+    }, [campusId, fetchOrgUnits]);
+
+    const load = useCallback(() => {
+        if (ownCampusId === '') return;
+        setConfirmingReminders(false);
+        fetchCompliance(filters).catch((err) => {
+            setMessage({ text: err instanceof Error ? err.message : 'Failed to load physical exam compliance.', type: 'error' });
+        });
+    }, [filters, ownCampusId, fetchCompliance]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const summary = useMemo(() => summarizeCompliance(rows), [rows]);
+    const studentSummary = useMemo(() => summarizeCompliance(rows.filter((r) => r.population === 'student')), [rows]);
+    const employeeSummary = useMemo(() => summarizeCompliance(rows.filter((r) => r.population === 'employee')), [rows]);
+
+    // The edge function reminds everyone matching the campus/college/department
+    // filters, regardless of the tabs and search below
+    const reminderCount = useMemo(() => {
+        const now = new Date();
+        return rows.filter((r) => needsReminder(r, now)).length;
+    }, [rows]);
+
+    const visibleRows = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return rows.filter((r) => {
+            if (population && r.population !== population) return false;
+            if (statusFilter && complianceStatus(r) !== statusFilter) return false;
+            if (!term) return true;
+            return (
+                r.full_name.toLowerCase().includes(term) ||
+                r.email.toLowerCase().includes(term) ||
+                (r.id_number ?? '').toLowerCase().includes(term)
+            );
+        });
+    }, [rows, population, statusFilter, search]);
+
+    const handleSendReminders = async () => {
+        setIsSending(true);
+        setMessage(null);
+        try {
+            const result = await sendReminders(filters);
+            const extras = [
+                result.skipped > 0 ? `${result.skipped} skipped (no email or reminded this week)` : null,
+                result.failed > 0 ? `${result.failed} failed` : null,
+            ].filter(Boolean).join(', ');
+            setMessage({
+                text: `Sent ${result.sent} reminder${result.sent === 1 ? '' : 's'}${extras ? `; ${extras}` : ''}.`,
+                type: result.failed > 0 ? 'error' : 'success',
+            });
+            setConfirmingReminders(false);
+            load();
+        } catch (err) {
+            setMessage({ text: err instanceof Error ? err.message : 'Failed to send reminders.', type: 'error' });
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    if (ownCampusId === '') {
+        return (
+            <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                <ClipboardCheck className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                <p className="text-gray-600 font-medium">No campus assigned</p>
+                <p className="text-gray-400 text-sm mt-1">Ask a supervisor to assign you to a campus to view its compliance.</p>
+            </div>
+        );
+    }
+
+    const campusName = campuses.find((c) => c.id === campusId)?.name;
+
+    return (
+        <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Physical Exam Compliance</h1>
+                    <p className="text-gray-600 text-sm">
+                        Students and employees with a completed physical exam in {academicYearLabel(yearStart)}
+                        {campusName ? ` at ${campusName}` : ''}
+                    </p>
+                </div>
+                <div className="flex gap-2 flex-wrap">
+                    <button
+                        onClick={() => downloadComplianceCsv(visibleRows, yearStart)}
+                        disabled={visibleRows.length === 0}
+                        className="h-[42px] px-4 border border-gray-300 bg-white text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors flex items-center gap-2"
+                    >
+                        <Download className="w-4 h-4" />
+                        Export CSV
+                    </button>
+                    <button
+                        onClick={() => setConfirmingReminders(true)}
+                        disabled={reminderCount === 0 || confirmingReminders}
+                        className="h-[42px] px-4 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-2"
+                    >
+                        <Mail className="w-4 h-4" />
+                        Email Reminders
+                    </button>
+                    <button
+                        onClick={load}
+                        className="h-[42px] px-3 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 text-gray-600"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+                <select value={yearStart} onChange={(e) => setYearStart(e.target.value)} className={selectClass}>
+                    {years.map((year) => (
+                        <option key={year} value={year}>{academicYearLabel(year)}</option>
+                    ))}
+                </select>
+                {ownCampusId === null && (
+                    <select value={selectedCampus} onChange={(e) => setSelectedCampus(e.target.value)} className={selectClass}>
+                        <option value="">All campuses</option>
+                        {campuses.map((campus) => (
+                            <option key={campus.id} value={campus.id}>{campus.name}</option>
+                        ))}
+                    </select>
+                )}
+                <select value={collegeId} onChange={(e) => setCollegeId(e.target.value)} className={selectClass}>
+                    <option value="">All colleges</option>
+                    {colleges.map((college) => (
+                        <option key={college.id} value={college.id}>{college.name}</option>
+                    ))}
+                </select>
+                <select value={departmentId} onChange={(e) => setDepartmentId(e.target.value)} className={selectClass}>
+                    <option value="">All departments</option>
+                    {departments.map((department) => (
+                        <option key={department.id} value={department.id}>{department.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {confirmingReminders && (
+                <div className="bg-white rounded-xl shadow-md p-4 mb-4 border-l-4 border-maroon-800">
+                    <p className="text-sm text-gray-800">
+                        Email <span className="font-semibold">{reminderCount}</span> {reminderCount === 1 ? 'person' : 'people'} with no physical
+                        exam done or booked in {academicYearLabel(yearStart)}?
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Everyone matching the campus, college and department filters is included, whatever the tabs below show.
+                        Anyone reminded in the last week is skipped.
+                    </p>
+                    <div className="flex justify-end gap-2 mt-3">
+                        <button
+                            onClick={() => setConfirmingReminders(false)}
+                            disabled={isSending}
+                            className="px-3 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                        >
+                            Back
+                        </button>
+                        <button
+                            onClick={handleSendReminders}
+                            disabled={isSending}
+                            className="px-3 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+                        >
+                            {isSending && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                            Send Reminders
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {message && (
+                <div className={`flex items-center gap-2 p-3 mb-4 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <Check className="w-4 h-4 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+                    <p>{message.text}</p>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+                <div className="bg-white rounded-xl shadow-md p-4">
+                    <p className="text-xs font-bold uppercase tracking-wider text-gray-500">Compliance</p>
+                    <p className="text-2xl font-bold text-maroon-800">{summary.rate}%</p>
+                    <p className="text-xs text-gray-500">{summary.completed} of {summary.total} completed</p>
+                </div>
+                <div className="bg-white rounded-xl shadow-md p-4">
+                    <p className="text-xs font-bold uppercase tracking-wider text-gray-500">Not yet</p>
+                    <p className="text-2xl font-bold text-red-700">{summary.missing}</p>
+                    <p className="text-xs text-gray-500">{summary.scheduled} more booked</p>
+                </div>
+                <div className="bg-white rounded-xl shadow-md p-4">
+                    <p className="text-xs font-bold uppercase tracking-wider text-gray-500">Students</p>
+                    <p className="text-2xl font-bold text-gray-900">{studentSummary.rate}%</p>
+                    <p className="text-xs text-gray-500">{studentSummary.completed} of {studentSummary.total} completed</p>
+                </div>
+                <div className="bg-white rounded-xl shadow-md p-4">
+                    <p className="text-xs font-bold uppercase tracking-wider text-gray-500">Employees</p>
+                    <p className="text-2xl font-bold text-gray-900">{employeeSummary.rate}%</p>
+                    <p className="text-xs text-gray-500">{employeeSummary.completed} of {employeeSummary.total} completed</p>
+                </div>
+            </div>
+
+            <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-2 mb-4">
+                <div className="flex gap-2 overflow-x-auto">
+                    {POPULATION_TABS.map((tab) => (
+                        <button
+                            key={tab.label}
+                            onClick={() => setPopulation(tab.value)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors whitespace-nowrap ${population === tab.value
+                                ? 'bg-maroon-800 text-white border-maroon-800'
+                                : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'
+                                }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                    <span className="border-l border-gray-300 mx-1" />
+                    {STATUS_TABS.map((tab) => (
+                        <button
+                            key={tab.label}
+                            onClick={() => setStatusFilter(tab.value)}
+                            className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors whitespace-nowrap ${statusFilter === tab.value
+                                ? 'bg-maroon-800 text-white border-maroon-800'
+                                : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'
+                                }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="relative lg:w-[280px]">
+                    <Search className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Name, email or ID"
+                        className="h-[42px] w-full pl-9 pr-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm"
+                    />
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center py-16">
+                    <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                </div>
+            ) : visibleRows.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                    <ClipboardCheck className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-600 font-medium">No one to show</p>
+                    <p className="text-gray-400 text-sm mt-1">Try another academic year, filter or tab.</p>
+                </div>
+            ) : (
+                <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs font-bold uppercase tracking-wider text-gray-500">
+                            <tr>
+                                <th className="px-4 py-3">Name</th>
+                                <th className="px-4 py-3">Type</th>
+                                <th className="px-4 py-3">College / Department</th>
+                                <th className="px-4 py-3">Status</th>
+                                <th className="px-4 py-3">Last Reminded</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {visibleRows.map((row) => {
+                                const status = complianceStatus(row);
+                                return (
+                                    <tr key={row.profile_id} className="hover:bg-gray-50">
+                                        <td className="px-4 py-3">
+                                            <p className="font-medium text-gray-900 capitalize">{row.full_name}</p>
+                                            <p className="text-xs text-gray-500">{[row.id_number, row.email].filter(Boolean).join(' · ')}</p>
+                                        </td>
+                                        <td className="px-4 py-3 text-gray-700">
+                                            {row.population === 'student' ? 'Student' : 'Employee'}
+                                            {!campusId && row.campus_name && <p className="text-xs text-gray-500">{row.campus_name}</p>}
+                                        </td>
+                                        <td className="px-4 py-3 text-gray-700">
+                                            {[row.college_name, row.department_name].filter(Boolean).join(' · ') || '—'}
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <span className={`px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border ${STATUS_BADGES[status]}`}>
+                                                {COMPLIANCE_LABELS[status]}
+                                            </span>
+                                            {status === 'completed' && row.completed_on && (
+                                                <p className="text-xs text-gray-500 mt-1">{formatDate(row.completed_on)}</p>
+                                            )}
+                                            {status === 'scheduled' && row.scheduled_on && (
+                                                <p className="text-xs text-gray-500 mt-1">For {formatDate(row.scheduled_on)}</p>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-xs text-gray-500">
+                                            {row.last_reminded_at ? format(new Date(row.last_reminded_at), 'MMM d, yyyy') : '—'}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </>
+    );
+}
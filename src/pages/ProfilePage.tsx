@@ -5,6 +5,8 @@ import { useAuthStore } from '~/modules/auth';
 import { useScheduleStore } from '~/modules/schedule';
 import { supabase } from '~/lib/supabase';
 import { logUserAction } from '~/lib/auditLog';
+import { CalendarFeedsSection } from '~/modules/feeds';
+import { HealthRecordSection } from '~/modules/health';
 
 function formatMissingRequiredMessage(missing: string[]): string {
     if (missing.length === 1) return `${missing[0]} is required.`;
@@ -543,6 +545,22 @@ export function ProfilePage() {
                             </div>
                         </div>
                     )}
+
+                    {/* Health Record Section */}
+                    {profile?.id && (
+                        <div className="px-6 sm:px-10 pb-6 sm:pb-10">
+                            <div className="border-t border-gray-100 pt-8">
+                                <HealthRecordSection patientId={profile.id} />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Calendar Subscription Section */}
+                    <div className="px-6 sm:px-10 pb-6 sm:pb-10">
+                        <div className="border-t border-gray-100 pt-8">
+                            <CalendarFeedsSection feedType="campus" />
+                        </div>
+                    </div>
                 </div>
             </div>
         </>
@@ -6,7 +6,8 @@ import { Header, Footer } from '~/components/layout';
 import { SignInPromptModal } from '~/components/modals/SignInPromptModal';
 import { useAppointmentStore } from '~/modules/appointments';
 import { useScheduleStore } from '~/modules/schedule';
-import { formatLocalDate } from '~/lib/utils';
+import { formatLocalDate, getTypeCapacity } from '~/lib/utils';
+import { appointmentTypeShortLabel, bookableAppointmentTypes } from '~/lib/appointmentTypes';
 
 export function PublicCalendarPage() {
     const [currentMonth, setCurrentMonth] = useState(new Date());
@@ -14,8 +15,11 @@ export function PublicCalendarPage() {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [direction, setDirection] = useState(0);
     const [selectedCampusId, setSelectedCampusId] = useState<string | null>(null);
-    const { fetchBookingCounts, bookingCounts } = useAppointmentStore();
-    const { campuses, fetchCampuses, fetchScheduleConfig, scheduleConfig, bookingSetting, fetchBookingSetting, dayOverrides, fetchDayOverrides } = useScheduleStore();
+    const { fetchBookingCounts, bookingCounts, typeBookingCounts } = useAppointmentStore();
+    const {
+        campuses, fetchCampuses, fetchScheduleConfig, scheduleConfig, bookingSetting, fetchBookingSetting, dayOverrides, fetchDayOverrides,
+        appointmentTypes, fetchAppointmentTypes,
+    } = useScheduleStore();
 
     const today = new Date();
 
@@ -44,6 +48,10 @@ export function PublicCalendarPage() {
         fetchDayOverrides(selectedCampusId, startStr, endStr);
     }, [currentMonth, selectedCampusId, fetchBookingCounts, fetchScheduleConfig, fetchBookingSetting, fetchDayOverrides]);
 
+    useEffect(() => {
+        if (selectedCampusId) fetchAppointmentTypes(selectedCampusId);
+    }, [selectedCampusId, fetchAppointmentTypes]);
+
     const globalMaxBookings = bookingSetting?.max_bookings_per_day || 50;
 
     const getMaxForDate = (dateStr: string) => {
@@ -58,6 +66,19 @@ export function PublicCalendarPage() {
         return globalMaxBookings;
     };
 
+    // Per-type buckets with room left; types without a bucket are omitted
+    const getTypeAvailability = (dateStr: string) =>
+        bookableAppointmentTypes(appointmentTypes).flatMap((t) => {
+            const cap = getTypeCapacity(t.code, dayOverrides[dateStr], bookingSetting);
+            if (cap === null) return [];
+            return [{
+                code: t.code,
+                label: t.label,
+                short: appointmentTypeShortLabel(t.label),
+                remaining: Math.max(0, cap - (typeBookingCounts[dateStr]?.[t.code] || 0)),
+            }];
+        });
+
     // Generate calendar days
     const calendarDays = useMemo(() => {
         const monthStart = startOfMonth(currentMonth);
@@ -254,6 +275,22 @@ export function PublicCalendarPage() {
                                                         {count}/{effectiveMax}
                                                     </span>
                                                 )}
+                                                {isCurrentMonth && !isClosed && !isHolidayDay && !isFull && (() => {
+                                                    const buckets = getTypeAvailability(dateStr);
+                                                    if (buckets.length === 0) return null;
+                                                    return (
+                                                        <span
+                                                            className="hidden sm:flex gap-1 mt-0.5 text-[9px] leading-none"
+                                                            title={buckets.map((t) => `${t.label}: ${t.remaining} left`).join('\n')}
+                                                        >
+                                                            {buckets.map((t) => (
+                                                                <span key={t.code} className={t.remaining === 0 ? 'text-red-400 line-through' : 'text-gray-500'}>
+                                                                    {t.short} {t.remaining}
+                                                                </span>
+                                                            ))}
+                                                        </span>
+                                                    );
+                                                })()}
                                             </button>
                                         );
                                     })}
@@ -295,6 +332,7 @@ export function PublicCalendarPage() {
                 onClose={() => setIsModalOpen(false)}
                 selectedDate={selectedDate}
                 bookedSlots={bookedSlots}
+                typeAvailability={selectedDate ? getTypeAvailability(formatLocalDate(selectedDate)) : []}
             />
         </div>
     );
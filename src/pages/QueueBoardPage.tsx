@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Megaphone, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { supabase } from '~/lib/supabase';
+import { useScheduleStore } from '~/modules/schedule';
+import { useAppointmentStore } from '~/modules/appointments';
+import type { QueueBoardEntry } from '~/types';
+
+const SESSIONS: { value: 'AM' | 'PM'; label: string }[] = [
+    { value: 'AM', label: 'Morning' },
+    { value: 'PM', label: 'Afternoon' },
+];
+
+// How many upcoming numbers to show under "Now Serving"
+const UP_NEXT_COUNT = 5;
+
+export function QueueBoardPage() {
+    const { campusId } = useParams<{ campusId: string }>();
+    const { campuses, fetchCampuses } = useScheduleStore();
+    const { fetchQueueBoard } = useAppointmentStore();
+    const [entries, setEntries] = useState<QueueBoardEntry[]>([]);
+    const [loaded, setLoaded] = useState(false);
+    const [error, setError] = useState('');
+    const [now, setNow] = useState(new Date());
+
+    useEffect(() => {
+        fetchCampuses();
+    }, [fetchCampuses]);
+
+    const refresh = useCallback(async () => {
+        if (!campusId) return;
+        try {
+            setEntries(await fetchQueueBoard(campusId));
+            setError('');
+        } catch (err) {
+            console.error('Failed to load queue board:', err);
+            setError('Unable to load the queue right now.');
+        } finally {
+            setLoaded(true);
+        }
+    }, [campusId, fetchQueueBoard]);
+
+    // Clock; also lets the board roll over to the new day's queue
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), 30 * 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // The queue resets on the clinic's (Asia/Manila) day, whatever the display's time zone
+    const dayKey = now.toLocaleDateString('en-CA', { timeZone: 'Asia/Manila' });
+
+    useEffect(() => {
+        void refresh();
+    }, [refresh, dayKey]);
+
+    // The signal row changes whenever this campus's queue does; refetch on
+    // every change, and again after (re)connecting in case one was missed.
+    useEffect(() => {
+        if (!campusId) return;
+        const channel = supabase
+            .channel(`queue-board-${campusId}`)
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'queue_board_updates', filter: `campus_id=eq.${campusId}` },
+                async () => {
+                    await refresh();
+                }
+            )
+            .subscribe((status) => {
+                if (status === 'SUBSCRIBED') void refresh();
+            });
+
+        return () => {
+            void supabase.removeChannel(channel);
+        };
+    }, [campusId, refresh]);
+
+    const campus = campuses.find((c) => c.id === campusId);
+
+    const sessions = useMemo(
+        () =>
+            SESSIONS.map((session) => {
+                const sessionEntries = entries.filter((e) => e.time_of_day === session.value);
+                const called = sessionEntries
+                    .filter((e) => e.called_at)
+                    .sort((a, b) => (a.called_at ?? '').localeCompare(b.called_at ?? ''));
+                const waiting = sessionEntries
+                    .filter((e) => !e.called_at && !e.served)
+                    .sort((a, b) => a.queue_number - b.queue_number);
+                return {
+                    ...session,
+                    current: called.length > 0 ? called[called.length - 1] : null,
+                    upNext: waiting.slice(0, UP_NEXT_COUNT),
+                    waitingCount: waiting.length,
+                };
+            }),
+        [entries]
+    );
+
+    return (
+        <div className="min-h-screen flex flex-col bg-maroon-900 text-white">
+            <header className="flex items-center justify-between px-10 py-6 border-b border-white/10">
+                <div className="flex items-center gap-4">
+                    <img src="/ldcu-logo.png" alt="LDCU Logo" className="w-14 h-14 object-contain" />
+                    <div>
+                        <h1 className="text-3xl font-bold">{campus?.name ?? 'LDCU Clinic'}</h1>
+                        <p className="text-gold-400 text-lg">Clinic Queue</p>
+                    </div>
+                </div>
+                <div className="text-right">
+                    <p className="text-4xl font-bold tabular-nums">{format(now, 'h:mm a')}</p>
+                    <p className="text-white/70">{format(now, 'EEEE, MMMM d, yyyy')}</p>
+                </div>
+            </header>
+
+            <main className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-8 p-10">
+                {!loaded ? (
+                    <div className="lg:col-span-2 flex items-center justify-center">
+                        <div className="w-12 h-12 border-4 border-white border-t-transparent rounded-full animate-spin" />
+                    </div>
+                ) : error ? (
+                    <div className="lg:col-span-2 flex items-center justify-center">
+                        <p className="text-2xl text-white/80">{error}</p>
+                    </div>
+                ) : (
+                    sessions.map((session) => (
+                        <section key={session.value} className="bg-white/5 rounded-2xl p-8 flex flex-col">
+                            <div className="flex items-center justify-between mb-6">
+                                <h2 className="text-2xl font-semibold">{session.label}</h2>
+                                <span className="flex items-center gap-2 text-xl text-white/80">
+                                    <Users className="w-6 h-6" />
+                                    {session.waitingCount} waiting
+                                </span>
+                            </div>
+
+                            <div className="bg-white text-maroon-900 rounded-2xl py-8 text-center mb-8">
+                                <p className="flex items-center justify-center gap-2 text-lg font-semibold uppercase tracking-widest text-maroon-700">
+                                    <Megaphone className="w-5 h-5" />
+                                    Now Serving
+                                </p>
+                                {session.current ? (
+                                    <>
+                                        <p className="text-8xl font-extrabold tabular-nums leading-tight">#{session.current.queue_number}</p>
+                                        <p className="text-2xl font-medium text-gray-600">{session.current.initials}</p>
+                                    </>
+                                ) : (
+                                    <p className="text-5xl font-bold text-gray-400 py-6">—</p>
+                                )}
+                            </div>
+
+                            <h3 className="text-lg font-semibold uppercase tracking-wide text-white/70 mb-3">Up Next</h3>
+                            {session.upNext.length === 0 ? (
+                                <p className="text-xl text-white/60">No one waiting</p>
+                            ) : (
+                                <ul className="grid grid-cols-5 gap-3">
+                                    {session.upNext.map((entry) => (
+                                        <li key={entry.queue_number} className="bg-white/10 rounded-xl py-4 text-center">
+                                            <p className="text-4xl font-bold tabular-nums">#{entry.queue_number}</p>
+                                            <p className="text-lg text-white/70">{entry.initials}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+                    ))
+                )}
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Printer, AlertCircle } from 'lucide-react';
+import { useReferralStore, ReferralDocument } from '~/modules/referrals';
+import type { Referral } from '~/types';
+
+/** Full-page referral letter outside the sidebar layout, so the browser prints only the letter. */
+export function ReferralPrintPage() {
+    const { referralId } = useParams<{ referralId: string }>();
+    const { fetchReferral } = useReferralStore();
+    const [referral, setReferral] = useState<Referral | null>(null);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        if (!referralId) return;
+        fetchReferral(referralId)
+            .then(setReferral)
+            .catch((err) => console.error('Failed to load referral:', err))
+            .finally(() => setLoaded(true));
+    }, [referralId, fetchReferral]);
+
+    useEffect(() => {
+        if (!referral) return;
+        const previousTitle = document.title;
+        document.title = referral.referral_number;
+        return () => {
+            document.title = previousTitle;
+        };
+    }, [referral]);
+
+    if (!loaded) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+            </div>
+        );
+    }
+
+    if (!referral) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-2 text-gray-600">
+                <AlertCircle className="w-8 h-8 text-gray-300" />
+                <p>Referral not found.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-gray-100 py-6 print:bg-white print:py-0">
+            <div className="max-w-[210mm] mx-auto mb-4 px-4 flex items-center justify-between gap-3 print:hidden">
+                <p className="text-sm text-gray-600">
+                    Sign the printed letter and ask the patient to bring the return slip back to the clinic.
+                </p>
+                <button
+                    onClick={() => window.print()}
+                    className="px-4 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 transition-colors flex items-center gap-2 flex-shrink-0"
+                >
+                    <Printer className="w-4 h-4" />
+                    Print
+                </button>
+            </div>
+            <div className="shadow-lg print:shadow-none max-w-[210mm] mx-auto">
+                <ReferralDocument referral={referral} />
+            </div>
+        </div>
+    );
+}
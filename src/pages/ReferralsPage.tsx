@@ -0,0 +1,286 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Send, Printer, Search, Check, AlertCircle, RefreshCw, CornerDownLeft, Archive, Clock } from 'lucide-react';
+import { useReferralStore, openReferralPrint } from '~/modules/referrals';
+import { URGENCY_BADGES, followUpDueDate, isFollowUpOverdue, urgencyLabel } from '~/lib/referrals';
+import type { Referral, ReferralStatus } from '~/types';
+
+type StatusFilter = ReferralStatus | 'overdue' | '';
+
+const STATUS_TABS: { value: StatusFilter; label: string }[] = [
+    { value: 'open', label: 'Open' },
+    { value: 'overdue', label: 'Overdue' },
+    { value: 'returned', label: 'Returned' },
+    { value: 'closed', label: 'Closed' },
+    { value: '', label: 'All' },
+];
+
+const STATUS_BADGES: Record<ReferralStatus, string> = {
+    open: 'bg-blue-50 text-blue-700 border-blue-200',
+    returned: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    closed: 'bg-gray-100 text-gray-600 border-gray-200',
+};
+
+const FOLLOW_UP_PROMPTS: Record<'returned' | 'closed', { label: string; placeholder: string; confirm: string }> = {
+    returned: {
+        label: 'What the facility reported',
+        placeholder: 'e.g. Seen by cardiology; ECG normal, advised follow-up in 3 months',
+        confirm: 'Mark Returned',
+    },
+    closed: {
+        label: 'Why no further follow-up is needed',
+        placeholder: 'e.g. Patient called; recovered without needing the consult',
+        confirm: 'Close Referral',
+    },
+};
+
+export function ReferralsPage() {
+    const { referrals, fetchReferrals, updateReferralStatus, isLoading } = useReferralStore();
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+    const [followUp, setFollowUp] = useState<{ id: string; status: 'returned' | 'closed' } | null>(null);
+    const [notes, setNotes] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+
+    useEffect(() => {
+        fetchReferrals();
+    }, [fetchReferrals]);
+
+    const overdueCount = useMemo(
+        () => referrals.filter((r) => isFollowUpOverdue(r, today)).length,
+        [referrals, today]
+    );
+
+    const visibleReferrals = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return referrals.filter((r) => {
+            if (statusFilter === 'overdue' && !isFollowUpOverdue(r, today)) return false;
+            if (statusFilter && statusFilter !== 'overdue' && r.status !== statusFilter) return false;
+            if (!term) return true;
+            return (
+                r.referral_number.toLowerCase().includes(term) ||
+                r.patient_name.toLowerCase().includes(term) ||
+                r.facility_name.toLowerCase().includes(term) ||
+                (r.patient_id_number ?? '').toLowerCase().includes(term)
+            );
+        });
+    }, [referrals, search, statusFilter, today]);
+
+    const startFollowUp = (referral: Referral, status: 'returned' | 'closed') => {
+        setFollowUp({ id: referral.id, status });
+        setNotes('');
+    };
+
+    const handleFollowUp = async (referral: Referral) => {
+        if (!followUp || !notes.trim()) return;
+        setBusyId(referral.id);
+        setMessage(null);
+        try {
+            await updateReferralStatus(referral.id, followUp.status, notes.trim());
+            setMessage({
+                text: `Referral ${referral.referral_number} ${followUp.status === 'returned' ? 'marked returned' : 'closed'}.`,
+                type: 'success',
+            });
+            setFollowUp(null);
+            setNotes('');
+        } catch (err) {
+            setMessage({ text: err instanceof Error ? err.message : 'Failed to update the referral.', type: 'error' });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Referrals</h1>
+                    <p className="text-gray-600 text-sm">Patients referred to outside facilities, tracked until they are followed up</p>
+                </div>
+                <div className="flex gap-2 w-full sm:w-auto">
+                    <div className="relative flex-1 sm:w-[280px]">
+                        <Search className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                        <input
+                            type="text"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Referral no., patient or facility"
+                            className="h-[42px] w-full pl-9 pr-3 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm"
+                        />
+                    </div>
+                    <button
+                        onClick={() => fetchReferrals()}
+                        className="h-[42px] px-3 border border-gray-300 bg-white rounded-lg hover:bg-gray-50 text-gray-600"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex gap-2 mb-4 overflow-x-auto">
+                {STATUS_TABS.map((tab) => (
+                    <button
+                        key={tab.label}
+                        onClick={() => setStatusFilter(tab.value)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors whitespace-nowrap flex items-center gap-2 ${statusFilter === tab.value
+                            ? 'bg-maroon-800 text-white border-maroon-800'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'
+                            }`}
+                    >
+                        {tab.label}
+                        {tab.value === 'overdue' && overdueCount > 0 && (
+                            <span className="px-1.5 py-px text-[10px] font-bold rounded-full bg-red-600 text-white">{overdueCount}</span>
+                        )}
+                    </button>
+                ))}
+            </div>
+
+            {message && (
+                <div className={`flex items-center gap-2 p-3 mb-4 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <Check className="w-4 h-4 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+                    <p>{message.text}</p>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-16">
+                    <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                </div>
+            ) : visibleReferrals.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                    <Send className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-600 font-medium">No {statusFilter || ''} referrals</p>
+                    <p className="text-gray-400 text-sm mt-1">Refer a patient from a completed appointment on the schedule.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {visibleReferrals.map((referral) => {
+                        const isBusy = busyId === referral.id;
+                        const overdue = isFollowUpOverdue(referral, today);
+                        const prompt = followUp?.id === referral.id ? FOLLOW_UP_PROMPTS[followUp.status] : null;
+                        return (
+                            <div key={referral.id} className={`bg-white rounded-xl shadow-md p-4 sm:p-5 ${overdue ? 'border-l-4 border-red-500' : ''}`}>
+                                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <p className="font-mono font-bold text-maroon-800">{referral.referral_number}</p>
+                                            <span className={`px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border ${STATUS_BADGES[referral.status]}`}>
+                                                {referral.status}
+                                            </span>
+                                            <span className={`px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border ${URGENCY_BADGES[referral.urgency]}`}>
+                                                {urgencyLabel(referral.urgency)}
+                                            </span>
+                                            {overdue && (
+                                                <span className="px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border bg-red-600 text-white border-red-600 flex items-center gap-1">
+                                                    <Clock className="w-3 h-3" />
+                                                    Follow-up overdue
+                                                </span>
+                                            )}
+                                        </div>
+                                        <p className="font-semibold text-gray-900 capitalize">{referral.patient_name}</p>
+                                        <p className="text-sm text-gray-700">
+                                            To {referral.facility_name}{referral.referred_to && ` · ${referral.referred_to}`}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            {[
+                                                referral.patient_id_number,
+                                                `Seen ${format(parseISO(referral.visit_date), 'MMM d, yyyy')}`,
+                                                referral.status === 'open' ? `Follow up by ${format(parseISO(followUpDueDate(referral)), 'MMM d')}` : null,
+                                                referral.campus_name,
+                                            ].filter(Boolean).join(' · ')}
+                                        </p>
+                                        <p className="mt-1 text-sm text-gray-600 line-clamp-2">{referral.reason}</p>
+                                        <p className="mt-1 text-[11px] text-gray-400">
+                                            Referred by {referral.referred_by_name} · {format(new Date(referral.referred_at), 'MMM d, yyyy h:mm a')}
+                                        </p>
+                                        {referral.return_notes && (
+                                            <p className="mt-1 text-sm text-emerald-800 whitespace-pre-wrap break-words">
+                                                <span className="text-emerald-600">
+                                                    Returned{referral.returned_by_name && `, noted by ${referral.returned_by_name}`} on {format(new Date(referral.returned_at!), 'MMM d, yyyy')}:
+                                                </span>{' '}
+                                                {referral.return_notes}
+                                            </p>
+                                        )}
+                                        {referral.closure_notes && (
+                                            <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap break-words">
+                                                <span className="text-gray-500">
+                                                    Closed by {referral.closed_by_name ?? 'staff'} on {format(new Date(referral.closed_at!), 'MMM d, yyyy')}:
+                                                </span>{' '}
+                                                {referral.closure_notes}
+                                            </p>
+                                        )}
+                                    </div>
+
+                                    {!prompt && (
+                                        <div className="flex gap-2 flex-shrink-0 flex-wrap">
+                                            {referral.status === 'open' && (
+                                                <button
+                                                    onClick={() => startFollowUp(referral, 'returned')}
+                                                    className="px-3 py-2 border border-emerald-200 text-emerald-700 text-sm font-medium rounded-lg hover:bg-emerald-50 transition-colors flex items-center gap-1.5"
+                                                >
+                                                    <CornerDownLeft className="w-4 h-4" />
+                                                    Returned
+                                                </button>
+                                            )}
+                                            {referral.status !== 'closed' && (
+                                                <button
+                                                    onClick={() => startFollowUp(referral, 'closed')}
+                                                    className="px-3 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1.5"
+                                                >
+                                                    <Archive className="w-4 h-4" />
+                                                    Close
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => openReferralPrint(referral.id)}
+                                                className="px-3 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 transition-colors flex items-center gap-1.5"
+                                            >
+                                                <Printer className="w-4 h-4" />
+                                                Print
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {prompt && (
+                                    <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+                                        <label className="block text-sm font-medium text-gray-700">{prompt.label}</label>
+                                        <textarea
+                                            value={notes}
+                                            onChange={(e) => setNotes(e.target.value)}
+                                            maxLength={1000}
+                                            rows={2}
+                                            placeholder={prompt.placeholder}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none resize-none text-sm"
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={() => setFollowUp(null)}
+                                                disabled={isBusy}
+                                                className="px-3 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                                            >
+                                                Back
+                                            </button>
+                                            <button
+                                                onClick={() => handleFollowUp(referral)}
+                                                disabled={isBusy || !notes.trim()}
+                                                className="px-3 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1.5"
+                                            >
+                                                {isBusy && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                                                {prompt.confirm}
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </>
+    );
+}
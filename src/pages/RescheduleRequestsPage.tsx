@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, ArrowRight, Check, X, ChevronDown, AlertCircle, Inbox } from 'lucide-react';
+import { useRescheduleRequestStore } from '~/modules/reschedule';
+import { useScheduleStore } from '~/modules/schedule';
+import { useAuthStore } from '~/modules/auth';
+import { formatTime } from '~/lib/utils';
+import { sendRescheduleDecision } from '~/lib/email';
+import { appointmentTypeLabel } from '~/lib/appointmentTypes';
+import type { RescheduleRequest, RescheduleRequestStatus } from '~/types';
+
+const STATUS_TABS: { value: RescheduleRequestStatus | ''; label: string }[] = [
+    { value: 'pending', label: 'Pending' },
+    { value: 'approved', label: 'Approved' },
+    { value: 'rejected', label: 'Rejected' },
+    { value: '', label: 'All' },
+];
+
+const STATUS_STYLES: Record<RescheduleRequestStatus, string> = {
+    pending: 'bg-amber-50 text-amber-700 border-amber-200',
+    approved: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    rejected: 'bg-red-50 text-red-700 border-red-200',
+    withdrawn: 'bg-gray-50 text-gray-600 border-gray-200',
+    expired: 'bg-gray-50 text-gray-600 border-gray-200',
+};
+
+/** The slot time for slot-mode requests, otherwise the session name. */
+function describeTime(timeOfDay: 'AM' | 'PM' | null, startTime: string | null) {
+    return startTime ? formatTime(startTime) : timeOfDay === 'PM' ? 'Afternoon' : 'Morning';
+}
+
+function describeWhen(date: string, timeOfDay: 'AM' | 'PM' | null, startTime: string | null) {
+    return `${format(parseISO(date), 'MMM d, yyyy')} · ${describeTime(timeOfDay, startTime)}`;
+}
+
+export function RescheduleRequestsPage() {
+    const { requests, fetchRequests, approveRequest, rejectRequest, isLoading, isSaving } = useRescheduleRequestStore();
+    const { campuses, fetchCampuses, appointmentTypes, fetchAppointmentTypes } = useScheduleStore();
+    const { profile } = useAuthStore();
+
+    // Nurses only work their assigned campus
+    const nurseCampus = profile?.role === 'nurse' ? profile.assigned_campus_id || '' : '';
+    const [campusFilter, setCampusFilter] = useState('');
+    const [statusFilter, setStatusFilter] = useState<RescheduleRequestStatus | ''>('pending');
+    const [rejectingId, setRejectingId] = useState<string | null>(null);
+    const [rejectReason, setRejectReason] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    useEffect(() => {
+        fetchCampuses();
+    }, [fetchCampuses]);
+
+    useEffect(() => {
+        fetchRequests({
+            campusId: nurseCampus || campusFilter || undefined,
+            status: statusFilter || undefined,
+        });
+    }, [fetchRequests, nurseCampus, campusFilter, statusFilter]);
+
+    const catalogCampusId = nurseCampus || campusFilter;
+    useEffect(() => {
+        if (catalogCampusId) fetchAppointmentTypes(catalogCampusId);
+    }, [catalogCampusId, fetchAppointmentTypes]);
+
+    // The store holds one campus's catalog; other campuses fall back to the default labels
+    const typeLabel = (request: RescheduleRequest) =>
+        request.appointment
+            ? appointmentTypeLabel(appointmentTypes.filter((t) => t.campus_id === request.campus_id), request.appointment.appointment_type)
+            : '';
+
+    // Resolves to whether the patient was emailed, so the banner never claims a send that didn't happen
+    const notifyPatient = async (request: RescheduleRequest, approved: boolean): Promise<boolean> => {
+        const apt = request.appointment;
+        if (!apt?.patient_email) return false;
+        try {
+            return await sendRescheduleDecision(apt.patient_email, apt.patient_name || 'Patient', {
+                approved,
+                appointmentId: request.appointment_id,
+                appointmentType: typeLabel(request),
+                fromDate: format(parseISO(request.from_date), 'MMMM d, yyyy'),
+                requestedDate: format(parseISO(request.requested_date), 'MMMM d, yyyy'),
+                requestedTime: describeTime(request.requested_time_of_day, request.requested_start_time),
+                reason: request.rejection_reason,
+            });
+        } catch (err) {
+            console.error('Reschedule decision email failed:', err);
+            return false;
+        }
+    };
+
+    const handleApprove = async (request: RescheduleRequest) => {
+        setBusyId(request.id);
+        setMessage(null);
+        try {
+            const approved = await approveRequest(request.id);
+            const emailed = await notifyPatient(approved, true);
+            setMessage({
+                text: `Moved ${request.appointment?.patient_name || 'the patient'} to ${format(parseISO(request.requested_date), 'MMMM d')}. ${emailed ? 'The patient has been emailed.' : 'The patient could not be emailed; please let them know.'}`,
+                type: 'success',
+            });
+        } catch (err) {
+            setMessage({ text: err instanceof Error ? err.message : 'Failed to approve the request.', type: 'error' });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleReject = async (request: RescheduleRequest) => {
+        if (!rejectReason.trim()) return;
+        setBusyId(request.id);
+        setMessage(null);
+        try {
+            const rejected = await rejectRequest(request.id, rejectReason);
+            const emailed = await notifyPatient(rejected, false);
+            setRejectingId(null);
+            setRejectReason('');
+            setMessage({
+                text: `Request rejected. ${emailed ? 'The patient has been emailed the reason.' : 'The patient could not be emailed; please let them know.'}`,
+                type: 'success',
+            });
+        } catch (err) {
+            setMessage({ text: err instanceof Error ? err.message : 'Failed to reject the request.', type: 'error' });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    // Approved / rejected rows drop out of the pending tab once reviewed
+    const visibleRequests = statusFilter ? requests.filter((r) => r.status === statusFilter) : requests;
+
+    return (
+        <>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-6 gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Reschedule Requests</h1>
+                    <p className="text-gray-600 text-sm">Patients asking to move their appointment to another date</p>
+                </div>
+                {!nurseCampus && (
+                    <div className="relative w-full sm:w-[200px]">
+                        <select
+                            value={campusFilter}
+                            onChange={(e) => setCampusFilter(e.target.value)}
+                            className="h-[42px] w-full pl-3 pr-9 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none text-sm transition-shadow cursor-pointer appearance-none"
+                        >
+                            <option value="">All Campuses</option>
+                            {campuses.map((campus) => (
+                                <option key={campus.id} value={campus.id}>
+                                    {campus.name}
+                                </option>
+                            ))}
+                        </select>
+                        <ChevronDown className="pointer-events-none absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    </div>
+                )}
+            </div>
+
+            <div className="flex gap-2 mb-4 overflow-x-auto">
+                {STATUS_TABS.map((tab) => (
+                    <button
+                        key={tab.label}
+                        onClick={() => setStatusFilter(tab.value)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium border transition-colors whitespace-nowrap ${statusFilter === tab.value
+                            ? 'bg-maroon-800 text-white border-maroon-800'
+                            : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'
+                            }`}
+                    >
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            {message && (
+                <div className={`flex items-center gap-2 p-3 mb-4 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.type === 'success' ? <Check className="w-4 h-4 flex-shrink-0" /> : <AlertCircle className="w-4 h-4 flex-shrink-0" />}
+                    <p>{message.text}</p>
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-16">
+                    <div className="w-10 h-10 border-4 border-maroon-200 border-t-maroon-800 rounded-full animate-spin" />
+                </div>
+            ) : visibleRequests.length === 0 ? (
+                <div className="bg-white rounded-xl shadow-md p-12 text-center">
+                    <Inbox className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-600 font-medium">No {statusFilter || ''} requests</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {visibleRequests.map((request) => {
+                        const apt = request.appointment;
+                        const isBusy = busyId === request.id;
+                        const campusName = campuses.find((c) => c.id === request.campus_id)?.name;
+                        return (
+                            <div key={request.id} className="bg-white rounded-xl shadow-md p-4 sm:p-5">
+                                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <p className="font-semibold text-gray-900 capitalize">{apt?.patient_name || 'Unknown Patient'}</p>
+                                            <span className={`px-2 py-0.5 text-[10px] font-bold rounded uppercase tracking-wider border ${STATUS_STYLES[request.status]}`}>
+                                                {request.status}
+                                            </span>
+                                        </div>
+                                        <p className="text-xs text-gray-500">
+                                            {[apt?.patient_email, typeLabel(request), campusName].filter(Boolean).join(' · ')}
+                                        </p>
+                                        <div className="mt-2 flex items-center gap-2 flex-wrap text-sm">
+                                            <span className="text-gray-600">{describeWhen(request.from_date, request.from_time_of_day, request.from_start_time)}</span>
+                                            <ArrowRight className="w-4 h-4 text-gray-400" />
+                                            <span className="font-semibold text-maroon-800">
+                                                {describeWhen(request.requested_date, request.requested_time_of_day, request.requested_start_time)}
+                                            </span>
+                                        </div>
+                                        {request.reason && (
+                                            <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap break-words">
+                                                <span className="text-gray-500">Reason:</span> {request.reason}
+                                            </p>
+                                        )}
+                                        {request.status === 'rejected' && request.rejection_reason && (
+                                            <p className="mt-1 text-sm text-red-700 whitespace-pre-wrap break-words">
+                                                <span className="text-red-500">Rejected:</span> {request.rejection_reason}
+                                            </p>
+                                        )}
+                                        <p className="mt-1 text-[11px] text-gray-400">
+                                            Requested {format(new Date(request.created_at), 'MMM d, yyyy h:mm a')}
+                                            {request.reviewed_at && ` · reviewed ${format(new Date(request.reviewed_at), 'MMM d, yyyy h:mm a')}`}
+                                        </p>
+                                    </div>
+
+                                    {request.status === 'pending' && rejectingId !== request.id && (
+                                        <div className="flex gap-2 flex-shrink-0">
+                                            <button
+                                                onClick={() => { setRejectingId(request.id); setRejectReason(''); }}
+                                                disabled={isSaving}
+                                                className="px-3 py-2 border border-red-200 text-red-700 text-sm font-medium rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+                                            >
+                                                <X className="w-4 h-4" />
+                                                Reject
+                                            </button>
+                                            <button
+                                                onClick={() => handleApprove(request)}
+                                                disabled={isSaving}
+                                                className="px-3 py-2 bg-maroon-800 text-white text-sm font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-50 transition-colors flex items-center gap-1.5"
+                                            >
+                                                {isBusy ? (
+                                                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                                ) : (
+                                                    <CalendarClock className="w-4 h-4" />
+                                                )}
+                                                Approve
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {rejectingId === request.id && (
+                                    <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+                                        <label className="block text-sm font-medium text-gray-700">Reason for the patient</label>
+                                        <textarea
+                                            value={rejectReason}
+                                            onChange={(e) => setRejectReason(e.target.value)}
+                                            maxLength={500}
+                                            rows={2}
+                                            placeholder="e.g. The clinic is fully booked that morning; please pick another day"
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none resize-none text-sm"
+                                        />
+                                        <div className="flex justify-end gap-2">
+                                            <button
+                                                onClick={() => setRejectingId(null)}
+                                                disabled={isBusy}
+                                                className="px-3 py-2 border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                                            >
+                                                Back
+                                            </button>
+                                            <button
+                                                onClick={() => handleReject(request)}
+                                                disabled={isBusy || !rejectReason.trim()}
+                                                className="px-3 py-2 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1.5"
+                                            >
+                                                {isBusy && <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />}
+                                                Reject Request
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </>
+    );
+}
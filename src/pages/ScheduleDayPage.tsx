@@ -3,22 +3,23 @@ import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
 import { format, startOfMonth, endOfMonth, addMonths, subMonths } from 'date-fns';
 import {
   ArrowLeft, Calendar, RefreshCw, UserPlus, SlidersHorizontal,
-  Users, Check, Mail, AlertCircle, Save, Sun, Moon, ChevronDown, X,
+  Users, Check, Mail, AlertCircle, Save, Sun, Moon, ChevronDown, X, Megaphone, LogIn, QrCode, History, FileText, Activity, Smile, FileBadge, Pill, Send,
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useAppointmentStore } from '~/modules/appointments';
-import { useScheduleStore } from '~/modules/schedule';
-import { formatLocalDate, clampDateYear } from '~/lib/utils';
+import { useAppointmentStore, CheckInScanner, AppointmentTimeline } from '~/modules/appointments';
+import { EncounterNoteEditor, VitalSignsForm, DentalChart } from '~/modules/clinical';
+import { AllergyBanner } from '~/modules/health';
+import { CertificateForm } from '~/modules/certificates';
+import { ReferralForm } from '~/modules/referrals';
+import { DispensingPanel } from '~/modules/inventory';
+import { useScheduleStore, TimeSlot } from '~/modules/schedule';
+import type { TimeSlotInfo } from '~/modules/schedule';
+import { formatLocalDate, clampDateYear, formatTime } from '~/lib/utils';
 import { sendBulkReminders, sendBookingConfirmation } from '~/lib/email';
 import { supabase } from '~/lib/supabase';
 import { SearchableSelect } from '~/components/ui';
-import type { AppointmentType, DayOverride } from '~/types';
-
-const APPOINTMENT_TYPES: { value: AppointmentType; label: string }[] = [
-  { value: 'consultation', label: 'Consultation' },
-  { value: 'physical_exam', label: 'Physical Exam' },
-  { value: 'dental', label: 'Dental' },
-];
+import { appointmentTypeColorClasses, appointmentTypeLabel, bookableAppointmentTypes } from '~/lib/appointmentTypes';
+import type { AppointmentType, DayOverride, TypeCapacity } from '~/types';
 
 type DayTab = 'appointments' | 'reschedule' | 'walkin' | 'daysettings';
 
@@ -30,7 +31,8 @@ export function ScheduleDayPage() {
 
   const {
     appointments, fetchAppointments, fetchBookingCounts, bookingCounts,
-    createAppointment, updateAppointment, rescheduleDate, isSaving,
+    createAppointment, updateAppointment, rescheduleDate, isSaving, typeBookingCounts,
+    checkInAppointment, callNextPatient, fetchCheckInCode, fetchNoShowCounts,
   } = useAppointmentStore();
 
   const {
@@ -38,9 +40,13 @@ export function ScheduleDayPage() {
     fetchBookingSetting, bookingSetting,
     fetchDayOverrides, dayOverrides,
     scheduleConfig, fetchScheduleConfig, updateScheduleConfig,
+    timeSlots, generateTimeSlots,
+    appointmentTypes, fetchAppointmentTypes,
   } = useScheduleStore();
 
   const maxBookingsPerDay = bookingSetting?.max_bookings_per_day || 50;
+  // Slot-mode campuses book concrete slots instead of whole AM/PM sessions
+  const slotMode = bookingSetting?.booking_mode === 'slot';
 
   const selectedDate = useMemo(() => {
     if (!dateStr) return null;
@@ -74,7 +80,10 @@ export function ScheduleDayPage() {
     setCompletedIds(prev => new Set([...prev, id]));
     setSavingKanban(prev => new Set([...prev, id]));
     try {
-      await updateAppointment(id, { status: 'completed' });
+      await updateAppointment(id, { status: 'completed', served_at: new Date().toISOString() });
+      // Vitals are taken as part of completing the visit
+      const apt = appointments.find(a => a.id === id);
+      setVitalsApt({ id, name: apt?.patient_name || 'Unknown Patient' });
     } catch (err) {
       // revert on failure
       setCompletedIds(prev => { const n = new Set(prev); n.delete(id); return n; });
@@ -88,7 +97,7 @@ export function ScheduleDayPage() {
     setCompletedIds(prev => { const n = new Set(prev); n.delete(id); return n; });
     setSavingKanban(prev => new Set([...prev, id]));
     try {
-      await updateAppointment(id, { status: 'scheduled' });
+      await updateAppointment(id, { status: 'scheduled', served_at: null });
     } catch (err) {
       // revert on failure
       setCompletedIds(prev => new Set([...prev, id]));
@@ -99,9 +108,10 @@ export function ScheduleDayPage() {
   };
 
   // ── Appointments Kanban AM/PM handlers ──
+  // Slot-mode appointments keep their booked slot, so session drags are disabled
   const handleDropToAM = async (id: string) => {
     const apt = appointments.find(a => a.id === id);
-    if (!apt || apt.time_of_day === 'AM') return;
+    if (slotMode || !apt || apt.time_of_day === 'AM') return;
     setSavingAptKanban(prev => new Set([...prev, id]));
     try {
       await updateAppointment(id, { time_of_day: 'AM', start_time: '08:00', end_time: '12:00' });
@@ -114,7 +124,7 @@ export function ScheduleDayPage() {
 
   const handleDropToPM = async (id: string) => {
     const apt = appointments.find(a => a.id === id);
-    if (!apt || apt.time_of_day === 'PM') return;
+    if (slotMode || !apt || apt.time_of_day === 'PM') return;
     setSavingAptKanban(prev => new Set([...prev, id]));
     try {
       await updateAppointment(id, { time_of_day: 'PM', start_time: '13:00', end_time: '17:00' });
@@ -125,6 +135,82 @@ export function ScheduleDayPage() {
     }
   };
 
+  // ── Same-day queue ──
+  const isTodayDate = dateStr === formatLocalDate(new Date());
+  const [checkingInIds, setCheckingInIds] = useState<Set<string>>(new Set());
+  const [callingSession, setCallingSession] = useState<'AM' | 'PM' | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [historyApt, setHistoryApt] = useState<{ id: string; name: string } | null>(null);
+  const [encounterApt, setEncounterApt] = useState<{ id: string; name: string; patientId: string | null } | null>(null);
+  const [vitalsApt, setVitalsApt] = useState<{ id: string; name: string } | null>(null);
+  const [dentalApt, setDentalApt] = useState<{ id: string; name: string; patientId: string | null } | null>(null);
+  const [medicinesApt, setMedicinesApt] = useState<{ id: string; name: string; patientId: string | null; campusId: string; canDispense: boolean } | null>(null);
+  const [certificateApt, setCertificateApt] = useState<{ id: string; name: string } | null>(null);
+  const [referralApt, setReferralApt] = useState<{ id: string; name: string } | null>(null);
+
+  const handleCheckIn = async (id: string) => {
+    setCheckingInIds(prev => new Set([...prev, id]));
+    try {
+      const apt = await checkInAppointment(id);
+      setToastMessage({ text: `Checked in — queue #${apt.queue_number}`, type: 'success' });
+    } catch (err) {
+      setToastMessage({ text: err instanceof Error ? err.message : 'Failed to check in.', type: 'error' });
+    } finally {
+      setCheckingInIds(prev => { const n = new Set(prev); n.delete(id); return n; });
+    }
+  };
+
+  const handleCallNext = async (session: 'AM' | 'PM') => {
+    if (!campusId) return;
+    setCallingSession(session);
+    try {
+      const apt = await callNextPatient(campusId, dateStr, session);
+      setToastMessage(apt
+        ? { text: `Now calling #${apt.queue_number} — ${apt.patient_name || 'patient'}`, type: 'success' }
+        : { text: 'No checked-in patients are waiting.', type: 'error' });
+    } catch (err) {
+      console.error('Failed to call next patient:', err);
+      setToastMessage({ text: 'Failed to call the next patient.', type: 'error' });
+    } finally {
+      setCallingSession(null);
+    }
+  };
+
+  // "Now serving" / waiting summary and Call Next button under a session column header
+  const renderQueueBar = (session: 'AM' | 'PM', sessionApts: typeof appointments) => {
+    const queued = sessionApts.filter(a => a.queue_number != null && a.status === 'scheduled');
+    const waiting = queued.filter(a => !a.called_at).length;
+    const serving = queued
+      .filter(a => a.called_at)
+      .sort((a, b) => (b.queue_number ?? 0) - (a.queue_number ?? 0))[0];
+    if (!isTodayDate && queued.length === 0) return null;
+    return (
+      <div className="px-3 py-1.5 border-b border-gray-100 bg-white/60 flex items-center gap-2 text-[11px]">
+        <span className="text-gray-500">
+          Serving <span className="font-bold text-gray-800">{serving ? `#${serving.queue_number}` : '—'}</span>
+          <span className="mx-1.5 text-gray-300">|</span>
+          <span className="font-semibold text-gray-700">{waiting}</span> waiting
+        </span>
+        {isTodayDate && (
+          <button
+            onClick={() => handleCallNext(session)}
+            disabled={callingSession !== null || waiting === 0}
+            className="ml-auto px-2 py-1 rounded-lg bg-maroon-800 text-white font-semibold flex items-center gap-1 hover:bg-maroon-900 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {callingSession === session
+              ? <span className="w-3 h-3 border-2 border-white/30 border-t-white rounded-full animate-spin inline-block" />
+              : <Megaphone className="w-3 h-3" />}
+            Call Next
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Checked-in patients first, in queue order; the rest keep booking order
+  const byQueue = (a: { queue_number?: number | null }, b: { queue_number?: number | null }) =>
+    (a.queue_number ?? Number.MAX_SAFE_INTEGER) - (b.queue_number ?? Number.MAX_SAFE_INTEGER);
+
   // ── Email reminders ──
   const [isSendingReminders, setIsSendingReminders] = useState(false);
   const [sendingTimeOfDay, setSendingTimeOfDay] = useState<'AM' | 'PM' | 'ALL' | null>(null);
@@ -143,7 +229,7 @@ export function ScheduleDayPage() {
     'Hello {{name}},\n\nThis is a reminder about your upcoming appointment at the LDCU University Clinic.\n\nDate: {{date}}\nType: {{type}}\nSchedule: {{schedule}}\n\nPlease arrive 10–15 minutes before your scheduled time and bring a valid ID.\n\nThank you!'
   );
   const [templateSaveStatus, setTemplateSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
-  const templateSaveTimerRef = useRef<number | null>(null);
+  const templateSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const templateStorageKey = useMemo(
     () => (campusId ? `ldcuclinic:email-reminder-template:${campusId}` : null),
     [campusId],
@@ -195,6 +281,7 @@ export function ScheduleDayPage() {
   const [walkInNotes, setWalkInNotes] = useState('');
   const [walkInRole, setWalkInRole] = useState<'student' | 'staff'>('student');
   const [walkInTimeOfDay, setWalkInTimeOfDay] = useState<'AM' | 'PM'>('AM');
+  const [walkInSlot, setWalkInSlot] = useState<TimeSlotInfo | null>(null);
   const [walkInError, setWalkInError] = useState<string | null>(null);
   const [walkInSuccess, setWalkInSuccess] = useState(false);
 
@@ -204,6 +291,8 @@ export function ScheduleDayPage() {
   const [dayMaxAmBookings, setDayMaxAmBookings] = useState<number | null>(null);
   const [dayMaxPmBookings, setDayMaxPmBookings] = useState<number | null>(null);
   const [customizeAmPm, setCustomizeAmPm] = useState(false);
+  // Per-type buckets for this date; blank falls back to the campus default
+  const [dayTypeCapacity, setDayTypeCapacity] = useState<Partial<Record<AppointmentType, string>>>({});
   const [dayIsClosed, setDayIsClosed] = useState(false);
   const [dayNotes, setDayNotes] = useState('');
   const [savingDaySettings, setSavingDaySettings] = useState(false);
@@ -228,8 +317,19 @@ export function ScheduleDayPage() {
     if (campusId) {
       fetchBookingSetting(campusId);
       fetchScheduleConfig(campusId);
+      fetchAppointmentTypes(campusId);
     }
-  }, [campusId, fetchCampuses, fetchBookingSetting, fetchDepartments, fetchScheduleConfig]);
+  }, [campusId, fetchCampuses, fetchBookingSetting, fetchDepartments, fetchScheduleConfig, fetchAppointmentTypes]);
+
+  const typeLabel = (code: AppointmentType) => appointmentTypeLabel(appointmentTypes, code);
+  // Staff may book walk-ins for any enabled type, whatever its online booker roles
+  const walkInTypes = useMemo(() => bookableAppointmentTypes(appointmentTypes), [appointmentTypes]);
+
+  useEffect(() => {
+    if (walkInTypes.length > 0 && !walkInTypes.some((t) => t.code === walkInType)) {
+      setWalkInType(walkInTypes[0].code);
+    }
+  }, [walkInTypes, walkInType]);
 
   useEffect(() => {
     const start = startOfMonth(subMonths(refMonth, 1));
@@ -242,6 +342,12 @@ export function ScheduleDayPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [campusId]);
 
+  useEffect(() => {
+    setWalkInSlot(null);
+    if (!slotMode || !selectedDate || !campusId) return;
+    generateTimeSlots(selectedDate, campusId).catch(() => undefined);
+  }, [slotMode, selectedDate, campusId, generateTimeSlots]);
+
   // Sync day override state when dayOverrides loads
   useEffect(() => {
     if (!dateStr) return;
@@ -251,6 +357,9 @@ export function ScheduleDayPage() {
       setDayMaxBookings(existing.max_bookings);
       setDayIsClosed(existing.is_closed);
       setDayNotes(existing.notes || '');
+      setDayTypeCapacity(Object.fromEntries(
+        Object.entries(existing.type_capacity || {}).map(([type, cap]) => [type, String(cap)])
+      ));
       // Load AM/PM customization if it exists
       if (existing.max_am_bookings !== null && existing.max_am_bookings !== undefined) {
         setCustomizeAmPm(true);
@@ -266,6 +375,7 @@ export function ScheduleDayPage() {
       setDayMaxBookings(maxBookingsPerDay);
       setDayIsClosed(false);
       setDayNotes('');
+      setDayTypeCapacity({});
       setCustomizeAmPm(false);
       setDayMaxAmBookings(null);
       setDayMaxPmBookings(null);
@@ -307,6 +417,35 @@ export function ScheduleDayPage() {
     [appointments, dateStr],
   );
 
+  // ── No-show counts for the patients on this day ──
+  const [noShowCounts, setNoShowCounts] = useState<Record<string, { count: number; restricted: boolean }>>({});
+  const dayEmailsKey = useMemo(
+    () => Array.from(new Set(allDateAppointments.map(a => a.patient_email?.toLowerCase()).filter(Boolean))).sort().join(','),
+    [allDateAppointments],
+  );
+
+  useEffect(() => {
+    if (!dayEmailsKey) { setNoShowCounts({}); return; }
+    let cancelled = false;
+    fetchNoShowCounts(dayEmailsKey.split(','))
+      .then((counts) => { if (!cancelled) setNoShowCounts(counts); })
+      .catch((err) => console.error('Failed to load no-show counts:', err));
+    return () => { cancelled = true; };
+  }, [dayEmailsKey, fetchNoShowCounts]);
+
+  const renderNoShowBadge = (email?: string | null) => {
+    const standing = email ? noShowCounts[email.toLowerCase()] : undefined;
+    if (!standing) return null;
+    return (
+      <span
+        className={`self-start px-1.5 py-0.5 rounded text-[10px] font-semibold ${standing.restricted ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'}`}
+        title={standing.restricted ? 'Booking is restricted by the no-show policy' : 'Missed appointments in the no-show window'}
+      >
+        {standing.count} no-show{standing.count === 1 ? '' : 's'}
+      </span>
+    );
+  };
+
   const scheduledAppointments = useMemo(
     () => appointments.filter(a => a.appointment_date === dateStr && a.status !== 'cancelled'),
     [appointments, dateStr],
@@ -329,6 +468,7 @@ export function ScheduleDayPage() {
     const endStr = formatLocalDate(end);
     await fetchAppointments({ dateRange: { start: startStr, end: endStr }, ...(campusId && { campusId }) });
     await fetchBookingCounts(startStr, endStr, campusId || undefined);
+    if (slotMode && selectedDate && campusId) await generateTimeSlots(selectedDate, campusId).catch(() => undefined);
   };
 
   // ── Handlers ──
@@ -398,7 +538,9 @@ export function ScheduleDayPage() {
       await refreshData();
       setTimeout(() => navigate('/schedule'), 2000);
     } catch (error: any) {
-      if (error?.message?.includes('FULLY_BOOKED')) {
+      if (error?.message?.includes('FULLY_BOOKED_TYPE')) {
+        setRescheduleError('One or more target dates have no room left for that appointment type. Please pick different dates.');
+      } else if (error?.message?.includes('FULLY_BOOKED')) {
         setRescheduleError('One or more target dates are fully booked. Please pick different dates.');
       } else {
         setRescheduleError('Failed to reschedule.');
@@ -498,6 +640,7 @@ export function ScheduleDayPage() {
     }
     
     if ((bookingCounts[dateStr] || 0) >= maxBookingsPerDay) { setWalkInError('This date is fully booked.'); return; }
+    if (slotMode && !walkInSlot) { setWalkInError('Please pick a time slot.'); return; }
     
     try {
       setWalkInError(null);
@@ -515,13 +658,17 @@ export function ScheduleDayPage() {
       }
       
       const dept = departments.find(d => d.id === walkInDepartment);
-      await createAppointment({
+      const created = await createAppointment({
         patient_id: patientId, // Link to profile if exists, otherwise null
         campus_id: campusId, appointment_type: walkInType, appointment_date: dateStr,
-        start_time: walkInTimeOfDay === 'AM' ? '08:00' : '13:00',
-        end_time: walkInTimeOfDay === 'AM' ? '12:00' : '17:00',
+        ...(slotMode && walkInSlot
+          ? { start_time: walkInSlot.startTime, end_time: walkInSlot.endTime, time_of_day: walkInSlot.startTime < '12:00' ? 'AM' as const : 'PM' as const }
+          : {
+            start_time: walkInTimeOfDay === 'AM' ? '08:00' : '13:00',
+            end_time: walkInTimeOfDay === 'AM' ? '12:00' : '17:00',
+            time_of_day: walkInTimeOfDay,
+          }),
         status: 'scheduled',
-        time_of_day: walkInTimeOfDay,
         notes: `Walk-in${dept ? ` | Department: ${dept.name}` : ''}${walkInNotes ? `\n${walkInNotes}` : ''}`,
         patient_name: walkInName.trim(), patient_phone: walkInContact.trim(), patient_email: fullEmail,
         booker_role: walkInRole,
@@ -529,11 +676,14 @@ export function ScheduleDayPage() {
       
       // Send booking confirmation email
       try {
+        const checkInCode = await fetchCheckInCode(created.id).catch(() => undefined);
         await sendBookingConfirmation(
           fullEmail,
           walkInName.trim(),
           format(selectedDate!, 'MMMM d, yyyy'),
-          walkInType.replace('_', ' ')
+          typeLabel(walkInType),
+          undefined,
+          { id: created.id, checkInCode }
         );
       } catch (emailErr) {
         console.warn('Confirmation email failed (non-blocking):', emailErr);
@@ -542,7 +692,11 @@ export function ScheduleDayPage() {
       setWalkInSuccess(true);
       await refreshData();
       setTimeout(() => { setWalkInSuccess(false); setWalkInName(''); setWalkInContact(''); setWalkInEmail(''); setWalkInNotes(''); }, 3000);
-    } catch { setWalkInError('Failed to book walk-in appointment.'); }
+    } catch (err) {
+      // The store turns capacity errors (slot, type, session) into readable messages
+      setWalkInError(err instanceof Error ? err.message : 'Failed to book walk-in appointment.');
+      if (slotMode && selectedDate) generateTimeSlots(selectedDate, campusId).catch(() => undefined);
+    }
   };
 
   // Auto-detect user name from email
@@ -607,6 +761,11 @@ export function ScheduleDayPage() {
     if (!campusId || !dateStr) return;
     setSavingDaySettings(true);
     try {
+      const typeCapacity: TypeCapacity = {};
+      appointmentTypes.forEach(({ code }) => {
+        const n = parseInt(dayTypeCapacity[code] ?? '', 10);
+        if (Number.isFinite(n) && n >= 0) typeCapacity[code] = n;
+      });
       const payload: any = { 
         campus_id: campusId, 
         override_date: dateStr, 
@@ -614,7 +773,8 @@ export function ScheduleDayPage() {
         is_closed: dayIsClosed, 
         notes: dayNotes,
         max_am_bookings: customizeAmPm ? dayMaxAmBookings : null,
-        max_pm_bookings: customizeAmPm ? dayMaxPmBookings : null
+        max_pm_bookings: customizeAmPm ? dayMaxPmBookings : null,
+        type_capacity: typeCapacity,
       };
       if (dayOverride?.id) {
         await supabase.from('day_overrides').update(payload).eq('id', dayOverride.id);
@@ -625,6 +785,8 @@ export function ScheduleDayPage() {
       const start = startOfMonth(subMonths(refMonth, 1));
       const end = endOfMonth(addMonths(refMonth, 1));
       await fetchDayOverrides(campusId, formatLocalDate(start), formatLocalDate(end));
+      // Raising capacity promotes waitlisted patients server-side
+      await refreshData();
       setDaySettingsSaved(true);
       setTimeout(() => setDaySettingsSaved(false), 3000);
     } catch (e) { console.error(e); }
@@ -636,10 +798,12 @@ export function ScheduleDayPage() {
     setRemovingDayOverride(true);
     try {
       await supabase.from('day_overrides').delete().eq('id', dayOverride.id);
-      setDayOverride(null); setDayMaxBookings(maxBookingsPerDay); setDayIsClosed(false); setDayNotes('');
+      setDayOverride(null); setDayMaxBookings(maxBookingsPerDay); setDayIsClosed(false); setDayNotes(''); setDayTypeCapacity({});
       const start = startOfMonth(subMonths(refMonth, 1));
       const end = endOfMonth(addMonths(refMonth, 1));
       await fetchDayOverrides(campusId, formatLocalDate(start), formatLocalDate(end));
+      // Raising capacity promotes waitlisted patients server-side
+      await refreshData();
       setDaySettingsSaved(true);
       setTimeout(() => setDaySettingsSaved(false), 3000);
     } catch (e) { console.error(e); }
@@ -705,6 +869,15 @@ export function ScheduleDayPage() {
               {scheduledAppointments.length} appointment{scheduledAppointments.length !== 1 ? 's' : ''}
             </span>
           </div>
+          {isTodayDate && campusId && (
+            <button
+              onClick={() => setShowScanner(true)}
+              className="ml-auto px-3 py-2 rounded-lg bg-maroon-800 text-white text-sm font-medium hover:bg-maroon-900 transition-colors shadow-sm flex items-center gap-1.5 flex-shrink-0"
+            >
+              <QrCode className="w-4 h-4" />
+              Scan Check-in
+            </button>
+          )}
         </div>
 
         {/* ── Main Card ── */}
@@ -767,12 +940,25 @@ export function ScheduleDayPage() {
                     </div>
                   ) : (
                     <div className="space-y-4">
+                      {/* ── Slot capacity (slot-mode campuses) ── */}
+                      {slotMode && timeSlots.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                          {timeSlots.map(slot => (
+                            <span
+                              key={slot.startTime}
+                              className={`text-[11px] px-2 py-1 rounded-full border font-medium ${slot.isAvailable ? 'bg-white text-gray-700 border-gray-200' : 'bg-red-50 text-red-700 border-red-200'}`}
+                            >
+                              {formatTime(slot.startTime)} · {slot.booked}/{slot.capacity}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       {/* ── Kanban Board: Morning / Afternoon ── */}
                       <div className="flex flex-col md:flex-row gap-3" style={{ minHeight: 340 }}>
 
                         {/* ── Morning (AM) Column ── */}
                         {(() => {
-                          const morningApts = allDateAppointments.filter(apt => apt.time_of_day === 'AM');
+                          const morningApts = allDateAppointments.filter(apt => apt.time_of_day === 'AM').sort(byQueue);
                           return (
                             <div
                               className={`flex-1 flex flex-col rounded-xl border-2 transition-colors duration-200 ${
@@ -792,6 +978,7 @@ export function ScheduleDayPage() {
                                   {morningApts.length}
                                 </span>
                               </div>
+                              {renderQueueBar('AM', morningApts)}
                               <div className="p-2 grid grid-cols-1 sm:grid-cols-2 gap-2 overflow-y-auto max-h-[520px] content-start">
                                 <AnimatePresence>
                                   {morningApts.map(apt => (
@@ -802,7 +989,7 @@ export function ScheduleDayPage() {
                                       animate={{ opacity: 1, scale: 1 }}
                                       exit={{ opacity: 0, scale: 0.95 }}
                                       transition={{ duration: 0.15 }}
-                                      draggable
+                                      draggable={!slotMode}
                                       onDragStart={() => setDraggedAptId(apt.id)}
                                       onDragEnd={() => setDraggedAptId(null)}
                                       className={`rounded-xl border overflow-hidden bg-white shadow-sm cursor-grab active:cursor-grabbing select-none transition-all duration-150 hover:shadow-md ${
@@ -823,9 +1010,15 @@ export function ScheduleDayPage() {
                                           <div className="min-w-0 flex flex-col gap-0.5">
                                             <p className="font-semibold text-gray-900 text-sm truncate capitalize">{apt.patient_name || 'Unknown Patient'}</p>
                                             {apt.patient_email && <span className="text-xs text-gray-500 truncate">{apt.patient_email}</span>}
+                                            {renderNoShowBadge(apt.patient_email)}
                                           </div>
                                         </div>
                                         <div className="flex items-center gap-1 flex-shrink-0 mt-0.5">
+                                          {apt.queue_number != null && (
+                                            <span className={`text-[10px] px-1.5 py-0.5 rounded-full font-bold ${apt.called_at && apt.status === 'scheduled' ? 'bg-green-600 text-white' : 'bg-maroon-800 text-white'}`}>
+                                              #{apt.queue_number}
+                                            </span>
+                                          )}
                                           {savingAptKanban.has(apt.id)
                                             ? <span className="text-[9px] px-1.5 py-px bg-gray-100 text-gray-500 rounded-full font-bold flex items-center gap-0.5"><span className="w-2 h-2 border border-gray-400 border-t-transparent rounded-full animate-spin inline-block" />Moving</span>
                                             : <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold capitalize ${apt.status === 'completed' ? 'bg-green-100 text-green-700' : apt.status === 'cancelled' ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'}`}>{apt.status}</span>}
@@ -835,7 +1028,7 @@ export function ScheduleDayPage() {
                                         <div className="flex items-center gap-3">
                                           <div className="flex items-center gap-1.5">
                                             <span className="text-[10px] text-gray-400 uppercase tracking-wide flex-shrink-0">Type</span>
-                                            <span className="text-xs text-gray-700 font-medium capitalize">{apt.appointment_type.replace(/_/g, ' ')}</span>
+                                            <span className="text-xs text-gray-700 font-medium">{typeLabel(apt.appointment_type)}</span>
                                           </div>
                                           <span className="text-gray-200">|</span>
                                           <div className="flex items-center gap-1.5">
@@ -843,6 +1036,12 @@ export function ScheduleDayPage() {
                                             {apt.booker_role === 'staff' ? <span className="text-xs text-amber-700 font-medium">Staff</span> : <span className="text-xs text-blue-700 font-medium">Student</span>}
                                           </div>
                                         </div>
+                                        {slotMode && (
+                                          <div className="flex items-center gap-1.5">
+                                            <span className="text-[10px] text-gray-400 uppercase tracking-wide flex-shrink-0">Slot</span>
+                                            <span className="text-xs text-gray-700 font-medium">{formatTime(apt.start_time)} – {formatTime(apt.end_time)}</span>
+                                          </div>
+                                        )}
                                         {apt.patient_phone && (
                                           <div className="flex items-center gap-1.5">
                                             <span className="text-[10px] text-gray-400 uppercase tracking-wide flex-shrink-0">Phone</span>
@@ -859,6 +1058,84 @@ export function ScheduleDayPage() {
                                             </div>
                                           ) : null;
                                         })()}
+                                        {isTodayDate && apt.status === 'scheduled' && (
+                                          apt.queue_number == null ? (
+                                            <button
+                                              onClick={() => handleCheckIn(apt.id)}
+                                              disabled={checkingInIds.has(apt.id)}
+                                              className="mt-1 self-start px-2 py-1 rounded-lg border border-maroon-300 text-maroon-800 text-[11px] font-semibold flex items-center gap-1 hover:bg-maroon-50 disabled:opacity-50"
+                                            >
+                                              <LogIn className="w-3 h-3" />
+                                              {checkingInIds.has(apt.id) ? 'Checking in…' : 'Check In'}
+                                            </button>
+                                          ) : (
+                                            <span className="mt-1 text-[11px] text-gray-500">
+                                              {apt.called_at
+                                                ? `Called ${format(new Date(apt.called_at), 'h:mm a')}`
+                                                : `Checked in ${format(new Date(apt.checked_in_at!), 'h:mm a')} · waiting`}
+                                            </span>
+                                          )
+                                        )}
+                                        {apt.served_at && (
+                                          <span className="text-[11px] text-green-700">Served {format(new Date(apt.served_at), 'h:mm a')}</span>
+                                        )}
+                                        <div className="mt-1 flex items-center gap-3">
+                                          <button
+                                            onClick={() => setHistoryApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <History className="w-3 h-3" />
+                                            History
+                                          </button>
+                                          <button
+                                            onClick={() => setEncounterApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient', patientId: apt.patient_id })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <FileText className="w-3 h-3" />
+                                            Encounter
+                                          </button>
+                                          <button
+                                            onClick={() => setVitalsApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <Activity className="w-3 h-3" />
+                                            Vitals
+                                          </button>
+                                          <button
+                                            onClick={() => setMedicinesApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient', patientId: apt.patient_id, campusId: apt.campus_id, canDispense: apt.status !== 'cancelled' && apt.status !== 'no_show' })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <Pill className="w-3 h-3" />
+                                            Medicines
+                                          </button>
+                                          {apt.appointment_type === 'dental' && (
+                                            <button
+                                              onClick={() => setDentalApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient', patientId: apt.patient_id })}
+                                              className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                            >
+                                              <Smile className="w-3 h-3" />
+                                              Dental Chart
+                                            </button>
+                                          )}
+                                          {apt.status === 'completed' && (
+                                            <button
+                                              onClick={() => setCertificateApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                              className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                            >
+                                              <FileBadge className="w-3 h-3" />
+                                              Certificate
+                                            </button>
+                                          )}
+                                          {apt.status === 'completed' && (
+                                            <button
+                                              onClick={() => setReferralApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                              className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                            >
+                                              <Send className="w-3 h-3" />
+                                              Refer
+                                            </button>
+                                          )}
+                                        </div>
                                       </div>
                                     </motion.div>
                                   ))}
@@ -876,7 +1153,7 @@ export function ScheduleDayPage() {
 
                         {/* ── Afternoon (PM) Column ── */}
                         {(() => {
-                          const afternoonApts = allDateAppointments.filter(apt => apt.time_of_day === 'PM');
+                          const afternoonApts = allDateAppointments.filter(apt => apt.time_of_day === 'PM').sort(byQueue);
                           return (
                             <div
                               className={`flex-1 flex flex-col rounded-xl border-2 transition-colors duration-200 ${
@@ -896,6 +1173,7 @@ export function ScheduleDayPage() {
                                   {afternoonApts.length}
                                 </span>
                               </div>
+                              {renderQueueBar('PM', afternoonApts)}
                               <div className="p-2 grid grid-cols-1 sm:grid-cols-2 gap-2 overflow-y-auto max-h-[520px] content-start">
                                 <AnimatePresence>
                                   {afternoonApts.map(apt => (
@@ -906,7 +1184,7 @@ export function ScheduleDayPage() {
                                       animate={{ opacity: 1, scale: 1 }}
                                       exit={{ opacity: 0, scale: 0.95 }}
                                       transition={{ duration: 0.15 }}
-                                      draggable
+                                      draggable={!slotMode}
                                       onDragStart={() => setDraggedAptId(apt.id)}
                                       onDragEnd={() => setDraggedAptId(null)}
                                       className={`rounded-xl border overflow-hidden bg-white shadow-sm cursor-grab active:cursor-grabbing select-none transition-all duration-150 hover:shadow-md ${
@@ -927,9 +1205,15 @@ export function ScheduleDayPage() {
                                           <div className="min-w-0 flex flex-col gap-0.5">
                                             <p className="font-semibold text-gray-900 text-sm truncate capitalize">{apt.patient_name || 'Unknown Patient'}</p>
                                             {apt.patient_email && <span className="text-xs text-gray-500 truncate">{apt.patient_email}</span>}
+                                            {renderNoShowBadge(apt.patient_email)}
                                           </div>
                                         </div>
                                         <div className="flex items-center gap-1 flex-shrink-0 mt-0.5">
+                                          {apt.queue_number != null && (
+                                            <span className={`text-[10px] px-1.5 py-0.5 rounded-full font-bold ${apt.called_at && apt.status === 'scheduled' ? 'bg-green-600 text-white' : 'bg-maroon-800 text-white'}`}>
+                                              #{apt.queue_number}
+                                            </span>
+                                          )}
                                           {savingAptKanban.has(apt.id)
                                             ? <span className="text-[9px] px-1.5 py-px bg-gray-100 text-gray-500 rounded-full font-bold flex items-center gap-0.5"><span className="w-2 h-2 border border-gray-400 border-t-transparent rounded-full animate-spin inline-block" />Moving</span>
                                             : <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold capitalize ${apt.status === 'completed' ? 'bg-green-100 text-green-700' : apt.status === 'cancelled' ? 'bg-red-100 text-red-700' : 'bg-blue-100 text-blue-700'}`}>{apt.status}</span>}
@@ -939,7 +1223,7 @@ export function ScheduleDayPage() {
                                         <div className="flex items-center gap-3">
                                           <div className="flex items-center gap-1.5">
                                             <span className="text-[10px] text-gray-400 uppercase tracking-wide flex-shrink-0">Type</span>
-                                            <span className="text-xs text-gray-700 font-medium capitalize">{apt.appointment_type.replace(/_/g, ' ')}</span>
+                                            <span className="text-xs text-gray-700 font-medium">{typeLabel(apt.appointment_type)}</span>
                                           </div>
                                           <span className="text-gray-200">|</span>
                                           <div className="flex items-center gap-1.5">
@@ -947,6 +1231,12 @@ export function ScheduleDayPage() {
                                             {apt.booker_role === 'staff' ? <span className="text-xs text-amber-700 font-medium">Staff</span> : <span className="text-xs text-blue-700 font-medium">Student</span>}
                                           </div>
                                         </div>
+                                        {slotMode && (
+                                          <div className="flex items-center gap-1.5">
+                                            <span className="text-[10px] text-gray-400 uppercase tracking-wide flex-shrink-0">Slot</span>
+                                            <span className="text-xs text-gray-700 font-medium">{formatTime(apt.start_time)} – {formatTime(apt.end_time)}</span>
+                                          </div>
+                                        )}
                                         {apt.patient_phone && (
                                           <div className="flex items-center gap-1.5">
                                             <span className="text-[10px] text-gray-400 uppercase tracking-wide flex-shrink-0">Phone</span>
@@ -963,6 +1253,84 @@ export function ScheduleDayPage() {
                                             </div>
                                           ) : null;
                                         })()}
+                                        {isTodayDate && apt.status === 'scheduled' && (
+                                          apt.queue_number == null ? (
+                                            <button
+                                              onClick={() => handleCheckIn(apt.id)}
+                                              disabled={checkingInIds.has(apt.id)}
+                                              className="mt-1 self-start px-2 py-1 rounded-lg border border-maroon-300 text-maroon-800 text-[11px] font-semibold flex items-center gap-1 hover:bg-maroon-50 disabled:opacity-50"
+                                            >
+                                              <LogIn className="w-3 h-3" />
+                                              {checkingInIds.has(apt.id) ? 'Checking in…' : 'Check In'}
+                                            </button>
+                                          ) : (
+                                            <span className="mt-1 text-[11px] text-gray-500">
+                                              {apt.called_at
+                                                ? `Called ${format(new Date(apt.called_at), 'h:mm a')}`
+                                                : `Checked in ${format(new Date(apt.checked_in_at!), 'h:mm a')} · waiting`}
+                                            </span>
+                                          )
+                                        )}
+                                        {apt.served_at && (
+                                          <span className="text-[11px] text-green-700">Served {format(new Date(apt.served_at), 'h:mm a')}</span>
+                                        )}
+                                        <div className="mt-1 flex items-center gap-3">
+                                          <button
+                                            onClick={() => setHistoryApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <History className="w-3 h-3" />
+                                            History
+                                          </button>
+                                          <button
+                                            onClick={() => setEncounterApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient', patientId: apt.patient_id })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <FileText className="w-3 h-3" />
+                                            Encounter
+                                          </button>
+                                          <button
+                                            onClick={() => setVitalsApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <Activity className="w-3 h-3" />
+                                            Vitals
+                                          </button>
+                                          <button
+                                            onClick={() => setMedicinesApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient', patientId: apt.patient_id, campusId: apt.campus_id, canDispense: apt.status !== 'cancelled' && apt.status !== 'no_show' })}
+                                            className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                          >
+                                            <Pill className="w-3 h-3" />
+                                            Medicines
+                                          </button>
+                                          {apt.appointment_type === 'dental' && (
+                                            <button
+                                              onClick={() => setDentalApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient', patientId: apt.patient_id })}
+                                              className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                            >
+                                              <Smile className="w-3 h-3" />
+                                              Dental Chart
+                                            </button>
+                                          )}
+                                          {apt.status === 'completed' && (
+                                            <button
+                                              onClick={() => setCertificateApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                              className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                            >
+                                              <FileBadge className="w-3 h-3" />
+                                              Certificate
+                                            </button>
+                                          )}
+                                          {apt.status === 'completed' && (
+                                            <button
+                                              onClick={() => setReferralApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                              className="text-[11px] text-gray-500 hover:text-maroon-800 flex items-center gap-1"
+                                            >
+                                              <Send className="w-3 h-3" />
+                                              Refer
+                                            </button>
+                                          )}
+                                        </div>
                                       </div>
                                     </motion.div>
                                   ))}
@@ -1131,6 +1499,7 @@ export function ScheduleDayPage() {
                                       <div className="min-w-0 flex flex-col gap-0.5">
                                         <p className="font-semibold text-gray-900 text-sm truncate capitalize">{apt.patient_name || 'Unknown Patient'}</p>
                                         {apt.patient_email && <span className="text-xs text-gray-500 truncate">{apt.patient_email}</span>}
+                                        {renderNoShowBadge(apt.patient_email)}
                                       </div>
                                     </div>
                                     <div className="flex items-center gap-1 flex-shrink-0 mt-0.5">
@@ -1143,7 +1512,7 @@ export function ScheduleDayPage() {
                                     <div className="flex items-center gap-3">
                                       <div className="flex items-center gap-1.5">
                                         <span className="text-[10px] text-gray-400 uppercase tracking-wide flex-shrink-0">Type</span>
-                                        <span className="text-xs text-gray-700 font-medium capitalize">{apt.appointment_type.replace(/_/g, ' ')}</span>
+                                        <span className="text-xs text-gray-700 font-medium">{typeLabel(apt.appointment_type)}</span>
                                       </div>
                                       <span className="text-gray-200">|</span>
                                       <div className="flex items-center gap-1.5">
@@ -1255,7 +1624,7 @@ export function ScheduleDayPage() {
                                   <div className="px-2.5 py-1.5 flex flex-wrap items-center gap-x-2 gap-y-1">
                                     <div className="flex items-center gap-1 min-w-0">
                                       <span className="text-[9px] text-gray-400 uppercase tracking-wide flex-shrink-0">Type</span>
-                                      <span className="text-[10px] text-gray-700 font-medium capitalize truncate">{apt.appointment_type.replace(/_/g, ' ')}</span>
+                                      <span className="text-[10px] text-gray-700 font-medium truncate">{typeLabel(apt.appointment_type)}</span>
                                     </div>
                                     <span className="text-gray-200 text-[10px] flex-shrink-0">|</span>
                                     <div className="flex items-center gap-1 flex-shrink-0">
@@ -1315,12 +1684,30 @@ export function ScheduleDayPage() {
                                     </p>
                                     {savingKanban.has(apt.id)
                                       ? <span className="text-[9px] px-1.5 py-px bg-gray-100 text-gray-500 rounded-full font-bold flex-shrink-0 flex items-center gap-0.5"><span className="w-2 h-2 border border-gray-400 border-t-transparent rounded-full animate-spin inline-block" />Saving</span>
-                                      : <span className="text-[9px] px-1.5 py-px bg-green-100 text-green-700 rounded-full font-bold flex-shrink-0">Done</span>}
+                                      : (
+                                        <span className="flex items-center gap-1 flex-shrink-0">
+                                          <button
+                                            onClick={() => setVitalsApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                            className="text-[9px] px-1.5 py-px bg-white border border-green-200 text-green-700 rounded-full font-bold hover:bg-green-100 flex items-center gap-0.5"
+                                          >
+                                            <Activity className="w-2.5 h-2.5" />
+                                            Vitals
+                                          </button>
+                                          <button
+                                            onClick={() => setCertificateApt({ id: apt.id, name: apt.patient_name || 'Unknown Patient' })}
+                                            className="text-[9px] px-1.5 py-px bg-white border border-green-200 text-green-700 rounded-full font-bold hover:bg-green-100 flex items-center gap-0.5"
+                                          >
+                                            <FileBadge className="w-2.5 h-2.5" />
+                                            Cert
+                                          </button>
+                                          <span className="text-[9px] px-1.5 py-px bg-green-100 text-green-700 rounded-full font-bold">Done</span>
+                                        </span>
+                                      )}
                                   </div>
                                   <div className="px-2.5 py-1.5 flex flex-wrap items-center gap-x-2 gap-y-1">
                                     <div className="flex items-center gap-1 min-w-0">
                                       <span className="text-[9px] text-gray-400 uppercase tracking-wide flex-shrink-0">Type</span>
-                                      <span className="text-[10px] text-gray-700 font-medium capitalize truncate">{apt.appointment_type.replace(/_/g, ' ')}</span>
+                                      <span className="text-[10px] text-gray-700 font-medium truncate">{typeLabel(apt.appointment_type)}</span>
                                     </div>
                                     <span className="text-gray-200 text-[10px] flex-shrink-0">|</span>
                                     <div className="flex items-center gap-1 flex-shrink-0">
@@ -1400,8 +1787,8 @@ export function ScheduleDayPage() {
                                   </div>
                                   {/* Type */}
                                   <div className="w-32 flex justify-center">
-                                    <span className="text-xs px-2 py-1 bg-maroon-50 text-maroon-700 rounded-lg font-medium capitalize text-center">
-                                      {apt.appointment_type.replace(/_/g, ' ')}
+                                    <span className={`text-xs px-2 py-1 border rounded-lg font-medium text-center ${appointmentTypeColorClasses(appointmentTypes.find(t => t.code === apt.appointment_type)?.color).badge}`}>
+                                      {typeLabel(apt.appointment_type)}
                                     </span>
                                   </div>
                                   {/* Date picker */}
@@ -1483,15 +1870,34 @@ export function ScheduleDayPage() {
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1.5">Appointment Type</label>
                       <div className="grid grid-cols-3 gap-2">
-                        {APPOINTMENT_TYPES.map(t => (
-                          <button key={t.value} onClick={() => setWalkInType(t.value)}
-                            className={`px-3 py-2.5 rounded-lg border text-sm font-medium transition-all ${walkInType === t.value ? 'bg-maroon-800 text-white border-maroon-800 shadow-sm' : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'}`}>
+                        {walkInTypes.map(t => (
+                          <button key={t.code} onClick={() => setWalkInType(t.code)}
+                            className={`px-3 py-2.5 rounded-lg border text-sm font-medium transition-all ${walkInType === t.code ? 'bg-maroon-800 text-white border-maroon-800 shadow-sm' : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500'}`}>
                             {t.label}
                           </button>
                         ))}
                       </div>
                     </div>
-                    {/* Time of Day (AM/PM) */}
+                    {/* Time of Day (AM/PM), or a concrete slot on slot-mode campuses */}
+                    {slotMode ? (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1.5">Time Slot</label>
+                        {timeSlots.length === 0 ? (
+                          <p className="text-sm text-gray-500 p-3 bg-gray-50 rounded-lg border border-gray-200">No time slots are configured for this weekday.</p>
+                        ) : (
+                          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            {timeSlots.map(slot => (
+                              <TimeSlot
+                                key={slot.startTime}
+                                slot={slot}
+                                isSelected={walkInSlot?.startTime === slot.startTime}
+                                onSelect={() => setWalkInSlot(slot)}
+                              />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1.5">Preferred Time</label>
                       <div className="grid grid-cols-2 gap-2">
@@ -1515,6 +1921,7 @@ export function ScheduleDayPage() {
                         </button>
                       </div>
                     </div>
+                    )}
                     {/* Email + Full Name */}
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                       <div>
@@ -1689,6 +2096,31 @@ export function ScheduleDayPage() {
                               </div>
                             )}
                           </div>
+
+                          {/* Per-type capacity for this date */}
+                          <div className="mt-4 pt-4 border-t border-gray-200">
+                            <h5 className="text-sm font-semibold text-gray-700">Limits per Appointment Type</h5>
+                            <p className="text-xs text-gray-500 mt-0.5 mb-3">Leave blank to use the campus default</p>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                              {appointmentTypes.map(t => {
+                                const campusDefault = bookingSetting?.type_capacity?.[t.code];
+                                const booked = typeBookingCounts[dateStr]?.[t.code] || 0;
+                                return (
+                                  <div key={t.code}>
+                                    <label className="block text-xs font-medium text-gray-600 mb-1.5">
+                                      {t.label} <span className="text-gray-400 font-normal">({booked} booked)</span>
+                                    </label>
+                                    <input type="number" min={0} max={200}
+                                      value={dayTypeCapacity[t.code] ?? ''}
+                                      placeholder={campusDefault !== undefined ? `Default: ${campusDefault}` : 'No limit'}
+                                      onChange={e => setDayTypeCapacity(prev => ({ ...prev, [t.code]: e.target.value }))}
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none"
+                                    />
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
                         </div>
                       )}
                     </div>
@@ -2095,6 +2527,279 @@ export function ScheduleDayPage() {
         )}
       </AnimatePresence>
 
+      {/* QR Check-in Scanner */}
+      <AnimatePresence>
+        {showScanner && campusId && (
+          <CheckInScanner campusId={campusId} onClose={() => setShowScanner(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Appointment History */}
+      <AnimatePresence>
+        {historyApt && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+            onClick={() => setHistoryApt(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[85vh] overflow-hidden flex flex-col"
+            >
+              <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 min-w-0">
+                  <History className="w-4 h-4 text-maroon-800 flex-shrink-0" />
+                  <span className="truncate capitalize">History · {historyApt.name}</span>
+                </h3>
+                <button onClick={() => setHistoryApt(null)} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-5 overflow-y-auto">
+                <AppointmentTimeline appointmentId={historyApt.id} />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Encounter Note */}
+      <AnimatePresence>
+        {encounterApt && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+            onClick={() => setEncounterApt(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+            >
+              <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 min-w-0">
+                  <FileText className="w-4 h-4 text-maroon-800 flex-shrink-0" />
+                  <span className="truncate capitalize">Encounter Note · {encounterApt.name}</span>
+                </h3>
+                <button onClick={() => setEncounterApt(null)} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-5 overflow-y-auto space-y-4">
+                <AllergyBanner patientId={encounterApt.patientId} />
+                {encounterApt.patientId && (
+                  <button
+                    onClick={() => navigate(`/patients/${encounterApt.patientId}`)}
+                    className="text-xs font-medium text-maroon-800 hover:underline"
+                  >
+                    Open patient health record →
+                  </button>
+                )}
+                <EncounterNoteEditor appointmentId={encounterApt.id} />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Vital Signs */}
+      <AnimatePresence>
+        {vitalsApt && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+            onClick={() => setVitalsApt(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+            >
+              <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 min-w-0">
+                  <Activity className="w-4 h-4 text-maroon-800 flex-shrink-0" />
+                  <span className="truncate capitalize">Vital Signs · {vitalsApt.name}</span>
+                </h3>
+                <button onClick={() => setVitalsApt(null)} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-5 overflow-y-auto">
+                <VitalSignsForm
+                  appointmentId={vitalsApt.id}
+                  onSaved={() => {
+                    setVitalsApt(null);
+                    setToastMessage({ text: 'Vital signs saved.', type: 'success' });
+                  }}
+                />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Dental Chart */}
+      <AnimatePresence>
+        {dentalApt && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+            onClick={() => setDentalApt(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col"
+            >
+              <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 min-w-0">
+                  <Smile className="w-4 h-4 text-maroon-800 flex-shrink-0" />
+                  <span className="truncate capitalize">Dental Chart · {dentalApt.name}</span>
+                </h3>
+                <button onClick={() => setDentalApt(null)} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-5 overflow-y-auto space-y-4">
+                <AllergyBanner patientId={dentalApt.patientId} />
+                <DentalChart appointmentId={dentalApt.id} patientId={dentalApt.patientId} />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Medicines Dispensed */}
+      <AnimatePresence>
+        {medicinesApt && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+            onClick={() => setMedicinesApt(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+            >
+              <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 min-w-0">
+                  <Pill className="w-4 h-4 text-maroon-800 flex-shrink-0" />
+                  <span className="truncate capitalize">Medicines · {medicinesApt.name}</span>
+                </h3>
+                <button onClick={() => setMedicinesApt(null)} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-5 overflow-y-auto space-y-4">
+                <AllergyBanner patientId={medicinesApt.patientId} />
+                <DispensingPanel
+                  appointmentId={medicinesApt.id}
+                  campusId={medicinesApt.campusId}
+                  canDispense={medicinesApt.canDispense}
+                  onDispensed={(entry) => setToastMessage({ text: `Dispensed ${entry.quantity} ${entry.unit} of ${entry.item_name}`, type: 'success' })}
+                />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Medical Certificate */}
+      <AnimatePresence>
+        {certificateApt && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+            onClick={() => setCertificateApt(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+            >
+              <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 min-w-0">
+                  <FileBadge className="w-4 h-4 text-maroon-800 flex-shrink-0" />
+                  <span className="truncate capitalize">Medical Certificate · {certificateApt.name}</span>
+                </h3>
+                <button onClick={() => setCertificateApt(null)} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-5 overflow-y-auto">
+                <CertificateForm
+                  appointmentId={certificateApt.id}
+                  onIssued={(certificate) => setToastMessage({ text: `Certificate ${certificate.certificate_number} issued`, type: 'success' })}
+                />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Referral */}
+      <AnimatePresence>
+        {referralApt && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+            onClick={() => setReferralApt(null)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+              className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+            >
+              <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2 min-w-0">
+                  <Send className="w-4 h-4 text-maroon-800 flex-shrink-0" />
+                  <span className="truncate capitalize">Referral · {referralApt.name}</span>
+                </h3>
+                <button onClick={() => setReferralApt(null)} className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <div className="p-5 overflow-y-auto">
+                <ReferralForm
+                  appointmentId={referralApt.id}
+                  onCreated={(referral) => setToastMessage({ text: `Referral ${referral.referral_number} created`, type: 'success' })}
+                />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Toast Notification */}
       <AnimatePresence>
         {toastMessage && (
@@ -12,36 +12,41 @@ import {
     isToday,
     isBefore,
     parseISO,
+    differenceInMinutes,
 } from 'date-fns';
-import { ChevronLeft, ChevronRight, Calendar, X, Check, AlertCircle, LogOut, Users } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar, CalendarPlus, X, Check, AlertCircle, LogOut, Users, Ban, Hourglass, UserX, CalendarClock } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { StudentLayout } from '~/components/layout';
 import { SearchableSelect } from '~/components/ui';
 import { LogoutModal } from '~/components/modals/LogoutModal';
 import { AlertModal } from '~/components/modals/AlertModal';
 import { useAuthStore } from '~/modules/auth';
-import { useAppointmentStore } from '~/modules/appointments';
-import { useScheduleStore } from '~/modules/schedule';
-import { formatLocalDate } from '~/lib/utils';
-import { sendBookingConfirmation } from '~/lib/email';
-import type { AppointmentType } from '~/types';
-
-const APPOINTMENT_TYPES = [
-    { value: 'consultation', label: 'Consultation' },
-    { value: 'physical_exam', label: 'Physical Exam' },
-    { value: 'dental', label: 'Dental' },
-];
+import { useAppointmentStore, CheckInQrCode } from '~/modules/appointments';
+import { useScheduleStore, TimeSlot } from '~/modules/schedule';
+import { useWaitlistStore } from '~/modules/waitlist';
+import { useRescheduleRequestStore } from '~/modules/reschedule';
+import { formatLocalDate, formatTime, getTypeCapacity } from '~/lib/utils';
+import { sendBookingConfirmation, sendCancellationConfirmation } from '~/lib/email';
+import { downloadAppointmentIcs } from '~/lib/ics';
+import { appointmentTypeLabel, appointmentTypeShortLabel, bookableAppointmentTypes } from '~/lib/appointmentTypes';
+import type { Appointment, AppointmentType, BookerRole, NoShowStanding } from '~/types';
 
 export function StudentBookingPage() {
     const { profile, logout } = useAuthStore();
-    const { appointments, fetchAppointments, fetchBookingCounts, bookingCounts, amPmBookingCounts, createAppointment, isLoading } = useAppointmentStore();
-    const { campuses, departments, fetchCampuses, fetchDepartments, fetchBookingSetting, bookingSetting, scheduleConfig, fetchScheduleConfig, dayOverrides, fetchDayOverrides } = useScheduleStore();
+    const { appointments, fetchAppointments, fetchBookingCounts, bookingCounts, amPmBookingCounts, typeBookingCounts, createAppointment, cancelAppointment, fetchCheckInCode, fetchNoShowStanding, isLoading } = useAppointmentStore();
+    const { myEntries: waitlistEntries, fetchMyEntries: fetchWaitlistEntries, joinWaitlist, leaveWaitlist } = useWaitlistStore();
+    const { myRequests: rescheduleRequests, fetchMyRequests: fetchRescheduleRequests, requestReschedule, withdrawRequest } = useRescheduleRequestStore();
+    const {
+        campuses, departments, fetchCampuses, fetchDepartments, fetchBookingSetting, fetchCancellationCutoff, bookingSetting, scheduleConfig, fetchScheduleConfig,
+        dayOverrides, fetchDayOverrides, timeSlots, generateTimeSlots, appointmentTypes, fetchAppointmentTypes,
+    } = useScheduleStore();
 
     const [currentMonth, setCurrentMonth] = useState(new Date());
     const [selectedDate, setSelectedDate] = useState<Date | null>(null);
     const [appointmentType, setAppointmentType] = useState<AppointmentType>('consultation');
     const [selectedCampus, setSelectedCampus] = useState<string>('');
     const [timeOfDay, setTimeOfDay] = useState<'AM' | 'PM'>('AM');
+    const [selectedSlot, setSelectedSlot] = useState<{ startTime: string; endTime: string } | null>(null);
     const [fullName, setFullName] = useState('');
     const [contactNumber, setContactNumber] = useState('');
     const [selectedDepartment, setSelectedDepartment] = useState('');
@@ -54,6 +59,18 @@ export function StudentBookingPage() {
     const [selectedAppointment, setSelectedAppointment] = useState<any>(null);
     const [bookingClosing, setBookingClosing] = useState(false);
     const [isBooking, setIsBooking] = useState(false);
+    const [serverSaysFull, setServerSaysFull] = useState(false);
+    const [waitlistJoined, setWaitlistJoined] = useState(false);
+    const [showCancelForm, setShowCancelForm] = useState(false);
+    const [cancelReason, setCancelReason] = useState('');
+    const [cancelError, setCancelError] = useState<string | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
+    const [noShowStanding, setNoShowStanding] = useState<NoShowStanding | null>(null);
+    const [rescheduleTarget, setRescheduleTarget] = useState<Appointment | null>(null);
+    const [showRescheduleModal, setShowRescheduleModal] = useState(false);
+    const [rescheduleReason, setRescheduleReason] = useState('');
+    const [rescheduleError, setRescheduleError] = useState<string | null>(null);
+    const [isRequestingReschedule, setIsRequestingReschedule] = useState(false);
     const [alertModal, setAlertModal] = useState<{ isOpen: boolean; message: string; type?: 'error' | 'warning' | 'info' }>({ isOpen: false, message: '' });
 
     const variants = {
@@ -122,8 +139,47 @@ export function StudentBookingPage() {
         if (selectedCampus) {
             fetchBookingSetting(selectedCampus);
             fetchScheduleConfig(selectedCampus);
+            fetchAppointmentTypes(selectedCampus);
         }
-    }, [selectedCampus, fetchDepartments, fetchBookingSetting, fetchScheduleConfig]);
+    }, [selectedCampus, fetchDepartments, fetchBookingSetting, fetchScheduleConfig, fetchAppointmentTypes]);
+
+    const bookerRole: BookerRole = profile?.role === 'staff' ? 'staff' : 'student';
+    // Only the types this campus offers online to the patient's role
+    const typeOptions = useMemo(() => bookableAppointmentTypes(appointmentTypes, bookerRole), [appointmentTypes, bookerRole]);
+
+    useEffect(() => {
+        if (typeOptions.length > 0 && !typeOptions.some((t) => t.code === appointmentType)) {
+            setAppointmentType(typeOptions[0].code);
+        }
+    }, [typeOptions, appointmentType]);
+
+    useEffect(() => {
+        if (profile?.id) fetchWaitlistEntries(profile.id);
+    }, [profile?.id, fetchWaitlistEntries]);
+
+    useEffect(() => {
+        if (profile?.id) fetchRescheduleRequests(profile.id);
+    }, [profile?.id, fetchRescheduleRequests]);
+
+    // A reschedule request stays on the appointment's own campus
+    useEffect(() => {
+        if (rescheduleTarget && selectedCampus !== rescheduleTarget.campus_id) setRescheduleTarget(null);
+    }, [selectedCampus, rescheduleTarget]);
+
+    useEffect(() => {
+        if (!profile?.id) return;
+        fetchNoShowStanding()
+            .then(setNoShowStanding)
+            .catch((err) => {
+                console.error('Failed to load no-show standing:', err);
+                setNoShowStanding(null);
+            });
+    }, [profile?.id, fetchNoShowStanding]);
+
+    // A "fully booked" response only applies to the session it was for
+    useEffect(() => {
+        setServerSaysFull(false);
+    }, [timeOfDay]);
 
     // Pre-fill form fields from profile
     useEffect(() => {
@@ -137,6 +193,35 @@ export function StudentBookingPage() {
     }, [profile]);
 
     const globalMaxBookings = bookingSetting?.max_bookings_per_day || 50;
+    // Slot mode: patients pick a concrete slot from the campus's schedule_settings
+    const slotMode = bookingSetting?.booking_mode === 'slot';
+    const slotSession = (startTime: string): 'AM' | 'PM' => (startTime < '12:00' ? 'AM' : 'PM');
+
+    // Load concrete slots (with live per-slot counts) when booking on a slot-mode campus
+    useEffect(() => {
+        setSelectedSlot(null);
+        if ((!showBookingModal && !showRescheduleModal) || !selectedDate || !selectedCampus || !slotMode) return;
+        generateTimeSlots(selectedDate, selectedCampus).catch(() => undefined);
+    }, [showBookingModal, showRescheduleModal, selectedDate, selectedCampus, slotMode, generateTimeSlots]);
+
+    // The cutoff belongs to the appointment's own campus, not the one selected in the picker
+    const [cancellationCutoffHours, setCancellationCutoffHours] = useState(24);
+    const selectedAppointmentCampus: string | undefined = selectedAppointment?.campus_id;
+    useEffect(() => {
+        if (!selectedAppointmentCampus) return;
+        let cancelled = false;
+        fetchCancellationCutoff(selectedAppointmentCampus)
+            .then((hours) => { if (!cancelled) setCancellationCutoffHours(hours); })
+            .catch((error) => console.error('Error fetching cancellation cutoff:', error));
+        return () => { cancelled = true; };
+    }, [selectedAppointmentCampus, fetchCancellationCutoff]);
+
+    // Patients may cancel online only until the campus cutoff before the session starts.
+    // Session times are clinic (Asia/Manila, UTC+8, no DST) wall-clock times, as in cancel_appointment.
+    const isWithinCancelCutoff = (apt: { appointment_date: string; start_time: string }) => {
+        const sessionStart = parseISO(`${apt.appointment_date}T${apt.start_time.slice(0, 5)}:00+08:00`);
+        return differenceInMinutes(sessionStart, new Date()) < cancellationCutoffHours * 60;
+    };
 
     // Get effective max bookings for a specific date
     const getMaxForDate = (dateStr: string) => {
@@ -160,6 +245,15 @@ export function StudentBookingPage() {
         });
     }, [appointments, profile?.id, profile?.email, selectedCampus]);
 
+    // Waiting entries for the selected campus (promoted ones show up as appointments)
+    const myWaitlist = useMemo(() => {
+        return waitlistEntries.filter((entry) => entry.status === 'waiting' && (!selectedCampus || entry.campus_id === selectedCampus));
+    }, [waitlistEntries, selectedCampus]);
+
+    // Latest reschedule request per appointment (pending ones block a second request)
+    const latestRescheduleRequest = (appointmentId: string) =>
+        rescheduleRequests.find((request) => request.appointment_id === appointmentId);
+
     // Generate calendar days
     const calendarDays = useMemo(() => {
         const monthStart = startOfMonth(currentMonth);
@@ -203,17 +297,51 @@ export function StudentBookingPage() {
         return (scheduleConfig?.holiday_dates || []).includes(dateStr);
     };
 
-    // Check if date is bookable (not in past, respects schedule config, not full, not holiday, not closed via override)
-    const isDateBookable = (date: Date) => {
+    // Remaining room in a type's own bucket; null when the type has no bucket
+    const getTypeRemaining = (dateStr: string, type: AppointmentType) => {
+        const cap = getTypeCapacity(type, dayOverrides[dateStr], bookingSetting);
+        if (cap === null) return null;
+        return Math.max(0, cap - (typeBookingCounts[dateStr]?.[type] || 0));
+    };
+
+    // Check if the selected session (or the whole day) has no capacity left
+    const isSessionFull = (dateStr: string, session: 'AM' | 'PM') => {
+        const max = getMaxForDate(dateStr);
+        if (max === 0 || (bookingCounts[dateStr] || 0) >= max) return true;
+        const override = dayOverrides[dateStr];
+        const sessionMax = session === 'AM' ? override?.max_am_bookings : override?.max_pm_bookings;
+        if (sessionMax !== null && sessionMax !== undefined && (amPmBookingCounts[dateStr]?.[session] || 0) >= sessionMax) return true;
+        if (slotMode) return !timeSlots.some((slot) => slot.isAvailable && slotSession(slot.startTime) === session);
+        return false;
+    };
+
+    // Slot picker is shown while the day still has at least one open slot;
+    // otherwise the AM/PM buttons are used to pick a session to waitlist for
+    const noSlotsConfigured = slotMode && timeSlots.length === 0;
+    const slotPickerActive = slotMode && !!selectedDate && !isDateFull(selectedDate) && timeSlots.some((slot) => slot.isAvailable);
+
+    // No-show penalty from book_appointment(): a pause blocks every date,
+    // a shorter window blocks dates too far ahead
+    const isNoShowRestricted = (date: Date) => {
+        if (!noShowStanding?.restricted) return false;
+        if (noShowStanding.penalty === 'block') return true;
+        const lastBookable = addDays(new Date(), noShowStanding.max_advance_days ?? 0);
+        return formatLocalDate(date) > formatLocalDate(lastBookable);
+    };
+
+    // Check if the clinic is open on a date (not in past, respects schedule config, not holiday, not closed via override).
+    // Open-but-full dates can still be selected to join the waitlist.
+    const isDateOpen = (date: Date) => {
         const today = new Date();
         today.setHours(0, 0, 0, 0);
         if (isBefore(date, today)) return false;
 
+        if (isNoShowRestricted(date)) return false;
+
         const dateStr = formatLocalDate(date);
         const override = dayOverrides[dateStr];
         if (override?.is_closed) return false;
 
-        if (isDateFull(date)) return false;
         if (isHoliday(date)) return false;
 
         const dayOfWeek = date.getDay();
@@ -226,11 +354,34 @@ export function StudentBookingPage() {
     };
 
     const handleDateClick = (date: Date) => {
-        if (!isDateBookable(date)) return;
+        if (!isDateOpen(date)) return;
         setSelectedDate(date);
+        if (rescheduleTarget) {
+            setTimeOfDay(rescheduleTarget.time_of_day ?? 'AM');
+            setRescheduleError(null);
+            setShowRescheduleModal(true);
+            return;
+        }
         setShowBookingModal(true);
         setBookingError(null);
         setBookingSuccess(false);
+        setServerSaysFull(false);
+        setWaitlistJoined(false);
+    };
+
+    const refreshCalendarData = async () => {
+        const start = startOfMonth(subMonths(currentMonth, 1));
+        const end = endOfMonth(addMonths(currentMonth, 1));
+        const startStr = formatLocalDate(start);
+        const endStr = formatLocalDate(end);
+        await fetchAppointments({
+            dateRange: { start: startStr, end: endStr },
+            ...(selectedCampus && { campusId: selectedCampus }),
+        });
+        await fetchBookingCounts(startStr, endStr, selectedCampus || undefined);
+        if (selectedCampus) {
+            await fetchDayOverrides(selectedCampus, startStr, endStr);
+        }
     };
 
     const handleBookAppointment = async () => {
@@ -270,6 +421,18 @@ export function StudentBookingPage() {
             return;
         }
 
+        if (slotMode && !selectedSlot) {
+            setBookingError('Please select a time slot.');
+            setIsBooking(false);
+            return;
+        }
+
+        if (getTypeRemaining(dateStr, appointmentType) === 0) {
+            setBookingError('This appointment type is fully booked on this date. Please select another date or appointment type.');
+            setIsBooking(false);
+            return;
+        }
+
         // Check booking limit again before submitting
         const currentCount = bookingCounts[dateStr] || 0;
         const max = getMaxForDate(dateStr);
@@ -284,29 +447,33 @@ export function StudentBookingPage() {
             const dept = departments.find(d => d.id === selectedDepartment);
 
             const sanitizedNotes = notes.replace(/[<>]/g, '');
-            await createAppointment({
+            const sessionTimes = slotMode && selectedSlot
+                ? { start_time: selectedSlot.startTime, end_time: selectedSlot.endTime, time_of_day: slotSession(selectedSlot.startTime) }
+                : { start_time: timeOfDay === 'AM' ? '08:00' : '13:00', end_time: timeOfDay === 'AM' ? '12:00' : '17:00', time_of_day: timeOfDay };
+            const created = await createAppointment({
                 patient_id: profile.id,
                 campus_id: selectedCampus,
                 appointment_type: appointmentType,
                 appointment_date: dateStr,
-                start_time: timeOfDay === 'AM' ? '08:00' : '13:00',
-                end_time: timeOfDay === 'AM' ? '12:00' : '17:00',
+                ...sessionTimes,
                 status: 'scheduled',
-                time_of_day: timeOfDay,
                 notes: sanitizedNotes ? `Department: ${dept?.name || selectedDepartment}\n${sanitizedNotes}` : `Department: ${dept?.name || selectedDepartment}`,
                 patient_name: fullName.trim(),
                 patient_email: profile.email,
                 patient_phone: contactNumber.trim(),
-                booker_role: (profile.role === 'staff' ? 'staff' : 'student') as 'student' | 'staff',
+                booker_role: bookerRole,
             });
 
             // Send confirmation email
             try {
+                const checkInCode = await fetchCheckInCode(created.id).catch(() => undefined);
                 await sendBookingConfirmation(
                     profile.email,
                     fullName.trim(),
                     format(selectedDate, 'MMMM d, yyyy'),
-                    appointmentType.replace('_', ' ')
+                    appointmentTypeLabel(appointmentTypes, appointmentType),
+                    undefined,
+                    { id: created.id, checkInCode }
                 );
                 console.log('Booking confirmation email sent to:', profile.email);
             } catch (emailErr) {
@@ -320,18 +487,7 @@ export function StudentBookingPage() {
             setTimeout(() => setBookingClosing(true), 1000);
 
             // Refresh appointments and counts
-            const start = startOfMonth(subMonths(currentMonth, 1));
-            const end = endOfMonth(addMonths(currentMonth, 1));
-            const startStr = formatLocalDate(start);
-            const endStr = formatLocalDate(end);
-            await fetchAppointments({
-                dateRange: { start: startStr, end: endStr },
-                ...(selectedCampus && { campusId: selectedCampus }),
-            });
-            await fetchBookingCounts(startStr, endStr, selectedCampus || undefined);
-            if (selectedCampus) {
-                await fetchDayOverrides(selectedCampus, startStr, endStr);
-            }
+            await refreshCalendarData();
 
             // Close modal after delay
             setTimeout(() => {
@@ -342,11 +498,184 @@ export function StudentBookingPage() {
             }, 2500);
         } catch (error) {
             console.error('Error booking appointment:', error);
-            setBookingError('Failed to book appointment. Please try again.');
+            const message = error instanceof Error ? error.message : '';
+            // A slot filled up under us — refresh the slot list so the patient can pick again
+            if (slotMode && /slot/i.test(message)) {
+                setBookingError(message);
+                setSelectedSlot(null);
+                await generateTimeSlots(selectedDate, selectedCampus).catch(() => undefined);
+            } else if (/fully booked/i.test(message)) {
+                // Someone took the last slot first — offer the waitlist instead
+                setServerSaysFull(true);
+                setBookingError(`${message} You can join the waitlist below.`);
+            } else {
+                setBookingError(message || 'Failed to book appointment. Please try again.');
+            }
             setIsBooking(false);
         }
     };
 
+    const handleJoinWaitlist = async () => {
+        if (!selectedDate || !selectedCampus || !profile) return;
+
+        if (!fullName.trim()) {
+            setBookingError('Please enter your full name.');
+            return;
+        }
+        if (!/^09\d{9}$/.test(contactNumber.trim())) {
+            setBookingError('Please enter a valid Philippine mobile number (e.g., 09171234567).');
+            return;
+        }
+        if (!selectedDepartment) {
+            setBookingError('Please select your department.');
+            return;
+        }
+
+        setIsBooking(true);
+        setBookingError(null);
+        try {
+            const dept = departments.find(d => d.id === selectedDepartment);
+            const sanitizedNotes = notes.replace(/[<>]/g, '');
+            await joinWaitlist({
+                campus_id: selectedCampus,
+                waitlist_date: formatLocalDate(selectedDate),
+                time_of_day: timeOfDay,
+                appointment_type: appointmentType,
+                notes: sanitizedNotes ? `Department: ${dept?.name || selectedDepartment}\n${sanitizedNotes}` : `Department: ${dept?.name || selectedDepartment}`,
+                patient_name: fullName.trim(),
+                patient_phone: contactNumber.trim(),
+            });
+            setWaitlistJoined(true);
+            setNotes('');
+        } catch (error) {
+            console.error('Error joining waitlist:', error);
+            setBookingError(error instanceof Error ? error.message : 'Failed to join the waitlist. Please try again.');
+        } finally {
+            setIsBooking(false);
+        }
+    };
+
+    const handleLeaveWaitlist = async (entryId: string) => {
+        try {
+            await leaveWaitlist(entryId);
+        } catch (error) {
+            setAlertModal({
+                isOpen: true,
+                message: error instanceof Error ? error.message : 'Failed to leave the waitlist. Please try again.',
+                type: 'error',
+            });
+        }
+    };
+
+    const closeAppointmentDetails = () => {
+        setSelectedAppointment(null);
+        setShowCancelForm(false);
+        setCancelReason('');
+        setCancelError(null);
+    };
+
+    const handleCancelAppointment = async () => {
+        if (!selectedAppointment) return;
+
+        const reason = cancelReason.replace(/[<>]/g, '').trim();
+        if (!reason) {
+            setCancelError('Please tell us why you are cancelling.');
+            return;
+        }
+
+        setIsCancelling(true);
+        setCancelError(null);
+        try {
+            const cancelled = await cancelAppointment(selectedAppointment.id, reason);
+
+            const recipient = cancelled.patient_email || profile?.email;
+            if (recipient) {
+                try {
+                    await sendCancellationConfirmation(
+                        recipient,
+                        cancelled.patient_name || fullName.trim(),
+                        format(parseISO(cancelled.appointment_date), 'MMMM d, yyyy'),
+                        appointmentTypeLabel(appointmentTypes, cancelled.appointment_type),
+                        reason
+                    );
+                } catch (emailErr) {
+                    console.error('Cancellation email failed:', emailErr);
+                }
+            }
+
+            closeAppointmentDetails();
+            await refreshCalendarData();
+            setAlertModal({
+                isOpen: true,
+                message: 'Your appointment has been cancelled. A confirmation has been sent to your email.',
+                type: 'info',
+            });
+        } catch (error) {
+            console.error('Error cancelling appointment:', error);
+            setCancelError(error instanceof Error ? error.message : 'Failed to cancel appointment. Please try again.');
+        } finally {
+            setIsCancelling(false);
+        }
+    };
+
+    const startRescheduleRequest = (apt: Appointment) => {
+        setRescheduleTarget(apt);
+        setRescheduleReason('');
+        closeAppointmentDetails();
+    };
+
+    const closeRescheduleModal = () => {
+        setShowRescheduleModal(false);
+        setSelectedDate(null);
+        setRescheduleError(null);
+    };
+
+    const handleRequestReschedule = async () => {
+        if (!rescheduleTarget || !selectedDate) return;
+
+        if (slotMode && !selectedSlot) {
+            setRescheduleError('Please select a time slot.');
+            return;
+        }
+
+        setIsRequestingReschedule(true);
+        setRescheduleError(null);
+        try {
+            await requestReschedule({
+                appointmentId: rescheduleTarget.id,
+                requestedDate: formatLocalDate(selectedDate),
+                timeOfDay: slotMode && selectedSlot ? slotSession(selectedSlot.startTime) : timeOfDay,
+                startTime: slotMode ? selectedSlot?.startTime : null,
+                reason: rescheduleReason,
+            });
+            closeRescheduleModal();
+            setRescheduleTarget(null);
+            setRescheduleReason('');
+            setAlertModal({
+                isOpen: true,
+                message: 'Your request has been sent to the clinic. We will email you once it has been reviewed.',
+                type: 'info',
+            });
+        } catch (error) {
+            console.error('Error requesting reschedule:', error);
+            setRescheduleError(error instanceof Error ? error.message : 'Failed to send your request. Please try again.');
+        } finally {
+            setIsRequestingReschedule(false);
+        }
+    };
+
+    const handleWithdrawRescheduleRequest = async (requestId: string) => {
+        try {
+            await withdrawRequest(requestId);
+        } catch (error) {
+            setAlertModal({
+                isOpen: true,
+                message: error instanceof Error ? error.message : 'Failed to withdraw the request.',
+                type: 'error',
+            });
+        }
+    };
+
     const closeModal = () => {
         setShowBookingModal(false);
         setSelectedDate(null);
@@ -354,6 +683,8 @@ export function StudentBookingPage() {
         setBookingSuccess(false);
         setBookingClosing(false);
         setIsBooking(false);
+        setServerSaysFull(false);
+        setWaitlistJoined(false);
     };
 
     const handleLogout = () => {
@@ -374,6 +705,34 @@ export function StudentBookingPage() {
                     </div>
                 </div>
 
+                {/* No-show standing */}
+                {noShowStanding && noShowStanding.no_show_count > 0 && (
+                    <div
+                        className={`mb-4 flex items-start gap-3 p-3 rounded-xl border ${
+                            !noShowStanding.restricted
+                                ? 'bg-gray-50 border-gray-200 text-gray-700'
+                                : noShowStanding.penalty === 'block'
+                                    ? 'bg-red-50 border-red-200 text-red-800'
+                                    : 'bg-amber-50 border-amber-200 text-amber-800'
+                        }`}
+                    >
+                        <UserX className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                        <div className="text-sm">
+                            {noShowStanding.restricted && noShowStanding.restricted_until && (
+                                <p className="font-semibold">
+                                    {noShowStanding.penalty === 'block'
+                                        ? `Booking is paused until ${format(parseISO(noShowStanding.restricted_until), 'MMMM d, yyyy')}`
+                                        : `You can only book up to ${noShowStanding.max_advance_days} day${noShowStanding.max_advance_days === 1 ? '' : 's'} ahead until ${format(parseISO(noShowStanding.restricted_until), 'MMMM d, yyyy')}`}
+                                </p>
+                            )}
+                            <p>
+                                You missed {noShowStanding.no_show_count} appointment{noShowStanding.no_show_count === 1 ? '' : 's'} in the last {noShowStanding.window_days} days.
+                                {!noShowStanding.restricted && ' Please cancel ahead of time if you cannot make it, so the slot can go to someone else.'}
+                            </p>
+                        </div>
+                    </div>
+                )}
+
                 <div className="flex flex-col lg:grid lg:grid-cols-3 gap-4 flex-1">
                     {/* Calendar & Campus Selector */}
                     <div className="lg:col-span-2 flex flex-col gap-4">
@@ -395,6 +754,25 @@ export function StudentBookingPage() {
                             </div>
                         </div>
 
+                        {/* Reschedule request mode */}
+                        {rescheduleTarget && (
+                            <div className="flex items-center justify-between gap-3 p-3 rounded-xl border border-maroon-200 bg-maroon-50 text-maroon-900">
+                                <div className="flex items-start gap-2 text-sm">
+                                    <CalendarClock className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                                    <p>
+                                        <span className="font-semibold">Pick a new date</span> for your{' '}
+                                        {format(parseISO(rescheduleTarget.appointment_date), 'MMMM d')} appointment. The clinic will review your request.
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => setRescheduleTarget(null)}
+                                    className="shrink-0 px-3 py-1.5 text-xs font-medium text-maroon-800 border border-maroon-300 rounded-lg hover:bg-white transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        )}
+
                         <div className="bg-white rounded-xl shadow-md overflow-hidden flex flex-col flex-1">
                             {/* Calendar Header */}
                             <div className="bg-maroon-800 text-white p-3 flex items-center justify-between flex-shrink-0 z-10 relative">
@@ -444,7 +822,7 @@ export function StudentBookingPage() {
                                             const dateStr = formatLocalDate(day);
                                             const dateAppointments = getDateAppointments(day);
                                             const hasAppointment = dateAppointments.length > 0;
-                                            const bookable = isDateBookable(day);
+                                            const open = isDateOpen(day);
                                             const isCurrentMonth = isSameMonth(day, currentMonth);
                                             const count = getBookingCount(day);
                                             const full = isDateFull(day);
@@ -468,14 +846,14 @@ export function StudentBookingPage() {
                                                 <button
                                                     key={idx}
                                                     onClick={() => handleDateClick(day)}
-                                                    disabled={!bookable || !isCurrentMonth}
+                                                    disabled={!open || !isCurrentMonth}
                                                     className={`
                                                         flex flex-col items-center justify-center p-1 border-b border-r border-gray-100
                                                         transition-all duration-200
                                                         ${!isCurrentMonth ? 'text-gray-300' : ''}
                                                         ${isOffDay || isClosedOverride ? 'bg-gray-50' : holiday && isCurrentMonth ? 'bg-orange-50' : 'bg-white'}
                                                         ${full && isCurrentMonth && isActiveDay && !isPast ? 'bg-red-50' : ''}
-                                                        ${!bookable || !isCurrentMonth ? 'cursor-not-allowed opacity-60' : 'cursor-pointer hover:bg-maroon-50'}
+                                                        ${!open || !isCurrentMonth ? 'cursor-not-allowed opacity-60' : 'cursor-pointer hover:bg-maroon-50'}
                                                     `}
                                                 >
                                                     <span
@@ -510,6 +888,24 @@ export function StudentBookingPage() {
                                                             {count}/{effectiveMax}
                                                         </motion.span>
                                                     )}
+                                                    {isCurrentMonth && isActiveDay && !isPast && !full && (() => {
+                                                        const buckets = typeOptions
+                                                            .map((t) => ({ code: t.code, label: t.label, short: appointmentTypeShortLabel(t.label), remaining: getTypeRemaining(dateStr, t.code) }))
+                                                            .filter((t) => t.remaining !== null);
+                                                        if (buckets.length === 0) return null;
+                                                        return (
+                                                            <span
+                                                                className="hidden sm:flex gap-1 mt-0.5 text-[9px] leading-none"
+                                                                title={buckets.map((t) => `${t.label}: ${t.remaining} left`).join('\n')}
+                                                            >
+                                                                {buckets.map((t) => (
+                                                                    <span key={t.code} className={t.remaining === 0 ? 'text-red-400 line-through' : 'text-gray-500'}>
+                                                                        {t.short} {t.remaining}
+                                                                    </span>
+                                                                ))}
+                                                            </span>
+                                                        );
+                                                    })()}
                                                 </button>
                                             );
                                         })}
@@ -529,7 +925,7 @@ export function StudentBookingPage() {
                                 </div>
                                 <div className="flex items-center gap-2">
                                     <span className="w-3 h-3 bg-red-200 rounded shadow-sm"></span>
-                                    <span className="text-gray-700 font-medium">Fully booked</span>
+                                    <span className="text-gray-700 font-medium">Fully booked (waitlist)</span>
                                 </div>
                                 <div className="flex items-center gap-2">
                                     <span className="w-3 h-3 bg-orange-200 rounded shadow-sm"></span>
@@ -610,12 +1006,46 @@ export function StudentBookingPage() {
                                                                 {apt.status}
                                                             </span>
                                                         </div>
+                                                        {apt.status === 'scheduled' && latestRescheduleRequest(apt.id)?.status === 'pending' && (
+                                                            <p className="mt-1 text-[11px] font-medium text-amber-700 flex items-center gap-1">
+                                                                <CalendarClock className="w-3 h-3" />
+                                                                New date requested
+                                                            </p>
+                                                        )}
                                                     </div>
                                                 </div>
                                             );
                                         })}
                                 </div>
                             )}
+
+                            {myWaitlist.length > 0 && (
+                                <div className="mt-4 pt-4 border-t border-gray-100 flex-shrink-0">
+                                    <h4 className="text-sm font-bold text-gray-900 flex items-center gap-2 mb-2">
+                                        <Hourglass className="w-4 h-4 text-amber-600" />
+                                        My Waitlist
+                                    </h4>
+                                    <div className="space-y-2">
+                                        {myWaitlist.map((entry) => (
+                                            <div key={entry.id} className="flex items-center justify-between gap-2 p-3 rounded-lg border border-amber-100 bg-amber-50/50">
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-semibold text-gray-900">
+                                                        {format(parseISO(entry.waitlist_date), 'MMM d, yyyy')} · {entry.time_of_day === 'AM' ? 'Morning' : 'Afternoon'}
+                                                    </p>
+                                                    <p className="text-xs text-gray-500">{appointmentTypeLabel(appointmentTypes, entry.appointment_type)}</p>
+                                                </div>
+                                                <button
+                                                    onClick={() => handleLeaveWaitlist(entry.id)}
+                                                    className="shrink-0 px-2.5 py-1 text-xs font-medium text-gray-600 border border-gray-300 rounded-lg hover:bg-white transition-colors"
+                                                >
+                                                    Leave
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <p className="text-[11px] text-gray-500 mt-2">You'll be booked automatically and emailed if a slot opens up.</p>
+                                </div>
+                            )}
                         </div>
 
                         {/* Mobile Logout Button */}
@@ -664,7 +1094,23 @@ export function StudentBookingPage() {
 
                             {/* Modal Content */}
                             <div className="p-4 sm:p-6 space-y-4 overflow-y-auto">
-                                {bookingSuccess ? (
+                                {waitlistJoined ? (
+                                    <div className="text-center py-8">
+                                        <div className="w-16 h-16 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                                            <Hourglass className="w-8 h-8 text-amber-600" />
+                                        </div>
+                                        <h4 className="text-lg font-semibold text-gray-900">You're on the Waitlist</h4>
+                                        <p className="text-gray-600 mt-1">
+                                            If a {timeOfDay === 'AM' ? 'morning' : 'afternoon'} slot opens on {format(selectedDate, 'MMMM d, yyyy')}, we'll book it for you and send you an email.
+                                        </p>
+                                        <button
+                                            onClick={closeModal}
+                                            className="mt-6 px-6 py-2 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 transition-colors"
+                                        >
+                                            Done
+                                        </button>
+                                    </div>
+                                ) : bookingSuccess ? (
                                     <div className="text-center py-8">
                                         {bookingClosing ? (
                                             // Loading state — refreshing data before closing
@@ -691,26 +1137,60 @@ export function StudentBookingPage() {
                                         {/* Appointment Type */}
                                         <div>
                                             <label className="block text-sm font-medium text-gray-700 mb-1.5">Appointment Type</label>
+                                            {typeOptions.length === 0 && (
+                                                <p className="text-sm text-gray-500 p-3 bg-gray-50 rounded-lg border border-gray-200">
+                                                    No appointment types are open for online booking at this campus. Please contact the clinic.
+                                                </p>
+                                            )}
                                             <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-                                                {APPOINTMENT_TYPES.map((type) => (
-                                                    <button
-                                                        key={type.value}
-                                                        onClick={() => setAppointmentType(type.value as AppointmentType)}
-                                                        className={`px-3 py-2.5 rounded-lg border text-sm font-medium transition-all ${appointmentType === type.value
-                                                            ? 'bg-maroon-800 text-white border-maroon-800 shadow-sm'
-                                                            : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500 hover:bg-gray-50'
-                                                            }`}
-                                                    >
-                                                        {type.label}
-                                                    </button>
-                                                ))}
+                                                {typeOptions.map((type) => {
+                                                    const remaining = getTypeRemaining(formatLocalDate(selectedDate), type.code);
+                                                    return (
+                                                        <button
+                                                            key={type.code}
+                                                            onClick={() => setAppointmentType(type.code)}
+                                                            className={`px-3 py-2.5 rounded-lg border text-sm font-medium transition-all ${appointmentType === type.code
+                                                                ? 'bg-maroon-800 text-white border-maroon-800 shadow-sm'
+                                                                : 'bg-white text-gray-700 border-gray-300 hover:border-maroon-500 hover:bg-gray-50'
+                                                                }`}
+                                                        >
+                                                            {type.label}
+                                                            {remaining !== null ? (
+                                                                <span className={`block text-[11px] font-normal mt-0.5 ${remaining === 0 ? (appointmentType === type.code ? 'text-red-200' : 'text-red-500') : 'opacity-75'}`}>
+                                                                    {remaining === 0 ? 'Fully booked' : `${remaining} left · about ${type.duration_minutes} min`}
+                                                                </span>
+                                                            ) : (
+                                                                <span className="block text-[11px] font-normal mt-0.5 opacity-75">About {type.duration_minutes} min</span>
+                                                            )}
+                                                        </button>
+                                                    );
+                                                })}
                                             </div>
                                         </div>
 
-                                        {/* Time of Day (AM/PM) */}
+                                        {/* Time of Day (AM/PM) or concrete slot */}
                                         <div>
-                                            <label className="block text-sm font-medium text-gray-700 mb-1.5">Preferred Time</label>
-                                            {(() => {
+                                            <label className="block text-sm font-medium text-gray-700 mb-1.5">{slotPickerActive ? 'Time Slot' : 'Preferred Time'}</label>
+                                            {noSlotsConfigured ? (
+                                                <div className="flex items-center gap-2 p-3 bg-gray-50 text-gray-600 rounded-lg border border-gray-200">
+                                                    <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                                                    <p className="text-sm">No time slots are open for booking on this day. Please pick another date.</p>
+                                                </div>
+                                            ) : slotPickerActive ? (
+                                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-56 overflow-y-auto pr-1">
+                                                    {timeSlots.map((slot) => (
+                                                        <TimeSlot
+                                                            key={slot.startTime}
+                                                            slot={slot}
+                                                            isSelected={selectedSlot?.startTime === slot.startTime}
+                                                            onSelect={() => {
+                                                                setSelectedSlot({ startTime: slot.startTime, endTime: slot.endTime });
+                                                                setTimeOfDay(slotSession(slot.startTime));
+                                                            }}
+                                                        />
+                                                    ))}
+                                                </div>
+                                            ) : (() => {
                                                 const dateStr = selectedDate ? formatLocalDate(selectedDate) : '';
                                                 const override = dayOverrides[dateStr];
                                                 const hasAmPmLimits = override?.max_am_bookings !== null && override?.max_am_bookings !== undefined;
@@ -846,11 +1326,35 @@ export function StudentBookingPage() {
                                             </div>
                                         )}
 
-                                        {/* Book Button */}
+                                        {/* Book Button (or Join Waitlist when the session is full) */}
+                                        {!noSlotsConfigured && (serverSaysFull || (!slotPickerActive && isSessionFull(formatLocalDate(selectedDate), timeOfDay))) ? (
+                                            <div className="pt-2 space-y-3">
+                                                <div className="flex items-start gap-2 p-3 bg-amber-50 text-amber-800 rounded-lg border border-amber-200">
+                                                    <Hourglass className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                                                    <p className="text-sm">
+                                                        This {timeOfDay === 'AM' ? 'morning' : 'afternoon'} session is fully booked. Join the waitlist and we'll automatically book you if a slot opens up.
+                                                    </p>
+                                                </div>
+                                                <button
+                                                    onClick={handleJoinWaitlist}
+                                                    disabled={isBooking}
+                                                    className="w-full py-3 px-4 bg-amber-600 text-white font-medium rounded-lg hover:bg-amber-700 disabled:opacity-70 disabled:cursor-not-allowed transition-all shadow-sm hover:shadow active:scale-[0.99]"
+                                                >
+                                                    {isBooking ? (
+                                                        <div className="flex items-center justify-center gap-2">
+                                                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                                            <span>Joining...</span>
+                                                        </div>
+                                                    ) : (
+                                                        'Join Waitlist'
+                                                    )}
+                                                </button>
+                                            </div>
+                                        ) : (
                                         <div className="pt-2">
                                             <button
                                                 onClick={handleBookAppointment}
-                                                disabled={isBooking}
+                                                disabled={isBooking || noSlotsConfigured || typeOptions.length === 0 || getTypeRemaining(formatLocalDate(selectedDate), appointmentType) === 0}
                                                 className="w-full py-3 px-4 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-70 disabled:cursor-not-allowed transition-all shadow-sm hover:shadow active:scale-[0.99]"
                                             >
                                                 {isBooking ? (
@@ -863,6 +1367,7 @@ export function StudentBookingPage() {
                                                 )}
                                             </button>
                                         </div>
+                                        )}
                                     </>
                                 )}
                             </div>
@@ -871,6 +1376,122 @@ export function StudentBookingPage() {
                 )}
             </AnimatePresence>
 
+            {/* Reschedule Request Modal */}
+            <AnimatePresence>
+                {showRescheduleModal && rescheduleTarget && selectedDate && (
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+                        onClick={closeRescheduleModal}
+                    >
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                            animate={{ opacity: 1, scale: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                            transition={{ type: "spring", duration: 0.5 }}
+                            onClick={(e) => e.stopPropagation()}
+                            className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] overflow-hidden flex flex-col"
+                        >
+                            {/* Modal Header */}
+                            <div className="px-5 py-4 border-b bg-maroon-900 text-white flex items-center justify-between">
+                                <h3 className="font-semibold">Request New Date - {format(selectedDate, 'MMM d, yyyy')}</h3>
+                                <button onClick={closeRescheduleModal} className="p-1 hover:bg-maroon-800 rounded transition-colors">
+                                    <X className="w-5 h-5" />
+                                </button>
+                            </div>
+
+                            {/* Modal Body */}
+                            <div className="p-5 space-y-4 overflow-y-auto">
+                                <p className="text-sm text-gray-600">
+                                    Currently booked for{' '}
+                                    <span className="font-semibold text-gray-900">
+                                        {format(parseISO(rescheduleTarget.appointment_date), 'MMMM d, yyyy')} · {rescheduleTarget.time_of_day === 'PM' ? 'Afternoon' : 'Morning'}
+                                    </span>
+                                    . Your appointment stays as it is until the clinic approves the new date.
+                                </p>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1.5">{slotMode ? 'Time Slot' : 'Session'}</label>
+                                    {slotMode ? (
+                                        timeSlots.length === 0 ? (
+                                            <p className="text-sm text-gray-500">No time slots are open on this day. Please pick another date.</p>
+                                        ) : (
+                                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-56 overflow-y-auto pr-1">
+                                                {timeSlots.map((slot) => (
+                                                    <TimeSlot
+                                                        key={slot.startTime}
+                                                        slot={slot}
+                                                        isSelected={selectedSlot?.startTime === slot.startTime}
+                                                        onSelect={() => setSelectedSlot({ startTime: slot.startTime, endTime: slot.endTime })}
+                                                    />
+                                                ))}
+                                            </div>
+                                        )
+                                    ) : (
+                                        <div className="grid grid-cols-2 gap-3">
+                                            {(['AM', 'PM'] as const).map((session) => {
+                                                const full = isSessionFull(formatLocalDate(selectedDate), session);
+                                                return (
+                                                    <button
+                                                        key={session}
+                                                        onClick={() => setTimeOfDay(session)}
+                                                        disabled={full}
+                                                        className={`p-3 rounded-xl border text-left transition-all disabled:opacity-50 disabled:cursor-not-allowed ${timeOfDay === session
+                                                            ? 'bg-maroon-800 text-white border-maroon-800 shadow-md'
+                                                            : 'bg-white text-gray-700 border-gray-200 hover:border-maroon-400'
+                                                            }`}
+                                                    >
+                                                        <span className="block font-bold text-sm">{session === 'AM' ? 'Morning' : 'Afternoon'}</span>
+                                                        <span className={`block text-xs ${timeOfDay === session ? 'text-maroon-100' : 'text-gray-500'}`}>
+                                                            {full ? 'Fully booked' : session === 'AM' ? '8:00 AM - 12:00 PM' : '1:00 PM - 5:00 PM'}
+                                                        </span>
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason (optional)</label>
+                                    <textarea
+                                        value={rescheduleReason}
+                                        onChange={(e) => setRescheduleReason(e.target.value)}
+                                        maxLength={500}
+                                        rows={3}
+                                        placeholder="e.g. Exam schedule moved to that morning"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none resize-none text-sm"
+                                    />
+                                </div>
+
+                                {rescheduleError && (
+                                    <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg">
+                                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                                        <p className="text-sm">{rescheduleError}</p>
+                                    </div>
+                                )}
+
+                                <button
+                                    onClick={handleRequestReschedule}
+                                    disabled={
+                                        isRequestingReschedule ||
+                                        (slotMode ? !selectedSlot : isSessionFull(formatLocalDate(selectedDate), timeOfDay))
+                                    }
+                                    className="w-full py-3 px-4 bg-maroon-800 text-white font-medium rounded-lg hover:bg-maroon-900 disabled:opacity-70 disabled:cursor-not-allowed transition-all shadow-sm flex items-center justify-center gap-2"
+                                >
+                                    {isRequestingReschedule && (
+                                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                    )}
+                                    {isRequestingReschedule ? 'Sending...' : 'Send Request'}
+                                </button>
+                            </div>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
             {/* Appointment Details Modal */}
             <AnimatePresence>
                 {selectedAppointment && (
@@ -879,7 +1500,7 @@ export function StudentBookingPage() {
                         animate={{ opacity: 1 }}
                         exit={{ opacity: 0 }}
                         className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
-                        onClick={() => setSelectedAppointment(null)}
+                        onClick={closeAppointmentDetails}
                     >
                         <motion.div
                             initial={{ opacity: 0, scale: 0.95, y: 20 }}
@@ -893,7 +1514,7 @@ export function StudentBookingPage() {
                             <div className="px-5 py-4 border-b border-gray-100 flex items-center justify-between bg-gray-50/50">
                                 <h3 className="font-semibold text-gray-900">Appointment Details</h3>
                                 <button
-                                    onClick={() => setSelectedAppointment(null)}
+                                    onClick={closeAppointmentDetails}
                                     className="p-1.5 hover:bg-gray-200 rounded-lg transition-colors text-gray-500"
                                 >
                                     <X className="w-5 h-5" />
@@ -917,6 +1538,15 @@ export function StudentBookingPage() {
                                     </div>
                                 </div>
 
+                                {slotMode && (
+                                    <div className="space-y-1 pt-4 border-t border-gray-100">
+                                        <p className="text-[11px] font-semibold text-gray-400 uppercase tracking-widest">Time Slot</p>
+                                        <p className="text-base font-bold text-gray-900">
+                                            {formatTime(selectedAppointment.start_time)} - {formatTime(selectedAppointment.end_time)}
+                                        </p>
+                                    </div>
+                                )}
+
                                 <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-100">
                                     <div className="space-y-1">
                                         <p className="text-[11px] font-semibold text-gray-400 uppercase tracking-widest">Appointment Type</p>
@@ -950,6 +1580,129 @@ export function StudentBookingPage() {
                                         </div>
                                     );
                                 })()}
+
+                                {selectedAppointment.status === 'cancelled' && selectedAppointment.cancellation_reason && (
+                                    <div className="pt-4 border-t border-gray-100 space-y-1">
+                                        <p className="text-[11px] font-semibold text-gray-400 uppercase tracking-widest">Cancellation Reason</p>
+                                        <p className="font-medium text-gray-800 whitespace-pre-wrap break-words text-sm">
+                                            {selectedAppointment.cancellation_reason}
+                                        </p>
+                                    </div>
+                                )}
+
+                                {selectedAppointment.status === 'scheduled' &&
+                                    selectedAppointment.appointment_date >= formatLocalDate(new Date()) && (
+                                    <div className="pt-4 border-t border-gray-100 space-y-4">
+                                        <CheckInQrCode appointmentId={selectedAppointment.id} />
+                                        <button
+                                            onClick={() => downloadAppointmentIcs(selectedAppointment, campuses.find(c => c.id === selectedAppointment.campus_id))}
+                                            className="w-full py-2 px-4 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors text-sm flex items-center justify-center gap-2"
+                                        >
+                                            <CalendarPlus className="w-4 h-4" />
+                                            Add to Calendar (.ics)
+                                        </button>
+                                    </div>
+                                )}
+
+                                {/* Reschedule request — staff approve or reject it */}
+                                {selectedAppointment.status === 'scheduled' &&
+                                    selectedAppointment.appointment_date >= formatLocalDate(new Date()) &&
+                                    (() => {
+                                        const request = latestRescheduleRequest(selectedAppointment.id);
+                                        const requestedWhen = request
+                                            ? `${format(parseISO(request.requested_date), 'MMMM d, yyyy')} · ${request.requested_start_time ? formatTime(request.requested_start_time) : request.requested_time_of_day === 'AM' ? 'Morning' : 'Afternoon'}`
+                                            : '';
+                                        return (
+                                            <div className="pt-4 border-t border-gray-100 space-y-3">
+                                                {request?.status === 'pending' ? (
+                                                    <div className="flex items-start justify-between gap-3 p-3 rounded-lg border border-amber-200 bg-amber-50">
+                                                        <div className="text-sm text-amber-800">
+                                                            <p className="font-semibold">New date requested</p>
+                                                            <p>{requestedWhen} · waiting for the clinic</p>
+                                                        </div>
+                                                        <button
+                                                            onClick={() => handleWithdrawRescheduleRequest(request.id)}
+                                                            className="shrink-0 px-2.5 py-1 text-xs font-medium text-gray-600 border border-gray-300 rounded-lg hover:bg-white transition-colors"
+                                                        >
+                                                            Withdraw
+                                                        </button>
+                                                    </div>
+                                                ) : (
+                                                    <>
+                                                        {request?.status === 'rejected' && (
+                                                            <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-700">
+                                                                <p className="font-semibold">Your request for {requestedWhen} was not approved</p>
+                                                                {request.rejection_reason && <p className="mt-0.5 whitespace-pre-wrap break-words">{request.rejection_reason}</p>}
+                                                            </div>
+                                                        )}
+                                                        <button
+                                                            onClick={() => startRescheduleRequest(selectedAppointment)}
+                                                            className="w-full py-2 px-4 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors text-sm flex items-center justify-center gap-2"
+                                                        >
+                                                            <CalendarClock className="w-4 h-4" />
+                                                            Request a New Date
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        );
+                                    })()}
+
+                                {/* Self-service cancellation */}
+                                {selectedAppointment.status === 'scheduled' && (
+                                    <div className="pt-4 border-t border-gray-100">
+                                        {isWithinCancelCutoff(selectedAppointment) ? (
+                                            <p className="text-xs text-gray-500">
+                                                Online cancellation closes {cancellationCutoffHours} hours before your session. Please contact the clinic to cancel.
+                                            </p>
+                                        ) : showCancelForm ? (
+                                            <div className="space-y-3">
+                                                <label className="block text-sm font-medium text-gray-700">Reason for cancelling</label>
+                                                <textarea
+                                                    value={cancelReason}
+                                                    onChange={(e) => setCancelReason(e.target.value)}
+                                                    maxLength={500}
+                                                    rows={3}
+                                                    placeholder="e.g. Schedule conflict with a class"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-maroon-500 focus:border-maroon-500 outline-none resize-none text-sm"
+                                                />
+                                                {cancelError && (
+                                                    <div className="flex items-center gap-2 p-3 bg-red-50 text-red-700 rounded-lg">
+                                                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                                                        <p className="text-sm">{cancelError}</p>
+                                                    </div>
+                                                )}
+                                                <div className="flex gap-2">
+                                                    <button
+                                                        onClick={() => { setShowCancelForm(false); setCancelError(null); }}
+                                                        disabled={isCancelling}
+                                                        className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors text-sm"
+                                                    >
+                                                        Keep Appointment
+                                                    </button>
+                                                    <button
+                                                        onClick={handleCancelAppointment}
+                                                        disabled={isCancelling || !cancelReason.trim()}
+                                                        className="flex-1 py-2 px-4 bg-red-600 text-white font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm flex items-center justify-center gap-2"
+                                                    >
+                                                        {isCancelling && (
+                                                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                                        )}
+                                                        {isCancelling ? 'Cancelling...' : 'Confirm Cancellation'}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <button
+                                                onClick={() => setShowCancelForm(true)}
+                                                className="w-full py-2 px-4 border border-red-200 text-red-700 font-medium rounded-lg hover:bg-red-50 transition-colors text-sm flex items-center justify-center gap-2"
+                                            >
+                                                <Ban className="w-4 h-4" />
+                                                Cancel Appointment
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
                             </div>
                         </motion.div>
                     </motion.div>
@@ -7,6 +7,8 @@ import { useScheduleStore } from '~/modules/schedule';
 import { supabase } from '~/lib/supabase';
 import { StudentLayout } from '~/components/layout';
 import { SearchableSelect } from '~/components/ui';
+import { CalendarFeedsSection } from '~/modules/feeds';
+import { HealthRecordSection } from '~/modules/health';
 
 // cancelOnly = true means just clear requested_role, don't navigate
 type RoleConfirm = { role: 'student' | 'staff'; cancelOnly?: boolean } | null;
@@ -477,6 +479,18 @@ export function StudentProfilePage() {
                                 )}
                             </div>
                         )}
+
+                        {/* ── Health Record ── */}
+                        {profile?.id && (
+                            <div className="px-6 sm:px-8 lg:px-10 pb-8 border-t border-gray-100 pt-6">
+                                <HealthRecordSection patientId={profile.id} />
+                            </div>
+                        )}
+
+                        {/* ── Calendar Subscription ── */}
+                        <div className="px-6 sm:px-8 lg:px-10 pb-8 border-t border-gray-100 pt-6">
+                            <CalendarFeedsSection feedType="patient" />
+                        </div>
                         {/* End of Profile Card */}
                         </motion.div>
                     </div>
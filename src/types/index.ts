@@ -2,6 +2,7 @@ export type UserRole = 'pending' | 'student' | 'staff' | 'supervisor' | 'nurse'
 export type AppointmentType = 'physical_exam' | 'consultation' | 'dental';
 export type AppointmentStatus = 'scheduled' | 'completed' | 'cancelled' | 'no_show';
 export type UserType = 'student' | 'supervisor';
+export type BookerRole = 'student' | 'staff';
 
 export interface AppointmentFilters {
   dateRange?: {
@@ -54,6 +55,13 @@ export interface Department {
   created_at: string;
 }
 
+export interface College {
+  id: string;
+  name: string;
+  campus_id: string;
+  created_at: string;
+}
+
 export interface Appointment {
   id: string;
   patient_id: string | null;
@@ -68,11 +76,335 @@ export interface Appointment {
   patient_name?: string;
   patient_email?: string;
   patient_phone?: string;
-  booker_role?: 'student' | 'staff';
+  booker_role?: BookerRole;
+  cancellation_reason?: string | null;
+  cancelled_at?: string | null;
+  cancelled_by?: string | null;
+  queue_number?: number | null;
+  checked_in_at?: string | null;
+  called_at?: string | null;
+  served_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AppointmentHistoryEvent =
+  | 'created'
+  | 'rescheduled'
+  | 'status_changed'
+  | 'checked_in'
+  | 'called'
+  | 'confirmation_sent'
+  | 'reminder_sent';
+
+/** One entry in an appointment's server-recorded timeline. */
+export interface AppointmentHistoryEntry {
+  id: string;
+  appointment_id: string;
+  event: AppointmentHistoryEvent;
+  details: Record<string, string | number | null>;
+  actor_id: string | null;
+  /** Name at the time of the event; null for system actions */
+  actor_name: string | null;
+  actor_role: string | null;
+  created_at: string;
+}
+
+/** The editable SOAP fields of an encounter note. */
+export interface EncounterNoteFields {
+  chief_complaint: string;
+  subjective: string | null;
+  objective: string | null;
+  assessment: string | null;
+  plan: string | null;
+  attending_staff_id: string | null;
+}
+
+/** One saved version of an appointment's encounter note; the highest version is current. */
+export interface EncounterNote extends EncounterNoteFields {
+  id: string;
+  appointment_id: string;
+  version: number;
+  attending_staff_name: string | null;
+  author_id: string | null;
+  author_name: string | null;
+  created_at: string;
+}
+
+/** One set of vital signs taken at an appointment; bmi is computed by the database. */
+export interface VitalSigns {
+  id: string;
+  appointment_id: string;
+  patient_id: string | null;
+  systolic_bp: number | null;
+  diastolic_bp: number | null;
+  heart_rate: number | null;
+  temperature_c: number | null;
+  respiratory_rate: number | null;
+  weight_kg: number | null;
+  height_cm: number | null;
+  spo2: number | null;
+  bmi: number | null;
+  recorded_by: string | null;
+  recorded_by_name: string | null;
+  recorded_at: string;
+  appointment?: Pick<Appointment, 'appointment_date' | 'appointment_type'>;
+}
+
+export type DentalCondition =
+  | 'sound'
+  | 'caries'
+  | 'filled'
+  | 'crown'
+  | 'root_canal'
+  | 'fractured'
+  | 'impacted'
+  | 'for_extraction'
+  | 'missing';
+
+export type DentalProcedure = 'filling' | 'extraction' | 'scaling' | 'sealant' | 'fluoride' | 'root_canal' | 'crown' | 'other';
+
+/** The per-tooth fields the dentist records (FDI tooth number). */
+export interface DentalToothRecord {
+  tooth: number;
+  condition: DentalCondition;
+  surfaces: string[];
+  procedure: DentalProcedure | null;
+  notes: string | null;
+}
+
+/** One tooth charted at a dental appointment. */
+export interface DentalChartEntry extends DentalToothRecord {
+  id: string;
+  appointment_id: string;
+  patient_id: string | null;
+  recorded_by: string | null;
+  recorded_by_name: string | null;
+  recorded_at: string;
+  appointment?: Pick<Appointment, 'appointment_date'>;
+}
+
+export type BloodType = 'A+' | 'A-' | 'B+' | 'B-' | 'AB+' | 'AB-' | 'O+' | 'O-';
+
+/** The fields a patient fills in on their health record. */
+export interface HealthRecordFields {
+  allergies: string[];
+  no_known_allergies: boolean;
+  chronic_conditions: string[];
+  current_medications: string[];
+  blood_type: BloodType | null;
+  emergency_contact_name: string | null;
+  emergency_contact_relationship: string | null;
+  emergency_contact_phone: string | null;
+}
+
+export interface HealthRecord extends HealthRecordFields {
+  patient_id: string;
+  updated_by: string | null;
+  /** Cleared whenever the record changes after verification */
+  verified_at: string | null;
+  verified_by: string | null;
+  verified_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** The fields a clinician fills in when issuing a medical certificate. */
+export interface MedicalCertificateFields {
+  findings: string;
+  recommendation: string | null;
+  rest_days: number;
+  /** First day of rest; defaults to the visit date */
+  rest_from: string | null;
+}
+
+/** A medical certificate; patient and campus details are copied at issuance. */
+export interface MedicalCertificate extends MedicalCertificateFields {
+  id: string;
+  certificate_number: string;
+  appointment_id: string | null;
+  patient_id: string | null;
+  campus_id: string | null;
+  campus_name: string | null;
+  campus_address: string | null;
+  patient_name: string;
+  patient_sex: string | null;
+  patient_age: number | null;
+  patient_id_number: string | null;
+  visit_date: string;
+  rest_to: string | null;
+  issued_by: string | null;
+  issued_by_name: string;
+  issued_by_role: string;
+  issued_at: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  revoked_by_name: string | null;
+  revocation_reason: string | null;
+  /** Random token behind the QR code printed on the certificate */
+  verify_token: string;
+}
+
+export type CertificateVerificationStatus = 'valid' | 'revoked' | 'not_found' | 'rate_limited';
+
+/** What the public verification page may show — never names or findings. */
+export interface CertificateVerification {
+  status: CertificateVerificationStatus;
+  certificate_number?: string;
+  issued_at?: string;
+  campus_name?: string | null;
+  patient_initials?: string;
+  revoked_at?: string | null;
+  /** Set when status is 'rate_limited' */
+  lockout_until?: string;
+}
+
+export type ReferralUrgency = 'routine' | 'urgent' | 'emergency';
+
+export type ReferralStatus = 'open' | 'returned' | 'closed';
+
+/** The fields a clinician fills in when referring a patient. */
+export interface ReferralFields {
+  facility_name: string;
+  /** Specialist or department at the facility, if known */
+  referred_to: string | null;
+  reason: string;
+  urgency: ReferralUrgency;
+  findings: string;
+}
+
+/** A referral letter; patient and campus details are copied when it is written. */
+export interface Referral extends ReferralFields {
+  id: string;
+  referral_number: string;
+  appointment_id: string | null;
+  patient_id: string | null;
+  campus_id: string | null;
+  campus_name: string | null;
+  campus_address: string | null;
+  patient_name: string;
+  patient_sex: string | null;
+  patient_age: number | null;
+  patient_id_number: string | null;
+  visit_date: string;
+  status: ReferralStatus;
+  referred_by: string | null;
+  referred_by_name: string;
+  referred_by_role: string;
+  referred_at: string;
+  returned_at: string | null;
+  returned_by_name: string | null;
+  /** What the facility reported back */
+  return_notes: string | null;
+  closed_at: string | null;
+  closed_by_name: string | null;
+  closure_notes: string | null;
+}
+
+export type CompliancePopulation = 'student' | 'employee';
+
+/** One student or employee in the physical exam compliance report for an academic year. */
+export interface PhysicalExamComplianceRow {
+  profile_id: string;
+  full_name: string;
+  email: string;
+  population: CompliancePopulation;
+  id_number: string | null;
+  campus_id: string | null;
+  campus_name: string | null;
+  college_id: string | null;
+  college_name: string | null;
+  department_id: string | null;
+  department_name: string | null;
+  /** Latest completed physical exam within the year */
+  completed_on: string | null;
+  /** Earliest physical exam still booked within the year */
+  scheduled_on: string | null;
+  last_reminded_at: string | null;
+}
+
+export type InventoryCategory = 'medicine' | 'supply';
+
+/** The fields staff edit on an inventory item. */
+export interface InventoryItemFields {
+  name: string;
+  category: InventoryCategory;
+  unit: string;
+  /** Low-stock alert once usable stock falls to this level */
+  reorder_level: number;
+  notes: string | null;
+  is_active: boolean;
+}
+
+export interface InventoryItem extends InventoryItemFields {
+  id: string;
+  campus_id: string;
   created_at: string;
   updated_at: string;
 }
 
+/** One delivery of an item; stock is held per lot so expiry can be tracked. */
+export interface InventoryLot {
+  id: string;
+  item_id: string;
+  campus_id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  quantity_on_hand: number;
+  received_at: string;
+  updated_at?: string;
+}
+
+export type InventoryMovementType = 'stock_in' | 'stock_out' | 'dispense';
+
+/** One stock-in, stock-out or dispense; balance_after is what the lot held afterwards. */
+export interface InventoryMovement {
+  id: string;
+  campus_id: string;
+  item_id: string;
+  lot_id: string | null;
+  movement_type: InventoryMovementType;
+  quantity: number;
+  balance_after: number;
+  reason: string | null;
+  actor_id: string | null;
+  actor_name: string | null;
+  /** Set on dispense movements */
+  appointment_id?: string | null;
+  created_at: string;
+  lot?: Pick<InventoryLot, 'lot_number' | 'expiry_date'> | null;
+}
+
+/** Stock given to a patient during a visit; item and lot details are copied at dispensing time. */
+export interface DispensingEntry {
+  id: string;
+  appointment_id: string;
+  patient_id: string | null;
+  campus_id: string;
+  item_id: string;
+  lot_id: string | null;
+  movement_id: string | null;
+  item_name: string;
+  unit: string;
+  lot_number: string;
+  expiry_date: string | null;
+  quantity: number;
+  instructions: string | null;
+  dispensed_by: string | null;
+  dispensed_by_name: string | null;
+  dispensed_at: string;
+  appointment?: Pick<Appointment, 'appointment_date' | 'appointment_type'>;
+}
+
+/** One row of the public queue board — initials only, never full names. */
+export interface QueueBoardEntry {
+  time_of_day: 'AM' | 'PM';
+  queue_number: number;
+  initials: string;
+  called_at: string | null;
+  served: boolean;
+}
+
 export interface ScheduleSetting {
   id: string;
   campus_id: string;
@@ -84,6 +416,23 @@ export interface ScheduleSetting {
   is_active: boolean;
 }
 
+export type AppointmentTypeColor = 'blue' | 'green' | 'amber' | 'purple' | 'teal' | 'rose' | 'indigo' | 'slate';
+
+/** How one campus offers an appointment type (see create_appointment_type_catalog.sql). */
+export interface AppointmentTypeConfig {
+  id: string;
+  campus_id: string;
+  code: AppointmentType;
+  label: string;
+  color: AppointmentTypeColor;
+  duration_minutes: number;
+  enabled: boolean;
+  /** Who may book it online; clinic staff can still book any enabled type */
+  allowed_booker_roles: BookerRole[];
+  sort_order: number;
+  updated_at?: string;
+}
+
 export interface WeeklyLimit {
   id: string;
   appointment_type: AppointmentType;
@@ -91,12 +440,47 @@ export interface WeeklyLimit {
   max_appointments_per_week: number;
 }
 
+// 'block' = no new bookings for a while, 'short_window' = limited advance booking
+export type NoShowPenalty = 'block' | 'short_window';
+
+export interface NoShowPolicy {
+  enabled: boolean;
+  window_days: number;
+  threshold: number;
+  penalty: NoShowPenalty;
+  block_days: number;
+  max_advance_days: number;
+  updated_at?: string;
+}
+
+/** A patient's no-show record over the policy's rolling window. */
+export interface NoShowStanding {
+  no_show_count: number;
+  window_days: number;
+  threshold: number;
+  penalty: NoShowPenalty;
+  restricted: boolean;
+  /** First day the penalty no longer applies; null when not restricted */
+  restricted_until: string | null;
+  max_advance_days: number | null;
+  last_no_show_date: string | null;
+}
+
+// 'session' = AM/PM first-come sessions, 'slot' = concrete slots from schedule_settings
+export type BookingMode = 'session' | 'slot';
+
+// Per-appointment-type day capacity; a missing type has no bucket of its own
+export type TypeCapacity = Partial<Record<AppointmentType, number>>;
+
 export interface BookingSetting {
   id: string;
   campus_id: string;
   max_bookings_per_day: number;
   max_am_bookings?: number;
   max_pm_bookings?: number;
+  cancellation_cutoff_hours?: number;
+  booking_mode?: BookingMode;
+  type_capacity?: TypeCapacity;
   created_at: string;
   updated_at: string;
 }
@@ -137,6 +521,66 @@ export interface DayOverride {
   max_bookings: number;
   max_am_bookings?: number;
   max_pm_bookings?: number;
+  type_capacity?: TypeCapacity;
+  notes?: string;
+  created_at: string;
+}
+
+export type WaitlistStatus = 'waiting' | 'promoted' | 'left' | 'expired';
+
+export interface WaitlistEntry {
+  id: string;
+  patient_id: string;
+  campus_id: string;
+  waitlist_date: string;
+  time_of_day: 'AM' | 'PM';
+  appointment_type: AppointmentType;
+  patient_name?: string;
+  patient_email?: string;
+  patient_phone?: string;
   notes?: string;
+  booker_role: BookerRole;
+  status: WaitlistStatus;
+  closed_reason?: string | null;
+  appointment_id?: string | null;
+  promoted_at?: string | null;
+  notified_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RescheduleRequestStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn' | 'expired';
+
+export interface RescheduleRequest {
+  id: string;
+  appointment_id: string;
+  patient_id: string;
+  campus_id: string;
+  from_date: string;
+  from_time_of_day: 'AM' | 'PM' | null;
+  from_start_time: string | null;
+  requested_date: string;
+  requested_time_of_day: 'AM' | 'PM';
+  requested_start_time: string | null;   // slot-mode campuses only
+  reason: string | null;
+  status: RescheduleRequestStatus;
+  rejection_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  appointment?: Pick<Appointment, 'id' | 'patient_name' | 'patient_email' | 'appointment_type' | 'appointment_date' | 'time_of_day' | 'start_time' | 'status'>;
+}
+
+export type CalendarFeedType = 'patient' | 'campus';
+
+export interface CalendarFeed {
+  id: string;
+  owner_id: string;
+  feed_type: CalendarFeedType;
+  campus_id: string | null;
+  token: string;
   created_at: string;
+  last_accessed_at: string | null;
+  revoked_at: string | null;
 }
@@ -0,0 +1,195 @@
+-- ============================================================
+-- LDCU Clinic — Public Certificate Verification
+-- Lets anyone holding a medical certificate (faculty, offices)
+-- check that it is genuine and still valid at /verify, by
+-- certificate number or by scanning the QR code printed on it.
+--
+--   verify_token           — random token behind the QR code, so
+--                            the QR cannot be guessed from the
+--                            sequential certificate number
+--   certificate_lookups    — one row per lookup, used for rate
+--                            limiting (no client access)
+--   verify_medical_certificate() — the only public entry point;
+--                            returns validity, issue date, campus
+--                            and patient initials, never findings
+--
+-- Lookups are limited per client IP with the same rules as
+-- check_login_rate_limit(): 5 failed lookups in 15 minutes lock
+-- that client out for 15 minutes, 10 in an hour for an hour.
+-- Because certificate numbers are sequential, 30 lookups of any
+-- kind in 15 minutes also lock the client out, so the register
+-- cannot be walked number by number. The check runs inside
+-- verify_medical_certificate() itself so it cannot be skipped by
+-- calling the RPC directly.
+--
+-- The client IP is the one the platform saw: Cloudflare's
+-- cf-connecting-ip, else the last x-forwarded-for entry (appended
+-- by the gateway; earlier entries come from the client and can be
+-- forged). A request with neither is refused rather than pooled
+-- with other callers.
+--
+-- Requires create_medical_certificates.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. QR token (existing certificates get one too) ──
+ALTER TABLE medical_certificates
+  ADD COLUMN IF NOT EXISTS verify_token TEXT NOT NULL UNIQUE
+    DEFAULT encode(extensions.gen_random_bytes(16), 'hex');
+
+-- ── 2. Lookup log ──
+CREATE TABLE IF NOT EXISTS certificate_lookups (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_key   TEXT NOT NULL,
+  found        BOOLEAN NOT NULL DEFAULT FALSE,
+  looked_up_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_certificate_lookups_client_time
+  ON certificate_lookups(client_key, looked_up_at DESC);
+
+ALTER TABLE certificate_lookups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "certificate_lookups_no_access" ON certificate_lookups;
+CREATE POLICY "certificate_lookups_no_access"
+  ON certificate_lookups
+  FOR ALL
+  TO authenticated, anon
+  USING (false);
+
+
+-- ============================================================
+-- 3. check_certificate_lookup_rate_limit() — internal helper
+--    Same shape and rules as check_login_rate_limit(), plus a
+--    cap on all lookups (found or not).
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_certificate_lookup_rate_limit(p_client_key TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_failed_15min  INT;
+  v_failed_1hour  INT;
+  v_last_failed   TIMESTAMPTZ;
+  v_total_15min   INT;
+  v_last_lookup   TIMESTAMPTZ;
+  v_lockout_until TIMESTAMPTZ;
+BEGIN
+  SELECT count(*), max(looked_up_at)
+  INTO v_total_15min, v_last_lookup
+  FROM certificate_lookups
+  WHERE client_key = p_client_key
+    AND looked_up_at > NOW() - INTERVAL '15 minutes';
+
+  IF v_total_15min >= 30 THEN
+    v_lockout_until := v_last_lookup + INTERVAL '15 minutes';
+    IF NOW() < v_lockout_until THEN
+      RETURN json_build_object('allowed', false, 'reason', 'too_many_lookups', 'lockout_until', v_lockout_until);
+    END IF;
+  END IF;
+
+  SELECT
+    count(*) FILTER (WHERE looked_up_at > NOW() - INTERVAL '15 minutes'),
+    count(*),
+    max(looked_up_at)
+  INTO v_failed_15min, v_failed_1hour, v_last_failed
+  FROM certificate_lookups
+  WHERE client_key = p_client_key
+    AND found = FALSE
+    AND looked_up_at > NOW() - INTERVAL '1 hour';
+
+  IF v_failed_15min >= 5 THEN
+    v_lockout_until := v_last_failed + INTERVAL '15 minutes';
+    IF NOW() < v_lockout_until THEN
+      RETURN json_build_object('allowed', false, 'reason', 'too_many_attempts', 'lockout_until', v_lockout_until);
+    END IF;
+  END IF;
+
+  IF v_failed_1hour >= 10 THEN
+    v_lockout_until := v_last_failed + INTERVAL '1 hour';
+    IF NOW() < v_lockout_until THEN
+      RETURN json_build_object('allowed', false, 'reason', 'too_many_attempts', 'lockout_until', v_lockout_until);
+    END IF;
+  END IF;
+
+  RETURN json_build_object('allowed', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_certificate_lookup_rate_limit FROM PUBLIC, anon, authenticated;
+
+
+-- ============================================================
+-- 4. verify_medical_certificate() — public lookup
+--    p_query is a certificate number (LDCU-MC-2026-000123) or a
+--    QR token. Returns { status: 'valid' | 'revoked' |
+--    'not_found' | 'rate_limited', ... }. Names are reduced to
+--    the first letters of the first and last word, as on the
+--    queue board.
+-- ============================================================
+CREATE OR REPLACE FUNCTION verify_medical_certificate(p_query TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query      TEXT := upper(trim(COALESCE(p_query, '')));
+  v_headers    JSON := current_setting('request.headers', true)::json;
+  v_client_key TEXT;
+  v_limit      JSON;
+  v_cert       medical_certificates%ROWTYPE;
+BEGIN
+  v_client_key := COALESCE(
+    NULLIF(trim(v_headers->>'cf-connecting-ip'), ''),
+    NULLIF(trim(regexp_replace(v_headers->>'x-forwarded-for', '^.*,', '')), '')
+  );
+
+  IF v_client_key IS NULL THEN
+    RETURN json_build_object('status', 'rate_limited');
+  END IF;
+
+  v_limit := check_certificate_lookup_rate_limit(v_client_key);
+  IF NOT (v_limit->>'allowed')::BOOLEAN THEN
+    RETURN json_build_object('status', 'rate_limited', 'lockout_until', v_limit->>'lockout_until');
+  END IF;
+
+  IF v_query ~ '^LDCU-MC-\d{4}-\d{6}$' THEN
+    SELECT * INTO v_cert FROM medical_certificates WHERE certificate_number = v_query;
+  ELSIF v_query ~ '^[0-9A-F]{32}$' THEN
+    SELECT * INTO v_cert FROM medical_certificates WHERE verify_token = lower(v_query);
+  END IF;
+
+  INSERT INTO certificate_lookups (client_key, found)
+  VALUES (v_client_key, v_cert.id IS NOT NULL);
+
+  DELETE FROM certificate_lookups
+  WHERE looked_up_at < NOW() - INTERVAL '7 days';
+
+  IF v_cert.id IS NULL THEN
+    RETURN json_build_object('status', 'not_found');
+  END IF;
+
+  RETURN json_build_object(
+    'status', CASE WHEN v_cert.revoked_at IS NULL THEN 'valid' ELSE 'revoked' END,
+    'certificate_number', v_cert.certificate_number,
+    'issued_at', v_cert.issued_at,
+    'campus_name', v_cert.campus_name,
+    'patient_initials', upper(
+      left(trim(v_cert.patient_name), 1) ||
+      CASE WHEN trim(v_cert.patient_name) ~ '\s'
+        THEN left(regexp_replace(trim(v_cert.patient_name), '^.*\s', ''), 1)
+        ELSE ''
+      END
+    ),
+    'revoked_at', v_cert.revoked_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_medical_certificate TO anon, authenticated;
+
+-- Verify
+SELECT 'Certificate verification created successfully!' AS status;
@@ -0,0 +1,153 @@
+-- ============================================================
+-- LDCU Clinic — QR Check-In Codes
+-- Every appointment gets a signed check-in code that patients
+-- receive in their confirmation email and see in their
+-- appointment details. Clinic staff scan it (or type it in) on
+-- the day schedule to check the patient in.
+--
+-- Code format: LDCU1.<appointment id>.<appointment date>.<signature>
+-- The signature is an HMAC over the id and date using a secret
+-- that never leaves the database, so codes cannot be forged, and
+-- a code stops working once the appointment is rescheduled.
+--
+-- Run after add_queue_checkin.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ── 1. Server-side secrets ──
+-- RLS on with no policies: only SECURITY DEFINER functions can read it.
+CREATE TABLE IF NOT EXISTS app_secrets (
+  name       TEXT PRIMARY KEY,
+  value      TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE app_secrets ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO app_secrets (name, value)
+VALUES ('checkin_code_key', encode(extensions.gen_random_bytes(32), 'hex'))
+ON CONFLICT (name) DO NOTHING;
+
+
+-- ============================================================
+-- 2. sign_checkin_code() — build the code for an id + date
+-- ============================================================
+CREATE OR REPLACE FUNCTION sign_checkin_code(p_appointment_id UUID, p_date DATE)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT 'LDCU1.' || p_appointment_id::text || '.' || p_date::text || '.' ||
+         left(encode(hmac(p_appointment_id::text || ':' || p_date::text, s.value, 'sha256'), 'hex'), 32)
+  FROM app_secrets s
+  WHERE s.name = 'checkin_code_key';
+$$;
+
+REVOKE EXECUTE ON FUNCTION sign_checkin_code FROM PUBLIC, anon, authenticated;
+
+
+-- ============================================================
+-- 3. get_checkin_code() — code for one appointment
+--    Patients can only fetch codes for their own appointments.
+-- ============================================================
+CREATE OR REPLACE FUNCTION get_checkin_code(p_appointment_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse')
+     AND v_apt.patient_id IS DISTINCT FROM auth.uid()
+     AND lower(COALESCE(v_apt.patient_email, '')) <> lower(COALESCE(auth.jwt() ->> 'email', '')) THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only view check-in codes for your own appointments.';
+  END IF;
+
+  RETURN sign_checkin_code(v_apt.id, v_apt.appointment_date);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_checkin_code TO authenticated;
+
+
+-- ============================================================
+-- 4. check_in_by_code() — verify a scanned code and check in
+--    Rejects forged or malformed codes (INVALID_CODE), codes for
+--    another campus (WRONG_CAMPUS), and codes that no longer
+--    apply (EXPIRED_CODE): past dates, rescheduled, cancelled or
+--    already finished appointments. The check-in itself goes
+--    through check_in_appointment(), which also rejects codes for
+--    a future day.
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_in_by_code(p_code TEXT, p_campus_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parts TEXT[] := string_to_array(trim(COALESCE(p_code, '')), '.');
+  v_id    UUID;
+  v_date  DATE;
+  v_apt   appointments%ROWTYPE;
+  v_today DATE := (now() AT TIME ZONE 'Asia/Manila')::DATE;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can check patients in.';
+  END IF;
+
+  IF array_length(v_parts, 1) IS DISTINCT FROM 4
+     OR v_parts[1] <> 'LDCU1'
+     OR v_parts[2] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+     OR v_parts[3] !~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RAISE EXCEPTION 'INVALID_CODE: This is not a clinic check-in code.';
+  END IF;
+
+  v_id := v_parts[2]::UUID;
+  BEGIN
+    v_date := v_parts[3]::DATE;
+  EXCEPTION WHEN others THEN
+    RAISE EXCEPTION 'INVALID_CODE: This is not a clinic check-in code.';
+  END;
+
+  IF sign_checkin_code(v_id, v_date) IS DISTINCT FROM trim(p_code) THEN
+    RAISE EXCEPTION 'INVALID_CODE: This check-in code is not valid.';
+  END IF;
+
+  SELECT * INTO v_apt FROM appointments WHERE id = v_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'INVALID_CODE: This appointment no longer exists.';
+  END IF;
+
+  IF v_apt.campus_id <> p_campus_id THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This appointment is booked at another campus.';
+  END IF;
+
+  IF v_apt.appointment_date <> v_date THEN
+    RAISE EXCEPTION 'EXPIRED_CODE: This appointment was rescheduled; the patient needs the code for the new date.';
+  END IF;
+
+  IF v_date < v_today OR v_apt.status IN ('cancelled', 'completed', 'no_show') THEN
+    RAISE EXCEPTION 'EXPIRED_CODE: This appointment is no longer active.';
+  END IF;
+
+  RETURN check_in_appointment(v_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_in_by_code TO authenticated;
+
+-- Verify
+SELECT 'Check-in code functions created successfully!' AS status;
@@ -0,0 +1,197 @@
+-- ============================================================
+-- LDCU Clinic — Same-Day Queue & Check-In
+-- Turns "first come, first served" into a real queue: clinic
+-- staff check patients in on the day, each check-in gets the
+-- next queue number for its campus/date/session, and nurses
+-- call patients in queue order.
+--
+--   checked_in_at — patient arrived and received a number
+--   called_at     — nurse called the patient in
+--   served_at     — visit completed (stamped automatically)
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Queue columns ──
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS queue_number  INT,
+  ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS called_at     TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS served_at     TIMESTAMPTZ;
+
+-- One number per session per day per campus
+CREATE UNIQUE INDEX IF NOT EXISTS idx_appointments_queue_number
+  ON appointments(campus_id, appointment_date, time_of_day, queue_number)
+  WHERE queue_number IS NOT NULL;
+
+
+-- ============================================================
+-- 2. check_in_appointment() — assign the next queue number
+--    Only for today's scheduled appointments. Checking in twice
+--    returns the existing number instead of taking a new one.
+--    Nurses can only check in patients at their own campus.
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_in_appointment(p_appointment_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt     appointments%ROWTYPE;
+  v_today   DATE := (now() AT TIME ZONE 'Asia/Manila')::DATE;
+  v_session TEXT;
+  v_next    INT;
+  v_result  JSON;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can check patients in.';
+  END IF;
+
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF get_my_role() = 'nurse' AND v_apt.campus_id IS DISTINCT FROM get_my_campus_id() THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This appointment is booked at another campus.';
+  END IF;
+
+  v_session := COALESCE(v_apt.time_of_day, CASE WHEN v_apt.start_time < TIME '12:00' THEN 'AM' ELSE 'PM' END);
+
+  -- Serialize numbering per campus + date + session
+  PERFORM pg_advisory_xact_lock(abs(hashtext('queue:' || v_apt.campus_id::text || v_apt.appointment_date::text || v_session)));
+
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+
+  IF v_apt.queue_number IS NULL THEN
+    IF v_apt.status <> 'scheduled' THEN
+      RAISE EXCEPTION 'NOT_CHECKABLE: Only scheduled appointments can be checked in.';
+    END IF;
+    IF v_apt.appointment_date <> v_today THEN
+      RAISE EXCEPTION 'NOT_TODAY: Patients can only be checked in on the day of their appointment.';
+    END IF;
+
+    SELECT COALESCE(max(queue_number), 0) + 1 INTO v_next
+    FROM appointments
+    WHERE campus_id = v_apt.campus_id
+      AND appointment_date = v_apt.appointment_date
+      AND time_of_day = v_session;
+
+    UPDATE appointments
+    SET queue_number = v_next,
+        time_of_day = v_session,
+        checked_in_at = now()
+    WHERE id = p_appointment_id;
+  END IF;
+
+  SELECT row_to_json(a.*) INTO v_result
+  FROM appointments a
+  WHERE a.id = p_appointment_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_in_appointment TO authenticated;
+
+
+-- ============================================================
+-- 3. call_next_patient() — call the lowest waiting number
+--    Returns the called appointment, or NULL when nobody who has
+--    checked in is still waiting.
+-- ============================================================
+CREATE OR REPLACE FUNCTION call_next_patient(
+  p_campus_id   UUID,
+  p_date        DATE,
+  p_time_of_day TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id     UUID;
+  v_result JSON;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can call patients.';
+  END IF;
+
+  IF get_my_role() = 'nurse' AND p_campus_id IS DISTINCT FROM get_my_campus_id() THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: You can only call patients at your own campus.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(abs(hashtext('queue:' || p_campus_id::text || p_date::text || p_time_of_day)));
+
+  SELECT id INTO v_id
+  FROM appointments
+  WHERE campus_id = p_campus_id
+    AND appointment_date = p_date
+    AND time_of_day = p_time_of_day
+    AND status = 'scheduled'
+    AND queue_number IS NOT NULL
+    AND called_at IS NULL
+  ORDER BY queue_number
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE appointments SET called_at = now() WHERE id = v_id;
+
+  SELECT row_to_json(a.*) INTO v_result
+  FROM appointments a
+  WHERE a.id = v_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION call_next_patient TO authenticated;
+
+
+-- ============================================================
+-- 4. Keep queue fields in step with the appointment
+--    Marking an appointment completed (e.g. dragging it to Done on
+--    the schedule board) stamps served_at; moving it back clears it.
+--    Moving it to another date, session or slot drops its place in
+--    the queue; check_in_appointment() itself sets time_of_day along
+--    with the new number, so only an existing number is cleared.
+-- ============================================================
+CREATE OR REPLACE FUNCTION sync_appointment_queue_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.served_at := COALESCE(NEW.served_at, now());
+  ELSIF NEW.status <> 'completed' AND OLD.status = 'completed' THEN
+    NEW.served_at := NULL;
+  END IF;
+
+  IF OLD.queue_number IS NOT NULL AND (
+       NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+       OR NEW.time_of_day IS DISTINCT FROM OLD.time_of_day
+       OR NEW.start_time IS DISTINCT FROM OLD.start_time
+     ) THEN
+    NEW.queue_number  := NULL;
+    NEW.checked_in_at := NULL;
+    NEW.called_at     := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_appointments_queue_fields ON appointments;
+CREATE TRIGGER trg_appointments_queue_fields
+  BEFORE UPDATE OF status, appointment_date, time_of_day, start_time ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_appointment_queue_fields();
+
+-- Verify
+SELECT 'Queue check-in columns and functions created successfully!' AS status;
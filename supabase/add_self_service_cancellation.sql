@@ -0,0 +1,118 @@
+-- ============================================================
+-- LDCU Clinic — Self-Service Appointment Cancellation
+-- Lets patients cancel their own scheduled appointment with a
+-- reason, up to a per-campus cutoff before the session starts.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Per-campus cutoff window (hours before session start) ──
+ALTER TABLE booking_settings
+  ADD COLUMN IF NOT EXISTS cancellation_cutoff_hours INT NOT NULL DEFAULT 24;
+
+ALTER TABLE booking_settings
+  DROP CONSTRAINT IF EXISTS booking_settings_cancellation_cutoff_range;
+ALTER TABLE booking_settings
+  ADD CONSTRAINT booking_settings_cancellation_cutoff_range
+  CHECK (cancellation_cutoff_hours BETWEEN 0 AND 168);
+
+-- ── 2. Cancellation details on appointments ──
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancelled_at        TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_by        UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- ── 3. Atomic cancel function ──
+-- Takes the same campus+date advisory lock as book_appointment() so a
+-- cancellation never interleaves with a booking for the same day.
+-- Clinic staff may cancel regardless of the cutoff (nurses only at
+-- their own campus, as with the appointments RLS); patients may only
+-- cancel their own, and only before the cutoff.
+CREATE OR REPLACE FUNCTION cancel_appointment(
+  p_appointment_id UUID,
+  p_reason         TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt          appointments%ROWTYPE;
+  v_role         TEXT;
+  v_is_staff     BOOLEAN;
+  v_cutoff_hours INT;
+  v_session_at   TIMESTAMPTZ;
+  v_reason       TEXT;
+  v_result       JSON;
+BEGIN
+  v_reason := btrim(coalesce(p_reason, ''));
+  IF v_reason = '' THEN
+    RAISE EXCEPTION 'REASON_REQUIRED: A cancellation reason is required.';
+  END IF;
+  IF char_length(v_reason) > 500 THEN
+    RAISE EXCEPTION 'REASON_REQUIRED: The cancellation reason must be 500 characters or fewer.';
+  END IF;
+
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  -- ── 1. Serialize with bookings for the same campus + date ──
+  PERFORM pg_advisory_xact_lock(abs(hashtext(v_apt.campus_id::text || v_apt.appointment_date::text)));
+
+  -- Re-read under the lock in case it changed while we waited
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+
+  -- ── 2. Authorization ──
+  v_role := get_my_role();
+  v_is_staff := v_role IN ('admin', 'supervisor', 'nurse');
+
+  IF v_role = 'nurse' AND v_apt.campus_id IS DISTINCT FROM get_my_campus_id() THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This appointment is booked at another campus.';
+  END IF;
+
+  IF NOT v_is_staff AND (v_apt.patient_id IS NULL OR v_apt.patient_id <> auth.uid()) THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only cancel your own appointments.';
+  END IF;
+
+  -- ── 3. Only scheduled appointments can be cancelled ──
+  IF v_apt.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'NOT_CANCELLABLE: Only scheduled appointments can be cancelled.';
+  END IF;
+
+  -- ── 4. Cutoff window (patients only) ──
+  IF NOT v_is_staff THEN
+    SELECT COALESCE(bs.cancellation_cutoff_hours, 24) INTO v_cutoff_hours
+    FROM (SELECT 1) AS dummy
+    LEFT JOIN booking_settings bs ON bs.campus_id = v_apt.campus_id;
+
+    v_session_at := (v_apt.appointment_date + v_apt.start_time) AT TIME ZONE 'Asia/Manila';
+
+    IF now() > v_session_at - make_interval(hours => v_cutoff_hours) THEN
+      RAISE EXCEPTION 'CANCEL_CUTOFF: Appointments can no longer be cancelled within % hours of the session.', v_cutoff_hours;
+    END IF;
+  END IF;
+
+  -- ── 5. Cancel ──
+  UPDATE appointments
+  SET status = 'cancelled',
+      cancellation_reason = v_reason,
+      cancelled_at = now(),
+      cancelled_by = auth.uid()
+  WHERE id = p_appointment_id;
+
+  SELECT row_to_json(a.*) INTO v_result
+  FROM appointments a
+  WHERE a.id = p_appointment_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Grant access to authenticated users
+GRANT EXECUTE ON FUNCTION cancel_appointment TO authenticated;
+
+-- Verify
+SELECT 'cancel_appointment() function created successfully!' AS status;
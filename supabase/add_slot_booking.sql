@@ -0,0 +1,129 @@
+-- ============================================================
+-- LDCU Clinic — Optional Time-Slot Booking Mode
+-- Campuses can switch from the AM/PM first-come sessions to
+-- concrete time slots generated from schedule_settings
+-- (start_time → end_time in slot_duration steps, each holding
+-- up to max_appointments patients).
+--
+-- Per-slot capacity is enforced inside book_appointment();
+-- run book_appointment.sql and create_waitlist.sql after this.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Per-campus booking mode ──
+ALTER TABLE booking_settings
+  ADD COLUMN IF NOT EXISTS booking_mode TEXT NOT NULL DEFAULT 'session';
+
+ALTER TABLE booking_settings
+  DROP CONSTRAINT IF EXISTS booking_settings_booking_mode_check;
+ALTER TABLE booking_settings
+  ADD CONSTRAINT booking_settings_booking_mode_check
+  CHECK (booking_mode IN ('session', 'slot'));
+
+-- ── 2. Weekly slot templates (one row per campus + weekday) ──
+CREATE TABLE IF NOT EXISTS schedule_settings (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campus_id        UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  day_of_week      INT  NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time       TIME NOT NULL DEFAULT '08:00',
+  end_time         TIME NOT NULL DEFAULT '17:00',
+  slot_duration    INT  NOT NULL DEFAULT 30 CHECK (slot_duration BETWEEN 5 AND 240),
+  max_appointments INT  NOT NULL DEFAULT 1 CHECK (max_appointments >= 1),
+  is_active        BOOLEAN NOT NULL DEFAULT true,
+  created_at       TIMESTAMPTZ DEFAULT now(),
+  updated_at       TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (campus_id, day_of_week),
+  CHECK (end_time > start_time)
+);
+
+ALTER TABLE schedule_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "schedule_settings_select" ON schedule_settings;
+DROP POLICY IF EXISTS "schedule_settings_insert" ON schedule_settings;
+DROP POLICY IF EXISTS "schedule_settings_update" ON schedule_settings;
+DROP POLICY IF EXISTS "schedule_settings_delete" ON schedule_settings;
+
+CREATE POLICY "schedule_settings_select" ON schedule_settings
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "schedule_settings_insert" ON schedule_settings
+  FOR INSERT TO authenticated
+  WITH CHECK (get_my_role() IN ('admin', 'supervisor'));
+
+CREATE POLICY "schedule_settings_update" ON schedule_settings
+  FOR UPDATE TO authenticated
+  USING (get_my_role() IN ('admin', 'supervisor'))
+  WITH CHECK (get_my_role() IN ('admin', 'supervisor'));
+
+CREATE POLICY "schedule_settings_delete" ON schedule_settings
+  FOR DELETE TO authenticated
+  USING (get_my_role() IN ('admin', 'supervisor'));
+
+CREATE INDEX IF NOT EXISTS idx_appointments_campus_date_start
+  ON appointments(campus_id, appointment_date, start_time);
+
+
+-- ============================================================
+-- 3. find_open_slot() — earliest slot in a session with room left
+--    Used by promote_waitlist() so waitlisted patients on slot-mode
+--    campuses land in a real slot. Returns no row when the session
+--    has no open slot or the day has no active template.
+-- ============================================================
+CREATE OR REPLACE FUNCTION find_open_slot(
+  p_campus_id   UUID,
+  p_date        DATE,
+  p_time_of_day TEXT
+)
+RETURNS TABLE (slot_start TIME, slot_end TIME)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sched schedule_settings%ROWTYPE;
+  v_start TIME;
+  v_end   TIME;
+  v_taken INT;
+BEGIN
+  SELECT * INTO v_sched
+  FROM schedule_settings
+  WHERE campus_id = p_campus_id
+    AND day_of_week = EXTRACT(DOW FROM p_date)::INT
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_start := v_sched.start_time;
+  LOOP
+    v_end := v_start + make_interval(mins => v_sched.slot_duration);
+    EXIT WHEN v_end > v_sched.end_time OR v_end <= v_start;
+
+    IF (p_time_of_day = 'AM') = (v_start < TIME '12:00') THEN
+      SELECT count(*)::INT INTO v_taken
+      FROM appointments
+      WHERE campus_id = p_campus_id
+        AND appointment_date = p_date
+        AND start_time = v_start
+        AND status NOT IN ('cancelled');
+
+      IF v_taken < v_sched.max_appointments THEN
+        slot_start := v_start;
+        slot_end := v_end;
+        RETURN NEXT;
+        RETURN;
+      END IF;
+    END IF;
+
+    v_start := v_end;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_open_slot FROM PUBLIC, anon, authenticated;
+
+-- Verify
+SELECT 'Slot booking mode and schedule_settings created successfully!' AS status;
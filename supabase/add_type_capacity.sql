@@ -0,0 +1,72 @@
+-- ============================================================
+-- LDCU Clinic — Per-Appointment-Type Capacity
+-- Splits a day's capacity into buckets per appointment type
+-- (consultation, physical_exam, dental) so one service cannot
+-- use up the whole day.
+--
+-- Buckets are stored as JSONB maps, e.g. {"dental": 10}:
+--   booking_settings.type_capacity — campus default
+--   day_overrides.type_capacity    — per-date override
+-- A type missing from both maps is limited only by the daily cap.
+--
+-- Enforced inside book_appointment() and reschedule_appointment();
+-- run book_appointment.sql and reschedule_appointments.sql
+-- after this.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Capacity maps ──
+ALTER TABLE booking_settings
+  ADD COLUMN IF NOT EXISTS type_capacity JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE day_overrides
+  ADD COLUMN IF NOT EXISTS type_capacity JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE booking_settings
+  DROP CONSTRAINT IF EXISTS booking_settings_type_capacity_object;
+ALTER TABLE booking_settings
+  ADD CONSTRAINT booking_settings_type_capacity_object
+  CHECK (jsonb_typeof(type_capacity) = 'object');
+
+ALTER TABLE day_overrides
+  DROP CONSTRAINT IF EXISTS day_overrides_type_capacity_object;
+ALTER TABLE day_overrides
+  ADD CONSTRAINT day_overrides_type_capacity_object
+  CHECK (jsonb_typeof(type_capacity) = 'object');
+
+CREATE INDEX IF NOT EXISTS idx_appointments_campus_date_type
+  ON appointments(campus_id, appointment_date, appointment_type);
+
+
+-- ============================================================
+-- 2. get_type_capacity() — effective bucket for one type on one day
+--    The day override wins over the campus default; NULL means the
+--    type has no bucket of its own.
+-- ============================================================
+CREATE OR REPLACE FUNCTION get_type_capacity(
+  p_campus_id        UUID,
+  p_date             DATE,
+  p_appointment_type TEXT
+)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (dov.type_capacity ->> p_appointment_type)::INT,
+    (bs.type_capacity ->> p_appointment_type)::INT
+  )
+  FROM (SELECT 1) AS dummy
+  LEFT JOIN day_overrides dov
+    ON dov.campus_id = p_campus_id AND dov.override_date = p_date
+  LEFT JOIN booking_settings bs
+    ON bs.campus_id = p_campus_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_type_capacity FROM PUBLIC, anon, authenticated;
+
+-- Verify
+SELECT 'Per-type capacity columns and get_type_capacity() created successfully!' AS status;
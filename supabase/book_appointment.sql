@@ -4,6 +4,21 @@
 -- advisory locks. Only one booking per campus+date processes
 -- at a time, eliminating race conditions.
 --
+-- Campuses in slot mode (booking_settings.booking_mode = 'slot',
+-- see add_slot_booking.sql) must book a concrete slot from their
+-- schedule_settings template; each slot has its own capacity.
+--
+-- Per-role weekly caps per appointment type come from
+-- weekly_limits (see create_weekly_limits.sql).
+--
+-- Per-type day buckets come from get_type_capacity()
+-- (see add_type_capacity.sql).
+--
+-- Patients over the no-show threshold are held to the penalty
+-- from enforce_no_show_policy() (see create_no_show_policy.sql).
+--
+-- Run after add_slot_booking.sql, create_weekly_limits.sql,
+-- add_type_capacity.sql and create_no_show_policy.sql.
 -- Safe to re-run. Run in Supabase SQL Editor.
 -- ============================================================
 
@@ -34,6 +49,17 @@ DECLARE
   v_max_am         INT;
   v_max_pm         INT;
   v_current_am_pm  INT;
+  v_mode           TEXT;
+  v_sched          schedule_settings%ROWTYPE;
+  v_start_time     TIME := p_start_time::time;
+  v_end_time       TIME := p_end_time::time;
+  v_time_of_day    TEXT := p_time_of_day;
+  v_slot_taken     INT;
+  v_weekly_max     INT;
+  v_weekly_count   INT;
+  v_week_start     DATE;
+  v_type_max       INT;
+  v_type_current   INT;
   v_new_id         UUID;
   v_result         JSON;
 BEGIN
@@ -54,7 +80,38 @@ BEGIN
     END IF;
   END IF;
 
-  -- ── 4. Get max bookings for this campus+date ──
+  -- ── 3b. No-show penalty (booking block or shorter advance window) ──
+  PERFORM enforce_no_show_policy(p_patient_id, p_patient_email, p_appointment_date);
+
+  -- ── 4. Weekly limit for this appointment type + booker role ──
+  SELECT wl.max_appointments_per_week INTO v_weekly_max
+  FROM weekly_limits wl
+  WHERE wl.appointment_type = p_appointment_type::appointment_type
+    AND wl.user_role = p_booker_role;
+
+  IF v_weekly_max IS NOT NULL AND (p_patient_id IS NOT NULL OR p_patient_email IS NOT NULL) THEN
+    -- The week can span several campus+date locks, so also serialize per patient
+    PERFORM pg_advisory_xact_lock(abs(hashtext('weekly_limit:' || COALESCE(p_patient_id::text, lower(p_patient_email)))));
+
+    v_week_start := date_trunc('week', p_appointment_date)::DATE;
+
+    SELECT count(*)::INT INTO v_weekly_count
+    FROM appointments
+    WHERE appointment_type = p_appointment_type::appointment_type
+      AND appointment_date BETWEEN v_week_start AND v_week_start + 6
+      AND status NOT IN ('cancelled')
+      AND (
+        (p_patient_id IS NOT NULL AND patient_id = p_patient_id)
+        OR (p_patient_email IS NOT NULL AND lower(patient_email) = lower(p_patient_email))
+      );
+
+    IF v_weekly_count >= v_weekly_max THEN
+      RAISE EXCEPTION 'WEEKLY_LIMIT: Only % % appointment(s) per week are allowed for % patients.',
+        v_weekly_max, replace(p_appointment_type, '_', ' '), p_booker_role;
+    END IF;
+  END IF;
+
+  -- ── 5. Get max bookings for this campus+date ──
   SELECT
     CASE
       WHEN dov.is_closed THEN 0
@@ -72,20 +129,78 @@ BEGIN
 
   v_max := COALESCE(v_max, 50);
 
-  -- ── 5. Count current active bookings (total) ──
+  -- ── 6. Count current active bookings (total) ──
   SELECT count(*)::INT INTO v_current
   FROM appointments
   WHERE campus_id = p_campus_id
     AND appointment_date = p_appointment_date
     AND status NOT IN ('cancelled');
 
-  -- ── 6. Reject if at total capacity ──
+  -- ── 7. Reject if at total capacity ──
   IF v_current >= v_max THEN
     RAISE EXCEPTION 'FULLY_BOOKED: This date has reached the maximum of % bookings.', v_max;
   END IF;
 
-  -- ── 7. Check AM/PM sub-capacity if overrides are set ──
-  IF p_time_of_day = 'AM' AND v_max_am IS NOT NULL THEN
+  -- ── 8. Per-type bucket (campus default or day override) ──
+  v_type_max := get_type_capacity(p_campus_id, p_appointment_date, p_appointment_type);
+
+  IF v_type_max IS NOT NULL THEN
+    SELECT count(*)::INT INTO v_type_current
+    FROM appointments
+    WHERE campus_id = p_campus_id
+      AND appointment_date = p_appointment_date
+      AND appointment_type = p_appointment_type::appointment_type
+      AND status NOT IN ('cancelled');
+
+    IF v_type_current >= v_type_max THEN
+      RAISE EXCEPTION 'FULLY_BOOKED_TYPE: % bookings for this date have reached the maximum of %.',
+        initcap(replace(p_appointment_type, '_', ' ')), v_type_max;
+    END IF;
+  END IF;
+
+  -- ── 9. Slot mode: the slot must exist in today's template and have room ──
+  SELECT COALESCE(bs.booking_mode, 'session') INTO v_mode
+  FROM (SELECT 1) AS dummy
+  LEFT JOIN booking_settings bs ON bs.campus_id = p_campus_id;
+
+  IF v_mode = 'slot' THEN
+    SELECT * INTO v_sched
+    FROM schedule_settings
+    WHERE campus_id = p_campus_id
+      AND day_of_week = EXTRACT(DOW FROM p_appointment_date)::INT
+      AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'INVALID_SLOT: No time slots are configured for this day.';
+    END IF;
+
+    v_end_time := v_start_time + make_interval(mins => v_sched.slot_duration);
+
+    IF v_start_time < v_sched.start_time
+      OR v_end_time > v_sched.end_time
+      OR v_end_time <= v_start_time
+      OR (EXTRACT(EPOCH FROM (v_start_time - v_sched.start_time))::INT / 60) % v_sched.slot_duration <> 0
+    THEN
+      RAISE EXCEPTION 'INVALID_SLOT: % is not a valid time slot for this day.', to_char(v_start_time, 'HH24:MI');
+    END IF;
+
+    SELECT count(*)::INT INTO v_slot_taken
+    FROM appointments
+    WHERE campus_id = p_campus_id
+      AND appointment_date = p_appointment_date
+      AND start_time = v_start_time
+      AND status NOT IN ('cancelled');
+
+    IF v_slot_taken >= v_sched.max_appointments THEN
+      RAISE EXCEPTION 'FULLY_BOOKED_SLOT: The % slot has reached the maximum of % bookings.', to_char(v_start_time, 'HH24:MI'), v_sched.max_appointments;
+    END IF;
+
+    -- Session follows from the slot so AM/PM limits and reminders still work
+    v_time_of_day := CASE WHEN v_start_time < TIME '12:00' THEN 'AM' ELSE 'PM' END;
+  END IF;
+
+  -- ── 10. Check AM/PM sub-capacity if overrides are set ──
+  IF v_time_of_day = 'AM' AND v_max_am IS NOT NULL THEN
     SELECT count(*)::INT INTO v_current_am_pm
     FROM appointments
     WHERE campus_id = p_campus_id
@@ -97,7 +212,7 @@ BEGIN
     END IF;
   END IF;
 
-  IF p_time_of_day = 'PM' AND v_max_pm IS NOT NULL THEN
+  IF v_time_of_day = 'PM' AND v_max_pm IS NOT NULL THEN
     SELECT count(*)::INT INTO v_current_am_pm
     FROM appointments
     WHERE campus_id = p_campus_id
@@ -109,19 +224,19 @@ BEGIN
     END IF;
   END IF;
 
-  -- ── 8. Insert the appointment ──
+  -- ── 11. Insert the appointment ──
   INSERT INTO appointments (
     patient_id, campus_id, appointment_type, appointment_date,
     start_time, end_time, status, time_of_day,
     notes, patient_name, patient_email, patient_phone, booker_role
   ) VALUES (
     p_patient_id, p_campus_id, p_appointment_type::appointment_type, p_appointment_date,
-    p_start_time::time, p_end_time::time, p_status::appointment_status, p_time_of_day,
+    v_start_time, v_end_time, p_status::appointment_status, v_time_of_day,
     p_notes, p_patient_name, p_patient_email, p_patient_phone, p_booker_role
   )
   RETURNING id INTO v_new_id;
 
-  -- ── 9. Return the full new row as JSON ──
+  -- ── 12. Return the full new row as JSON ──
   SELECT row_to_json(a.*) INTO v_result
   FROM appointments a
   WHERE a.id = v_new_id;
@@ -0,0 +1,170 @@
+-- ============================================================
+-- LDCU Clinic — Appointment History
+-- A per-appointment timeline recorded server-side, so it does
+-- not depend on the client remembering to log anything:
+--
+--   created            — the booking was made
+--   rescheduled        — date, session or slot changed
+--   status_changed     — scheduled / completed / cancelled / no_show
+--   checked_in         — arrived and got a queue number
+--   called             — called in from the queue
+--   confirmation_sent  — booking confirmation emailed
+--   reminder_sent      — reminder emailed
+--
+-- Appointment changes are captured by a trigger; the send-email
+-- edge function records emails with the service role. Each row
+-- keeps the actor's name as it was at the time, so the history
+-- still reads correctly after a profile is renamed or deleted.
+--
+-- Run after add_queue_checkin.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. History table ──
+CREATE TABLE IF NOT EXISTS appointment_history (
+  id             UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  event          TEXT NOT NULL CHECK (event IN (
+                   'created', 'rescheduled', 'status_changed', 'checked_in',
+                   'called', 'confirmation_sent', 'reminder_sent'
+                 )),
+  details        JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor_id       UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_name     TEXT,
+  actor_role     TEXT,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_history_appointment
+  ON appointment_history(appointment_id, created_at);
+
+ALTER TABLE appointment_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "appointment_history_select" ON appointment_history;
+
+-- Clinic staff read the history; nobody writes it directly
+CREATE POLICY "appointment_history_select" ON appointment_history
+  FOR SELECT TO authenticated
+  USING (get_my_role() IN ('admin', 'supervisor', 'nurse'));
+
+
+-- ============================================================
+-- 2. add_appointment_history() — append one event
+--    Internal: called by the trigger below. Looks up the acting
+--    user from the JWT; NULL means the system (cron, service role).
+-- ============================================================
+CREATE OR REPLACE FUNCTION add_appointment_history(
+  p_appointment_id UUID,
+  p_event          TEXT,
+  p_details        JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor profiles%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    SELECT * INTO v_actor FROM profiles WHERE id = auth.uid();
+  END IF;
+
+  INSERT INTO appointment_history (appointment_id, event, details, actor_id, actor_name, actor_role)
+  VALUES (
+    p_appointment_id,
+    p_event,
+    COALESCE(p_details, '{}'::jsonb),
+    v_actor.id,
+    NULLIF(trim(concat_ws(' ', v_actor.first_name, v_actor.last_name)), ''),
+    v_actor.role::text
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION add_appointment_history(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+
+-- ============================================================
+-- 3. Trigger — record bookings and changes as they happen
+-- ============================================================
+CREATE OR REPLACE FUNCTION record_appointment_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM add_appointment_history(NEW.id, 'created', jsonb_build_object(
+      'appointment_type', NEW.appointment_type,
+      'appointment_date', NEW.appointment_date,
+      'time_of_day',      NEW.time_of_day,
+      'start_time',       to_char(NEW.start_time, 'HH24:MI'),
+      'booker_role',      NEW.booker_role
+    ));
+    RETURN NEW;
+  END IF;
+
+  IF NEW.appointment_date IS DISTINCT FROM OLD.appointment_date
+    OR NEW.time_of_day IS DISTINCT FROM OLD.time_of_day
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+  THEN
+    PERFORM add_appointment_history(NEW.id, 'rescheduled', jsonb_build_object(
+      'from_date',        OLD.appointment_date,
+      'from_time_of_day', OLD.time_of_day,
+      'from_start_time',  to_char(OLD.start_time, 'HH24:MI'),
+      'to_date',          NEW.appointment_date,
+      'to_time_of_day',   NEW.time_of_day,
+      'to_start_time',    to_char(NEW.start_time, 'HH24:MI')
+    ));
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM add_appointment_history(NEW.id, 'status_changed', jsonb_strip_nulls(jsonb_build_object(
+      'from',   OLD.status,
+      'to',     NEW.status,
+      'reason', CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+    )));
+  END IF;
+
+  IF NEW.checked_in_at IS NOT NULL AND OLD.checked_in_at IS NULL THEN
+    PERFORM add_appointment_history(NEW.id, 'checked_in', jsonb_build_object('queue_number', NEW.queue_number));
+  END IF;
+
+  IF NEW.called_at IS NOT NULL AND OLD.called_at IS NULL THEN
+    PERFORM add_appointment_history(NEW.id, 'called', jsonb_build_object('queue_number', NEW.queue_number));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_appointments_history ON appointments;
+CREATE TRIGGER trg_appointments_history
+  AFTER INSERT OR UPDATE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION record_appointment_history();
+
+
+-- ── 4. Backfill a 'created' event for existing appointments ──
+INSERT INTO appointment_history (appointment_id, event, details, created_at)
+SELECT
+  a.id,
+  'created',
+  jsonb_build_object(
+    'appointment_type', a.appointment_type,
+    'appointment_date', a.appointment_date,
+    'time_of_day',      a.time_of_day,
+    'start_time',       to_char(a.start_time, 'HH24:MI'),
+    'booker_role',      a.booker_role
+  ),
+  COALESCE(a.created_at, now())
+FROM appointments a
+WHERE NOT EXISTS (
+  SELECT 1 FROM appointment_history h
+  WHERE h.appointment_id = a.id AND h.event = 'created'
+);
+
+-- Verify
+SELECT 'appointment_history table and trigger created successfully!' AS status;
@@ -0,0 +1,169 @@
+-- ============================================================
+-- LDCU Clinic — Appointment Type Catalog
+-- Each campus manages which appointment types it offers: the label
+-- shown to patients and in emails, a badge color, the usual visit
+-- length, whether the type is bookable, and which booker roles
+-- (student / staff) may book it online.
+--
+-- The appointment_type enum stays the global list of codes; this
+-- catalog holds one row per campus per code. Every campus is seeded
+-- with the current enum values, and new campuses get rows on insert.
+--
+-- A trigger on appointments and waitlist_entries rejects a type the
+-- campus does not offer (TYPE_NOT_OFFERED) or one the booker's role
+-- may not book (TYPE_NOT_ALLOWED). Clinic staff booking walk-ins are
+-- not bound by the role list.
+--
+-- Run after add_dental_appointment_type.sql and create_waitlist.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS appointment_type_catalog (
+  id                   UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campus_id            UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  code                 appointment_type NOT NULL,
+  label                TEXT NOT NULL CHECK (length(trim(label)) BETWEEN 1 AND 60),
+  color                TEXT NOT NULL DEFAULT 'blue'
+                       CHECK (color IN ('blue', 'green', 'amber', 'purple', 'teal', 'rose', 'indigo', 'slate')),
+  duration_minutes     INT  NOT NULL DEFAULT 30 CHECK (duration_minutes BETWEEN 5 AND 240),
+  enabled              BOOLEAN NOT NULL DEFAULT true,
+  allowed_booker_roles TEXT[] NOT NULL DEFAULT ARRAY['student', 'staff']
+                       CHECK (allowed_booker_roles <@ ARRAY['student', 'staff']),
+  sort_order           INT  NOT NULL DEFAULT 0,
+  created_at           TIMESTAMPTZ DEFAULT now(),
+  updated_at           TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (campus_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_type_catalog_campus
+  ON appointment_type_catalog (campus_id, sort_order);
+
+ALTER TABLE appointment_type_catalog ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "appointment_type_catalog_select" ON appointment_type_catalog;
+DROP POLICY IF EXISTS "appointment_type_catalog_update" ON appointment_type_catalog;
+
+-- The public calendar and booking pages read the catalog before sign-in
+CREATE POLICY "appointment_type_catalog_select" ON appointment_type_catalog
+  FOR SELECT TO anon, authenticated USING (true);
+
+-- Rows are only ever seeded, never created or deleted from the app
+CREATE POLICY "appointment_type_catalog_update" ON appointment_type_catalog
+  FOR UPDATE TO authenticated
+  USING (get_my_role() = 'admin')
+  WITH CHECK (get_my_role() = 'admin');
+
+
+-- ============================================================
+-- 1. Seed every campus with every enum value
+-- ============================================================
+CREATE OR REPLACE FUNCTION seed_appointment_type_catalog(p_campus_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO appointment_type_catalog (campus_id, code, label, color, duration_minutes, sort_order)
+  SELECT
+    p_campus_id,
+    e.code,
+    CASE e.code::text
+      WHEN 'consultation'  THEN 'Consultation'
+      WHEN 'physical_exam' THEN 'Physical Exam'
+      WHEN 'dental'        THEN 'Dental'
+      ELSE initcap(replace(e.code::text, '_', ' '))
+    END,
+    CASE e.code::text
+      WHEN 'consultation'  THEN 'blue'
+      WHEN 'physical_exam' THEN 'green'
+      WHEN 'dental'        THEN 'teal'
+      ELSE 'slate'
+    END,
+    CASE e.code::text WHEN 'physical_exam' THEN 45 ELSE 30 END,
+    e.ord::int
+  FROM unnest(enum_range(NULL::appointment_type)) WITH ORDINALITY AS e(code, ord)
+  ON CONFLICT (campus_id, code) DO NOTHING;
+$$;
+
+REVOKE EXECUTE ON FUNCTION seed_appointment_type_catalog(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT seed_appointment_type_catalog(id) FROM campuses;
+
+CREATE OR REPLACE FUNCTION seed_campus_appointment_types()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_appointment_type_catalog(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_campuses_seed_appointment_types ON campuses;
+CREATE TRIGGER trg_campuses_seed_appointment_types
+  AFTER INSERT ON campuses
+  FOR EACH ROW
+  EXECUTE FUNCTION seed_campus_appointment_types();
+
+
+-- ============================================================
+-- 2. Reject types the campus does not offer
+--    Fires inside book_appointment(), join_waitlist() and waitlist
+--    promotion alike, so every booking path is covered. Moving an
+--    existing row to another date keeps its type and is not checked.
+--    waitlist_entries stores the type as TEXT, so codes are compared
+--    as text (see supabase/tests/waitlist_type_catalog.sql).
+--    Clinic staff may book any offered type, except while
+--    promote_waitlist() books on a patient's behalf.
+-- ============================================================
+CREATE OR REPLACE FUNCTION check_appointment_type_offered()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry appointment_type_catalog%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.appointment_type IS NOT DISTINCT FROM OLD.appointment_type
+     AND NEW.campus_id IS NOT DISTINCT FROM OLD.campus_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_entry
+  FROM appointment_type_catalog
+  WHERE campus_id = NEW.campus_id AND code::text = NEW.appointment_type::text;
+
+  IF NOT FOUND OR NOT v_entry.enabled THEN
+    RAISE EXCEPTION 'TYPE_NOT_OFFERED: % is not offered at this campus',
+      replace(NEW.appointment_type::text, '_', ' ');
+  END IF;
+
+  IF (COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse')
+      OR current_setting('ldcu.waitlist_promotion', true) = 'on')
+     AND NOT (COALESCE(NEW.booker_role, 'student') = ANY (v_entry.allowed_booker_roles)) THEN
+    RAISE EXCEPTION 'TYPE_NOT_ALLOWED: % cannot be booked by % patients',
+      v_entry.label, COALESCE(NEW.booker_role, 'student');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_appointments_type_offered ON appointments;
+CREATE TRIGGER trg_appointments_type_offered
+  BEFORE INSERT OR UPDATE OF appointment_type, campus_id ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_appointment_type_offered();
+
+DROP TRIGGER IF EXISTS trg_waitlist_entries_type_offered ON waitlist_entries;
+CREATE TRIGGER trg_waitlist_entries_type_offered
+  BEFORE INSERT OR UPDATE OF appointment_type, campus_id ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION check_appointment_type_offered();
+
+-- Verify
+SELECT 'appointment_type_catalog table created successfully!' AS status;
@@ -0,0 +1,122 @@
+-- ============================================================
+-- LDCU Clinic — Calendar Subscription Feeds
+-- Tokenized iCal feeds that calendar apps (Google Calendar,
+-- Outlook, Apple Calendar) can subscribe to:
+--
+--   patient — the owner's own upcoming appointments
+--   campus  — per-session booking counts and closures for one
+--             campus; clinic staff only, never patient details
+--
+-- Feeds are served by the calendar-feed edge function, which
+-- looks the token up with the service role. Deploy it with
+--   supabase functions deploy calendar-feed --no-verify-jwt
+-- since calendar apps cannot send a login token.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id         UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  feed_type        TEXT NOT NULL CHECK (feed_type IN ('patient', 'campus')),
+  campus_id        UUID REFERENCES campuses(id) ON DELETE CASCADE,
+  token            TEXT NOT NULL UNIQUE,
+  created_at       TIMESTAMPTZ DEFAULT now(),
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at       TIMESTAMPTZ,
+  CHECK ((feed_type = 'campus') = (campus_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_owner
+  ON calendar_feeds(owner_id);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "calendar_feeds_select" ON calendar_feeds;
+
+-- Owners see their own feeds; tokens are created and revoked
+-- through the functions below
+CREATE POLICY "calendar_feeds_select" ON calendar_feeds
+  FOR SELECT TO authenticated
+  USING (owner_id = auth.uid());
+
+
+-- ============================================================
+-- 1. create_calendar_feed() — issue a new feed token
+--    Campus feeds are for clinic staff only.
+-- ============================================================
+CREATE OR REPLACE FUNCTION create_calendar_feed(
+  p_feed_type TEXT,
+  p_campus_id UUID DEFAULT NULL
+)
+RETURNS calendar_feeds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_feed calendar_feeds;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Sign in to create a calendar feed.';
+  END IF;
+
+  IF p_feed_type = 'campus' THEN
+    IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+      RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can subscribe to campus calendars.';
+    END IF;
+    IF p_campus_id IS NULL OR NOT EXISTS (SELECT 1 FROM campuses WHERE id = p_campus_id) THEN
+      RAISE EXCEPTION 'INVALID_CAMPUS: Choose a campus for this feed.';
+    END IF;
+    IF get_my_role() = 'nurse' AND p_campus_id IS DISTINCT FROM get_my_campus_id() THEN
+      RAISE EXCEPTION 'WRONG_CAMPUS: Nurses can only subscribe to their own campus calendar.';
+    END IF;
+  ELSIF p_feed_type <> 'patient' THEN
+    RAISE EXCEPTION 'INVALID_FEED: Unknown feed type.';
+  END IF;
+
+  INSERT INTO calendar_feeds (owner_id, feed_type, campus_id, token)
+  VALUES (
+    auth.uid(),
+    p_feed_type,
+    CASE WHEN p_feed_type = 'campus' THEN p_campus_id END,
+    encode(gen_random_bytes(24), 'hex')
+  )
+  RETURNING * INTO v_feed;
+
+  RETURN v_feed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_calendar_feed TO authenticated;
+
+
+-- ============================================================
+-- 2. revoke_calendar_feed() — stop a feed from working
+--    Subscribed calendars stop updating on their next refresh.
+-- ============================================================
+CREATE OR REPLACE FUNCTION revoke_calendar_feed(p_feed_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE calendar_feeds
+  SET revoked_at = now()
+  WHERE id = p_feed_id
+    AND owner_id = auth.uid()
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Calendar feed not found.';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_calendar_feed TO authenticated;
+
+-- Verify
+SELECT 'calendar_feeds table and functions created successfully!' AS status;
@@ -0,0 +1,135 @@
+-- ============================================================
+-- LDCU Clinic — Dental Charts
+-- Per-tooth findings for dental appointments, using FDI two-digit
+-- tooth numbers (11–48 permanent, 51–85 primary):
+--
+--   condition, affected surfaces, procedure performed, notes
+--
+-- Each dental appointment has its own chart; only the teeth the
+-- dentist charted at that visit are stored. A patient's current
+-- chart is the latest entry per tooth across their visits, which
+-- the app rolls up from these rows. patient_id is copied from the
+-- appointment so the longitudinal history is a single query.
+-- Only clinic roles read them; writes go through
+-- save_dental_chart() only.
+--
+-- Requires add_dental_appointment_type.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Table (one row per tooth per appointment) ──
+CREATE TABLE IF NOT EXISTS dental_chart_entries (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id   UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  patient_id       UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  tooth            SMALLINT NOT NULL CHECK (
+                     (tooth / 10 BETWEEN 1 AND 4 AND tooth % 10 BETWEEN 1 AND 8)
+                     OR (tooth / 10 BETWEEN 5 AND 8 AND tooth % 10 BETWEEN 1 AND 5)
+                   ),
+  condition        TEXT NOT NULL CHECK (condition IN (
+                     'sound', 'caries', 'filled', 'crown', 'root_canal',
+                     'fractured', 'impacted', 'for_extraction', 'missing'
+                   )),
+  surfaces         TEXT[] NOT NULL DEFAULT '{}' CHECK (surfaces <@ ARRAY['M', 'O', 'D', 'B', 'L']),
+  procedure        TEXT CHECK (procedure IN (
+                     'filling', 'extraction', 'scaling', 'sealant', 'fluoride',
+                     'root_canal', 'crown', 'other'
+                   )),
+  notes            TEXT,
+  recorded_by      UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  recorded_by_name TEXT,
+  recorded_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, tooth)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dental_chart_patient
+  ON dental_chart_entries(patient_id, recorded_at);
+
+-- ── 2. RLS ──
+-- Admins and supervisors read every chart, nurses those for their own
+-- campus's appointments; no insert/update/delete policies.
+ALTER TABLE dental_chart_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dental_chart_select" ON dental_chart_entries;
+
+CREATE POLICY "dental_chart_select" ON dental_chart_entries
+  FOR SELECT TO authenticated
+  USING (
+    get_my_role() IN ('admin', 'supervisor')
+    OR (get_my_role() = 'nurse' AND EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.id = dental_chart_entries.appointment_id
+        AND a.campus_id = get_my_campus_id()
+    ))
+  );
+
+
+-- ============================================================
+-- 3. save_dental_chart() — replace an appointment's chart
+--    p_entries: [{ tooth, condition, surfaces, procedure, notes }]
+--    Teeth left out of p_entries are removed from this visit's
+--    chart; other visits are never touched.
+-- ============================================================
+CREATE OR REPLACE FUNCTION save_dental_chart(
+  p_appointment_id UUID,
+  p_entries        JSONB
+)
+RETURNS SETOF dental_chart_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt   appointments%ROWTYPE;
+  v_staff profiles%ROWTYPE;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can chart teeth.';
+  END IF;
+
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF v_apt.appointment_type::TEXT <> 'dental' THEN
+    RAISE EXCEPTION 'NOT_DENTAL: Dental charts can only be recorded for dental appointments.';
+  END IF;
+
+  IF jsonb_typeof(COALESCE(p_entries, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'INVALID_CHART: Entries must be a list.';
+  END IF;
+
+  SELECT * INTO v_staff FROM profiles WHERE id = auth.uid();
+
+  DELETE FROM dental_chart_entries WHERE appointment_id = p_appointment_id;
+
+  -- Bad tooth numbers, conditions or duplicates fail the table constraints
+  -- and roll back the delete above
+  INSERT INTO dental_chart_entries (
+    appointment_id, patient_id, tooth, condition, surfaces, procedure, notes,
+    recorded_by, recorded_by_name
+  )
+  SELECT
+    p_appointment_id,
+    v_apt.patient_id,
+    (e->>'tooth')::SMALLINT,
+    e->>'condition',
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(COALESCE(e->'surfaces', '[]'::jsonb))), '{}'),
+    NULLIF(e->>'procedure', ''),
+    NULLIF(trim(e->>'notes'), ''),
+    v_staff.id,
+    NULLIF(trim(concat_ws(' ', v_staff.first_name, v_staff.last_name)), '')
+  FROM jsonb_array_elements(COALESCE(p_entries, '[]'::jsonb)) e;
+
+  RETURN QUERY
+  SELECT * FROM dental_chart_entries
+  WHERE appointment_id = p_appointment_id
+  ORDER BY tooth;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_dental_chart TO authenticated;
+
+-- Verify
+SELECT 'dental_chart_entries table and save_dental_chart() created successfully!' AS status;
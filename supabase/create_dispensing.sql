@@ -0,0 +1,170 @@
+-- ============================================================
+-- LDCU Clinic — Dispensing Log
+-- Medicines and supplies given to a patient during a visit:
+--
+--   dispensing_entries  one row per item given, linked to the
+--                       appointment (item, lot, quantity,
+--                       instructions, who gave it)
+--
+-- Each entry takes its quantity off the chosen lot in the same
+-- transaction and writes a 'dispense' row to inventory_movements,
+-- so the campus's stock and the patient's record never disagree.
+-- The lot row is locked while it is checked, so two nurses cannot
+-- give away the same units. Expired lots, retired items and lots
+-- from another campus are refused.
+--
+-- Item, unit and lot details are copied onto the entry so the
+-- patient's history reads the same after an item is renamed.
+-- Only clinic roles with access to the campus's inventory read
+-- entries; writes go through dispense_inventory_item() only.
+--
+-- Run after create_inventory.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Dispensing as a movement type ──
+ALTER TABLE inventory_movements
+  ADD COLUMN IF NOT EXISTS appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL;
+
+ALTER TABLE inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_movement_type_check;
+ALTER TABLE inventory_movements ADD CONSTRAINT inventory_movements_movement_type_check
+  CHECK (movement_type IN ('stock_in', 'stock_out', 'dispense'));
+
+
+-- ── 2. Table ──
+CREATE TABLE IF NOT EXISTS dispensing_entries (
+  id                UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id    UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  patient_id        UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  campus_id         UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  item_id           UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  lot_id            UUID REFERENCES inventory_lots(id) ON DELETE SET NULL,
+  movement_id       UUID REFERENCES inventory_movements(id) ON DELETE SET NULL,
+  item_name         TEXT NOT NULL,
+  unit              TEXT NOT NULL,
+  lot_number        TEXT NOT NULL,
+  expiry_date       DATE,
+  quantity          INT  NOT NULL CHECK (quantity > 0),
+  instructions      TEXT CHECK (length(instructions) <= 500),
+  dispensed_by      UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  dispensed_by_name TEXT,
+  dispensed_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispensing_entries_appointment
+  ON dispensing_entries(appointment_id, dispensed_at);
+
+CREATE INDEX IF NOT EXISTS idx_dispensing_entries_patient
+  ON dispensing_entries(patient_id, dispensed_at DESC);
+
+
+-- ── 3. RLS ──
+-- Same campus rule as the inventory; no insert/update/delete policies.
+ALTER TABLE dispensing_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "dispensing_entries_select" ON dispensing_entries;
+
+CREATE POLICY "dispensing_entries_select" ON dispensing_entries
+  FOR SELECT TO authenticated
+  USING (can_access_campus_inventory(campus_id));
+
+
+-- ============================================================
+-- 4. dispense_inventory_item() — give stock from a lot to the
+--    patient of an appointment
+-- ============================================================
+CREATE OR REPLACE FUNCTION dispense_inventory_item(
+  p_appointment_id UUID,
+  p_lot_id         UUID,
+  p_quantity       INT,
+  p_instructions   TEXT DEFAULT NULL
+)
+RETURNS dispensing_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt         appointments%ROWTYPE;
+  v_lot         inventory_lots;
+  v_item        inventory_items%ROWTYPE;
+  v_actor       TEXT;
+  v_movement_id UUID;
+  v_entry       dispensing_entries;
+BEGIN
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF NOT can_access_campus_inventory(v_apt.campus_id) THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only dispense from your own campus''s inventory.';
+  END IF;
+
+  IF v_apt.status::TEXT IN ('cancelled', 'no_show') THEN
+    RAISE EXCEPTION 'APPOINTMENT_CLOSED: Nothing can be dispensed for a % appointment.', replace(v_apt.status::TEXT, '_', ' ');
+  END IF;
+
+  IF COALESCE(p_quantity, 0) NOT BETWEEN 1 AND 100000 THEN
+    RAISE EXCEPTION 'INVALID_QUANTITY: Quantity must be between 1 and 100000.';
+  END IF;
+
+  IF length(p_instructions) > 500 THEN
+    RAISE EXCEPTION 'INSTRUCTIONS_TOO_LONG: Instructions must be 500 characters or fewer.';
+  END IF;
+
+  SELECT * INTO v_lot FROM inventory_lots WHERE id = p_lot_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Lot not found.';
+  END IF;
+
+  IF v_lot.campus_id <> v_apt.campus_id THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This lot belongs to another campus.';
+  END IF;
+
+  SELECT * INTO v_item FROM inventory_items WHERE id = v_lot.item_id;
+  IF NOT v_item.is_active THEN
+    RAISE EXCEPTION 'ITEM_RETIRED: % is no longer stocked.', v_item.name;
+  END IF;
+
+  -- Usable through its expiry date, as on the inventory page
+  IF v_lot.expiry_date IS NOT NULL AND v_lot.expiry_date < (now() AT TIME ZONE 'Asia/Manila')::date THEN
+    RAISE EXCEPTION 'LOT_EXPIRED: Lot % expired on %.', v_lot.lot_number, to_char(v_lot.expiry_date, 'Mon DD, YYYY');
+  END IF;
+
+  IF p_quantity > v_lot.quantity_on_hand THEN
+    RAISE EXCEPTION 'INSUFFICIENT_STOCK: Only % left in lot %.', v_lot.quantity_on_hand, v_lot.lot_number;
+  END IF;
+
+  UPDATE inventory_lots
+  SET quantity_on_hand = quantity_on_hand - p_quantity,
+      updated_at       = now()
+  WHERE id = p_lot_id
+  RETURNING * INTO v_lot;
+
+  SELECT NULLIF(trim(concat_ws(' ', first_name, last_name)), '') INTO v_actor
+  FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO inventory_movements (campus_id, item_id, lot_id, movement_type, quantity, balance_after, appointment_id, actor_id, actor_name)
+  VALUES (v_lot.campus_id, v_lot.item_id, v_lot.id, 'dispense', p_quantity, v_lot.quantity_on_hand, v_apt.id, auth.uid(), v_actor)
+  RETURNING id INTO v_movement_id;
+
+  INSERT INTO dispensing_entries (
+    appointment_id, patient_id, campus_id, item_id, lot_id, movement_id,
+    item_name, unit, lot_number, expiry_date, quantity, instructions,
+    dispensed_by, dispensed_by_name
+  ) VALUES (
+    v_apt.id, v_apt.patient_id, v_apt.campus_id, v_item.id, v_lot.id, v_movement_id,
+    v_item.name, v_item.unit, v_lot.lot_number, v_lot.expiry_date, p_quantity, NULLIF(trim(p_instructions), ''),
+    auth.uid(), v_actor
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION dispense_inventory_item(UUID, UUID, INT, TEXT) TO authenticated;
+
+-- Verify
+SELECT 'dispensing_entries table and dispense_inventory_item() created successfully!' AS status;
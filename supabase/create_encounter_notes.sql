@@ -0,0 +1,148 @@
+-- ============================================================
+-- LDCU Clinic — Encounter Notes (SOAP)
+-- A structured clinical record per appointment, written by the
+-- nurse who saw the patient:
+--
+--   chief complaint, subjective, objective, assessment, plan,
+--   attending staff
+--
+-- Notes are versioned: every save inserts a new row with the
+-- next version number and earlier versions are never changed,
+-- so the latest row is the current note and the rest are its
+-- edit history. Only clinic roles can read them, and writes go
+-- through save_encounter_note() only.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Table (one row per version) ──
+CREATE TABLE IF NOT EXISTS encounter_notes (
+  id                   UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id       UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  version              INT  NOT NULL CHECK (version >= 1),
+  chief_complaint      TEXT NOT NULL,
+  subjective           TEXT,
+  objective            TEXT,
+  assessment           TEXT,
+  plan                 TEXT,
+  attending_staff_id   UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  -- Names are kept as written so the record still reads correctly
+  -- after a profile is renamed or removed
+  attending_staff_name TEXT,
+  author_id            UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  author_name          TEXT,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (appointment_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_encounter_notes_appointment
+  ON encounter_notes(appointment_id, version DESC);
+
+-- ── 2. RLS ──
+-- Admins and supervisors read every note, nurses those for their own
+-- campus's appointments; no insert/update/delete policies, so rows can
+-- only be added by save_encounter_note() and never edited in place.
+ALTER TABLE encounter_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "encounter_notes_select" ON encounter_notes;
+
+CREATE POLICY "encounter_notes_select" ON encounter_notes
+  FOR SELECT TO authenticated
+  USING (
+    get_my_role() IN ('admin', 'supervisor')
+    OR (get_my_role() = 'nurse' AND EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.id = encounter_notes.appointment_id
+        AND a.campus_id = get_my_campus_id()
+    ))
+  );
+
+
+-- ============================================================
+-- 3. save_encounter_note() — add the next version
+--    p_expected_version is the version the editor started from
+--    (0 for a new note); if someone saved in between, the call
+--    fails with NOTE_CONFLICT instead of silently overwriting.
+-- ============================================================
+CREATE OR REPLACE FUNCTION save_encounter_note(
+  p_appointment_id     UUID,
+  p_expected_version   INT,
+  p_chief_complaint    TEXT,
+  p_subjective         TEXT DEFAULT NULL,
+  p_objective          TEXT DEFAULT NULL,
+  p_assessment         TEXT DEFAULT NULL,
+  p_plan               TEXT DEFAULT NULL,
+  p_attending_staff_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current   INT;
+  v_author    profiles%ROWTYPE;
+  v_attending profiles%ROWTYPE;
+  v_new_id    UUID;
+  v_result    JSON;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can write encounter notes.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM appointments WHERE id = p_appointment_id) THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF NULLIF(trim(p_chief_complaint), '') IS NULL THEN
+    RAISE EXCEPTION 'CHIEF_COMPLAINT_REQUIRED: Enter the chief complaint.';
+  END IF;
+
+  -- Serialize saves for this appointment
+  PERFORM pg_advisory_xact_lock(abs(hashtext('encounter_note:' || p_appointment_id::text)));
+
+  SELECT COALESCE(max(version), 0) INTO v_current
+  FROM encounter_notes
+  WHERE appointment_id = p_appointment_id;
+
+  IF v_current <> COALESCE(p_expected_version, 0) THEN
+    RAISE EXCEPTION 'NOTE_CONFLICT: This note was changed by someone else (now version %). Reload it before saving.', v_current;
+  END IF;
+
+  SELECT * INTO v_author FROM profiles WHERE id = auth.uid();
+
+  IF p_attending_staff_id IS NOT NULL THEN
+    SELECT * INTO v_attending FROM profiles WHERE id = p_attending_staff_id;
+  END IF;
+
+  INSERT INTO encounter_notes (
+    appointment_id, version, chief_complaint, subjective, objective, assessment, plan,
+    attending_staff_id, attending_staff_name, author_id, author_name
+  ) VALUES (
+    p_appointment_id,
+    v_current + 1,
+    trim(p_chief_complaint),
+    NULLIF(trim(p_subjective), ''),
+    NULLIF(trim(p_objective), ''),
+    NULLIF(trim(p_assessment), ''),
+    NULLIF(trim(p_plan), ''),
+    v_attending.id,
+    NULLIF(trim(concat_ws(' ', v_attending.first_name, v_attending.last_name)), ''),
+    v_author.id,
+    NULLIF(trim(concat_ws(' ', v_author.first_name, v_author.last_name)), '')
+  )
+  RETURNING id INTO v_new_id;
+
+  SELECT row_to_json(n.*) INTO v_result
+  FROM encounter_notes n
+  WHERE n.id = v_new_id;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_encounter_note FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_encounter_note TO authenticated;
+
+-- Verify
+SELECT 'encounter_notes table and save_encounter_note() created successfully!' AS status;
@@ -0,0 +1,199 @@
+-- ============================================================
+-- LDCU Clinic — Patient Health Records
+-- One record per patient alongside their profile:
+--
+--   allergies, chronic conditions, current medications,
+--   blood type, emergency contact
+--
+-- Patients fill in their own record; clinic staff read it and
+-- mark it verified after checking it with the patient. Any later
+-- change clears the verification so staff can see the record
+-- needs another look. Writes go through save_health_record()
+-- and verify_health_record() only.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Table ──
+CREATE TABLE IF NOT EXISTS patient_health_records (
+  patient_id                     UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  allergies                      TEXT[] NOT NULL DEFAULT '{}',
+  -- Explicit "no known allergies" so an empty list is not mistaken for one
+  no_known_allergies             BOOLEAN NOT NULL DEFAULT false,
+  chronic_conditions             TEXT[] NOT NULL DEFAULT '{}',
+  current_medications            TEXT[] NOT NULL DEFAULT '{}',
+  blood_type                     TEXT CHECK (blood_type IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  emergency_contact_name         TEXT,
+  emergency_contact_relationship TEXT,
+  emergency_contact_phone        TEXT,
+  updated_by                     UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  verified_at                    TIMESTAMPTZ,
+  verified_by                    UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  verified_by_name               TEXT,
+  created_at                     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at                     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ── 2. RLS ──
+-- Patients read their own record, clinic roles read all.
+-- No insert/update/delete policies: writes go through the RPCs below.
+ALTER TABLE patient_health_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "health_records_select" ON patient_health_records;
+
+CREATE POLICY "health_records_select" ON patient_health_records
+  FOR SELECT TO authenticated
+  USING (
+    patient_id = auth.uid()
+    OR get_my_role() IN ('admin', 'supervisor', 'nurse')
+  );
+
+
+-- ============================================================
+-- 3. save_health_record() — create or replace a patient's record
+--    Patients may only save their own; clinic staff may correct
+--    anyone's. Every save clears the verification.
+-- ============================================================
+CREATE OR REPLACE FUNCTION save_health_record(
+  p_patient_id                     UUID,
+  p_allergies                      TEXT[],
+  p_no_known_allergies             BOOLEAN,
+  p_chronic_conditions             TEXT[],
+  p_current_medications            TEXT[],
+  p_blood_type                     TEXT,
+  p_emergency_contact_name         TEXT,
+  p_emergency_contact_relationship TEXT,
+  p_emergency_contact_phone        TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_allergies TEXT[];
+  v_result    JSON;
+BEGIN
+  IF p_patient_id IS DISTINCT FROM auth.uid()
+     AND COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only edit your own health record.';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_patient_id) THEN
+    RAISE EXCEPTION 'NOT_FOUND: Patient not found.';
+  END IF;
+
+  -- Drop blank entries and surrounding whitespace from the lists
+  v_allergies := ARRAY(SELECT trim(a) FROM unnest(COALESCE(p_allergies, '{}')) a WHERE trim(a) <> '');
+
+  IF COALESCE(p_no_known_allergies, false) AND array_length(v_allergies, 1) > 0 THEN
+    RAISE EXCEPTION 'ALLERGIES_CONFLICT: Remove the listed allergies or untick "No known allergies".';
+  END IF;
+
+  IF NULLIF(trim(p_blood_type), '') IS NOT NULL
+     AND trim(p_blood_type) NOT IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-') THEN
+    RAISE EXCEPTION 'INVALID_BLOOD_TYPE: Unknown blood type.';
+  END IF;
+
+  INSERT INTO patient_health_records (
+    patient_id, allergies, no_known_allergies, chronic_conditions, current_medications,
+    blood_type, emergency_contact_name, emergency_contact_relationship, emergency_contact_phone,
+    updated_by, verified_at, verified_by, verified_by_name, updated_at
+  ) VALUES (
+    p_patient_id,
+    v_allergies,
+    COALESCE(p_no_known_allergies, false),
+    ARRAY(SELECT trim(c) FROM unnest(COALESCE(p_chronic_conditions, '{}')) c WHERE trim(c) <> ''),
+    ARRAY(SELECT trim(m) FROM unnest(COALESCE(p_current_medications, '{}')) m WHERE trim(m) <> ''),
+    NULLIF(trim(p_blood_type), ''),
+    NULLIF(trim(p_emergency_contact_name), ''),
+    NULLIF(trim(p_emergency_contact_relationship), ''),
+    NULLIF(trim(p_emergency_contact_phone), ''),
+    auth.uid(), NULL, NULL, NULL, now()
+  )
+  ON CONFLICT (patient_id) DO UPDATE SET
+    allergies                      = EXCLUDED.allergies,
+    no_known_allergies             = EXCLUDED.no_known_allergies,
+    chronic_conditions             = EXCLUDED.chronic_conditions,
+    current_medications            = EXCLUDED.current_medications,
+    blood_type                     = EXCLUDED.blood_type,
+    emergency_contact_name         = EXCLUDED.emergency_contact_name,
+    emergency_contact_relationship = EXCLUDED.emergency_contact_relationship,
+    emergency_contact_phone        = EXCLUDED.emergency_contact_phone,
+    updated_by                     = EXCLUDED.updated_by,
+    verified_at                    = NULL,
+    verified_by                    = NULL,
+    verified_by_name               = NULL,
+    updated_at                     = now();
+
+  SELECT row_to_json(r.*) INTO v_result
+  FROM patient_health_records r
+  WHERE r.patient_id = p_patient_id;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_health_record FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_health_record TO authenticated;
+
+
+-- ============================================================
+-- 4. verify_health_record() — clinic staff confirm the record
+--    p_expected_updated_at is the updated_at the nurse reviewed;
+--    if the patient changed the record since, verification is
+--    refused with RECORD_CHANGED so nothing unseen gets stamped.
+-- ============================================================
+CREATE OR REPLACE FUNCTION verify_health_record(
+  p_patient_id          UUID,
+  p_expected_updated_at TIMESTAMPTZ
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_record patient_health_records%ROWTYPE;
+  v_staff  profiles%ROWTYPE;
+  v_result JSON;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can verify health records.';
+  END IF;
+
+  SELECT * INTO v_record
+  FROM patient_health_records
+  WHERE patient_id = p_patient_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: This patient has not filled in a health record yet.';
+  END IF;
+
+  IF v_record.updated_at IS DISTINCT FROM p_expected_updated_at THEN
+    RAISE EXCEPTION 'RECORD_CHANGED: The record was updated after you opened it. Review the latest version first.';
+  END IF;
+
+  SELECT * INTO v_staff FROM profiles WHERE id = auth.uid();
+
+  -- updated_at is left alone: it tracks content changes, not verification
+  UPDATE patient_health_records
+  SET verified_at      = now(),
+      verified_by      = v_staff.id,
+      verified_by_name = NULLIF(trim(concat_ws(' ', v_staff.first_name, v_staff.last_name)), '')
+  WHERE patient_id = p_patient_id;
+
+  SELECT row_to_json(r.*) INTO v_result
+  FROM patient_health_records r
+  WHERE r.patient_id = p_patient_id;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION verify_health_record FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION verify_health_record TO authenticated;
+
+-- Verify
+SELECT 'patient_health_records table, save_health_record() and verify_health_record() created successfully!' AS status;
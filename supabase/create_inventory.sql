@@ -0,0 +1,330 @@
+-- ============================================================
+-- LDCU Clinic — Medicine & Supplies Inventory
+-- Per-campus stock of medicines and clinic supplies:
+--
+--   inventory_items      what the clinic stocks (name, unit,
+--                        reorder level)
+--   inventory_lots       each delivery of an item, with its lot
+--                        number, expiry date and quantity on hand
+--   inventory_movements  every stock-in and stock-out, with who
+--                        did it and the balance left on the lot
+--
+-- Stock is kept per lot so expiry can be tracked; an item's stock
+-- is the sum of its lots. Movements are never edited or deleted —
+-- a mistake is corrected by another movement.
+--
+-- Campus isolation: nurses only see and change their
+-- own campus's stock (their assigned campus, else their profile
+-- campus); supervisors and admins see every campus. Tables are
+-- read-only to clients; writes go through save_inventory_item(),
+-- receive_inventory_stock() and record_inventory_stock_out().
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Tables ──
+CREATE TABLE IF NOT EXISTS inventory_items (
+  id            UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campus_id     UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  name          TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 120),
+  category      TEXT NOT NULL DEFAULT 'medicine' CHECK (category IN ('medicine', 'supply')),
+  unit          TEXT NOT NULL DEFAULT 'pc' CHECK (length(trim(unit)) BETWEEN 1 AND 30),
+  reorder_level INT  NOT NULL DEFAULT 0 CHECK (reorder_level BETWEEN 0 AND 100000),
+  notes         TEXT,
+  is_active     BOOLEAN NOT NULL DEFAULT true,
+  created_at    TIMESTAMPTZ DEFAULT now(),
+  updated_at    TIMESTAMPTZ DEFAULT now()
+);
+
+-- One item per name per campus, whatever the capitalisation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_items_campus_name
+  ON inventory_items (campus_id, lower(trim(name)));
+
+CREATE TABLE IF NOT EXISTS inventory_lots (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_id          UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  campus_id        UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  lot_number       TEXT NOT NULL CHECK (length(trim(lot_number)) BETWEEN 1 AND 60),
+  expiry_date      DATE,
+  quantity_on_hand INT  NOT NULL DEFAULT 0 CHECK (quantity_on_hand >= 0),
+  received_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ DEFAULT now()
+);
+
+-- A re-delivery of the same lot tops up the existing row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_lots_item_lot
+  ON inventory_lots (item_id, lower(trim(lot_number)), COALESCE(expiry_date, 'infinity'::date));
+
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_campus_expiry
+  ON inventory_lots (campus_id, expiry_date)
+  WHERE quantity_on_hand > 0;
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id            UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  campus_id     UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  item_id       UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  lot_id        UUID REFERENCES inventory_lots(id) ON DELETE SET NULL,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('stock_in', 'stock_out')),
+  quantity      INT  NOT NULL CHECK (quantity > 0),
+  -- What was left on the lot afterwards
+  balance_after INT  NOT NULL CHECK (balance_after >= 0),
+  reason        TEXT,
+  actor_id      UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  actor_name    TEXT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_item
+  ON inventory_movements (item_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_campus
+  ON inventory_movements (campus_id, created_at DESC);
+
+
+-- ============================================================
+-- 2. Campus access
+--    Shared by the policies and the write functions below.
+-- ============================================================
+CREATE OR REPLACE FUNCTION can_access_campus_inventory(p_campus_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+      AND (
+        role IN ('admin', 'supervisor')
+        OR (role = 'nurse' AND COALESCE(assigned_campus_id, campus_id) = p_campus_id)
+      )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION can_access_campus_inventory(UUID) TO authenticated;
+
+
+-- ── 3. RLS ──
+-- Read-only to clients; no insert/update/delete policies.
+ALTER TABLE inventory_items     ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_lots      ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "inventory_items_select"     ON inventory_items;
+DROP POLICY IF EXISTS "inventory_lots_select"      ON inventory_lots;
+DROP POLICY IF EXISTS "inventory_movements_select" ON inventory_movements;
+
+CREATE POLICY "inventory_items_select" ON inventory_items
+  FOR SELECT TO authenticated
+  USING (can_access_campus_inventory(campus_id));
+
+CREATE POLICY "inventory_lots_select" ON inventory_lots
+  FOR SELECT TO authenticated
+  USING (can_access_campus_inventory(campus_id));
+
+CREATE POLICY "inventory_movements_select" ON inventory_movements
+  FOR SELECT TO authenticated
+  USING (can_access_campus_inventory(campus_id));
+
+
+-- ============================================================
+-- 4. save_inventory_item() — add an item or edit one
+--    Pass p_item_id = NULL to add. An item's campus never changes;
+--    items are retired with p_is_active = false, never deleted.
+-- ============================================================
+CREATE OR REPLACE FUNCTION save_inventory_item(
+  p_item_id       UUID,
+  p_campus_id     UUID,
+  p_name          TEXT,
+  p_category      TEXT,
+  p_unit          TEXT,
+  p_reorder_level INT,
+  p_notes         TEXT    DEFAULT NULL,
+  p_is_active     BOOLEAN DEFAULT true
+)
+RETURNS inventory_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item inventory_items;
+BEGIN
+  IF p_item_id IS NOT NULL THEN
+    SELECT * INTO v_item FROM inventory_items WHERE id = p_item_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'NOT_FOUND: Item not found.';
+    END IF;
+    p_campus_id := v_item.campus_id;
+  END IF;
+
+  IF NOT can_access_campus_inventory(p_campus_id) THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only manage inventory for your own campus.';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'NAME_REQUIRED: Please enter the item name.';
+  END IF;
+
+  IF p_category IS NULL OR p_category NOT IN ('medicine', 'supply') THEN
+    RAISE EXCEPTION 'INVALID_CATEGORY: Category must be medicine or supply.';
+  END IF;
+
+  IF COALESCE(p_reorder_level, -1) NOT BETWEEN 0 AND 100000 THEN
+    RAISE EXCEPTION 'INVALID_REORDER_LEVEL: Reorder level must be between 0 and 100000.';
+  END IF;
+
+  BEGIN
+    IF p_item_id IS NULL THEN
+      INSERT INTO inventory_items (campus_id, name, category, unit, reorder_level, notes, is_active)
+      VALUES (p_campus_id, trim(p_name), p_category, COALESCE(NULLIF(trim(p_unit), ''), 'pc'), p_reorder_level, NULLIF(trim(p_notes), ''), COALESCE(p_is_active, true))
+      RETURNING * INTO v_item;
+    ELSE
+      UPDATE inventory_items SET
+        name          = trim(p_name),
+        category      = p_category,
+        unit          = COALESCE(NULLIF(trim(p_unit), ''), 'pc'),
+        reorder_level = p_reorder_level,
+        notes         = NULLIF(trim(p_notes), ''),
+        is_active     = COALESCE(p_is_active, true),
+        updated_at    = now()
+      WHERE id = p_item_id
+      RETURNING * INTO v_item;
+    END IF;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'DUPLICATE_ITEM: % is already in this campus''s inventory.', trim(p_name);
+  END;
+
+  RETURN v_item;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_inventory_item(UUID, UUID, TEXT, TEXT, TEXT, INT, TEXT, BOOLEAN) TO authenticated;
+
+
+-- ============================================================
+-- 5. receive_inventory_stock() — record a delivery (stock-in)
+--    Adds to the lot with the same number and expiry, or starts
+--    a new one. Already-expired stock is refused.
+-- ============================================================
+CREATE OR REPLACE FUNCTION receive_inventory_stock(
+  p_item_id     UUID,
+  p_lot_number  TEXT,
+  p_expiry_date DATE,
+  p_quantity    INT,
+  p_notes       TEXT DEFAULT NULL
+)
+RETURNS inventory_lots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item  inventory_items%ROWTYPE;
+  v_lot   inventory_lots;
+  v_actor TEXT;
+BEGIN
+  SELECT * INTO v_item FROM inventory_items WHERE id = p_item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Item not found.';
+  END IF;
+
+  IF NOT can_access_campus_inventory(v_item.campus_id) THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only manage inventory for your own campus.';
+  END IF;
+
+  IF NULLIF(trim(p_lot_number), '') IS NULL THEN
+    RAISE EXCEPTION 'LOT_REQUIRED: Please enter the lot or batch number.';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) NOT BETWEEN 1 AND 100000 THEN
+    RAISE EXCEPTION 'INVALID_QUANTITY: Quantity must be between 1 and 100000.';
+  END IF;
+
+  IF p_expiry_date IS NOT NULL AND p_expiry_date < (now() AT TIME ZONE 'Asia/Manila')::date THEN
+    RAISE EXCEPTION 'ALREADY_EXPIRED: This lot expired on %.', to_char(p_expiry_date, 'Mon DD, YYYY');
+  END IF;
+
+  INSERT INTO inventory_lots (item_id, campus_id, lot_number, expiry_date, quantity_on_hand)
+  VALUES (p_item_id, v_item.campus_id, trim(p_lot_number), p_expiry_date, p_quantity)
+  ON CONFLICT (item_id, lower(trim(lot_number)), COALESCE(expiry_date, 'infinity'::date))
+  DO UPDATE SET
+    quantity_on_hand = inventory_lots.quantity_on_hand + EXCLUDED.quantity_on_hand,
+    updated_at       = now()
+  RETURNING * INTO v_lot;
+
+  SELECT NULLIF(trim(concat_ws(' ', first_name, last_name)), '') INTO v_actor
+  FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO inventory_movements (campus_id, item_id, lot_id, movement_type, quantity, balance_after, reason, actor_id, actor_name)
+  VALUES (v_item.campus_id, p_item_id, v_lot.id, 'stock_in', p_quantity, v_lot.quantity_on_hand, NULLIF(trim(p_notes), ''), auth.uid(), v_actor);
+
+  RETURN v_lot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_inventory_stock(UUID, TEXT, DATE, INT, TEXT) TO authenticated;
+
+
+-- ============================================================
+-- 6. record_inventory_stock_out() — remove stock from a lot
+--    For wastage, breakage, disposal of expired stock and count
+--    corrections. The lot row is locked so two removals cannot
+--    take the same units.
+-- ============================================================
+CREATE OR REPLACE FUNCTION record_inventory_stock_out(
+  p_lot_id   UUID,
+  p_quantity INT,
+  p_reason   TEXT
+)
+RETURNS inventory_lots
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot   inventory_lots;
+  v_actor TEXT;
+BEGIN
+  SELECT * INTO v_lot FROM inventory_lots WHERE id = p_lot_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Lot not found.';
+  END IF;
+
+  IF NOT can_access_campus_inventory(v_lot.campus_id) THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only manage inventory for your own campus.';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'REASON_REQUIRED: Please give a reason for removing stock.';
+  END IF;
+
+  IF COALESCE(p_quantity, 0) < 1 THEN
+    RAISE EXCEPTION 'INVALID_QUANTITY: Quantity must be at least 1.';
+  END IF;
+
+  IF p_quantity > v_lot.quantity_on_hand THEN
+    RAISE EXCEPTION 'INSUFFICIENT_STOCK: Only % left in lot %.', v_lot.quantity_on_hand, v_lot.lot_number;
+  END IF;
+
+  UPDATE inventory_lots
+  SET quantity_on_hand = quantity_on_hand - p_quantity,
+      updated_at       = now()
+  WHERE id = p_lot_id
+  RETURNING * INTO v_lot;
+
+  SELECT NULLIF(trim(concat_ws(' ', first_name, last_name)), '') INTO v_actor
+  FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO inventory_movements (campus_id, item_id, lot_id, movement_type, quantity, balance_after, reason, actor_id, actor_name)
+  VALUES (v_lot.campus_id, v_lot.item_id, v_lot.id, 'stock_out', p_quantity, v_lot.quantity_on_hand, trim(p_reason), auth.uid(), v_actor);
+
+  RETURN v_lot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_inventory_stock_out(UUID, INT, TEXT) TO authenticated;
+
+-- Verify
+SELECT 'Inventory tables and functions created successfully!' AS status;
@@ -0,0 +1,259 @@
+-- ============================================================
+-- LDCU Clinic — Medical Certificates
+-- Certificates issued from completed appointments:
+--
+--   findings, recommendation, rest days, issuing clinician,
+--   certificate number (LDCU-MC-<year>-<000001>)
+--
+-- Numbers come from a per-year counter that is bumped inside the
+-- issuing transaction, so they are unique and gap-free. Patient
+-- and campus details are copied onto the certificate when it is
+-- issued, so a reprint always matches the signed original even if
+-- the profile or campus changes later. Certificates are never
+-- deleted: a wrong one is revoked with a reason, and the
+-- revocation is written to audit_logs in the same transaction.
+-- Only clinic roles read them; writes go through
+-- issue_medical_certificate() and revoke_medical_certificate().
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Number counter (one row per year) ──
+CREATE TABLE IF NOT EXISTS certificate_counters (
+  year        INT PRIMARY KEY,
+  last_number INT NOT NULL DEFAULT 0
+);
+
+-- No policies: only the issuing RPC touches it
+ALTER TABLE certificate_counters ENABLE ROW LEVEL SECURITY;
+
+-- ── 2. Table ──
+CREATE TABLE IF NOT EXISTS medical_certificates (
+  id                 UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  certificate_number TEXT NOT NULL UNIQUE,
+  appointment_id     UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  patient_id         UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  campus_id          UUID REFERENCES campuses(id) ON DELETE SET NULL,
+  campus_name        TEXT,
+  campus_address     TEXT,
+  patient_name       TEXT NOT NULL,
+  patient_sex        TEXT,
+  patient_age        INT,
+  patient_id_number  TEXT,
+  visit_date         DATE NOT NULL,
+  findings           TEXT NOT NULL,
+  recommendation     TEXT,
+  rest_days          INT NOT NULL DEFAULT 0 CHECK (rest_days BETWEEN 0 AND 30),
+  rest_from          DATE,
+  rest_to            DATE GENERATED ALWAYS AS (
+                       CASE WHEN rest_days > 0 THEN rest_from + (rest_days - 1) END
+                     ) STORED,
+  issued_by          UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  issued_by_name     TEXT NOT NULL,
+  issued_by_role     TEXT NOT NULL,
+  issued_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  revoked_at         TIMESTAMPTZ,
+  revoked_by         UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  revoked_by_name    TEXT,
+  revocation_reason  TEXT,
+  CHECK (rest_days = 0 OR rest_from IS NOT NULL),
+  CHECK ((revoked_at IS NULL) = (revocation_reason IS NULL))
+);
+
+-- One valid certificate per appointment; revoking frees it for a corrected one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medical_certificates_active_appointment
+  ON medical_certificates(appointment_id)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_medical_certificates_issued_at
+  ON medical_certificates(issued_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_medical_certificates_patient
+  ON medical_certificates(patient_id);
+
+-- ── 3. RLS ──
+-- Admins and supervisors read every certificate, nurses their own
+-- campus's; no insert/update/delete policies.
+ALTER TABLE medical_certificates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "medical_certificates_select" ON medical_certificates;
+
+CREATE POLICY "medical_certificates_select" ON medical_certificates
+  FOR SELECT TO authenticated
+  USING (
+    get_my_role() IN ('admin', 'supervisor')
+    OR (get_my_role() = 'nurse' AND campus_id = get_my_campus_id())
+  );
+
+
+-- ============================================================
+-- 4. issue_medical_certificate() — certify a completed visit
+--    The caller signs the certificate, so only clinicians
+--    (nurses and supervising nurses) may issue one.
+-- ============================================================
+CREATE OR REPLACE FUNCTION issue_medical_certificate(
+  p_appointment_id UUID,
+  p_findings       TEXT,
+  p_recommendation TEXT DEFAULT NULL,
+  p_rest_days      INT  DEFAULT 0,
+  p_rest_from      DATE DEFAULT NULL
+)
+RETURNS medical_certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt     appointments%ROWTYPE;
+  v_patient profiles%ROWTYPE;
+  v_staff   profiles%ROWTYPE;
+  v_campus  campuses%ROWTYPE;
+  v_year    INT;
+  v_seq     INT;
+  v_cert    medical_certificates;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only nurses and supervisors can issue medical certificates.';
+  END IF;
+
+  IF NULLIF(trim(p_findings), '') IS NULL THEN
+    RAISE EXCEPTION 'FINDINGS_REQUIRED: Please enter the findings.';
+  END IF;
+
+  IF COALESCE(p_rest_days, 0) NOT BETWEEN 0 AND 30 THEN
+    RAISE EXCEPTION 'INVALID_REST_DAYS: Rest days must be between 0 and 30.';
+  END IF;
+
+  -- Lock the appointment so two staff cannot certify it at once
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF v_apt.status::TEXT <> 'completed' THEN
+    RAISE EXCEPTION 'NOT_COMPLETED: Certificates can only be issued for completed appointments.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM medical_certificates
+    WHERE appointment_id = p_appointment_id AND revoked_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'ALREADY_ISSUED: This appointment already has a valid certificate. Revoke it first to issue a corrected one.';
+  END IF;
+
+  SELECT * INTO v_staff FROM profiles WHERE id = auth.uid();
+  SELECT * INTO v_campus FROM campuses WHERE id = v_apt.campus_id;
+  IF v_apt.patient_id IS NOT NULL THEN
+    SELECT * INTO v_patient FROM profiles WHERE id = v_apt.patient_id;
+  END IF;
+
+  v_year := EXTRACT(YEAR FROM now() AT TIME ZONE 'Asia/Manila')::INT;
+
+  INSERT INTO certificate_counters (year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = certificate_counters.last_number + 1
+  RETURNING last_number INTO v_seq;
+
+  INSERT INTO medical_certificates (
+    certificate_number, appointment_id, patient_id, campus_id, campus_name, campus_address,
+    patient_name, patient_sex, patient_age, patient_id_number, visit_date,
+    findings, recommendation, rest_days, rest_from,
+    issued_by, issued_by_name, issued_by_role
+  ) VALUES (
+    format('LDCU-MC-%s-%s', v_year, lpad(v_seq::TEXT, 6, '0')),
+    v_apt.id,
+    v_apt.patient_id,
+    v_apt.campus_id,
+    v_campus.name,
+    v_campus.address,
+    COALESCE(
+      NULLIF(trim(concat_ws(' ', v_patient.first_name, v_patient.last_name)), ''),
+      NULLIF(trim(v_apt.patient_name), ''),
+      'Unknown Patient'
+    ),
+    v_patient.sex,
+    CASE WHEN v_patient.date_of_birth IS NOT NULL
+         THEN date_part('year', age(v_apt.appointment_date, v_patient.date_of_birth))::INT
+    END,
+    COALESCE(v_patient.student_id, v_patient.employee_id),
+    v_apt.appointment_date,
+    trim(p_findings),
+    NULLIF(trim(p_recommendation), ''),
+    COALESCE(p_rest_days, 0),
+    CASE WHEN COALESCE(p_rest_days, 0) > 0 THEN COALESCE(p_rest_from, v_apt.appointment_date) END,
+    v_staff.id,
+    COALESCE(NULLIF(trim(concat_ws(' ', v_staff.first_name, v_staff.last_name)), ''), v_staff.email),
+    v_staff.role::TEXT
+  )
+  RETURNING * INTO v_cert;
+
+  RETURN v_cert;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_medical_certificate TO authenticated;
+
+
+-- ============================================================
+-- 5. revoke_medical_certificate() — withdraw an issued certificate
+--    The audit entry is written here rather than by the app so a
+--    revocation can never be recorded without one.
+-- ============================================================
+CREATE OR REPLACE FUNCTION revoke_medical_certificate(
+  p_certificate_id UUID,
+  p_reason         TEXT
+)
+RETURNS medical_certificates
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cert  medical_certificates;
+  v_staff profiles%ROWTYPE;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can revoke certificates.';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'REASON_REQUIRED: Please give a reason for revoking the certificate.';
+  END IF;
+
+  SELECT * INTO v_cert FROM medical_certificates WHERE id = p_certificate_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Certificate not found.';
+  END IF;
+
+  IF v_cert.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'ALREADY_REVOKED: This certificate has already been revoked.';
+  END IF;
+
+  SELECT * INTO v_staff FROM profiles WHERE id = auth.uid();
+
+  UPDATE medical_certificates
+  SET revoked_at        = now(),
+      revoked_by        = v_staff.id,
+      revoked_by_name   = COALESCE(NULLIF(trim(concat_ws(' ', v_staff.first_name, v_staff.last_name)), ''), v_staff.email),
+      revocation_reason = trim(p_reason)
+  WHERE id = p_certificate_id
+  RETURNING * INTO v_cert;
+
+  INSERT INTO audit_logs (user_id, action, resource_type, resource_id, campus_id, details)
+  VALUES (
+    auth.uid(),
+    'CANCEL',
+    'medical_certificate',
+    v_cert.id::TEXT,
+    v_cert.campus_id,
+    jsonb_build_object('certificate_number', v_cert.certificate_number, 'reason', v_cert.revocation_reason)
+  );
+
+  RETURN v_cert;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revoke_medical_certificate TO authenticated;
+
+-- Verify
+SELECT 'medical_certificates table, issue_medical_certificate() and revoke_medical_certificate() created successfully!' AS status;
@@ -0,0 +1,247 @@
+-- ============================================================
+-- LDCU Clinic — No-Show Policy
+-- Counts each patient's no-shows over a rolling window and,
+-- once they reach the supervisor-configured threshold, applies
+-- one of two penalties:
+--
+--   block        — no new bookings for block_days after the
+--                  latest no-show
+--   short_window — bookings at most max_advance_days ahead until
+--                  enough no-shows roll out of the window
+--
+-- Patients are matched by patient_id or (for walk-ins) email.
+-- Enforced inside book_appointment() with the NO_SHOW_PENALTY
+-- error; run book_appointment.sql after this.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Policy (a single row) ──
+CREATE TABLE IF NOT EXISTS no_show_policy (
+  id               BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  enabled          BOOLEAN NOT NULL DEFAULT false,
+  window_days      INT  NOT NULL DEFAULT 90 CHECK (window_days BETWEEN 7 AND 365),
+  threshold        INT  NOT NULL DEFAULT 3  CHECK (threshold BETWEEN 1 AND 20),
+  penalty          TEXT NOT NULL DEFAULT 'block' CHECK (penalty IN ('block', 'short_window')),
+  block_days       INT  NOT NULL DEFAULT 14 CHECK (block_days BETWEEN 1 AND 180),
+  max_advance_days INT  NOT NULL DEFAULT 3  CHECK (max_advance_days BETWEEN 0 AND 60),
+  updated_at       TIMESTAMPTZ DEFAULT now(),
+  updated_by       UUID REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+INSERT INTO no_show_policy (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE no_show_policy ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "no_show_policy_select" ON no_show_policy;
+DROP POLICY IF EXISTS "no_show_policy_update" ON no_show_policy;
+
+-- Patients read the policy so the booking page can explain it
+CREATE POLICY "no_show_policy_select" ON no_show_policy
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "no_show_policy_update" ON no_show_policy
+  FOR UPDATE TO authenticated
+  USING (get_my_role() IN ('admin', 'supervisor'))
+  WITH CHECK (get_my_role() IN ('admin', 'supervisor'));
+
+CREATE INDEX IF NOT EXISTS idx_appointments_no_show_email
+  ON appointments (lower(patient_email), appointment_date)
+  WHERE status = 'no_show';
+
+
+-- ============================================================
+-- 2. compute_no_show_standing() — one patient's standing today
+--    Internal: called by the functions below.
+--    restricted_until is the first day the penalty no longer
+--    applies.
+-- ============================================================
+CREATE OR REPLACE FUNCTION compute_no_show_standing(
+  p_patient_id UUID,
+  p_email      TEXT
+)
+RETURNS TABLE (
+  no_show_count     INT,
+  window_days       INT,
+  threshold         INT,
+  penalty           TEXT,
+  restricted        BOOLEAN,
+  restricted_until  DATE,
+  max_advance_days  INT,
+  last_no_show_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_policy no_show_policy%ROWTYPE;
+  v_today  DATE := (now() AT TIME ZONE 'Asia/Manila')::DATE;
+  v_dates  DATE[];
+BEGIN
+  SELECT * INTO v_policy FROM no_show_policy LIMIT 1;
+
+  window_days      := COALESCE(v_policy.window_days, 90);
+  threshold        := COALESCE(v_policy.threshold, 3);
+  penalty          := COALESCE(v_policy.penalty, 'block');
+  max_advance_days := v_policy.max_advance_days;
+
+  SELECT array_agg(a.appointment_date ORDER BY a.appointment_date DESC) INTO v_dates
+  FROM appointments a
+  WHERE a.status = 'no_show'
+    AND a.appointment_date BETWEEN v_today - window_days AND v_today
+    AND (
+      (p_patient_id IS NOT NULL AND a.patient_id = p_patient_id)
+      OR (p_email IS NOT NULL AND lower(a.patient_email) = lower(p_email))
+    );
+
+  no_show_count     := COALESCE(array_length(v_dates, 1), 0);
+  last_no_show_date := v_dates[1];
+  restricted        := false;
+  restricted_until  := NULL;
+
+  IF COALESCE(v_policy.enabled, false) AND no_show_count >= threshold THEN
+    IF penalty = 'block' THEN
+      restricted_until := last_no_show_date + v_policy.block_days;
+      restricted := v_today < restricted_until;
+    ELSE
+      -- Lifts once the threshold-th most recent no-show leaves the window
+      restricted_until := v_dates[threshold] + window_days + 1;
+      restricted := true;
+    END IF;
+  END IF;
+
+  IF NOT restricted THEN
+    restricted_until := NULL;
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION compute_no_show_standing(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+
+-- ============================================================
+-- 3. get_no_show_standing() — for the booking page and staff
+--    Patients may only look themselves up; with no arguments
+--    the caller's own standing is returned.
+-- ============================================================
+CREATE OR REPLACE FUNCTION get_no_show_standing(
+  p_patient_id UUID DEFAULT NULL,
+  p_email      TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  no_show_count     INT,
+  window_days       INT,
+  threshold         INT,
+  penalty           TEXT,
+  restricted        BOOLEAN,
+  restricted_until  DATE,
+  max_advance_days  INT,
+  last_no_show_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_my_email TEXT := lower(auth.jwt() ->> 'email');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Sign in to view no-show standing.';
+  END IF;
+
+  IF p_patient_id IS NULL AND p_email IS NULL THEN
+    p_patient_id := auth.uid();
+    p_email := v_my_email;
+  ELSIF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse')
+    AND p_patient_id IS DISTINCT FROM auth.uid()
+    AND lower(p_email) IS DISTINCT FROM v_my_email
+  THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You can only view your own standing.';
+  END IF;
+
+  RETURN QUERY SELECT * FROM compute_no_show_standing(p_patient_id, p_email);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_no_show_standing TO authenticated;
+
+
+-- ============================================================
+-- 4. get_no_show_counts() — standings for a list of patients
+--    Clinic staff only; used to badge the day schedule.
+-- ============================================================
+CREATE OR REPLACE FUNCTION get_no_show_counts(p_emails TEXT[])
+RETURNS TABLE (
+  email         TEXT,
+  no_show_count INT,
+  restricted    BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can view no-show counts.';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.email, s.no_show_count, s.restricted
+  FROM (SELECT DISTINCT lower(x) AS email FROM unnest(p_emails) AS x) e
+  CROSS JOIN LATERAL compute_no_show_standing(NULL, e.email) s
+  WHERE s.no_show_count > 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_no_show_counts TO authenticated;
+
+
+-- ============================================================
+-- 5. enforce_no_show_policy() — called from book_appointment()
+-- ============================================================
+CREATE OR REPLACE FUNCTION enforce_no_show_policy(
+  p_patient_id       UUID,
+  p_email            TEXT,
+  p_appointment_date DATE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_standing RECORD;
+  v_today    DATE := (now() AT TIME ZONE 'Asia/Manila')::DATE;
+BEGIN
+  IF p_patient_id IS NULL AND p_email IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_standing FROM compute_no_show_standing(p_patient_id, p_email);
+
+  IF NOT v_standing.restricted THEN
+    RETURN;
+  END IF;
+
+  IF v_standing.penalty = 'block' THEN
+    RAISE EXCEPTION 'NO_SHOW_PENALTY: Booking is paused until % after % missed appointments in the last % days.',
+      to_char(v_standing.restricted_until, 'FMMonth FMDD, YYYY'), v_standing.no_show_count, v_standing.window_days;
+  END IF;
+
+  IF p_appointment_date > v_today + v_standing.max_advance_days THEN
+    RAISE EXCEPTION 'NO_SHOW_PENALTY: After % missed appointments you can only book up to % day(s) ahead until %.',
+      v_standing.no_show_count, v_standing.max_advance_days, to_char(v_standing.restricted_until, 'FMMonth FMDD, YYYY');
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enforce_no_show_policy(UUID, TEXT, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Verify
+SELECT 'no_show_policy table and functions created successfully!' AS status;
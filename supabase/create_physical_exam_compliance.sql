@@ -0,0 +1,162 @@
+-- ============================================================
+-- LDCU Clinic — Annual Physical Exam Compliance
+-- Who among students and employees (staff) has had a completed
+-- physical_exam appointment in an academic year, per campus,
+-- college and department:
+--
+--   completed   a completed physical exam within the year
+--   scheduled   none completed yet, but one is booked
+--   missing     neither
+--
+-- The academic year runs June 1 – May 31 and is identified by its
+-- start date (2025-06-01 = AY 2025–2026).
+--
+-- Profiles carry college_id next to department_id; the colleges
+-- table and column are created here if the database predates them.
+--
+-- Reminder emails go out from the send-email edge function, which
+-- records each one in physical_exam_reminders so the same person is
+-- not emailed again within a week.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Colleges ──
+CREATE TABLE IF NOT EXISTS colleges (
+  id         UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name       TEXT NOT NULL,
+  campus_id  UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE colleges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "colleges_select" ON colleges;
+
+CREATE POLICY "colleges_select" ON colleges
+  FOR SELECT TO authenticated
+  USING (true);
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS college_id UUID REFERENCES colleges(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_college ON profiles(college_id);
+
+-- Compliance looks up each person's physical exams for the year
+CREATE INDEX IF NOT EXISTS idx_appointments_patient_type_date
+  ON appointments(patient_id, appointment_type, appointment_date);
+
+-- ── 2. Reminder log ──
+CREATE TABLE IF NOT EXISTS physical_exam_reminders (
+  id                  UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id          UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  academic_year_start DATE NOT NULL,
+  sent_at             TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_by             UUID REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_physical_exam_reminders_profile
+  ON physical_exam_reminders(profile_id, academic_year_start, sent_at);
+
+-- No policies: written by the edge function, read through the report below
+ALTER TABLE physical_exam_reminders ENABLE ROW LEVEL SECURITY;
+
+
+-- ============================================================
+-- 3. physical_exam_compliance() — one row per student/employee
+--    Admins and supervisors see every campus; nurses only their
+--    own. Filters are optional.
+-- ============================================================
+CREATE OR REPLACE FUNCTION physical_exam_compliance(
+  p_year_start    DATE,
+  p_campus_id     UUID DEFAULT NULL,
+  p_college_id    UUID DEFAULT NULL,
+  p_department_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  profile_id       UUID,
+  full_name        TEXT,
+  email            TEXT,
+  population       TEXT,
+  id_number        TEXT,
+  campus_id        UUID,
+  campus_name      TEXT,
+  college_id       UUID,
+  college_name     TEXT,
+  department_id    UUID,
+  department_name  TEXT,
+  completed_on     DATE,
+  scheduled_on     DATE,
+  last_reminded_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_role   TEXT := get_my_role();
+  v_campus UUID;
+  v_end    DATE;
+BEGIN
+  IF v_role IS NULL OR v_role NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can view physical exam compliance.';
+  END IF;
+
+  IF p_year_start IS NULL OR EXTRACT(MONTH FROM p_year_start) <> 6 OR EXTRACT(DAY FROM p_year_start) <> 1 THEN
+    RAISE EXCEPTION 'INVALID_YEAR: An academic year starts on June 1.';
+  END IF;
+
+  v_end := (p_year_start + INTERVAL '1 year')::DATE;
+
+  IF v_role = 'nurse' THEN
+    SELECT COALESCE(pr.assigned_campus_id, pr.campus_id) INTO v_campus
+    FROM profiles pr WHERE pr.id = auth.uid();
+
+    IF p_campus_id IS NOT NULL AND p_campus_id IS DISTINCT FROM v_campus THEN
+      RAISE EXCEPTION 'WRONG_CAMPUS: You can only view your own campus.';
+    END IF;
+  ELSE
+    v_campus := p_campus_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), p.email),
+    p.email,
+    CASE WHEN p.role::TEXT = 'student' THEN 'student' ELSE 'employee' END,
+    COALESCE(p.student_id, p.employee_id),
+    p.campus_id,
+    ca.name,
+    p.college_id,
+    co.name,
+    p.department_id,
+    d.name,
+    (SELECT max(a.appointment_date) FROM appointments a
+      WHERE a.patient_id = p.id
+        AND a.appointment_type::TEXT = 'physical_exam'
+        AND a.status::TEXT = 'completed'
+        AND a.appointment_date >= p_year_start AND a.appointment_date < v_end),
+    (SELECT min(a.appointment_date) FROM appointments a
+      WHERE a.patient_id = p.id
+        AND a.appointment_type::TEXT = 'physical_exam'
+        AND a.status::TEXT = 'scheduled'
+        AND a.appointment_date >= p_year_start AND a.appointment_date < v_end),
+    (SELECT max(r.sent_at) FROM physical_exam_reminders r
+      WHERE r.profile_id = p.id AND r.academic_year_start = p_year_start)
+  FROM profiles p
+  LEFT JOIN campuses ca   ON ca.id = p.campus_id
+  LEFT JOIN colleges co   ON co.id = p.college_id
+  LEFT JOIN departments d ON d.id = p.department_id
+  WHERE p.role::TEXT IN ('student', 'staff')
+    AND (v_campus IS NULL OR p.campus_id = v_campus)
+    AND (p_college_id IS NULL OR p.college_id = p_college_id)
+    AND (p_department_id IS NULL OR p.department_id = p_department_id)
+  ORDER BY p.last_name, p.first_name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION physical_exam_compliance TO authenticated;
+
+-- Verify
+SELECT 'colleges, physical_exam_reminders and physical_exam_compliance() created successfully!' AS status;
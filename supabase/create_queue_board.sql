@@ -0,0 +1,126 @@
+-- ============================================================
+-- LDCU Clinic — Public Queue Display Board
+-- Backs the /queue/:campusId page shown on the waiting-area TV.
+--
+--   get_queue_board()     — today's queue for one campus, with
+--                           patient initials only (no names,
+--                           emails or appointment details)
+--   queue_board_updates   — one row per campus, touched whenever
+--                           that campus's queue changes; the board
+--                           subscribes to it over Supabase Realtime
+--                           and refetches, so appointments never
+--                           need to be readable by anonymous users
+--
+-- Run after add_queue_checkin.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Change signal table ──
+CREATE TABLE IF NOT EXISTS queue_board_updates (
+  campus_id  UUID PRIMARY KEY REFERENCES campuses(id) ON DELETE CASCADE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE queue_board_updates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "queue_board_updates_select" ON queue_board_updates;
+
+-- Holds nothing but a campus id and a timestamp
+CREATE POLICY "queue_board_updates_select" ON queue_board_updates
+  FOR SELECT TO anon, authenticated USING (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'queue_board_updates'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE queue_board_updates;
+  END IF;
+END $$;
+
+
+-- ============================================================
+-- 2. Touch the signal row when a queue changes
+--    Only today's (Manila) appointments affect the board.
+-- ============================================================
+CREATE OR REPLACE FUNCTION touch_queue_board()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today DATE := (now() AT TIME ZONE 'Asia/Manila')::DATE;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.appointment_date = v_today AND OLD.queue_number IS NOT NULL THEN
+    INSERT INTO queue_board_updates (campus_id, updated_at)
+    VALUES (OLD.campus_id, now())
+    ON CONFLICT (campus_id) DO UPDATE SET updated_at = EXCLUDED.updated_at;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.appointment_date = v_today AND NEW.queue_number IS NOT NULL THEN
+    INSERT INTO queue_board_updates (campus_id, updated_at)
+    VALUES (NEW.campus_id, now())
+    ON CONFLICT (campus_id) DO UPDATE SET updated_at = EXCLUDED.updated_at;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION touch_queue_board FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trg_appointments_queue_board ON appointments;
+CREATE TRIGGER trg_appointments_queue_board
+  AFTER UPDATE OF queue_number, called_at, status, appointment_date, campus_id OR DELETE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_queue_board();
+
+
+-- ============================================================
+-- 3. get_queue_board() — today's queue for a campus
+--    Returns checked-in patients that are still scheduled or
+--    were served today, in queue order. Names are reduced to the
+--    first letters of the first and last word ("Juan Dela Cruz"
+--    becomes "JC").
+-- ============================================================
+CREATE OR REPLACE FUNCTION get_queue_board(p_campus_id UUID)
+RETURNS TABLE (
+  time_of_day  TEXT,
+  queue_number INT,
+  initials     TEXT,
+  called_at    TIMESTAMPTZ,
+  served       BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.time_of_day,
+    a.queue_number,
+    upper(
+      left(COALESCE(trim(a.patient_name), ''), 1) ||
+      CASE WHEN trim(a.patient_name) ~ '\s'
+        THEN left(regexp_replace(trim(a.patient_name), '^.*\s', ''), 1)
+        ELSE ''
+      END
+    ) AS initials,
+    a.called_at,
+    a.status = 'completed' AS served
+  FROM appointments a
+  WHERE a.campus_id = p_campus_id
+    AND a.appointment_date = (now() AT TIME ZONE 'Asia/Manila')::DATE
+    AND a.queue_number IS NOT NULL
+    AND a.status IN ('scheduled', 'completed')
+  ORDER BY a.time_of_day, a.queue_number;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_queue_board TO anon, authenticated;
+
+-- Verify
+SELECT 'Queue board function and realtime signal created successfully!' AS status;
@@ -0,0 +1,282 @@
+-- ============================================================
+-- LDCU Clinic — Referral Letters
+-- Referrals to hospitals and specialists from completed visits:
+--
+--   destination facility, who the patient is referred to,
+--   reason, urgency, findings, referral number
+--   (LDCU-RF-<year>-<000001>)
+--
+-- Like medical certificates, numbers come from a per-year counter
+-- bumped inside the creating transaction, and patient and campus
+-- details are copied onto the referral so a reprint always matches
+-- the letter the patient carried.
+--
+-- A referral stays open until the clinic follows it up:
+--   open → returned  the patient came back with the facility's reply
+--   open → closed    followed up without a reply (or no longer needed)
+--   returned → closed
+-- Closed is final. Every status change needs a note.
+-- Admins and supervisors see every campus, nurses only their own;
+-- writes go through create_referral() and update_referral_status().
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Number counter (one row per year) ──
+CREATE TABLE IF NOT EXISTS referral_counters (
+  year        INT PRIMARY KEY,
+  last_number INT NOT NULL DEFAULT 0
+);
+
+-- No policies: only the creating RPC touches it
+ALTER TABLE referral_counters ENABLE ROW LEVEL SECURITY;
+
+-- ── 2. Table ──
+CREATE TABLE IF NOT EXISTS referrals (
+  id                UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  referral_number   TEXT NOT NULL UNIQUE,
+  appointment_id    UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  patient_id        UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  campus_id         UUID REFERENCES campuses(id) ON DELETE SET NULL,
+  campus_name       TEXT,
+  campus_address    TEXT,
+  patient_name      TEXT NOT NULL,
+  patient_sex       TEXT,
+  patient_age       INT,
+  patient_id_number TEXT,
+  visit_date        DATE NOT NULL,
+  facility_name     TEXT NOT NULL CHECK (length(trim(facility_name)) BETWEEN 1 AND 200),
+  referred_to       TEXT CHECK (length(referred_to) <= 200),
+  reason            TEXT NOT NULL,
+  urgency           TEXT NOT NULL DEFAULT 'routine' CHECK (urgency IN ('routine', 'urgent', 'emergency')),
+  findings          TEXT NOT NULL,
+  status            TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'returned', 'closed')),
+  referred_by       UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  referred_by_name  TEXT NOT NULL,
+  referred_by_role  TEXT NOT NULL,
+  referred_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  returned_at       TIMESTAMPTZ,
+  returned_by_name  TEXT,
+  return_notes      TEXT,
+  closed_at         TIMESTAMPTZ,
+  closed_by_name    TEXT,
+  closure_notes     TEXT,
+  CHECK ((returned_at IS NULL) = (return_notes IS NULL)),
+  CHECK ((closed_at IS NULL) = (closure_notes IS NULL)),
+  CHECK ((status = 'closed') = (closed_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_status
+  ON referrals(status, referred_at);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_appointment
+  ON referrals(appointment_id);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_patient
+  ON referrals(patient_id);
+
+-- ── 3. RLS ──
+-- Nurses read their own campus; no insert/update/delete policies.
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "referrals_select" ON referrals;
+
+CREATE POLICY "referrals_select" ON referrals
+  FOR SELECT TO authenticated
+  USING (
+    get_my_role() IN ('admin', 'supervisor')
+    OR (get_my_role() = 'nurse' AND campus_id = get_my_campus_id())
+  );
+
+
+-- ============================================================
+-- 4. create_referral() — refer the patient of a completed visit
+--    The caller signs the letter, so only clinicians may refer.
+--    A visit can have several referrals (e.g. lab and specialist).
+-- ============================================================
+CREATE OR REPLACE FUNCTION create_referral(
+  p_appointment_id UUID,
+  p_facility_name  TEXT,
+  p_reason         TEXT,
+  p_urgency        TEXT,
+  p_findings       TEXT,
+  p_referred_to    TEXT DEFAULT NULL
+)
+RETURNS referrals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt      appointments%ROWTYPE;
+  v_patient  profiles%ROWTYPE;
+  v_staff    profiles%ROWTYPE;
+  v_campus   campuses%ROWTYPE;
+  v_year     INT;
+  v_seq      INT;
+  v_referral referrals;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only nurses and supervisors can write referrals.';
+  END IF;
+
+  IF NULLIF(trim(p_facility_name), '') IS NULL THEN
+    RAISE EXCEPTION 'FACILITY_REQUIRED: Please enter the facility the patient is referred to.';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'REASON_REQUIRED: Please enter the reason for referral.';
+  END IF;
+
+  IF NULLIF(trim(p_findings), '') IS NULL THEN
+    RAISE EXCEPTION 'FINDINGS_REQUIRED: Please enter the findings.';
+  END IF;
+
+  IF p_urgency IS NULL OR p_urgency NOT IN ('routine', 'urgent', 'emergency') THEN
+    RAISE EXCEPTION 'INVALID_URGENCY: Urgency must be routine, urgent or emergency.';
+  END IF;
+
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF get_my_role() = 'nurse' AND v_apt.campus_id IS DISTINCT FROM get_my_campus_id() THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This visit was at another campus.';
+  END IF;
+
+  IF v_apt.status::TEXT <> 'completed' THEN
+    RAISE EXCEPTION 'NOT_COMPLETED: Referrals can only be written for completed appointments.';
+  END IF;
+
+  SELECT * INTO v_staff FROM profiles WHERE id = auth.uid();
+  SELECT * INTO v_campus FROM campuses WHERE id = v_apt.campus_id;
+  IF v_apt.patient_id IS NOT NULL THEN
+    SELECT * INTO v_patient FROM profiles WHERE id = v_apt.patient_id;
+  END IF;
+
+  v_year := EXTRACT(YEAR FROM now() AT TIME ZONE 'Asia/Manila')::INT;
+
+  INSERT INTO referral_counters (year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = referral_counters.last_number + 1
+  RETURNING last_number INTO v_seq;
+
+  INSERT INTO referrals (
+    referral_number, appointment_id, patient_id, campus_id, campus_name, campus_address,
+    patient_name, patient_sex, patient_age, patient_id_number, visit_date,
+    facility_name, referred_to, reason, urgency, findings,
+    referred_by, referred_by_name, referred_by_role
+  ) VALUES (
+    format('LDCU-RF-%s-%s', v_year, lpad(v_seq::TEXT, 6, '0')),
+    v_apt.id,
+    v_apt.patient_id,
+    v_apt.campus_id,
+    v_campus.name,
+    v_campus.address,
+    COALESCE(
+      NULLIF(trim(concat_ws(' ', v_patient.first_name, v_patient.last_name)), ''),
+      NULLIF(trim(v_apt.patient_name), ''),
+      'Unknown Patient'
+    ),
+    v_patient.sex,
+    CASE WHEN v_patient.date_of_birth IS NOT NULL
+         THEN date_part('year', age(v_apt.appointment_date, v_patient.date_of_birth))::INT
+    END,
+    COALESCE(v_patient.student_id, v_patient.employee_id),
+    v_apt.appointment_date,
+    trim(p_facility_name),
+    NULLIF(trim(p_referred_to), ''),
+    trim(p_reason),
+    p_urgency,
+    trim(p_findings),
+    v_staff.id,
+    COALESCE(NULLIF(trim(concat_ws(' ', v_staff.first_name, v_staff.last_name)), ''), v_staff.email),
+    v_staff.role::TEXT
+  )
+  RETURNING * INTO v_referral;
+
+  RETURN v_referral;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_referral TO authenticated;
+
+
+-- ============================================================
+-- 5. update_referral_status() — record the follow-up
+--    p_status is 'returned' (with what the facility reported) or
+--    'closed' (with why the referral needs no more follow-up).
+-- ============================================================
+CREATE OR REPLACE FUNCTION update_referral_status(
+  p_referral_id UUID,
+  p_status      TEXT,
+  p_notes       TEXT
+)
+RETURNS referrals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_referral referrals;
+  v_name     TEXT;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can update referrals.';
+  END IF;
+
+  IF p_status IS NULL OR p_status NOT IN ('returned', 'closed') THEN
+    RAISE EXCEPTION 'INVALID_STATUS: A referral can only be marked returned or closed.';
+  END IF;
+
+  IF NULLIF(trim(p_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'NOTES_REQUIRED: Please add a follow-up note.';
+  END IF;
+
+  SELECT * INTO v_referral FROM referrals WHERE id = p_referral_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Referral not found.';
+  END IF;
+
+  IF get_my_role() = 'nurse' AND v_referral.campus_id IS DISTINCT FROM get_my_campus_id() THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This referral belongs to another campus.';
+  END IF;
+
+  IF v_referral.status = 'closed' THEN
+    RAISE EXCEPTION 'ALREADY_CLOSED: This referral is already closed.';
+  END IF;
+
+  IF v_referral.status = 'returned' AND p_status = 'returned' THEN
+    RAISE EXCEPTION 'ALREADY_RETURNED: This referral has already been marked returned.';
+  END IF;
+
+  SELECT COALESCE(NULLIF(trim(concat_ws(' ', first_name, last_name)), ''), email) INTO v_name
+  FROM profiles WHERE id = auth.uid();
+
+  IF p_status = 'returned' THEN
+    UPDATE referrals
+    SET status           = 'returned',
+        returned_at      = now(),
+        returned_by_name = v_name,
+        return_notes     = trim(p_notes)
+    WHERE id = p_referral_id
+    RETURNING * INTO v_referral;
+  ELSE
+    UPDATE referrals
+    SET status         = 'closed',
+        closed_at      = now(),
+        closed_by_name = v_name,
+        closure_notes  = trim(p_notes)
+    WHERE id = p_referral_id
+    RETURNING * INTO v_referral;
+  END IF;
+
+  RETURN v_referral;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_referral_status TO authenticated;
+
+-- Verify
+SELECT 'referrals table, create_referral() and update_referral_status() created successfully!' AS status;
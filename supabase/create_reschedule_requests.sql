@@ -0,0 +1,361 @@
+-- ============================================================
+-- LDCU Clinic — Patient Reschedule Requests
+-- Patients cannot move appointments themselves; instead they ask
+-- for a new date and session (or slot) and clinic staff approve
+-- or reject the request from the Reschedule Requests inbox.
+--
+--   pending   — waiting for staff
+--   approved  — moved through reschedule_appointment()
+--   rejected  — declined, with a reason for the patient
+--   withdrawn — withdrawn by the patient
+--   expired   — the appointment stopped being scheduled first
+--
+-- The request is checked against the same rules as the booking
+-- calendar (past dates, closed days, holidays, disabled
+-- weekdays); capacity is checked again on approval.
+--
+-- Run after reschedule_appointments.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Table ──
+CREATE TABLE IF NOT EXISTS reschedule_requests (
+  id                    UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id        UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  patient_id            UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  campus_id             UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  -- Where the appointment was when the request was made
+  from_date             DATE NOT NULL,
+  from_time_of_day      TEXT,
+  from_start_time       TIME,
+  requested_date        DATE NOT NULL,
+  requested_time_of_day TEXT NOT NULL CHECK (requested_time_of_day IN ('AM', 'PM')),
+  requested_start_time  TIME,
+  reason                TEXT,
+  status                TEXT NOT NULL DEFAULT 'pending'
+                        CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn', 'expired')),
+  rejection_reason      TEXT,
+  reviewed_by           UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at           TIMESTAMPTZ,
+  created_at            TIMESTAMPTZ DEFAULT now(),
+  updated_at            TIMESTAMPTZ DEFAULT now()
+);
+
+-- One open request per appointment
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_reschedule_request_pending
+  ON reschedule_requests(appointment_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_reschedule_requests_campus_status
+  ON reschedule_requests(campus_id, status, created_at);
+
+-- ── 2. RLS ──
+-- Patients see their own requests; admins and supervisors see all,
+-- nurses those for their own campus.
+-- Writes go through the SECURITY DEFINER functions below only.
+ALTER TABLE reschedule_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "reschedule_requests_select" ON reschedule_requests;
+
+CREATE POLICY "reschedule_requests_select" ON reschedule_requests
+  FOR SELECT TO authenticated
+  USING (
+    patient_id = auth.uid()
+    OR get_my_role() IN ('admin', 'supervisor')
+    OR (get_my_role() = 'nurse' AND campus_id = get_my_campus_id())
+  );
+
+
+-- ============================================================
+-- 3. request_reschedule() — the patient asks to move their
+--    own scheduled appointment
+-- ============================================================
+CREATE OR REPLACE FUNCTION request_reschedule(
+  p_appointment_id UUID,
+  p_requested_date DATE,
+  p_time_of_day    TEXT,
+  p_start_time     TEXT DEFAULT NULL,
+  p_reason         TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_apt        appointments%ROWTYPE;
+  v_config     schedule_config%ROWTYPE;
+  v_mode       TEXT;
+  v_today      DATE := (now() AT TIME ZONE 'Asia/Manila')::DATE;
+  v_dow        INT  := EXTRACT(DOW FROM p_requested_date)::INT;
+  v_start_time TIME := p_start_time::time;
+  v_new_id     UUID;
+  v_result     JSON;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You must be signed in to request a new date.';
+  END IF;
+
+  SELECT * INTO v_apt
+  FROM appointments
+  WHERE id = p_appointment_id
+    AND patient_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF v_apt.status <> 'scheduled' OR v_apt.appointment_date < v_today THEN
+    RAISE EXCEPTION 'NOT_RESCHEDULABLE: Only upcoming scheduled appointments can be moved.';
+  END IF;
+
+  IF p_time_of_day NOT IN ('AM', 'PM') THEN
+    RAISE EXCEPTION 'INVALID_SESSION: Choose a morning or afternoon session.';
+  END IF;
+
+  IF p_requested_date < v_today THEN
+    RAISE EXCEPTION 'RESCHEDULE_PAST: You cannot move an appointment to a past date.';
+  END IF;
+
+  -- Same rules as the booking calendar's isDateOpen()
+  SELECT * INTO v_config FROM schedule_config WHERE campus_id = v_apt.campus_id;
+
+  IF EXISTS (
+      SELECT 1 FROM day_overrides
+      WHERE campus_id = v_apt.campus_id
+        AND override_date = p_requested_date
+        AND is_closed
+    )
+    OR p_requested_date::TEXT = ANY (COALESCE(v_config.holiday_dates, '{}'))
+    OR v_dow = ANY (COALESCE(v_config.disabled_weekdays, '{}'))
+    OR (v_dow = 0 AND v_config.include_sunday IS FALSE)
+    OR (v_dow = 6 AND v_config.include_saturday IS FALSE)
+  THEN
+    RAISE EXCEPTION 'RESCHEDULE_CLOSED: The clinic is closed on %.', to_char(p_requested_date, 'FMMonth FMDD, YYYY');
+  END IF;
+
+  SELECT COALESCE(bs.booking_mode, 'session') INTO v_mode
+  FROM (SELECT 1) AS dummy
+  LEFT JOIN booking_settings bs ON bs.campus_id = v_apt.campus_id;
+
+  IF v_mode = 'slot' AND v_start_time IS NULL THEN
+    RAISE EXCEPTION 'INVALID_SLOT: Choose a time slot for the new date.';
+  END IF;
+  IF v_mode <> 'slot' THEN
+    v_start_time := NULL;
+  END IF;
+
+  IF p_requested_date = v_apt.appointment_date
+    AND p_time_of_day = v_apt.time_of_day
+    AND (v_start_time IS NULL OR v_start_time = v_apt.start_time)
+  THEN
+    RAISE EXCEPTION 'RESCHEDULE_SAME: Your appointment is already on that date and time.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM reschedule_requests
+    WHERE appointment_id = p_appointment_id
+      AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'RESCHEDULE_PENDING: You already have a pending request for this appointment.';
+  END IF;
+
+  INSERT INTO reschedule_requests (
+    appointment_id, patient_id, campus_id,
+    from_date, from_time_of_day, from_start_time,
+    requested_date, requested_time_of_day, requested_start_time, reason
+  ) VALUES (
+    v_apt.id, v_apt.patient_id, v_apt.campus_id,
+    v_apt.appointment_date, v_apt.time_of_day, v_apt.start_time,
+    p_requested_date, p_time_of_day, v_start_time, NULLIF(trim(p_reason), '')
+  )
+  RETURNING id INTO v_new_id;
+
+  SELECT row_to_json(r.*) INTO v_result
+  FROM reschedule_requests r
+  WHERE r.id = v_new_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_reschedule TO authenticated;
+
+
+-- ============================================================
+-- 4. withdraw_reschedule_request() — patient takes it back
+-- ============================================================
+CREATE OR REPLACE FUNCTION withdraw_reschedule_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reschedule_requests
+  SET status = 'withdrawn',
+      updated_at = now()
+  WHERE id = p_request_id
+    AND patient_id = auth.uid()
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Request not found or no longer pending.';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION withdraw_reschedule_request TO authenticated;
+
+
+-- ============================================================
+-- 5. approve_reschedule_request() — staff, one click
+--    The move itself goes through reschedule_appointment(), so
+--    every capacity rule it enforces applies; if it raises, the
+--    request stays pending.
+-- ============================================================
+CREATE OR REPLACE FUNCTION approve_reschedule_request(p_request_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request reschedule_requests%ROWTYPE;
+  v_result  JSON;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can review reschedule requests.';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM reschedule_requests
+  WHERE id = p_request_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Request not found or already reviewed.';
+  END IF;
+
+  IF get_my_role() = 'nurse' AND v_request.campus_id IS DISTINCT FROM get_my_campus_id() THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This request is for another campus.';
+  END IF;
+
+  IF v_request.requested_date < (now() AT TIME ZONE 'Asia/Manila')::DATE THEN
+    RAISE EXCEPTION 'RESCHEDULE_PAST: The requested date has already passed.';
+  END IF;
+
+  PERFORM reschedule_appointment(
+    v_request.appointment_id,
+    v_request.requested_date,
+    v_request.campus_id,
+    v_request.requested_time_of_day,
+    to_char(v_request.requested_start_time, 'HH24:MI')
+  );
+
+  UPDATE reschedule_requests
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  SELECT row_to_json(r.*) INTO v_result
+  FROM reschedule_requests r
+  WHERE r.id = p_request_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approve_reschedule_request TO authenticated;
+
+
+-- ============================================================
+-- 6. reject_reschedule_request() — staff, with a reason
+-- ============================================================
+CREATE OR REPLACE FUNCTION reject_reschedule_request(
+  p_request_id UUID,
+  p_reason     TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request reschedule_requests%ROWTYPE;
+  v_result  JSON;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can review reschedule requests.';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'REASON_REQUIRED: Give the patient a reason for the rejection.';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM reschedule_requests
+  WHERE id = p_request_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Request not found or already reviewed.';
+  END IF;
+
+  IF get_my_role() = 'nurse' AND v_request.campus_id IS DISTINCT FROM get_my_campus_id() THEN
+    RAISE EXCEPTION 'WRONG_CAMPUS: This request is for another campus.';
+  END IF;
+
+  UPDATE reschedule_requests
+  SET status = 'rejected',
+      rejection_reason = trim(p_reason),
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  SELECT row_to_json(r.*) INTO v_result
+  FROM reschedule_requests r
+  WHERE r.id = p_request_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reject_reschedule_request TO authenticated;
+
+
+-- ============================================================
+-- 7. Trigger — expire pending requests once the appointment is
+--    cancelled, completed or marked no-show
+-- ============================================================
+CREATE OR REPLACE FUNCTION expire_reschedule_requests()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'scheduled' AND OLD.status = 'scheduled' THEN
+    UPDATE reschedule_requests
+    SET status = 'expired',
+        updated_at = now()
+    WHERE appointment_id = NEW.id
+      AND status = 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_appointments_expire_reschedule_requests ON appointments;
+CREATE TRIGGER trg_appointments_expire_reschedule_requests
+  AFTER UPDATE OF status ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION expire_reschedule_requests();
+
+-- Verify
+SELECT 'reschedule_requests table and functions created successfully!' AS status;
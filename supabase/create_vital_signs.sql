@@ -0,0 +1,140 @@
+-- ============================================================
+-- LDCU Clinic — Vital Signs
+-- One set of vitals per appointment, captured when the visit is
+-- completed:
+--
+--   blood pressure, heart rate, temperature, respiratory rate,
+--   weight, height (BMI computed), SpO2
+--
+-- The range checks only reject impossible values and match
+-- vitalSignsSchema in src/lib/validation.ts; abnormal readings
+-- are allowed and flagged in the app. patient_id is copied from
+-- the appointment so a patient's trend is a single query.
+-- Only clinic roles read them; writes go through
+-- save_vital_signs() only.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Table ──
+CREATE TABLE IF NOT EXISTS vital_signs (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_id   UUID NOT NULL UNIQUE REFERENCES appointments(id) ON DELETE CASCADE,
+  patient_id       UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  systolic_bp      INT          CHECK (systolic_bp BETWEEN 50 AND 300),
+  diastolic_bp     INT          CHECK (diastolic_bp BETWEEN 30 AND 200),
+  heart_rate       INT          CHECK (heart_rate BETWEEN 20 AND 250),
+  temperature_c    NUMERIC(4,1) CHECK (temperature_c BETWEEN 30 AND 45),
+  respiratory_rate INT          CHECK (respiratory_rate BETWEEN 4 AND 80),
+  weight_kg        NUMERIC(5,1) CHECK (weight_kg BETWEEN 2 AND 350),
+  height_cm        NUMERIC(5,1) CHECK (height_cm BETWEEN 40 AND 250),
+  spo2             INT          CHECK (spo2 BETWEEN 50 AND 100),
+  bmi              NUMERIC(4,1) GENERATED ALWAYS AS (
+                     CASE WHEN weight_kg IS NOT NULL AND height_cm IS NOT NULL
+                          THEN round(weight_kg / ((height_cm / 100) * (height_cm / 100)), 1)
+                     END
+                   ) STORED,
+  recorded_by      UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  recorded_by_name TEXT,
+  recorded_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((systolic_bp IS NULL) = (diastolic_bp IS NULL)),
+  CHECK (systolic_bp IS NULL OR systolic_bp > diastolic_bp)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vital_signs_patient
+  ON vital_signs(patient_id, recorded_at);
+
+-- ── 2. RLS ──
+-- Admins and supervisors read all vitals, nurses those for their own
+-- campus's appointments; no insert/update/delete policies.
+ALTER TABLE vital_signs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "vital_signs_select" ON vital_signs;
+
+CREATE POLICY "vital_signs_select" ON vital_signs
+  FOR SELECT TO authenticated
+  USING (
+    get_my_role() IN ('admin', 'supervisor')
+    OR (get_my_role() = 'nurse' AND EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.id = vital_signs.appointment_id
+        AND a.campus_id = get_my_campus_id()
+    ))
+  );
+
+
+-- ============================================================
+-- 3. save_vital_signs() — record or correct an appointment's vitals
+-- ============================================================
+CREATE OR REPLACE FUNCTION save_vital_signs(
+  p_appointment_id   UUID,
+  p_systolic_bp      INT DEFAULT NULL,
+  p_diastolic_bp     INT DEFAULT NULL,
+  p_heart_rate       INT DEFAULT NULL,
+  p_temperature_c    NUMERIC DEFAULT NULL,
+  p_respiratory_rate INT DEFAULT NULL,
+  p_weight_kg        NUMERIC DEFAULT NULL,
+  p_height_cm        NUMERIC DEFAULT NULL,
+  p_spo2             INT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_patient_id UUID;
+  v_staff      profiles%ROWTYPE;
+  v_result     JSON;
+BEGIN
+  IF COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can record vital signs.';
+  END IF;
+
+  SELECT patient_id INTO v_patient_id FROM appointments WHERE id = p_appointment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Appointment not found.';
+  END IF;
+
+  IF num_nonnulls(p_systolic_bp, p_diastolic_bp, p_heart_rate, p_temperature_c,
+                  p_respiratory_rate, p_weight_kg, p_height_cm, p_spo2) = 0 THEN
+    RAISE EXCEPTION 'VITALS_EMPTY: Enter at least one reading.';
+  END IF;
+
+  SELECT * INTO v_staff FROM profiles WHERE id = auth.uid();
+
+  -- Out-of-range values fail the table CHECKs (23514) and surface as-is
+  INSERT INTO vital_signs (
+    appointment_id, patient_id, systolic_bp, diastolic_bp, heart_rate, temperature_c,
+    respiratory_rate, weight_kg, height_cm, spo2, recorded_by, recorded_by_name, recorded_at
+  ) VALUES (
+    p_appointment_id, v_patient_id, p_systolic_bp, p_diastolic_bp, p_heart_rate, p_temperature_c,
+    p_respiratory_rate, p_weight_kg, p_height_cm, p_spo2, v_staff.id,
+    NULLIF(trim(concat_ws(' ', v_staff.first_name, v_staff.last_name)), ''), now()
+  )
+  ON CONFLICT (appointment_id) DO UPDATE SET
+    patient_id       = EXCLUDED.patient_id,
+    systolic_bp      = EXCLUDED.systolic_bp,
+    diastolic_bp     = EXCLUDED.diastolic_bp,
+    heart_rate       = EXCLUDED.heart_rate,
+    temperature_c    = EXCLUDED.temperature_c,
+    respiratory_rate = EXCLUDED.respiratory_rate,
+    weight_kg        = EXCLUDED.weight_kg,
+    height_cm        = EXCLUDED.height_cm,
+    spo2             = EXCLUDED.spo2,
+    recorded_by      = EXCLUDED.recorded_by,
+    recorded_by_name = EXCLUDED.recorded_by_name,
+    recorded_at      = now();
+
+  SELECT row_to_json(v.*) INTO v_result
+  FROM vital_signs v
+  WHERE v.appointment_id = p_appointment_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_vital_signs TO authenticated;
+
+-- Verify
+SELECT 'vital_signs table and save_vital_signs() created successfully!' AS status;
@@ -0,0 +1,441 @@
+-- ============================================================
+-- LDCU Clinic — Waitlist for Fully Booked Dates / Sessions
+-- Patients can queue for a campus + date + AM/PM session when
+-- it is full. Waiting entries are promoted into real bookings
+-- (through book_appointment(), under the same advisory lock)
+-- whenever capacity frees up:
+--   • an appointment is cancelled, deleted or moved off the date
+--   • a day_overrides row is added, changed or removed
+--
+-- Every promotion emails the patient through the send-email edge
+-- function, called from the database with pg_net. The call needs
+-- two Vault secrets (see README): project_url and service_role_key.
+--
+-- Requires book_appointment.sql, add_self_service_cancellation.sql
+-- and add_slot_booking.sql.
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+-- ── 1. Table ──
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id               UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id       UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  campus_id        UUID NOT NULL REFERENCES campuses(id) ON DELETE CASCADE,
+  waitlist_date    DATE NOT NULL,
+  time_of_day      TEXT NOT NULL CHECK (time_of_day IN ('AM', 'PM')),
+  appointment_type TEXT NOT NULL DEFAULT 'consultation',
+  patient_name     TEXT,
+  patient_email    TEXT,
+  patient_phone    TEXT,
+  notes            TEXT,
+  booker_role      TEXT NOT NULL DEFAULT 'student',
+  status           TEXT NOT NULL DEFAULT 'waiting'
+                   CHECK (status IN ('waiting', 'promoted', 'left', 'expired')),
+  closed_reason    TEXT,
+  appointment_id   UUID REFERENCES appointments(id) ON DELETE SET NULL,
+  promoted_at      TIMESTAMPTZ,
+  notified_at      TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ DEFAULT now(),
+  updated_at       TIMESTAMPTZ DEFAULT now()
+);
+
+-- One active entry per patient per campus/date/session
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_waitlist_active_entry
+  ON waitlist_entries(patient_id, campus_id, waitlist_date, time_of_day)
+  WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_campus_date
+  ON waitlist_entries(campus_id, waitlist_date, status, created_at);
+
+-- ── 2. RLS ──
+-- Patients see their own entries; clinic staff see all.
+-- Writes go through the SECURITY DEFINER functions below only.
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "waitlist_entries_select" ON waitlist_entries;
+
+CREATE POLICY "waitlist_entries_select" ON waitlist_entries
+  FOR SELECT TO authenticated
+  USING (
+    patient_id = auth.uid()
+    OR get_my_role() IN ('admin', 'supervisor', 'nurse')
+  );
+
+
+-- ============================================================
+-- 3. join_waitlist() — add the calling patient to a session
+-- ============================================================
+-- The email and booker role used to come from the client; they are
+-- now read from the caller's profile, so drop the old signature
+DROP FUNCTION IF EXISTS join_waitlist(UUID, DATE, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION join_waitlist(
+  p_campus_id        UUID,
+  p_waitlist_date    DATE,
+  p_time_of_day      TEXT,
+  p_appointment_type TEXT DEFAULT 'consultation',
+  p_patient_name     TEXT DEFAULT NULL,
+  p_patient_phone    TEXT DEFAULT NULL,
+  p_notes            TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_patient_id  UUID := auth.uid();
+  v_email       TEXT;
+  v_booker_role TEXT;
+  v_mode        TEXT;
+  v_slot_start  TIME;
+  v_slot_end    TIME;
+  v_new_id      UUID;
+  v_result      JSON;
+BEGIN
+  IF v_patient_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: You must be signed in to join the waitlist.';
+  END IF;
+
+  SELECT email, CASE WHEN role = 'staff' THEN 'staff' ELSE 'student' END
+  INTO v_email, v_booker_role
+  FROM profiles
+  WHERE id = v_patient_id;
+
+  IF p_waitlist_date < (now() AT TIME ZONE 'Asia/Manila')::date THEN
+    RAISE EXCEPTION 'WAITLIST_PAST: You cannot join the waitlist for a past date.';
+  END IF;
+
+  -- Same lock as book_appointment() so joining never races a promotion
+  PERFORM pg_advisory_xact_lock(abs(hashtext(p_campus_id::text || p_waitlist_date::text)));
+
+  -- A promoted entry would fail ALREADY_BOOKED anyway, so reject up front
+  IF EXISTS (
+    SELECT 1 FROM appointments
+    WHERE patient_id = v_patient_id
+      AND status = 'scheduled'
+  ) THEN
+    RAISE EXCEPTION 'ALREADY_BOOKED: You already have a scheduled appointment. Please complete or cancel it first.';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM waitlist_entries
+    WHERE patient_id = v_patient_id
+      AND campus_id = p_campus_id
+      AND waitlist_date = p_waitlist_date
+      AND time_of_day = p_time_of_day
+      AND status = 'waiting'
+  ) THEN
+    RAISE EXCEPTION 'ALREADY_WAITLISTED: You are already on the waitlist for this session.';
+  END IF;
+
+  INSERT INTO waitlist_entries (
+    patient_id, campus_id, waitlist_date, time_of_day, appointment_type,
+    patient_name, patient_email, patient_phone, notes, booker_role
+  ) VALUES (
+    v_patient_id, p_campus_id, p_waitlist_date, p_time_of_day, p_appointment_type,
+    p_patient_name, v_email, p_patient_phone, p_notes, v_booker_role
+  )
+  RETURNING id INTO v_new_id;
+
+  -- Only a full session takes a waitlist. Try the booking promotion
+  -- would make (after the insert, so catalog rejections come first);
+  -- if it goes through, undo it and send the patient to book instead.
+  SELECT COALESCE(bs.booking_mode, 'session') INTO v_mode
+  FROM (SELECT 1) AS dummy
+  LEFT JOIN booking_settings bs ON bs.campus_id = p_campus_id;
+
+  IF v_mode = 'slot' THEN
+    SELECT slot_start, slot_end INTO v_slot_start, v_slot_end
+    FROM find_open_slot(p_campus_id, p_waitlist_date, p_time_of_day);
+  ELSE
+    v_slot_start := CASE WHEN p_time_of_day = 'AM' THEN TIME '08:00' ELSE TIME '13:00' END;
+    v_slot_end   := CASE WHEN p_time_of_day = 'AM' THEN TIME '12:00' ELSE TIME '17:00' END;
+  END IF;
+
+  IF v_slot_start IS NOT NULL THEN
+    BEGIN
+      PERFORM book_appointment(
+        p_patient_id       => v_patient_id,
+        p_campus_id        => p_campus_id,
+        p_appointment_type => p_appointment_type,
+        p_appointment_date => p_waitlist_date,
+        p_start_time       => to_char(v_slot_start, 'HH24:MI'),
+        p_end_time         => to_char(v_slot_end, 'HH24:MI'),
+        p_status           => 'scheduled',
+        p_time_of_day      => p_time_of_day,
+        p_patient_email    => v_email,
+        p_booker_role      => v_booker_role
+      );
+      RAISE EXCEPTION 'SESSION_AVAILABLE: This session still has room. Please book it directly.';
+    EXCEPTION WHEN raise_exception THEN
+      -- Full is what we want; anything else (incl. SESSION_AVAILABLE) is passed on
+      IF SQLERRM NOT LIKE 'FULLY_BOOKED%' THEN
+        RAISE;
+      END IF;
+    END;
+  END IF;
+
+  SELECT row_to_json(w.*) INTO v_result
+  FROM waitlist_entries w
+  WHERE w.id = v_new_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_waitlist TO authenticated;
+
+
+-- ============================================================
+-- 4. leave_waitlist() — patient removes their own entry
+-- ============================================================
+CREATE OR REPLACE FUNCTION leave_waitlist(p_entry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE waitlist_entries
+  SET status = 'left',
+      updated_at = now()
+  WHERE id = p_entry_id
+    AND patient_id = auth.uid()
+    AND status = 'waiting';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Waitlist entry not found or no longer waiting.';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION leave_waitlist TO authenticated;
+
+
+-- ============================================================
+-- 5. promote_waitlist() — fill freed capacity, oldest entry first
+--    Each promotion goes through book_appointment(), so every
+--    capacity rule it enforces applies here too. Advisory locks
+--    are re-entrant, so calling this while already holding the
+--    campus+date lock (e.g. from cancel_appointment) is safe.
+--    Returns the number of entries promoted.
+-- ============================================================
+CREATE OR REPLACE FUNCTION promote_waitlist(
+  p_campus_id UUID,
+  p_date      DATE
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry      waitlist_entries%ROWTYPE;
+  v_booking    JSON;
+  v_promoted   INT := 0;
+  v_mode       TEXT;
+  v_slot_start TIME;
+  v_slot_end   TIME;
+BEGIN
+  IF p_date < (now() AT TIME ZONE 'Asia/Manila')::date THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(abs(hashtext(p_campus_id::text || p_date::text)));
+
+  SELECT COALESCE(bs.booking_mode, 'session') INTO v_mode
+  FROM (SELECT 1) AS dummy
+  LEFT JOIN booking_settings bs ON bs.campus_id = p_campus_id;
+
+  -- Promotion runs in whoever freed the slot's session. Flag it so the
+  -- type catalog judges each booking by the patient's role, not by the
+  -- nurse or admin who cancelled (see check_appointment_type_offered()).
+  PERFORM set_config('ldcu.waitlist_promotion', 'on', true);
+
+  FOR v_entry IN
+    SELECT * FROM waitlist_entries
+    WHERE campus_id = p_campus_id
+      AND waitlist_date = p_date
+      AND status = 'waiting'
+    ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    -- Slot-mode campuses place the patient in the earliest open slot of their session
+    IF v_mode = 'slot' THEN
+      v_slot_start := NULL;
+      SELECT slot_start, slot_end INTO v_slot_start, v_slot_end
+      FROM find_open_slot(p_campus_id, p_date, v_entry.time_of_day);
+      CONTINUE WHEN v_slot_start IS NULL;
+    ELSE
+      v_slot_start := CASE WHEN v_entry.time_of_day = 'AM' THEN TIME '08:00' ELSE TIME '13:00' END;
+      v_slot_end   := CASE WHEN v_entry.time_of_day = 'AM' THEN TIME '12:00' ELSE TIME '17:00' END;
+    END IF;
+
+    BEGIN
+      v_booking := book_appointment(
+        p_patient_id       => v_entry.patient_id,
+        p_campus_id        => v_entry.campus_id,
+        p_appointment_type => v_entry.appointment_type,
+        p_appointment_date => v_entry.waitlist_date,
+        p_start_time       => to_char(v_slot_start, 'HH24:MI'),
+        p_end_time         => to_char(v_slot_end, 'HH24:MI'),
+        p_status           => 'scheduled',
+        p_time_of_day      => v_entry.time_of_day,
+        p_notes            => v_entry.notes,
+        p_patient_name     => v_entry.patient_name,
+        p_patient_email    => v_entry.patient_email,
+        p_patient_phone    => v_entry.patient_phone,
+        p_booker_role      => v_entry.booker_role
+      );
+    EXCEPTION WHEN raise_exception THEN
+      -- Whole day is full — nobody else can be promoted
+      IF SQLERRM LIKE 'FULLY_BOOKED:%' THEN
+        EXIT;
+      END IF;
+      -- A session/bucket is full — a later entry for another one may still fit
+      IF SQLERRM LIKE 'FULLY_BOOKED%' THEN
+        CONTINUE;
+      END IF;
+      -- Any other rejection (e.g. ALREADY_BOOKED) means this entry can never be promoted
+      UPDATE waitlist_entries
+      SET status = 'expired',
+          closed_reason = split_part(SQLERRM, ':', 1),
+          updated_at = now()
+      WHERE id = v_entry.id;
+      CONTINUE;
+    END;
+
+    UPDATE waitlist_entries
+    SET status = 'promoted',
+        appointment_id = (v_booking->>'id')::UUID,
+        promoted_at = now(),
+        updated_at = now()
+    WHERE id = v_entry.id;
+
+    v_promoted := v_promoted + 1;
+  END LOOP;
+
+  PERFORM set_config('ldcu.waitlist_promotion', 'off', true);
+
+  RETURN v_promoted;
+END;
+$$;
+
+-- Promotion is only ever triggered server-side (see triggers below)
+REVOKE EXECUTE ON FUNCTION promote_waitlist FROM PUBLIC, anon, authenticated;
+
+
+-- ============================================================
+-- 6. Triggers — promote when capacity frees up
+-- ============================================================
+CREATE OR REPLACE FUNCTION trg_promote_waitlist_on_appointment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'cancelled' THEN
+      PERFORM promote_waitlist(OLD.campus_id, OLD.appointment_date);
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- UPDATE: the old slot was freed by cancelling or moving the appointment
+  IF OLD.status <> 'cancelled' AND (
+    NEW.status = 'cancelled'
+    OR NEW.appointment_date <> OLD.appointment_date
+    OR NEW.campus_id <> OLD.campus_id
+  ) THEN
+    PERFORM promote_waitlist(OLD.campus_id, OLD.appointment_date);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_appointments_promote_waitlist ON appointments;
+CREATE TRIGGER trg_appointments_promote_waitlist
+  AFTER UPDATE OF status, appointment_date, campus_id OR DELETE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION trg_promote_waitlist_on_appointment();
+
+CREATE OR REPLACE FUNCTION trg_promote_waitlist_on_day_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM promote_waitlist(OLD.campus_id, OLD.override_date);
+    RETURN OLD;
+  END IF;
+
+  PERFORM promote_waitlist(NEW.campus_id, NEW.override_date);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_day_overrides_promote_waitlist ON day_overrides;
+CREATE TRIGGER trg_day_overrides_promote_waitlist
+  AFTER INSERT OR UPDATE OR DELETE ON day_overrides
+  FOR EACH ROW EXECUTE FUNCTION trg_promote_waitlist_on_day_override();
+
+
+-- ============================================================
+-- 7. Notify promoted patients
+--    Queues a send-email call for the entry's campus + date when
+--    it is promoted, whichever trigger or function freed the slot.
+--    pg_net only sends once the transaction commits, and the edge
+--    function claims each entry's notified_at before emailing, so
+--    overlapping calls never email a patient twice.
+-- ============================================================
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION trg_notify_waitlist_promotion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RAISE WARNING 'Waitlist entry % promoted but not emailed: add the project_url and service_role_key Vault secrets.', NEW.id;
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url     := rtrim(v_url, '/') || '/functions/v1/send-email',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    body    := jsonb_build_object(
+      'notifyWaitlist', true,
+      'campusId', NEW.campus_id,
+      'targetDate', NEW.waitlist_date
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION trg_notify_waitlist_promotion FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trg_waitlist_entries_notify_promotion ON waitlist_entries;
+CREATE TRIGGER trg_waitlist_entries_notify_promotion
+  AFTER UPDATE OF status ON waitlist_entries
+  FOR EACH ROW
+  WHEN (NEW.status = 'promoted' AND OLD.status IS DISTINCT FROM 'promoted' AND NEW.notified_at IS NULL)
+  EXECUTE FUNCTION trg_notify_waitlist_promotion();
+
+
+-- Verify
+SELECT 'waitlist_entries table and promotion functions created successfully!' AS status;
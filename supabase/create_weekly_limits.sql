@@ -0,0 +1,48 @@
+-- ============================================================
+-- LDCU Clinic — Weekly Booking Limits
+-- Caps how many appointments of each type a patient of a given
+-- role (student / staff) may hold in one Monday–Sunday week.
+-- No row for a type + role means no weekly cap.
+--
+-- Enforced inside book_appointment(); run book_appointment.sql
+-- after this.
+--
+-- Safe to re-run. Run in Supabase SQL Editor.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS weekly_limits (
+  id                        UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  appointment_type          appointment_type NOT NULL,
+  user_role                 TEXT NOT NULL CHECK (user_role IN ('student', 'staff')),
+  max_appointments_per_week INT  NOT NULL CHECK (max_appointments_per_week BETWEEN 1 AND 50),
+  created_at                TIMESTAMPTZ DEFAULT now(),
+  updated_at                TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (appointment_type, user_role)
+);
+
+ALTER TABLE weekly_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "weekly_limits_select" ON weekly_limits;
+DROP POLICY IF EXISTS "weekly_limits_insert" ON weekly_limits;
+DROP POLICY IF EXISTS "weekly_limits_update" ON weekly_limits;
+DROP POLICY IF EXISTS "weekly_limits_delete" ON weekly_limits;
+
+-- Patients read the limits so the booking page can explain a rejection
+CREATE POLICY "weekly_limits_select" ON weekly_limits
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "weekly_limits_insert" ON weekly_limits
+  FOR INSERT TO authenticated
+  WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "weekly_limits_update" ON weekly_limits
+  FOR UPDATE TO authenticated
+  USING (get_my_role() = 'admin')
+  WITH CHECK (get_my_role() = 'admin');
+
+CREATE POLICY "weekly_limits_delete" ON weekly_limits
+  FOR DELETE TO authenticated
+  USING (get_my_role() = 'admin');
+
+-- Verify
+SELECT 'weekly_limits table created successfully!' AS status;
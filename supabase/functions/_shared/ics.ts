@@ -0,0 +1,156 @@
+/**
+ * RFC 5545 (iCalendar) helpers shared by the edge functions.
+ * Appointment events mirror buildAppointmentIcs() in src/lib/ics.ts so the
+ * downloaded, emailed and subscribed copies share a UID and replace each
+ * other in calendar apps.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  /** "YYYY-MM-DD" for all-day events, otherwise a UTC DATE-TIME from toIcsUtc() */
+  start: string;
+  end: string;
+  allDay?: boolean;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: "CONFIRMED" | "CANCELLED";
+  sequence?: number;
+  /** Minutes before the start to show a reminder */
+  alarmMinutes?: number;
+}
+
+export interface IcsAppointment {
+  id: string;
+  appointment_date: string;
+  start_time: string;
+  end_time: string;
+  appointment_type: string;
+  status: string;
+  time_of_day?: string | null;
+  updated_at?: string | null;
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  consultation: "Consultation",
+  physical_exam: "Physical Examination",
+  dental: "Dental",
+};
+
+/** Escapes an iCalendar TEXT value (RFC 5545 §3.3.11). */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line to at most 75 octets per line (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatTime(time: string): string {
+  const [h, m] = time.split(":");
+  const hour = parseInt(h, 10);
+  return `${hour % 12 || 12}:${m} ${hour >= 12 ? "PM" : "AM"}`;
+}
+
+function utcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Converts a Manila (UTC+8, no DST) date + "HH:MM" time into a UTC DATE-TIME. */
+export function toIcsUtc(date: string, time: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return utcStamp(new Date(Date.UTC(year, month - 1, day, hour - 8, minute)));
+}
+
+/** The day after a "YYYY-MM-DD" date, as an iCalendar DATE (all-day DTEND is exclusive). */
+function nextIcsDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** Builds the event for one appointment. */
+export function buildAppointmentEvent(
+  appt: IcsAppointment,
+  campus: { name?: string | null; address?: string | null } | null,
+): IcsEvent {
+  const typeLabel = TYPE_LABELS[appt.appointment_type] ?? appt.appointment_type;
+  const session = appt.time_of_day === "AM" ? "Morning" : appt.time_of_day === "PM" ? "Afternoon" : null;
+  const hours = `${formatTime(appt.start_time)} – ${formatTime(appt.end_time)}`;
+  return {
+    uid: `${appt.id}@ldcu-clinic`,
+    start: toIcsUtc(appt.appointment_date, appt.start_time),
+    end: toIcsUtc(appt.appointment_date, appt.end_time),
+    summary: `LDCU Clinic – ${typeLabel}`,
+    description: [
+      `${typeLabel} at the LDCU University Clinic.`,
+      session ? `${session} session, ${hours}. First come, first served.` : `Time: ${hours}.`,
+      "Please arrive at least 10 minutes early.",
+    ].join("\n"),
+    location: [campus?.name, campus?.address].filter(Boolean).join(", ") || undefined,
+    status: appt.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    sequence: appt.updated_at ? Math.floor(new Date(appt.updated_at).getTime() / 1000) : 0,
+    alarmMinutes: 60,
+  };
+}
+
+/** Serializes events into a VCALENDAR document with CRLF line endings. */
+export function buildIcsCalendar(events: IcsEvent[], calendarName?: string): string {
+  const stamp = utcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//LDCU University Clinic//Appointments//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(calendarName ? [`X-WR-CALNAME:${escapeText(calendarName)}`, "X-WR-TIMEZONE:Asia/Manila"] : []),
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      ...(event.allDay
+        ? [`DTSTART;VALUE=DATE:${event.start.replace(/-/g, "")}`, `DTEND;VALUE=DATE:${nextIcsDate(event.end)}`]
+        : [`DTSTART:${event.start}`, `DTEND:${event.end}`]),
+      `SEQUENCE:${event.sequence ?? 0}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `STATUS:${event.status ?? "CONFIRMED"}`,
+      ...(event.allDay ? ["TRANSP:TRANSPARENT"] : []),
+      ...(event.alarmMinutes
+        ? ["BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${escapeText(event.summary)}`, `TRIGGER:-PT${event.alarmMinutes}M`, "END:VALARM"]
+        : []),
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** Base64 of the UTF-8 bytes, as Resend expects for attachment content. */
+export function toBase64Utf8(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildAppointmentEvent, buildIcsCalendar, toIcsUtc, type IcsEvent } from "../_shared/ics.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const CLINIC_STAFF_ROLES = ["admin", "supervisor", "nurse"];
+
+// Campus feeds cover a week back (for context) and about three months ahead
+const CAMPUS_DAYS_BACK = 7;
+const CAMPUS_DAYS_AHEAD = 90;
+
+const SESSION_HOURS: Record<string, { start: string; end: string; label: string }> = {
+  AM: { start: "08:00", end: "12:00", label: "Morning" },
+  PM: { start: "13:00", end: "17:00", label: "Afternoon" },
+};
+
+/** Today's date in Manila as "YYYY-MM-DD". */
+function manilaToday(): string {
+  return new Date(Date.now() + 8 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function textResponse(status: number, message: string): Response {
+  return new Response(message, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+}
+
+/**
+ * Serves tokenized iCal subscription feeds (see create_calendar_feeds.sql).
+ *   GET /calendar-feed?token=...
+ * Calendar apps cannot sign in, so the token in the URL is the only
+ * credential; revoked or unknown tokens get a 404.
+ */
+serve(async (req) => {
+  if (req.method !== "GET") {
+    return textResponse(405, "Method not allowed");
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get("token") ?? "";
+    if (!/^[0-9a-f]{48}$/.test(token)) {
+      return textResponse(404, "Calendar feed not found");
+    }
+
+    const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: feed } = await supabaseAdmin
+      .from("calendar_feeds")
+      .select("id, owner_id, feed_type, campus_id")
+      .eq("token", token)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (!feed) {
+      return textResponse(404, "Calendar feed not found");
+    }
+
+    const { data: owner } = await supabaseAdmin
+      .from("profiles")
+      .select("role, campus_id")
+      .eq("id", feed.owner_id)
+      .maybeSingle();
+
+    if (!owner) {
+      return textResponse(404, "Calendar feed not found");
+    }
+
+    await supabaseAdmin
+      .from("calendar_feeds")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("id", feed.id);
+
+    const today = manilaToday();
+    let events: IcsEvent[] = [];
+    let calendarName = "LDCU Clinic";
+
+    if (feed.feed_type === "patient") {
+      // Only the owner's own upcoming appointments
+      const { data: appointments, error } = await supabaseAdmin
+        .from("appointments")
+        .select("id, appointment_date, start_time, end_time, appointment_type, status, time_of_day, updated_at, campuses:campus_id (name, address)")
+        .eq("patient_id", feed.owner_id)
+        .eq("status", "scheduled")
+        .gte("appointment_date", today)
+        .order("appointment_date");
+
+      if (error) throw error;
+
+      calendarName = "LDCU Clinic Appointments";
+      events = (appointments || []).map((appt: any) => {
+        const campus = Array.isArray(appt.campuses) ? appt.campuses[0] : appt.campuses;
+        return buildAppointmentEvent(appt, campus);
+      });
+    } else {
+      // Staff who lose their clinic role (or, for nurses, move campus) lose the campus feed with it
+      if (!CLINIC_STAFF_ROLES.includes(owner.role) || (owner.role === "nurse" && owner.campus_id !== feed.campus_id)) {
+        return textResponse(404, "Calendar feed not found");
+      }
+
+      const from = addDays(today, -CAMPUS_DAYS_BACK);
+      const to = addDays(today, CAMPUS_DAYS_AHEAD);
+
+      const [{ data: campus }, { data: appointments, error: aptError }, { data: overrides }, { data: config }] = await Promise.all([
+        supabaseAdmin.from("campuses").select("name, address").eq("id", feed.campus_id).maybeSingle(),
+        // Counts only: no patient columns are read for campus feeds
+        supabaseAdmin
+          .from("appointments")
+          .select("appointment_date, time_of_day")
+          .eq("campus_id", feed.campus_id)
+          .in("status", ["scheduled", "completed"])
+          .gte("appointment_date", from)
+          .lte("appointment_date", to),
+        supabaseAdmin
+          .from("day_overrides")
+          .select("override_date, is_closed, notes")
+          .eq("campus_id", feed.campus_id)
+          .eq("is_closed", true)
+          .gte("override_date", from)
+          .lte("override_date", to),
+        supabaseAdmin.from("schedule_config").select("holiday_dates").eq("campus_id", feed.campus_id).maybeSingle(),
+      ]);
+
+      if (aptError) throw aptError;
+
+      const campusName = campus?.name ?? "Campus";
+      const location = [campus?.name, campus?.address].filter(Boolean).join(", ") || undefined;
+      calendarName = `LDCU Clinic – ${campusName}`;
+
+      const counts = new Map<string, number>();
+      for (const appt of appointments || []) {
+        const key = `${appt.appointment_date}|${appt.time_of_day ?? "AM"}`;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+
+      for (const [key, count] of [...counts.entries()].sort()) {
+        const [date, session] = key.split("|");
+        const hours = SESSION_HOURS[session] ?? SESSION_HOURS.AM;
+        events.push({
+          uid: `campus-${feed.campus_id}-${date}-${session}@ldcu-clinic`,
+          start: toIcsUtc(date, hours.start),
+          end: toIcsUtc(date, hours.end),
+          summary: `${hours.label}: ${count} booked`,
+          description: `${count} appointment${count === 1 ? "" : "s"} booked for the ${hours.label.toLowerCase()} session at ${campusName}.`,
+          location,
+        });
+      }
+
+      const closed = new Map<string, string>();
+      for (const date of config?.holiday_dates || []) {
+        if (date >= from && date <= to) closed.set(date, "Holiday");
+      }
+      for (const override of overrides || []) {
+        closed.set(override.override_date, override.notes?.trim() || "Closed");
+      }
+
+      for (const [date, reason] of [...closed.entries()].sort()) {
+        events.push({
+          uid: `campus-${feed.campus_id}-${date}-closed@ldcu-clinic`,
+          start: date,
+          end: date,
+          allDay: true,
+          summary: `Clinic closed – ${reason}`,
+          location,
+        });
+      }
+    }
+
+    return new Response(buildIcsCalendar(events, calendarName), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="ldcu-clinic.ics"',
+        "Cache-Control": "private, max-age=900",
+      },
+    });
+  } catch (error: any) {
+    console.error("Calendar feed error:", error?.message ?? error);
+    return textResponse(500, "Unable to build calendar feed");
+  }
+});
@@ -1,9 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildAppointmentEvent, buildIcsCalendar, toBase64Utf8, type IcsAppointment } from "../_shared/ics.ts";
 
 const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+
+// Keep in sync with src/lib/physicalExams.ts
+const PHYSICAL_EXAM_REMINDER_COOLDOWN_DAYS = 7;
 
 /**
  * Converts a 24-h "HH:MM" time string into a compact display like "9AM" or "1:30PM".
@@ -40,6 +45,146 @@ function buildScheduleLabel(
   return "To be confirmed";
 }
 
+/** Wraps an appointment's calendar event as a Resend attachment. */
+function buildIcsAttachment(
+  appt: IcsAppointment,
+  campus: { name?: string | null; address?: string | null } | null,
+): { filename: string; content: string } {
+  const ics = buildIcsCalendar([buildAppointmentEvent(appt, campus)]);
+  return { filename: `ldcu-clinic-${appt.appointment_date}.ics`, content: toBase64Utf8(ics) };
+}
+
+const DEFAULT_TYPE_LABELS: Record<string, string> = {
+  consultation: "Consultation",
+  physical_exam: "Physical Examination",
+  dental: "Dental",
+};
+
+/**
+ * The campus's own labels from appointment_type_catalog (see
+ * create_appointment_type_catalog.sql), over the defaults.
+ */
+async function loadTypeLabels(supabaseAdmin: any, campusId: string): Promise<Record<string, string>> {
+  const labels = { ...DEFAULT_TYPE_LABELS };
+  const { data, error } = await supabaseAdmin
+    .from("appointment_type_catalog")
+    .select("code, label")
+    .eq("campus_id", campusId);
+  if (error) console.error("Failed to load appointment type labels:", error.message);
+  for (const row of data || []) labels[row.code] = row.label;
+  return labels;
+}
+
+/**
+ * Appends an email event to appointment_history (see create_appointment_history.sql).
+ * History is informational, so a failed insert never fails the email itself.
+ */
+async function recordEmailHistory(
+  supabaseAdmin: any,
+  appointmentIds: string[],
+  event: "confirmation_sent" | "reminder_sent",
+  actor: { id: string; first_name?: string | null; last_name?: string | null; role?: string | null },
+): Promise<void> {
+  if (appointmentIds.length === 0) return;
+  const actorName = [actor.first_name, actor.last_name].filter(Boolean).join(" ").trim() || null;
+  const { error } = await supabaseAdmin.from("appointment_history").insert(
+    appointmentIds.map((id) => ({
+      appointment_id: id,
+      event,
+      actor_id: actor.id,
+      actor_name: actorName,
+      actor_role: actor.role ?? null,
+    })),
+  );
+  if (error) console.error("Failed to record email history:", error.message);
+}
+
+/**
+ * Emails patients promoted off the waitlist for a campus + date who have not
+ * been told yet. Each entry is claimed (notified_at set) before its email goes
+ * out, so overlapping calls for the same date never email a patient twice; a
+ * failed send releases the claim again.
+ */
+async function sendWaitlistNotifications(
+  supabaseAdmin: any,
+  campusId: string,
+  targetDate: string,
+): Promise<{ sent: number; failed: number }> {
+  const { data: entries, error: fetchError } = await supabaseAdmin
+    .from("waitlist_entries")
+    .select("id, patient_name, patient_email, appointment_type, waitlist_date, time_of_day, appointments:appointment_id (id, appointment_date, start_time, end_time, appointment_type, status, time_of_day, updated_at)")
+    .eq("campus_id", campusId)
+    .eq("waitlist_date", targetDate)
+    .eq("status", "promoted")
+    .is("notified_at", null);
+
+  if (fetchError) throw new Error(fetchError.message);
+
+  const { data: campus } = await supabaseAdmin
+    .from("campuses")
+    .select("name, address")
+    .eq("id", campusId)
+    .maybeSingle();
+  const typeLabels = await loadTypeLabels(supabaseAdmin, campusId);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const entry of entries || []) {
+    if (!entry.patient_email?.includes("@")) continue;
+
+    const { data: claimed } = await supabaseAdmin
+      .from("waitlist_entries")
+      .update({ notified_at: new Date().toISOString() })
+      .eq("id", entry.id)
+      .is("notified_at", null)
+      .select("id");
+    if (!claimed?.length) continue;
+
+    try {
+      const formattedDate = new Date(entry.waitlist_date + "T00:00:00").toLocaleDateString("en-US", {
+        weekday: "long", year: "numeric", month: "long", day: "numeric",
+      });
+      const appointmentTypeLabel = typeLabels[entry.appointment_type] ?? entry.appointment_type;
+      const apt = Array.isArray(entry.appointments) ? entry.appointments[0] : entry.appointments;
+      const scheduleLabel = buildScheduleLabel(entry.time_of_day, apt?.start_time, apt?.end_time);
+
+      const messageHtml = `<p class="text-dark" style="color:#000000;font-size:14px;line-height:1.6;margin:0 0 20px 0;">Hello ${entry.patient_name || "Valued Patient"},<br><br>Good news! A slot opened up and you have been moved from the waitlist into a confirmed appointment. If you can no longer make it, please cancel from your booking page so the slot can go to the next person.</p>`;
+      const emailHtml = buildEmailHtml(messageHtml, formattedDate, appointmentTypeLabel, scheduleLabel);
+
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${RESEND_API_KEY}`,
+        },
+        body: JSON.stringify({
+          from: "LDCU Clinic <noreply@citattendance.info>",
+          to: entry.patient_email,
+          subject: "You're booked! Waitlist slot confirmed - LDCU Clinic",
+          html: emailHtml,
+          attachments: apt ? [buildIcsAttachment(apt, campus)] : undefined,
+        }),
+      });
+
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.message || "Send failed");
+      }
+      sent++;
+    } catch (emailError: any) {
+      console.error("Waitlist notification failed:", emailError.message);
+      await supabaseAdmin
+        .from("waitlist_entries")
+        .update({ notified_at: null })
+        .eq("id", entry.id);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
 /**
  * Builds the full branded HTML email. The `messageHtml` parameter is the
  * custom greeting / body block that appears above the info box — it can be
@@ -161,8 +306,27 @@ serve(async (req) => {
     // Create Supabase client with service role for admin operations
     const supabaseAdmin = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
 
-    // Verify the user's JWT token
     const token = authHeader.replace("Bearer ", "");
+
+    // Mode 3: Waitlist promotions — called by the database (pg_net) with the service
+    // role key whenever promote_waitlist() moves an entry into a booking,
+    // so patients are told however the capacity was freed.
+    if (token === SUPABASE_SERVICE_ROLE_KEY) {
+      const { notifyWaitlist, campusId, targetDate } = await req.json();
+      if (!notifyWaitlist || !campusId || !targetDate) {
+        return new Response(JSON.stringify({ error: "Invalid request body" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const { sent, failed } = await sendWaitlistNotifications(supabaseAdmin, campusId, targetDate);
+      return new Response(JSON.stringify({ success: true, sent, failed }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Verify the user's JWT token
     const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
     
     if (authError || !user) {
@@ -176,7 +340,7 @@ serve(async (req) => {
     // Check if user has valid role
     const { data: profile, error: profileError } = await supabaseAdmin
       .from("profiles")
-      .select("role")
+      .select("role, first_name, last_name")
       .eq("id", user.id)
       .single();
 
@@ -196,10 +360,28 @@ serve(async (req) => {
     }
 
     const body = await req.json();
-    const { to, subject, html, targetDate, campusId, customTemplate, timeOfDay, overrideStartTime, overrideEndTime } = body;
+    const { to, subject, html, appointmentId, emailKind, targetDate, campusId, customTemplate, timeOfDay, overrideStartTime, overrideEndTime, physicalExamReminders } = body;
+    const actor = { id: user.id, ...profile };
 
     // Mode 1: Send a single email (used by booking confirmation)
     if (to && subject && html) {
+      // Attach a calendar event when the email is about an appointment,
+      // but only when it is going to that appointment's own patient
+      let attachments: { filename: string; content: string }[] | undefined;
+      let historyAppointmentId: string | null = null;
+      if (appointmentId) {
+        const { data: appt } = await supabaseAdmin
+          .from("appointments")
+          .select("id, appointment_date, start_time, end_time, appointment_type, status, time_of_day, updated_at, patient_email, campuses:campus_id (name, address)")
+          .eq("id", appointmentId)
+          .maybeSingle();
+        if (appt && appt.patient_email?.toLowerCase() === String(to).toLowerCase()) {
+          const campus = Array.isArray(appt.campuses) ? appt.campuses[0] : appt.campuses;
+          attachments = [buildIcsAttachment(appt, campus)];
+          historyAppointmentId = appt.id;
+        }
+      }
+
       const res = await fetch("https://api.resend.com/emails", {
         method: "POST",
         headers: {
@@ -211,6 +393,7 @@ serve(async (req) => {
           to,
           subject,
           html,
+          attachments,
         }),
       });
 
@@ -219,11 +402,114 @@ serve(async (req) => {
         throw new Error(data.message || "Failed to send email");
       }
 
+      if (historyAppointmentId && (emailKind === "confirmation" || emailKind === "reminder")) {
+        await recordEmailHistory(supabaseAdmin, [historyAppointmentId], emailKind === "confirmation" ? "confirmation_sent" : "reminder_sent", actor);
+      }
+
       return new Response(JSON.stringify({ success: true, data }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
+    // Mode 4: Remind students and employees without a physical exam this
+    // academic year. The list comes from physical_exam_compliance() run as
+    // the caller, so nurses can only reach their own campus.
+    if (physicalExamReminders?.yearStart) {
+      if (!["admin", "supervisor", "nurse"].includes(profile.role)) {
+        return new Response(JSON.stringify({ error: "Unauthorized - Invalid role" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const supabaseAsCaller = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { yearStart, campusId: filterCampusId, collegeId, departmentId } = physicalExamReminders;
+      const { data: rows, error: fetchError } = await supabaseAsCaller.rpc("physical_exam_compliance", {
+        p_year_start: yearStart,
+        p_campus_id: filterCampusId || null,
+        p_college_id: collegeId || null,
+        p_department_id: departmentId || null,
+      });
+
+      if (fetchError) {
+        return new Response(JSON.stringify({ error: fetchError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const cooldownMs = PHYSICAL_EXAM_REMINDER_COOLDOWN_DAYS * 24 * 60 * 60 * 1000;
+      const missing = (rows || []).filter((r: any) => !r.completed_on && !r.scheduled_on);
+      const due = missing.filter((r: any) =>
+        r.email?.includes("@") &&
+        (!r.last_reminded_at || Date.now() - new Date(r.last_reminded_at).getTime() >= cooldownMs)
+      );
+      const skipped = missing.length - due.length;
+
+      const startYear = Number(String(yearStart).slice(0, 4));
+      const deadline = new Date(`${startYear + 1}-05-31T00:00:00`).toLocaleDateString("en-US", {
+        year: "numeric", month: "long", day: "numeric",
+      });
+      const labelsByCampus = new Map<string, Record<string, string>>();
+      let sent = 0;
+      let failed = 0;
+      const errors: string[] = [];
+      const remindedIds: string[] = [];
+
+      for (const row of due) {
+        try {
+          if (row.campus_id && !labelsByCampus.has(row.campus_id)) {
+            labelsByCampus.set(row.campus_id, await loadTypeLabels(supabaseAdmin, row.campus_id));
+          }
+          const typeLabel = (row.campus_id && labelsByCampus.get(row.campus_id)?.physical_exam) || DEFAULT_TYPE_LABELS.physical_exam;
+          const messageHtml = `<p class="text-dark" style="color:#000000;font-size:14px;line-height:1.6;margin:0 0 20px 0;">Hello ${row.full_name || "Valued Patient"},<br><br>Our records show you have not yet had your annual physical examination for AY ${startYear}–${startYear + 1}. Please book one from the clinic booking page at your earliest convenience. If you have already had it done, kindly let the clinic know so we can update your record.</p>`;
+          const emailHtml = buildEmailHtml(messageHtml, `On or before ${deadline}`, typeLabel, "Book from the clinic booking page");
+
+          const res = await fetch("https://api.resend.com/emails", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${RESEND_API_KEY}`,
+            },
+            body: JSON.stringify({
+              from: "LDCU Clinic <noreply@citattendance.info>",
+              to: row.email,
+              subject: "Annual Physical Examination Reminder - LDCU Clinic",
+              html: emailHtml,
+            }),
+          });
+
+          if (!res.ok) {
+            const errData = await res.json();
+            throw new Error(errData.message || "Send failed");
+          }
+          sent++;
+          remindedIds.push(row.profile_id);
+        } catch (emailError: any) {
+          failed++;
+          errors.push(`${row.email}: ${emailError.message}`);
+        }
+      }
+
+      if (remindedIds.length > 0) {
+        const { error: logError } = await supabaseAdmin.from("physical_exam_reminders").insert(
+          remindedIds.map((id) => ({ profile_id: id, academic_year_start: yearStart, sent_by: user.id })),
+        );
+        if (logError) console.error("Failed to record physical exam reminders:", logError.message);
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        message: `Sent ${sent} physical exam reminder(s)`,
+        sent, skipped, failed,
+        errors: errors.length > 0 ? errors : undefined,
+      }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     // Mode 2: Send bulk reminders for a date (used by Send Reminders button)
     if (targetDate && campusId) {
       let dateStr: string;
@@ -242,7 +528,7 @@ serve(async (req) => {
       // Fetch scheduled appointments for the date (optionally filtered by AM/PM)
       let query = supabaseAdmin
         .from("appointments")
-        .select("id, appointment_date, start_time, end_time, appointment_type, patient_name, patient_email, status, time_of_day")
+        .select("id, appointment_date, start_time, end_time, appointment_type, patient_name, patient_email, status, time_of_day, updated_at")
         .eq("appointment_date", dateStr)
         .eq("campus_id", campusId)
         .eq("status", "scheduled");
@@ -266,22 +552,26 @@ serve(async (req) => {
         });
       }
 
+      const { data: campus } = await supabaseAdmin
+        .from("campuses")
+        .select("name, address")
+        .eq("id", campusId)
+        .maybeSingle();
+      const typeLabels = await loadTypeLabels(supabaseAdmin, campusId);
+
       const withEmail = appointments.filter((a: any) => a.patient_email?.includes("@"));
       const skipped = appointments.length - withEmail.length;
       let sent = 0;
       let failed = 0;
       const errors: string[] = [];
+      const sentIds: string[] = [];
 
       for (const appt of withEmail) {
         try {
           const formattedDate = new Date(appt.appointment_date + "T00:00:00").toLocaleDateString("en-US", {
             weekday: "long", year: "numeric", month: "long", day: "numeric",
           });
-          const appointmentTypeLabel = appt.appointment_type === "physical_exam"
-            ? "Physical Examination"
-            : appt.appointment_type === "dental"
-            ? "Dental"
-            : "Consultation";
+          const appointmentTypeLabel = typeLabels[appt.appointment_type] ?? appt.appointment_type;
           const scheduleLabel = buildScheduleLabel(appt.time_of_day, overrideStartTime ?? appt.start_time, overrideEndTime ?? null);
 
           // Build email — always driven by the custom template from the UI
@@ -312,6 +602,7 @@ serve(async (req) => {
               to: appt.patient_email,
               subject: emailSubject,
               html: emailHtml,
+              attachments: [buildIcsAttachment(appt, campus)],
             }),
           });
 
@@ -320,12 +611,15 @@ serve(async (req) => {
             throw new Error(errData.message || "Send failed");
           }
           sent++;
+          sentIds.push(appt.id);
         } catch (emailError: any) {
           failed++;
           errors.push(`${appt.patient_email}: ${emailError.message}`);
         }
       }
 
+      await recordEmailHistory(supabaseAdmin, sentIds, "reminder_sent", actor);
+
       return new Response(JSON.stringify({
         success: true,
         message: `Sent ${sent} reminder(s) for ${dateStr}`,
@@ -3,13 +3,27 @@
 -- Prevents overbooking when two supervisors reschedule
 -- simultaneously. Uses advisory locks per target date.
 --
+-- Also honours the per-type buckets from add_type_capacity.sql.
+--
+-- Optionally moves the appointment to another session (AM/PM)
+-- or, on slot-mode campuses, another slot; the AM/PM and slot
+-- limits are then checked the same way book_appointment() does.
+-- Used directly by the reschedule screens and by
+-- approve_reschedule_request() (see create_reschedule_requests.sql).
+--
+-- Run after add_slot_booking.sql and add_type_capacity.sql.
 -- Safe to re-run. Run in Supabase SQL Editor.
 -- ============================================================
 
+-- The session / slot arguments were added later; drop the old signature
+DROP FUNCTION IF EXISTS reschedule_appointment(UUID, DATE, UUID);
+
 CREATE OR REPLACE FUNCTION reschedule_appointment(
   p_appointment_id  UUID,
   p_target_date     DATE,
-  p_campus_id       UUID
+  p_campus_id       UUID,
+  p_time_of_day     TEXT DEFAULT NULL,
+  p_start_time      TEXT DEFAULT NULL
 )
 RETURNS VOID
 LANGUAGE plpgsql
@@ -18,14 +32,39 @@ SET search_path = public
 AS $$
 DECLARE
   v_lock_key  BIGINT;
+  v_old_lock_key BIGINT;
   v_max       INT;
   v_current   INT;
+  v_type      TEXT;
+  v_type_max  INT;
+  v_type_current INT;
+  v_apt         appointments%ROWTYPE;
+  v_time_of_day TEXT;
+  v_start_time  TIME;
+  v_end_time    TIME;
+  v_max_session INT;
+  v_sched       schedule_settings%ROWTYPE;
+  v_taken       INT;
 BEGIN
-  -- 1. Compute lock key for the TARGET date + campus
-  v_lock_key := abs(hashtext(p_campus_id::text || p_target_date::text));
+  -- Only clinic staff move appointments; the service role has no
+  -- profile, so it is let through explicitly
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(get_my_role(), '') NOT IN ('admin', 'supervisor', 'nurse') THEN
+    RAISE EXCEPTION 'NOT_ALLOWED: Only clinic staff can reschedule appointments.';
+  END IF;
 
-  -- 2. Acquire advisory lock (transaction-scoped)
-  PERFORM pg_advisory_xact_lock(v_lock_key);
+  -- 1. Compute lock keys for the appointment's current date + campus
+  --    (the waitlist trigger locks it once the appointment moves off)
+  --    and for the TARGET date + campus
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+
+  v_old_lock_key := abs(hashtext(v_apt.campus_id::text || v_apt.appointment_date::text));
+  v_lock_key     := abs(hashtext(p_campus_id::text || p_target_date::text));
+
+  -- 2. Acquire both advisory locks (transaction-scoped) in key order, so
+  --    two reschedules in opposite directions cannot deadlock
+  PERFORM pg_advisory_xact_lock(LEAST(v_old_lock_key, v_lock_key));
+  PERFORM pg_advisory_xact_lock(GREATEST(v_old_lock_key, v_lock_key));
 
   -- 3. Get max bookings for this campus+date
   SELECT
@@ -43,21 +82,119 @@ BEGIN
 
   v_max := COALESCE(v_max, 50);
 
-  -- 4. Count current active bookings on target date
+  -- 4. Count current active bookings on target date (a same-day
+  --    session change must not count the appointment itself)
   SELECT count(*)::INT INTO v_current
   FROM appointments
   WHERE campus_id = p_campus_id
     AND appointment_date = p_target_date
-    AND status NOT IN ('cancelled');
+    AND status NOT IN ('cancelled')
+    AND id <> p_appointment_id;
 
   -- 5. Reject if at capacity
   IF v_current >= v_max THEN
     RAISE EXCEPTION 'FULLY_BOOKED: Target date % has reached the maximum of % bookings.', p_target_date, v_max;
   END IF;
 
-  -- 6. Update the appointment
+  -- 6. Reject if the appointment's type bucket is full on the target date
+  SELECT appointment_type::TEXT INTO v_type
+  FROM appointments
+  WHERE id = p_appointment_id;
+
+  v_type_max := get_type_capacity(p_campus_id, p_target_date, v_type);
+
+  IF v_type_max IS NOT NULL THEN
+    SELECT count(*)::INT INTO v_type_current
+    FROM appointments
+    WHERE campus_id = p_campus_id
+      AND appointment_date = p_target_date
+      AND appointment_type::TEXT = v_type
+      AND status NOT IN ('cancelled')
+      AND id <> p_appointment_id;
+
+    IF v_type_current >= v_type_max THEN
+      RAISE EXCEPTION 'FULLY_BOOKED_TYPE: % bookings on % have reached the maximum of %.',
+        initcap(replace(v_type, '_', ' ')), p_target_date, v_type_max;
+    END IF;
+  END IF;
+
+  -- 7. Work out the new session and times (unchanged unless asked)
+  SELECT * INTO v_apt FROM appointments WHERE id = p_appointment_id;
+
+  v_time_of_day := COALESCE(p_time_of_day, v_apt.time_of_day);
+  v_start_time  := v_apt.start_time;
+  v_end_time    := v_apt.end_time;
+
+  IF p_start_time IS NOT NULL THEN
+    -- Slot mode: the slot must exist in the target day's template and have room
+    SELECT * INTO v_sched
+    FROM schedule_settings
+    WHERE campus_id = p_campus_id
+      AND day_of_week = EXTRACT(DOW FROM p_target_date)::INT
+      AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'INVALID_SLOT: No time slots are configured for %.', p_target_date;
+    END IF;
+
+    v_start_time := p_start_time::time;
+    v_end_time   := v_start_time + make_interval(mins => v_sched.slot_duration);
+
+    IF v_start_time < v_sched.start_time
+      OR v_end_time > v_sched.end_time
+      OR (EXTRACT(EPOCH FROM (v_start_time - v_sched.start_time))::INT / 60) % v_sched.slot_duration <> 0
+    THEN
+      RAISE EXCEPTION 'INVALID_SLOT: % is not a valid time slot on %.', to_char(v_start_time, 'HH24:MI'), p_target_date;
+    END IF;
+
+    SELECT count(*)::INT INTO v_taken
+    FROM appointments
+    WHERE campus_id = p_campus_id
+      AND appointment_date = p_target_date
+      AND start_time = v_start_time
+      AND status NOT IN ('cancelled')
+      AND id <> p_appointment_id;
+
+    IF v_taken >= v_sched.max_appointments THEN
+      RAISE EXCEPTION 'FULLY_BOOKED_SLOT: The % slot on % has reached the maximum of % bookings.',
+        to_char(v_start_time, 'HH24:MI'), p_target_date, v_sched.max_appointments;
+    END IF;
+
+    v_time_of_day := CASE WHEN v_start_time < TIME '12:00' THEN 'AM' ELSE 'PM' END;
+  ELSIF p_time_of_day IS NOT NULL AND p_time_of_day IS DISTINCT FROM v_apt.time_of_day THEN
+    v_start_time := CASE p_time_of_day WHEN 'AM' THEN TIME '08:00' ELSE TIME '13:00' END;
+    v_end_time   := CASE p_time_of_day WHEN 'AM' THEN TIME '12:00' ELSE TIME '17:00' END;
+  END IF;
+
+  -- 8. AM/PM sub-capacity when a session or slot was requested
+  IF p_time_of_day IS NOT NULL OR p_start_time IS NOT NULL THEN
+    SELECT CASE v_time_of_day WHEN 'AM' THEN dov.max_am_bookings ELSE dov.max_pm_bookings END
+    INTO v_max_session
+    FROM day_overrides dov
+    WHERE dov.campus_id = p_campus_id AND dov.override_date = p_target_date;
+  END IF;
+
+  IF v_max_session IS NOT NULL THEN
+    SELECT count(*)::INT INTO v_taken
+    FROM appointments
+    WHERE campus_id = p_campus_id
+      AND appointment_date = p_target_date
+      AND time_of_day = v_time_of_day
+      AND status NOT IN ('cancelled')
+      AND id <> p_appointment_id;
+
+    IF v_taken >= v_max_session THEN
+      RAISE EXCEPTION 'FULLY_BOOKED_%: The % session on % has reached the maximum of % bookings.',
+        v_time_of_day, v_time_of_day, p_target_date, v_max_session;
+    END IF;
+  END IF;
+
+  -- 9. Update the appointment
   UPDATE appointments
   SET appointment_date = p_target_date,
+      time_of_day = v_time_of_day,
+      start_time = v_start_time,
+      end_time = v_end_time,
       status = 'scheduled'
   WHERE id = p_appointment_id;
 END;
@@ -0,0 +1,105 @@
+-- ============================================================
+-- LDCU Clinic — Test: joining a waitlist with the type catalog
+-- join_waitlist() must keep working once
+-- create_appointment_type_catalog.sql has added its trigger to
+-- waitlist_entries (whose appointment_type column is TEXT, not the
+-- appointment_type enum), and the trigger must still reject types
+-- the campus has switched off or does not know.
+--
+-- Needs at least one campus and one student with no scheduled
+-- appointment. The test date is closed to bookings with a day
+-- override, since only full sessions take a waitlist. Runs inside a
+-- transaction and rolls everything back.
+-- Run in Supabase SQL Editor after the setup scripts; it raises on
+-- the first failed check.
+-- ============================================================
+
+BEGIN;
+
+DO $$
+DECLARE
+  v_campus_id  UUID;
+  v_patient_id UUID;
+  v_date       DATE := (now() AT TIME ZONE 'Asia/Manila')::DATE + 1;
+  v_entry      JSON;
+BEGIN
+  SELECT id INTO v_campus_id FROM campuses ORDER BY name LIMIT 1;
+
+  SELECT p.id INTO v_patient_id
+  FROM profiles p
+  WHERE p.role = 'student'
+    AND NOT EXISTS (
+      SELECT 1 FROM appointments a
+      WHERE a.patient_id = p.id AND a.status = 'scheduled'
+    )
+  LIMIT 1;
+
+  IF v_campus_id IS NULL OR v_patient_id IS NULL THEN
+    RAISE EXCEPTION 'SETUP: Needs a campus and a student without a scheduled appointment.';
+  END IF;
+
+  -- Fill the date so join_waitlist() accepts the entries
+  INSERT INTO day_overrides (campus_id, override_date, max_bookings)
+  VALUES (v_campus_id, v_date, 0)
+  ON CONFLICT (campus_id, override_date) DO UPDATE SET max_bookings = 0;
+
+  -- Act as the student for auth.uid() / get_my_role()
+  PERFORM set_config('request.jwt.claims', json_build_object('sub', v_patient_id, 'role', 'authenticated')::text, true);
+  PERFORM set_config('request.jwt.claim.sub', v_patient_id::text, true);
+
+  DELETE FROM waitlist_entries
+  WHERE patient_id = v_patient_id AND campus_id = v_campus_id AND waitlist_date = v_date;
+
+  -- 1. An offered type joins the waitlist
+  UPDATE appointment_type_catalog
+  SET enabled = true, allowed_booker_roles = ARRAY['student', 'staff']
+  WHERE campus_id = v_campus_id AND code = 'consultation';
+
+  v_entry := join_waitlist(v_campus_id, v_date, 'AM', 'consultation');
+  IF v_entry->>'appointment_type' IS DISTINCT FROM 'consultation' OR v_entry->>'status' IS DISTINCT FROM 'waiting' THEN
+    RAISE EXCEPTION 'FAIL: join_waitlist() returned %', v_entry;
+  END IF;
+
+  -- 2. A type the campus switched off is rejected
+  UPDATE appointment_type_catalog
+  SET enabled = false
+  WHERE campus_id = v_campus_id AND code = 'consultation';
+
+  BEGIN
+    PERFORM join_waitlist(v_campus_id, v_date, 'PM', 'consultation');
+    RAISE EXCEPTION 'FAIL: a disabled type joined the waitlist';
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM NOT LIKE 'TYPE_NOT_OFFERED:%' THEN
+      RAISE;
+    END IF;
+  END;
+
+  -- 3. A code outside the enum is rejected the same way, not with a cast error
+  BEGIN
+    PERFORM join_waitlist(v_campus_id, v_date, 'PM', 'not_a_type');
+    RAISE EXCEPTION 'FAIL: an unknown type joined the waitlist';
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM NOT LIKE 'TYPE_NOT_OFFERED:%' THEN
+      RAISE;
+    END IF;
+  END;
+
+  -- 4. A type students may not book is rejected for a student
+  UPDATE appointment_type_catalog
+  SET enabled = true, allowed_booker_roles = ARRAY['staff']
+  WHERE campus_id = v_campus_id AND code = 'consultation';
+
+  BEGIN
+    PERFORM join_waitlist(v_campus_id, v_date, 'PM', 'consultation');
+    RAISE EXCEPTION 'FAIL: a staff-only type joined a student to the waitlist';
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM NOT LIKE 'TYPE_NOT_ALLOWED:%' THEN
+      RAISE;
+    END IF;
+  END;
+END;
+$$;
+
+SELECT 'waitlist_type_catalog: all checks passed' AS status;
+
+ROLLBACK;